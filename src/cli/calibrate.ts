@@ -0,0 +1,99 @@
+// ============================================================
+// Tell-Tale Bot — Scoring Calibration CLI
+// ============================================================
+// Runs a scoring model over labeled addresses with recorded
+// WalletData fixtures, fully offline, and prints the evaluation.
+// Exits 1 when a --min-* gate fails, so CI can block scoring
+// changes that lose accuracy.
+//
+//   npm run calibrate -- --fixtures fixtures/wallets \
+//     --scam forta/phishing_scams.csv --benign benign.csv \
+//     [--labels labeled.json] [--model candidate.json] \
+//     [--flag-level HIGH|MEDIUM] [--min-accuracy 0.85] \
+//     [--min-precision 0.85] [--min-auc 0.9] [--json]
+// ============================================================
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+
+const USAGE =
+  'Usage: calibrate --fixtures <dir> (--labels <file> | --scam <file> | --benign <file>)... ' +
+  '[--model <file>] [--flag-level HIGH|MEDIUM] [--min-accuracy n] [--min-precision n] [--min-auc n] [--json]';
+
+// Calibration never talks to Neynar or OpenAI — satisfy config's
+// required keys so it runs without a bot .env
+process.env.NEYNAR_API_KEY ||= 'offline';
+process.env.NEYNAR_SIGNER_UUID ||= 'offline';
+process.env.BOT_FID ||= '0';
+process.env.SUMMARY_PROVIDER ||= 'template';
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      fixtures: { type: 'string' },
+      labels: { type: 'string', multiple: true },
+      scam: { type: 'string', multiple: true },
+      benign: { type: 'string', multiple: true },
+      model: { type: 'string' },
+      'flag-level': { type: 'string', default: 'HIGH' },
+      'min-accuracy': { type: 'string' },
+      'min-precision': { type: 'string' },
+      'min-auc': { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const flagLevel = values['flag-level'];
+  if (!values.fixtures || (flagLevel !== 'HIGH' && flagLevel !== 'MEDIUM')) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { parseLabeledDataset, evaluateScoring, formatCalibrationReport } = await import('../services/calibration.js');
+  const { loadWalletFixture } = await import('../services/walletFixtures.js');
+  const { getScoringModel, loadScoringModel } = await import('../services/scoringModel.js');
+
+  const read = (file: string) => readFileSync(file, 'utf8');
+  const dataset = [
+    ...(values.labels ?? []).flatMap((file) => parseLabeledDataset(read(file), file)),
+    ...(values.scam ?? []).flatMap((file) => parseLabeledDataset(read(file), file, 'scam')),
+    ...(values.benign ?? []).flatMap((file) => parseLabeledDataset(read(file), file, 'benign')),
+  ];
+  if (dataset.length === 0) {
+    console.error('No labeled addresses found.\n' + USAGE);
+    return 2;
+  }
+
+  const model = values.model ? loadScoringModel(values.model) : getScoringModel();
+  if (!model) return 2; // loadScoringModel logged why
+
+  const fixtures = values.fixtures;
+  const report = evaluateScoring(dataset, (address) => loadWalletFixture(fixtures, address), model);
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatCalibrationReport(report));
+
+  const point = report.operatingPoints.find((p) => p.flagLevel === flagLevel)!;
+  const failures = [
+    gate('accuracy', point.accuracy, values['min-accuracy']),
+    gate('precision', point.precision, values['min-precision']),
+    gate('AUC', report.auc, values['min-auc']),
+  ].filter((f): f is string => f !== null);
+
+  for (const failure of failures) console.error(`[Calibrate] Gate failed: ${failure}`);
+  return failures.length > 0 ? 1 : 0;
+}
+
+/** Failure message when a --min-* gate is set and not met */
+function gate(metric: string, actual: number | null, minimum: string | undefined): string | null {
+  if (minimum === undefined) return null;
+  const min = parseFloat(minimum);
+  if (actual !== null && actual >= min) return null;
+  return `${metric} ${actual === null ? 'n/a' : actual.toFixed(3)} < ${min}`;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('[Calibrate] Failed:', error);
+    process.exit(2);
+  },
+);
@@ -3,7 +3,7 @@
 // ============================================================
 
 import dotenv from 'dotenv';
-import { RpcProviderConfig } from './types/index.js';
+import { FixtureMode, RpcProviderConfig, SummaryProviderName } from './types/index.js';
 
 dotenv.config();
 
@@ -19,6 +19,30 @@ function optionalEnv(key: string, fallback: string): string {
   return process.env[key] || fallback;
 }
 
+const SUMMARY_PROVIDERS: SummaryProviderName[] = ['openai', 'openai-compatible', 'template'];
+
+function summaryProviderEnv(): SummaryProviderName {
+  const value = optionalEnv('SUMMARY_PROVIDER', 'openai');
+  if (!SUMMARY_PROVIDERS.includes(value as SummaryProviderName)) {
+    throw new Error(
+      `Invalid SUMMARY_PROVIDER "${value}" — expected one of: ${SUMMARY_PROVIDERS.join(', ')}`,
+    );
+  }
+  return value as SummaryProviderName;
+}
+
+const summaryProvider = summaryProviderEnv();
+
+const FIXTURE_MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+function fixtureModeEnv(): FixtureMode {
+  const value = optionalEnv('FIXTURE_MODE', 'off');
+  if (!FIXTURE_MODES.includes(value as FixtureMode)) {
+    throw new Error(`Invalid FIXTURE_MODE "${value}" — expected one of: ${FIXTURE_MODES.join(', ')}`);
+  }
+  return value as FixtureMode;
+}
+
 export const config = {
   // Server
   port: parseInt(optionalEnv('PORT', '3000'), 10),
@@ -30,12 +54,21 @@ export const config = {
   botFid: parseInt(requireEnv('BOT_FID'), 10),
   webhookSecret: optionalEnv('WEBHOOK_SECRET', ''),
 
-  // OpenAI
-  openaiApiKey: requireEnv('OPENAI_API_KEY'),
+  // Summary stage (LLM provider)
+  summaryProvider,
+  // Only required when the OpenAI provider is selected
+  openaiApiKey:
+    summaryProvider === 'openai'
+      ? requireEnv('OPENAI_API_KEY')
+      : optionalEnv('OPENAI_API_KEY', ''),
+  summaryModel: optionalEnv('SUMMARY_MODEL', 'gpt-4o'),
+  summaryBaseUrl: optionalEnv('SUMMARY_BASE_URL', ''), // OpenAI-compatible endpoint
+  summaryApiKey: optionalEnv('SUMMARY_API_KEY', ''),
 
   // Block Explorer (Blockscout — free, Etherscan-compatible API for Base)
   basescanApiKey: optionalEnv('BASESCAN_API_KEY', ''),
   basescanBaseUrl: 'https://base.blockscout.com/api',
+  blockscoutApiV2Url: 'https://base.blockscout.com/api/v2',
   basescanRateLimit: 5, // calls per second
 
   // Base RPC fallback chain (ordered by priority)
@@ -62,10 +95,91 @@ export const config = {
     },
   ].filter(Boolean) as RpcProviderConfig[],
 
+  // Ethereum L1 RPC fallback chain — ENS name resolution only
+  mainnetRpcProviders: [
+    {
+      name: 'L1 Primary',
+      url: optionalEnv('ETH_RPC_URL', 'https://ethereum-rpc.publicnode.com'),
+      priority: 1,
+    },
+    {
+      name: 'L1 1RPC',
+      url: 'https://1rpc.io/eth',
+      priority: 2,
+    },
+    {
+      name: 'L1 LlamaRPC',
+      url: 'https://eth.llamarpc.com',
+      priority: 3,
+    },
+  ] as RpcProviderConfig[],
+
   // Analysis
   maxTransactionsToFetch: 100,
+
+  // History depth for paginated fetches (per list: txs, internal, token transfers)
+  historyMaxRecords: parseInt(optionalEnv('HISTORY_MAX_RECORDS', '1000'), 10),
+  historyMaxAgeDays: parseInt(optionalEnv('HISTORY_MAX_AGE_DAYS', '0'), 10), // 0 = no time window
+  historyStartBlock: parseInt(optionalEnv('HISTORY_START_BLOCK', '0'), 10),
+  historyEndBlock: parseInt(optionalEnv('HISTORY_END_BLOCK', '99999999'), 10),
+  historyPageSize: 500,
+  historyMaxPages: 20, // hard stop per list, regardless of depth
+  // "--deep" analyses: more records and no time window
+  historyDeepMaxRecords: parseInt(optionalEnv('HISTORY_DEEP_MAX_RECORDS', '5000'), 10),
+
+  // Funding-source tracing: hops to follow backwards from the target
+  fundingTraceDepth: parseInt(optionalEnv('FUNDING_TRACE_DEPTH', '3'), 10),
+
+  // Connected-wallet graph: 1 = target's counterparties, 2 = also theirs
+  graphDepth: parseInt(optionalEnv('GRAPH_DEPTH', '2'), 10) >= 2 ? 2 as const : 1 as const,
+  graphExpandNeighbors: 5, // 1-hop neighbors expanded to 2 hops (busiest first)
+  graphNeighborTxLimit: 50, // transfers fetched per expanded neighbor
+  graphFundingChecks: 15, // cluster candidates whose real first funding is looked up
+  graphTargetAnchors: false, // let the target itself anchor funder/sweep clusters
+
+  // Token honeypot/tax simulation (Uniswap V2-style router on Base)
+  tokenSimRouter: optionalEnv('TOKEN_SIM_ROUTER', '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24'),
+  tokenSimWeth: '0x4200000000000000000000000000000000000006',
+  tokenSimBuyEth: '0.01', // ETH spent on the simulated buy
+  tokenAnalysisLimit: 5, // max tokens simulated per analysis
+
+  // Name resolution: Basenames via the Base L2 resolver, other .eth names via ENS on L1
+  basenameResolver: optionalEnv('BASENAME_RESOLVER', '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD'),
+  nameCacheTtlSeconds: 3600, // names and primary names change rarely
+
+  // Holdings snapshot
+  holdingsMaxPages: 5, // Blockscout token-balance pages (50 items each)
+  holdingsRpcTokenLimit: 50, // ERC-20s checked with balanceOf when Blockscout is down
+
+  // Approval analysis (Approval / ApprovalForAll / Permit2 event logs)
+  logMaxPages: 5, // getLogs calls per event type (1,000 logs each)
+  approvalSpenderChecks: 10, // unlabeled spenders checked for verified source
+
+  // Deployer / rug-pull history
+  deployerMaxPages: 3, // Blockscout transaction pages scanned for contract creations (50 each)
+  deployerMaxContracts: 10, // deployed contracts checked per analysis
+
+  // Scoring model (weights, thresholds, cut-offs) — the bundled default
+  // unless a JSON model file is given
+  scoringModelPath: optionalEnv('SCORING_MODEL_PATH', ''),
+  // A/B: a challenger model scores this share of addresses (0-100 %)
+  scoringChallengerPath: optionalEnv('SCORING_CHALLENGER_PATH', ''),
+  scoringChallengerShare: parseInt(optionalEnv('SCORING_CHALLENGER_SHARE', '0'), 10),
+
+  // Transaction pre-check
+  precheckMaxContracts: 3, // contracts (target + spenders) given a full contract analysis
+
+  // Record/replay of upstream responses, one bundle per analysis:
+  // record = live calls saved to FIXTURE_DIR, replay = served from it
+  // with no network access
+  fixtureMode: fixtureModeEnv(),
+  fixtureDir: optionalEnv('FIXTURE_DIR', 'fixtures/bundles'),
+
   cacheTtlSeconds: 300, // 5 minutes
   maxReportLength: 1024, // Farcaster cast byte limit
+  // addresses analyzed for one mention (pasted lists, a profile's verified wallets)
+  mentionMaxAddresses: parseInt(optionalEnv('MENTION_MAX_ADDRESSES', '10'), 10),
+  batchMaxAddresses: parseInt(optionalEnv('BATCH_MAX_ADDRESSES', '100'), 10), // per POST /analyze/batch
 
   // Disclaimer appended to every report
   disclaimer:
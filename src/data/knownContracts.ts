@@ -1,7 +1,7 @@
 // ============================================================
 // Tell-Tale Bot — Known Contract Registry (Base)
 // ============================================================
-// Verified, trusted contracts on Base that should:
+// Verified, trusted contracts (and exchange hot wallets) on Base that should:
 //   1. Never trigger scam-DB false positives
 //   2. Provide human-readable labels in reports
 //
@@ -17,7 +17,7 @@
 export interface KnownContract {
   address: string;   // lowercase
   label: string;     // human-readable name
-  category: string;  // 'dex' | 'lending' | 'bridge' | 'token' | 'nft' | 'infra'
+  category: string;  // 'dex' | 'lending' | 'bridge' | 'token' | 'nft' | 'infra' | 'exchange'
 }
 
 /**
@@ -53,6 +53,11 @@ export const knownContracts: KnownContract[] = [
     label: 'Aerodrome V2 Router',
     category: 'dex',
   },
+  {
+    address: '0x000000000022d473030f116ddee9f6b43ac78ba3',
+    label: 'Uniswap Permit2',
+    category: 'dex',
+  },
 
   // ── Stablecoins ────────────────────────────────────────────
   {
@@ -95,6 +100,28 @@ export const knownContracts: KnownContract[] = [
     category: 'bridge',
   },
 
+  // ── Centralized Exchanges (hot wallets, same EOA on Base) ──
+  {
+    address: '0x71660c4005ba85c37ccec55d0c4493e66fe775d3',
+    label: 'Coinbase Hot Wallet 1',
+    category: 'exchange',
+  },
+  {
+    address: '0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43',
+    label: 'Coinbase Hot Wallet 10',
+    category: 'exchange',
+  },
+  {
+    address: '0x28c6c06298d514db089934071355e5743bf21d60',
+    label: 'Binance Hot Wallet 14',
+    category: 'exchange',
+  },
+  {
+    address: '0xf977814e90da44bfa03b6295a0616a897441acec',
+    label: 'Binance Hot Wallet 8',
+    category: 'exchange',
+  },
+
   // ── Lending / DeFi Protocols ───────────────────────────────
   {
     address: '0xa238dd80c259a72e81d7e4664a9801593f98d1c5',
@@ -139,6 +166,18 @@ export function isWhitelisted(address: string): boolean {
   return whitelistedAddresses.has(address.toLowerCase());
 }
 
+/** Map of lowercase address → full registry entry */
+const contractsByAddress: Map<string, KnownContract> = new Map(
+  knownContracts.map((c) => [c.address.toLowerCase(), c]),
+);
+
+/**
+ * Get the full registry entry for a known contract, or undefined.
+ */
+export function getKnownContract(address: string): KnownContract | undefined {
+  return contractsByAddress.get(address.toLowerCase());
+}
+
 /**
  * Get the label for a known contract, or undefined.
  */
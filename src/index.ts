@@ -4,19 +4,48 @@
 
 import express from 'express';
 import { config } from './config.js';
-import { extractAddress } from './utils/address.js';
 import { TtlCache, UserRateLimiter } from './utils/rateLimit.js';
+import { runAnalysis, runComparison } from './services/analysis.js';
 import { fetchWalletData } from './services/dataFetcher.js';
-import { computeRiskScore } from './services/riskScorer.js';
-import { generateReport, formatForCast } from './services/reportGenerator.js';
-import { postReply, verifyWebhookSignature } from './services/farcaster.js';
+import { deepHistoryDepth } from './services/basescan.js';
+import {
+  formatForCast,
+  formatThreadForCast,
+  formatApprovalsThread,
+  formatPrecheckThread,
+  formatReportSection,
+  formatScoreBreakdown,
+  formatComparisonThread,
+  formatBatchThread,
+  formatBatchTable,
+} from './services/reportGenerator.js';
+import { auditApprovals } from './services/approvals.js';
+import { precheckTransaction, precheckBundleName, parsePrecheckRequest } from './services/precheck.js';
+import { parseBatchRequest, runBatch } from './services/batch.js';
+import { comparisonKey } from './services/comparison.js';
+import { commandFromMention, formatHelp, formatSignalExplanation } from './services/commands.js';
+import { resolveAddressOrName } from './services/nameResolver.js';
+import { getScoringModel } from './services/scoringModel.js';
+import { postReply, postThread, verifyWebhookSignature } from './services/farcaster.js';
 import { seedLocalDb, getLocalDbSize } from './services/scamDb.js';
+import { withFixtureBundle } from './services/fixtureRecorder.js';
 import { scamSeedData } from './data/scamSeeds.js';
-import { NeynarCastEvent, WalletReport } from './types/index.js';
+import {
+  ApprovalSnapshot,
+  BotCommand,
+  NeynarCastEvent,
+  PrecheckInput,
+  WalletComparison,
+  WalletReport,
+} from './types/index.js';
 
 // ── Cache & Rate Limiting ──────────────────────────────────
 const reportCache = new TtlCache<WalletReport>(config.cacheTtlSeconds * 1000);
+const approvalsCache = new TtlCache<ApprovalSnapshot>(config.cacheTtlSeconds * 1000);
+const comparisonCache = new TtlCache<WalletComparison>(config.cacheTtlSeconds * 1000);
 const userLimiter = new UserRateLimiter(10, 60 * 60 * 1000); // 10 queries per hour per user
+const batchLimiter = new UserRateLimiter(5, 60 * 60 * 1000); // 5 batches per hour per client IP
+const QUERY_LIMIT_REPLY = '⏳ You\'ve reached the query limit (10/hour). Please try again later.';
 
 // ── Express App ────────────────────────────────────────────
 const app = express();
@@ -66,36 +95,32 @@ app.post('/webhook/neynar', async (req: any, res) => {
       `[Webhook] Mention from @${event.data.author.username} (FID: ${authorFid}): ${text.slice(0, 80)}...`,
     );
 
-    // Rate limit check
-    if (!userLimiter.checkAndRecord(authorFid)) {
-      await postReply(
-        '⏳ You\'ve reached the query limit (10/hour). Please try again later.',
-        castHash,
-      );
+    // Rate limit check — every address a mention analyzes is one query,
+    // so a list is cut to what the user has left this hour
+    const quota = userLimiter.remaining(authorFid);
+    if (quota === 0) {
+      await postReply(QUERY_LIMIT_REPLY, castHash);
       return;
     }
 
-    // Extract wallet address from the cast text
-    const address = extractAddress(text);
-    if (!address) {
-      await postReply(
-        '❓ I couldn\'t find a valid wallet address in your message. Please tag me with a Base wallet address (e.g., @TellTaleBot 0xabc...def).',
-        castHash,
-      );
+    const command = await commandFromMention(event.data, config.botFid);
+    const capped =
+      command.verb === 'analyze' && command.addresses.length > quota
+        ? { ...command, addresses: command.addresses.slice(0, quota) }
+        : command;
+    const cost = capped.verb === 'analyze' ? Math.max(1, capped.addresses.length) : 1;
+    if (!userLimiter.checkAndRecord(authorFid, cost)) {
+      await postReply(QUERY_LIMIT_REPLY, castHash);
       return;
     }
 
-    // Check cache
-    const cached = reportCache.get(address);
-    if (cached) {
-      console.log(`[Cache] Hit for ${address}`);
-      const castText = formatForCast(cached);
-      await postReply(castText, castHash);
-      return;
+    await handleCommand(capped, castHash);
+    if (command.verb === 'analyze' && capped !== command) {
+      await postReply(
+        `⏳ Checked the first ${quota} of ${command.addresses.length} addresses — the rest would go past your query limit (10/hour).`,
+        castHash,
+      );
     }
-
-    // Analyze the wallet
-    await analyzeAndReply(address, castHash);
   } catch (error) {
     console.error('[Webhook] Error processing event:', error);
   }
@@ -103,62 +128,347 @@ app.post('/webhook/neynar', async (req: any, res) => {
 
 // ── Manual Analysis Endpoint (for testing) ─────────────────
 app.get('/analyze/:address', async (req, res) => {
-  const address = extractAddress(req.params.address);
+  const address = await resolveAddressOrName(req.params.address);
   if (!address) {
-    return res.status(400).json({ error: 'Invalid wallet address' });
+    return res.status(400).json({ error: 'Invalid wallet address or unresolvable name' });
   }
 
   // Check cache
   const cached = reportCache.get(address);
   if (cached) {
-    return res.json({ cached: true, report: cached, cast: formatForCast(cached) });
+    return res.json({
+      cached: true,
+      report: cached,
+      cast: formatForCast(cached),
+      thread: formatThreadForCast(cached),
+    });
   }
 
   try {
-    const report = await runAnalysis(address);
-    return res.json({ cached: false, report, cast: formatForCast(report) });
+    const report = await analyzeAndCache(address);
+    return res.json({
+      cached: false,
+      report,
+      cast: formatForCast(report),
+      thread: formatThreadForCast(report),
+    });
   } catch (error) {
     console.error(`[API] Analysis failed for ${address}:`, error);
     return res.status(500).json({ error: 'Analysis failed' });
   }
 });
 
-// ── Core Analysis Pipeline ─────────────────────────────────
-async function runAnalysis(address: string): Promise<WalletReport> {
-  const startTime = Date.now();
-
-  // 1. Fetch all wallet data (parallelized)
-  console.log(`[Analysis] Starting analysis for ${address}`);
-  const walletData = await fetchWalletData(address);
+// ── Connected-Wallet Graph Endpoint ────────────────────────
+app.get('/graph/:address', async (req, res) => {
+  const address = await resolveAddressOrName(req.params.address);
+  if (!address) {
+    return res.status(400).json({ error: 'Invalid wallet address or unresolvable name' });
+  }
 
-  // 2. Compute risk score (rule-based heuristics)
-  const { score, level, signals } = computeRiskScore(walletData);
+  // Reuse a cached report's graph; otherwise fetch data only (no scoring/LLM)
+  const cached = reportCache.get(address);
+  if (cached?.graph) {
+    return res.json({ cached: true, graph: cached.graph });
+  }
 
-  // 3. Generate report (AI summary + template)
-  const report = await generateReport(walletData, score, level, signals, startTime);
+  try {
+    const data = await withFixtureBundle(`graph-${address}`, () => fetchWalletData(address));
+    if (!data.graph) {
+      return res.status(500).json({ error: 'Graph unavailable' });
+    }
+    return res.json({ cached: false, graph: data.graph });
+  } catch (error) {
+    console.error(`[API] Graph failed for ${address}:`, error);
+    return res.status(500).json({ error: 'Graph failed' });
+  }
+});
 
-  // 4. Cache the result
-  reportCache.set(address, report);
+// ── Approvals Audit Endpoint ───────────────────────────────
+app.get('/approvals/:address', async (req, res) => {
+  const address = await resolveAddressOrName(req.params.address);
+  if (!address) {
+    return res.status(400).json({ error: 'Invalid wallet address or unresolvable name' });
+  }
 
-  console.log(
-    `[Analysis] Complete for ${address}: ${level} (${score}/100) in ${report.responseTimeMs}ms`,
-  );
+  try {
+    const { cached, approvals } = await getApprovals(address);
+    if (!approvals) {
+      return res.status(500).json({ error: 'Approvals unavailable' });
+    }
+    return res.json({ cached, approvals, thread: formatApprovalsThread(address, approvals) });
+  } catch (error) {
+    console.error(`[API] Approvals failed for ${address}:`, error);
+    return res.status(500).json({ error: 'Approvals failed' });
+  }
+});
 
-  return report;
-}
+// ── Wallet Comparison Endpoint ─────────────────────────────
+app.get('/compare/:a/:b', async (req, res) => {
+  const [a, b] = await Promise.all([
+    resolveAddressOrName(req.params.a),
+    resolveAddressOrName(req.params.b),
+  ]);
+  if (!a || !b) {
+    return res.status(400).json({ error: 'Invalid wallet address or unresolvable name' });
+  }
+  if (a === b) {
+    return res.status(400).json({ error: 'Both sides are the same address' });
+  }
 
-async function analyzeAndReply(address: string, castHash: string): Promise<void> {
   try {
-    const report = await runAnalysis(address);
-    const castText = formatForCast(report);
-    await postReply(castText, castHash);
+    const comparison = await getComparison(a, b, false);
+    return res.json({ comparison, thread: formatComparisonThread(comparison) });
   } catch (error) {
-    console.error(`[Analysis] Failed for ${address}:`, error);
-    await postReply(
-      `❌ Analysis failed for ${address}. Please try again later.\n\n${config.disclaimer}`,
-      castHash,
+    console.error(`[API] Comparison failed for ${a} / ${b}:`, error);
+    return res.status(500).json({ error: 'Comparison failed' });
+  }
+});
+
+// ── Batch Analysis Endpoint ────────────────────────────────
+// Streams NDJSON: one {"type":"result"} line per address as it
+// completes, then a {"type":"summary"} line with totals and a table —
+// or a {"type":"error"} line if the batch itself breaks down.
+app.post('/analyze/batch', async (req, res) => {
+  const request = parseBatchRequest(req.body);
+  if (!request) {
+    return res.status(400).json({
+      error: `Expected {"addresses": [...]} with 1–${config.batchMaxAddresses} addresses or names`,
+    });
+  }
+  if (!batchLimiter.checkAndRecord(req.ip ?? 'unknown')) {
+    return res.status(429).json({ error: 'Batch limit reached (5/hour). Please try again later.' });
+  }
+
+  // Stop starting new analyses if the client goes away
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  res.status(200).type('application/x-ndjson');
+  const write = (line: object) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(line)}\n`);
+  };
+
+  try {
+    const summary = await runBatch(
+      request.addresses,
+      analyzeForBatch(request.deep),
+      (result) => write({ type: 'result', ...result }),
+      abort.signal,
     );
+    write({ type: 'summary', ...summary, table: formatBatchTable(summary), thread: formatBatchThread(summary) });
+  } catch (error) {
+    console.error('[API] Batch analysis failed:', error);
+    write({ type: 'error', error: 'Batch analysis failed' });
   }
+  return res.end();
+});
+
+// ── Transaction Pre-Check Endpoint ─────────────────────────
+app.post('/precheck', async (req, res) => {
+  const input = parsePrecheckRequest(req.body);
+  if (!input) {
+    return res.status(400).json({ error: 'Expected JSON { to, data, value?, from? } with hex calldata and a wei value' });
+  }
+
+  try {
+    const report = await precheckTransaction(input);
+    return res.json({ report, thread: formatPrecheckThread(report) });
+  } catch (error) {
+    console.error(`[API] Pre-check failed for ${input.to}:`, error);
+    return res.status(500).json({ error: 'Pre-check failed' });
+  }
+});
+
+// ── Mention Commands ───────────────────────────────────────
+async function handleCommand(command: BotCommand, castHash: string): Promise<void> {
+  switch (command.verb) {
+    case 'analyze': {
+      const [address, ...others] = command.addresses;
+      if (address && others.length === 0) {
+        await analyzeAndReply(address, command.deep, castHash, formatThreadForCast);
+      } else {
+        await analyzeAllAndReply(command.addresses, command.deep, castHash);
+      }
+      return;
+    }
+    case 'details':
+      await analyzeAndReply(command.address, command.deep, castHash, formatScoreBreakdown);
+      return;
+    case 'report': {
+      if (command.category === 'approvals') {
+        await auditAndReply(command.address, castHash);
+        return;
+      }
+      const category = command.category;
+      await analyzeAndReply(command.address, command.deep, castHash, (report) =>
+        formatReportSection(report, category),
+      );
+      return;
+    }
+    case 'compare':
+      await compareAndReply(command.addresses, command.deep, castHash);
+      return;
+    case 'explain':
+      await postReply(formatSignalExplanation(command.signal, getScoringModel()), castHash);
+      return;
+    case 'approvals':
+      await auditAndReply(command.address, castHash);
+      return;
+    case 'precheck':
+      await precheckAndReply(command.input, castHash);
+      return;
+    case 'help':
+      await postReply(formatHelp(command.topic), castHash);
+      return;
+    case 'usage':
+      await postReply(command.message, castHash);
+      return;
+  }
+}
+
+// ── Core Analysis Pipeline ─────────────────────────────────
+async function analyzeAndCache(address: string, deep = false): Promise<WalletReport> {
+  const report = await runAnalysis(address, undefined, deep ? deepHistoryDepth() : undefined);
+  reportCache.set(address, report);
+  return report;
+}
+
+/**
+ * A cached report, unless a deep analysis was asked for (the cache may
+ * hold one built from default-depth history), or a fresh analysis.
+ */
+async function getReport(address: string, deep: boolean): Promise<WalletReport> {
+  const cached = deep ? undefined : reportCache.get(address);
+  if (cached) {
+    console.log(`[Cache] Hit for ${address}`);
+    return cached;
+  }
+  return analyzeAndCache(address, deep);
+}
+
+// The fixture bundle also covers the replies, so a replay never posts
+async function analyzeAndReply(
+  address: string,
+  deep: boolean,
+  castHash: string,
+  format: (report: WalletReport) => string[],
+): Promise<void> {
+  await withFixtureBundle(address, async () => {
+    try {
+      const report = await getReport(address, deep);
+      await postThread(format(report), castHash);
+    } catch (error) {
+      console.error(`[Analysis] Failed for ${address}:`, error);
+      await postReply(
+        `❌ Analysis failed for ${address}. Please try again later.\n\n${config.disclaimer}`,
+        castHash,
+      );
+    }
+  });
+}
+
+/** Analyze one address of a batch in its own fixture bundle */
+function analyzeForBatch(deep: boolean): (address: string) => Promise<WalletReport> {
+  return (address) => withFixtureBundle(address, () => getReport(address, deep));
+}
+
+/**
+ * Several addresses in one mention (a pasted list, a profile's verified
+ * wallets): one compact verdict line per address instead of a full
+ * thread each.
+ */
+async function analyzeAllAndReply(addresses: string[], deep: boolean, castHash: string): Promise<void> {
+  const summary = await runBatch(addresses, analyzeForBatch(deep));
+  await postThread(formatBatchThread(summary), castHash);
+}
+
+/**
+ * A cached comparison (unless deep), or a fresh one. Both reports are
+ * cached too, so follow-up mentions about either address are instant.
+ * The pair is cached in either order; a hit keeps the order it was
+ * first compared in.
+ */
+async function getComparison(a: string, b: string, deep: boolean): Promise<WalletComparison> {
+  const key = comparisonKey(a, b).join(':');
+  const cached = deep ? undefined : comparisonCache.get(key);
+  if (cached) {
+    console.log(`[Cache] Hit for comparison ${a} / ${b}`);
+    return cached;
+  }
+
+  const comparison = await runComparison(a, b, undefined, deep ? deepHistoryDepth() : undefined);
+  comparisonCache.set(key, comparison);
+  reportCache.set(a, comparison.a);
+  reportCache.set(b, comparison.b);
+  return comparison;
+}
+
+// One bundle for the whole comparison, replies included
+async function compareAndReply(
+  [a, b]: [string, string],
+  deep: boolean,
+  castHash: string,
+): Promise<void> {
+  await withFixtureBundle(`compare-${comparisonKey(a, b).join('-')}`, async () => {
+    try {
+      const comparison = await getComparison(a, b, deep);
+      await postThread(formatComparisonThread(comparison), castHash);
+    } catch (error) {
+      console.error(`[Compare] Failed for ${a} / ${b}:`, error);
+      await postReply(
+        `❌ Comparison failed for ${a} and ${b}. Please try again later.\n\n${config.disclaimer}`,
+        castHash,
+      );
+    }
+  });
+}
+
+/**
+ * Live approvals for an address: a cached report's snapshot, the
+ * approvals cache, or a fresh log scan (no scoring/LLM).
+ */
+async function getApprovals(
+  address: string,
+): Promise<{ cached: boolean; approvals: ApprovalSnapshot | null }> {
+  const cached = reportCache.get(address)?.approvals ?? approvalsCache.get(address);
+  if (cached) return { cached: true, approvals: cached };
+
+  const approvals = await auditApprovals(address);
+  if (approvals) approvalsCache.set(address, approvals);
+  return { cached: false, approvals };
+}
+
+// Same bundle as auditApprovals(), replies included
+async function auditAndReply(address: string, castHash: string): Promise<void> {
+  await withFixtureBundle(`approvals-${address}`, async () => {
+    try {
+      const { approvals } = await getApprovals(address);
+      if (!approvals) throw new Error('approval logs unavailable');
+      await postThread(formatApprovalsThread(address, approvals), castHash);
+    } catch (error) {
+      console.error(`[Approvals] Failed for ${address}:`, error);
+      await postReply(
+        `❌ Approvals audit failed for ${address}. Please try again later.\n\n${config.disclaimer}`,
+        castHash,
+      );
+    }
+  });
+}
+
+// Same bundle as precheckTransaction(), replies included
+async function precheckAndReply(input: PrecheckInput, castHash: string): Promise<void> {
+  await withFixtureBundle(precheckBundleName(input), async () => {
+    try {
+      const report = await precheckTransaction(input);
+      await postThread(formatPrecheckThread(report), castHash);
+    } catch (error) {
+      console.error(`[Precheck] Failed for ${input.to}:`, error);
+      await postReply(
+        `❌ Pre-check failed for ${input.to}. Please try again later.\n\n${config.disclaimer}`,
+        castHash,
+      );
+    }
+  });
 }
 
 // ── Startup ────────────────────────────────────────────────
@@ -172,12 +482,19 @@ async function bootstrap(): Promise<void> {
     console.log(`\n🔍 Tell-Tale Bot v1.0.0`);
     console.log(`   Listening on port ${config.port}`);
     console.log(`   Environment: ${config.nodeEnv}`);
+    console.log(`   Summary provider: ${config.summaryProvider}`);
+    if (config.fixtureMode !== 'off') console.log(`   Fixtures: ${config.fixtureMode} (${config.fixtureDir})`);
     console.log(`   RPC providers: ${config.rpcProviders.map((p) => p.name).join(', ')}`);
     console.log(`   Bot FID: ${config.botFid}`);
     console.log(`   Scam DB: ${getLocalDbSize()} addresses`);
     console.log(`   Webhook: POST /webhook/neynar`);
     console.log(`   Health: GET /health`);
-    console.log(`   Test: GET /analyze/:address\n`);
+    console.log(`   Test: GET /analyze/:address`);
+    console.log(`   Batch: POST /analyze/batch`);
+    console.log(`   Graph: GET /graph/:address`);
+    console.log(`   Approvals: GET /approvals/:address`);
+    console.log(`   Compare: GET /compare/:a/:b`);
+    console.log(`   Pre-check: POST /precheck\n`);
   });
 }
 
@@ -0,0 +1,79 @@
+// ============================================================
+// Tell-Tale Bot — Analysis Pipeline
+// ============================================================
+// fetch → score → report (and compare, for two addresses). Kept
+// separate from the HTTP/webhook layer so the full flow can run in
+// tests and scripts.
+// ============================================================
+
+import { HistoryDepth, WalletComparison, WalletData, WalletReport } from '../types/index.js';
+import { fetchWalletData } from './dataFetcher.js';
+import { computeRiskScore } from './riskScorer.js';
+import { generateReport } from './reportGenerator.js';
+import { SummaryProvider, getSummaryProvider } from './summaryProvider.js';
+import { withFixtureBundle } from './fixtureRecorder.js';
+import { compareWalletData } from './comparison.js';
+
+/**
+ * Run the full analysis pipeline for an address. Upstream calls are
+ * recorded to / replayed from the address's fixture bundle when
+ * FIXTURE_MODE is set.
+ * @param provider - Summary backend; defaults to the one selected by config
+ * @param depth - History depth; defaults to the configured depth
+ */
+export async function runAnalysis(
+  address: string,
+  provider: SummaryProvider = getSummaryProvider(),
+  depth?: HistoryDepth,
+): Promise<WalletReport> {
+  const { report } = await analyzeAddress(address, provider, depth);
+  return report;
+}
+
+/**
+ * Analyze two addresses and compare their history: shared
+ * counterparties, direct transfers, common funders and timing.
+ * Each address gets its own fixture bundle, as in runAnalysis.
+ */
+export async function runComparison(
+  a: string,
+  b: string,
+  provider: SummaryProvider = getSummaryProvider(),
+  depth?: HistoryDepth,
+): Promise<WalletComparison> {
+  const [first, second] = await Promise.all([
+    analyzeAddress(a, provider, depth),
+    analyzeAddress(b, provider, depth),
+  ]);
+  const relationship = compareWalletData(first.data, second.data);
+
+  console.log(`[Analysis] Compared ${a} with ${b}: ${relationship.strength} link (${relationship.score}/100)`);
+
+  return { a: first.report, b: second.report, relationship, comparedAt: new Date().toISOString() };
+}
+
+async function analyzeAddress(
+  address: string,
+  provider: SummaryProvider,
+  depth: HistoryDepth | undefined,
+): Promise<{ data: WalletData; report: WalletReport }> {
+  return withFixtureBundle(address, async () => {
+    const startTime = Date.now();
+
+    // 1. Fetch all wallet data (parallelized)
+    console.log(`[Analysis] Starting analysis for ${address}`);
+    const walletData = await fetchWalletData(address, depth);
+
+    // 2. Compute risk score (rule-based heuristics)
+    const assessment = computeRiskScore(walletData);
+
+    // 3. Generate report (AI summary + template)
+    const report = await generateReport(walletData, assessment, startTime, provider);
+
+    console.log(
+      `[Analysis] Complete for ${address}: ${assessment.level} (${assessment.score}/100, model ${assessment.modelVersion}) in ${report.responseTimeMs}ms`,
+    );
+
+    return { data: walletData, report };
+  });
+}
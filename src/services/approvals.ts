@@ -0,0 +1,415 @@
+// ============================================================
+// Tell-Tale Bot — Approval Analysis
+// ============================================================
+// Reconstructs a wallet's outstanding allowances from event logs
+// instead of guessing from outgoing tx input:
+//   - Approval (ERC-20: approve / increaseAllowance / EIP-2612
+//     permit; ERC-721: single-token approve)
+//   - ApprovalForAll (ERC-721 / ERC-1155 operators)
+//   - Permit2 Approval / Permit / Lockdown
+// The latest event per token/spender wins; live allowances are
+// then re-read with eth_call (transferFrom spends allowances
+// without always emitting an event). Spenders are labeled from
+// the known-contract registry and scam DB, and unlabeled spenders
+// of unlimited allowances are checked for verified source.
+// ============================================================
+
+import { encodeFunctionData, formatUnits, pad, parseAbi, toEventSelector, zeroAddress, type Hex } from 'viem';
+import { config } from '../config.js';
+import {
+  WalletData,
+  ApprovalKind,
+  ApprovalRisk,
+  ApprovalSnapshot,
+  TokenApproval,
+  RevokeCall,
+} from '../types/index.js';
+import { getContractLabel } from '../data/knownContracts.js';
+import { shortenAddress } from '../utils/address.js';
+import * as basescan from './basescan.js';
+import * as scamDb from './scamDb.js';
+import { withFallback } from './rpcFallback.js';
+import { withFixtureBundle } from './fixtureRecorder.js';
+
+type ApprovalSource = Pick<WalletData, 'address' | 'tokenTransfers' | 'holdings'>;
+
+const PERMIT2 = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+
+const TOPICS = {
+  approval: toEventSelector('Approval(address,address,uint256)'),
+  approvalForAll: toEventSelector('ApprovalForAll(address,address,bool)'),
+  permit2Approval: toEventSelector('Approval(address,address,address,uint160,uint48)'),
+  permit2Permit: toEventSelector('Permit(address,address,address,uint160,uint48,uint48)'),
+  permit2Lockdown: toEventSelector('Lockdown(address,address,address)'),
+};
+
+/** Allowances at or above max uint160 (Permit2's ceiling) count as unlimited */
+const UNLIMITED_THRESHOLD = 2n ** 160n - 1n;
+
+const ALLOWANCE_ABI = parseAbi([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+
+const PERMIT2_ABI = parseAbi([
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+]);
+
+/** Latest known state of one grant */
+interface Grant {
+  kind: ApprovalKind;
+  token: string;
+  spender: string;
+  amount: bigint; // allowance, token ID (erc721) or 1/0 (operator)
+  expiration: number | null;
+  txHash: string;
+  timestamp: number;
+}
+
+/**
+ * Reconstruct the wallet's outstanding allowances. Never throws;
+ * null when no approval logs could be read at all.
+ */
+export async function fetchApprovals(data: ApprovalSource): Promise<ApprovalSnapshot | null> {
+  const owner = pad(data.address.toLowerCase() as Hex, { size: 32 });
+  const results = await Promise.all([
+    basescan.getLogs({ topic0: TOPICS.approval, topic1: owner }),
+    basescan.getLogs({ topic0: TOPICS.approvalForAll, topic1: owner }),
+    basescan.getLogs({ address: PERMIT2, topic0: TOPICS.permit2Approval, topic1: owner }),
+    basescan.getLogs({ address: PERMIT2, topic0: TOPICS.permit2Permit, topic1: owner }),
+    basescan.getLogs({ address: PERMIT2, topic0: TOPICS.permit2Lockdown, topic1: owner }),
+  ]);
+  if (results.every((r) => r === null)) return null;
+
+  const logs = results.flatMap((r) => r?.logs ?? []);
+  const grants = replayLogs(logs);
+  const granted = grants.length;
+
+  let live = grants.filter((g) => g.amount > 0n && !isExpired(g));
+  let verifiedOnchain = false;
+  try {
+    live = await refreshOnchain(data.address, live);
+    verifiedOnchain = true;
+  } catch (error) {
+    console.error(`[Approvals] Could not re-read allowances for ${data.address}:`, error);
+  }
+
+  const approvals = await assessGrants(data, live);
+  return {
+    approvals,
+    eventsScanned: logs.length,
+    revokedCount: granted - approvals.length,
+    verifiedOnchain,
+    complete: results.every((r) => r !== null && r.complete),
+  };
+}
+
+/**
+ * Audit a wallet's own approvals: recent token transfers are fetched
+ * first so allowances can be shown with token symbols. Runs in its own
+ * fixture bundle ("approvals-<address>").
+ */
+export async function auditApprovals(address: string): Promise<ApprovalSnapshot | null> {
+  return withFixtureBundle(`approvals-${address}`, async () => {
+    const tokenTransfers = await basescan.getTokenTransfers(address);
+    return fetchApprovals({ address, tokenTransfers });
+  });
+}
+
+/**
+ * Replay approval logs in chain order; the latest event per
+ * token/spender (or token/tokenId for single NFTs) wins.
+ */
+function replayLogs(logs: basescan.BasescanLog[]): Grant[] {
+  const ordered = [...logs].sort(
+    (a, b) =>
+      parseInt(a.blockNumber, 16) - parseInt(b.blockNumber, 16) ||
+      parseInt(a.logIndex, 16) - parseInt(b.logIndex, 16),
+  );
+
+  const grants = new Map<string, Grant>();
+  for (const log of ordered) {
+    const grant = parseLog(log);
+    if (!grant) continue;
+    const key =
+      grant.kind === 'erc721'
+        ? `${grant.kind}:${grant.token}:${grant.amount}`
+        : `${grant.kind}:${grant.token}:${grant.spender}`;
+    if (grant.kind === 'erc721' && grant.spender === zeroAddress) {
+      grants.delete(key); // approval cleared
+      continue;
+    }
+    grants.set(key, grant);
+  }
+  return [...grants.values()];
+}
+
+function parseLog(log: basescan.BasescanLog): Grant | null {
+  const topics = log.topics.filter((t): t is string => !!t);
+  const base = {
+    txHash: log.transactionHash,
+    timestamp: parseInt(log.timeStamp, 16) || 0,
+    expiration: null,
+  };
+  const words = (log.data.startsWith('0x') ? log.data.slice(2) : log.data).match(/.{64}/g) ?? [];
+  const word = (i: number) => (words[i] ? BigInt(`0x${words[i]}`) : 0n);
+  const address = (topic: string | undefined) => `0x${(topic ?? '').slice(-40)}`.toLowerCase();
+
+  switch (topics[0]) {
+    case TOPICS.approval:
+      if (topics.length === 3) {
+        return { ...base, kind: 'erc20', token: log.address.toLowerCase(), spender: address(topics[2]), amount: word(0) };
+      }
+      if (topics.length === 4) {
+        return {
+          ...base,
+          kind: 'erc721',
+          token: log.address.toLowerCase(),
+          spender: address(topics[2]),
+          amount: BigInt(topics[3]!),
+        };
+      }
+      return null;
+    case TOPICS.approvalForAll:
+      return {
+        ...base,
+        kind: 'operator',
+        token: log.address.toLowerCase(),
+        spender: address(topics[2]),
+        amount: word(0) === 0n ? 0n : 1n,
+      };
+    case TOPICS.permit2Approval:
+    case TOPICS.permit2Permit:
+      return {
+        ...base,
+        kind: 'permit2',
+        token: address(topics[2]),
+        spender: address(topics[3]),
+        amount: word(0),
+        expiration: Number(word(1)),
+      };
+    case TOPICS.permit2Lockdown:
+      return { ...base, kind: 'permit2', token: address(topics[2]), spender: address(topics[3]), amount: 0n };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Re-read every live grant with one multicall. Grants whose call fails
+ * keep their log-derived state.
+ */
+async function refreshOnchain(owner: string, grants: Grant[]): Promise<Grant[]> {
+  if (grants.length === 0) return grants;
+  const self = owner.toLowerCase() as Hex;
+
+  const contracts = grants.map((g) => {
+    switch (g.kind) {
+      case 'erc20':
+        return { address: g.token as Hex, abi: ALLOWANCE_ABI, functionName: 'allowance', args: [self, g.spender as Hex] } as const;
+      case 'erc721':
+        return { address: g.token as Hex, abi: ALLOWANCE_ABI, functionName: 'getApproved', args: [g.amount] } as const;
+      case 'operator':
+        return { address: g.token as Hex, abi: ALLOWANCE_ABI, functionName: 'isApprovedForAll', args: [self, g.spender as Hex] } as const;
+      case 'permit2':
+        return { address: PERMIT2 as Hex, abi: PERMIT2_ABI, functionName: 'allowance', args: [self, g.token as Hex, g.spender as Hex] } as const;
+    }
+  });
+
+  const results = await withFallback((client) => client.multicall({ contracts, allowFailure: true }));
+
+  return grants.flatMap((grant, i): Grant[] => {
+    const result = results[i];
+    if (!result || result.status !== 'success') return [grant];
+    const value: unknown = result.result;
+
+    let updated: Grant;
+    if (grant.kind === 'erc721') {
+      if (String(value).toLowerCase() !== grant.spender) return [];
+      updated = grant;
+    } else if (grant.kind === 'operator') {
+      updated = { ...grant, amount: value === true ? 1n : 0n };
+    } else if (grant.kind === 'permit2' && Array.isArray(value)) {
+      updated = { ...grant, amount: BigInt(value[0]), expiration: Number(value[1]) };
+    } else if (typeof value === 'bigint') {
+      updated = { ...grant, amount: value };
+    } else {
+      return [grant];
+    }
+    return updated.amount > 0n && !isExpired(updated) ? [updated] : [];
+  });
+}
+
+/**
+ * Label spenders, check unlabeled spenders of unlimited allowances for
+ * verified source, and rank by risk.
+ */
+async function assessGrants(data: ApprovalSource, grants: Grant[]): Promise<TokenApproval[]> {
+  const flags = scamDb.batchCheckLocal([...new Set(grants.map((g) => g.spender))]);
+
+  const toCheck = [
+    ...new Set(
+      grants
+        .filter((g) => isUnlimited(g) && !getContractLabel(g.spender) && !flags.has(g.spender))
+        .map((g) => g.spender),
+    ),
+  ].slice(0, config.approvalSpenderChecks);
+  const verified = new Map<string, boolean>();
+  for (const spender of toCheck) {
+    const source = await basescan.getContractSource(spender);
+    if (source) verified.set(spender, source.verified);
+  }
+
+  const tokenInfo = tokenMetadata(data);
+
+  return grants
+    .map((grant): TokenApproval => {
+      const info = tokenInfo.get(grant.token);
+      const spenderLabel = getContractLabel(grant.spender) ?? null;
+      const spenderFlag = flags.get(grant.spender)?.category ?? null;
+      const spenderVerified = verified.get(grant.spender) ?? null;
+      const unlimited = isUnlimited(grant);
+      const { risk, riskScore, reasons } = assessRisk(grant.kind, unlimited, spenderLabel, spenderFlag, spenderVerified);
+
+      return {
+        kind: grant.kind,
+        token: grant.token,
+        tokenSymbol: info?.symbol ?? null,
+        spender: grant.spender,
+        spenderLabel,
+        spenderFlag,
+        spenderVerified,
+        amount: grant.kind === 'operator' ? 'all' : grant.amount.toString(),
+        displayAmount: displayAmount(grant, unlimited, info?.decimals ?? null),
+        unlimited,
+        expiration: grant.expiration,
+        txHash: grant.txHash,
+        timestamp: grant.timestamp,
+        risk,
+        riskScore,
+        reasons,
+        revoke: revokeCall(grant),
+      };
+    })
+    .sort((a, b) => b.riskScore - a.riskScore || b.timestamp - a.timestamp);
+}
+
+/**
+ * Risk of one outstanding allowance. Unlimited allowances and operator
+ * approvals can drain everything; what matters is who holds them.
+ */
+export function assessRisk(
+  kind: ApprovalKind,
+  unlimited: boolean,
+  spenderLabel: string | null,
+  spenderFlag: string | null,
+  spenderVerified: boolean | null,
+): { risk: ApprovalRisk; riskScore: number; reasons: string[] } {
+  const scope = kind === 'operator' ? 'operator over the whole collection' : unlimited ? 'unlimited allowance' : 'limited allowance';
+  let riskScore: number;
+  let reason: string;
+
+  if (spenderFlag) {
+    riskScore = 100;
+    reason = `spender flagged in scam database (${spenderFlag})`;
+  } else if (spenderLabel) {
+    riskScore = 5;
+    reason = `${scope} to ${spenderLabel}`;
+  } else if (!unlimited) {
+    riskScore = spenderVerified === false ? 30 : 15;
+    reason = `${scope} to an ${spenderVerified === false ? 'unverified' : 'unlabeled'} spender`;
+  } else if (spenderVerified === false) {
+    riskScore = 80;
+    reason = `${scope} to an unverified spender`;
+  } else if (spenderVerified === true) {
+    riskScore = 35;
+    reason = `${scope} to an unlabeled verified contract`;
+  } else {
+    riskScore = 50;
+    reason = `${scope} to an unlabeled spender (verification unknown)`;
+  }
+
+  const risk: ApprovalRisk = riskScore >= 70 ? 'high' : riskScore >= 30 ? 'medium' : 'low';
+  return { risk, riskScore, reasons: [reason] };
+}
+
+/**
+ * One evidence line per approval, e.g.
+ * "USDC → 0x1111...1111 (Uniswap Permit2): unlimited [low]".
+ */
+export function describeApproval(approval: TokenApproval): string {
+  const token = approval.tokenSymbol ?? shortenAddress(approval.token);
+  const spender = shortenAddress(approval.spender);
+  const tag = approval.spenderLabel ?? (approval.spenderFlag ? `flagged: ${approval.spenderFlag}` : null);
+  const via = approval.kind === 'permit2' ? ' via Permit2' : '';
+  return `${token} → ${spender}${tag ? ` (${tag})` : ''}: ${approval.displayAmount}${via} [${approval.risk}]`;
+}
+
+/**
+ * The call that removes an allowance, sent from the owner wallet.
+ */
+function revokeCall(grant: Grant): RevokeCall {
+  const token = grant.token as Hex;
+  const spender = grant.spender as Hex;
+  switch (grant.kind) {
+    case 'erc20':
+      return { to: token, data: encodeFunctionData({ abi: ALLOWANCE_ABI, functionName: 'approve', args: [spender, 0n] }) };
+    case 'erc721':
+      return {
+        to: token,
+        data: encodeFunctionData({ abi: ALLOWANCE_ABI, functionName: 'approve', args: [zeroAddress, grant.amount] }),
+      };
+    case 'operator':
+      return {
+        to: token,
+        data: encodeFunctionData({ abi: ALLOWANCE_ABI, functionName: 'setApprovalForAll', args: [spender, false] }),
+      };
+    case 'permit2':
+      return {
+        to: PERMIT2,
+        data: encodeFunctionData({ abi: PERMIT2_ABI, functionName: 'approve', args: [token, spender, 0n, 0] }),
+      };
+  }
+}
+
+function isUnlimited(grant: Grant): boolean {
+  if (grant.kind === 'operator') return true;
+  if (grant.kind === 'erc721') return false;
+  return isUnlimitedAmount(grant.amount);
+}
+
+/** Whether an allowance amount is effectively unlimited */
+export function isUnlimitedAmount(amount: bigint): boolean {
+  return amount >= UNLIMITED_THRESHOLD;
+}
+
+function isExpired(grant: Grant): boolean {
+  return grant.expiration !== null && grant.expiration > 0 && grant.expiration * 1000 < Date.now();
+}
+
+function displayAmount(grant: Grant, unlimited: boolean, decimals: number | null): string {
+  if (grant.kind === 'operator') return 'all NFTs';
+  if (grant.kind === 'erc721') return `#${grant.amount}`;
+  if (unlimited) return 'unlimited';
+  return decimals === null ? grant.amount.toString() : formatUnits(grant.amount, decimals);
+}
+
+/** Symbols and decimals from the holdings snapshot and transfer history */
+function tokenMetadata(data: ApprovalSource): Map<string, { symbol: string | null; decimals: number | null }> {
+  const info = new Map<string, { symbol: string | null; decimals: number | null }>();
+  for (const t of data.tokenTransfers) {
+    const decimals = parseInt(t.tokenDecimal, 10);
+    info.set(t.contractAddress.toLowerCase(), {
+      symbol: t.tokenSymbol || null,
+      decimals: isNaN(decimals) ? null : decimals,
+    });
+  }
+  for (const h of [...(data.holdings?.tokens ?? []), ...(data.holdings?.nfts ?? [])]) {
+    info.set(h.token, { symbol: h.symbol ?? h.name, decimals: h.decimals });
+  }
+  return info;
+}
@@ -0,0 +1,46 @@
+// ============================================================
+// Tell-Tale Bot — Entity Attribution
+// ============================================================
+// Resolves an address to a labeled entity using the local
+// registries: known contracts / exchanges first, then the local
+// scam database (mixers, drainers, flagged wallets).
+// ============================================================
+
+import { EntityAttribution } from '../types/index.js';
+import { getKnownContract } from '../data/knownContracts.js';
+import { batchCheckLocal } from './scamDb.js';
+
+/** Scam-DB categories that mark funds as tainted */
+export const TAINTED_CATEGORIES = new Set([
+  'mixer',
+  'scam',
+  'phishing',
+  'drainer',
+  'rugpull',
+  'exploiter',
+]);
+
+/**
+ * Attribute an address to a labeled entity, or null if unknown.
+ * Local lookups only — no API calls.
+ */
+export function attributeAddress(address: string): EntityAttribution | null {
+  const known = getKnownContract(address);
+  if (known) {
+    return { label: known.label, category: known.category, source: 'known' };
+  }
+
+  const flag = batchCheckLocal([address]).get(address);
+  if (flag) {
+    return { label: flag.description, category: flag.category, source: 'scamDb' };
+  }
+
+  return null;
+}
+
+/**
+ * Whether an attribution marks funds from this entity as tainted.
+ */
+export function isTainted(attribution: EntityAttribution): boolean {
+  return attribution.source === 'scamDb' && TAINTED_CATEGORIES.has(attribution.category);
+}
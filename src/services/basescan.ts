@@ -4,8 +4,16 @@
 
 import axios from 'axios';
 import { config } from '../config.js';
-import { BasescanTransaction, BasescanTokenTransfer } from '../types/index.js';
+import {
+  BasescanTransaction,
+  BasescanTokenTransfer,
+  BasescanNftTransfer,
+  HistoryDepth,
+  HistoryStopReason,
+  ListCoverage,
+} from '../types/index.js';
 import { RateLimiter } from '../utils/rateLimit.js';
+import { recorded } from './fixtureRecorder.js';
 
 const rateLimiter = new RateLimiter(config.basescanRateLimit, 1000);
 
@@ -15,25 +23,32 @@ interface BasescanApiResponse<T> {
   result: T;
 }
 
+/** status "0" messages that just mean an empty result */
+const EMPTY_RESULT_MESSAGES = new Set(['No transactions found', 'No logs found', 'No records found']);
+
 async function basescanGet<T>(params: Record<string, string>): Promise<T> {
-  await rateLimiter.waitForSlot();
+  // Recorded without the API key, so fixture bundles can be shared
+  const data = await recorded('basescan', params, async () => {
+    await rateLimiter.waitForSlot();
 
-  // Build query params — only include apikey if configured
-  const queryParams: Record<string, string> = { ...params };
-  if (config.basescanApiKey) {
-    queryParams.apikey = config.basescanApiKey;
-  }
+    // Build query params — only include apikey if configured
+    const queryParams: Record<string, string> = { ...params };
+    if (config.basescanApiKey) {
+      queryParams.apikey = config.basescanApiKey;
+    }
 
-  const response = await axios.get<BasescanApiResponse<T>>(config.basescanBaseUrl, {
-    params: queryParams,
-    timeout: 10000,
+    const response = await axios.get<BasescanApiResponse<T>>(config.basescanBaseUrl, {
+      params: queryParams,
+      timeout: 10000,
+    });
+    return response.data;
   });
 
-  if (response.data.status !== '1' && response.data.message !== 'No transactions found') {
-    throw new Error(`Basescan API error: ${response.data.message} (${JSON.stringify(params)})`);
+  if (data.status !== '1' && !EMPTY_RESULT_MESSAGES.has(data.message)) {
+    throw new Error(`Basescan API error: ${data.message} (${JSON.stringify(params)})`);
   }
 
-  return response.data.result;
+  return data.result;
 }
 
 /**
@@ -41,7 +56,7 @@ async function basescanGet<T>(params: Record<string, string>): Promise<T> {
  */
 export async function getTransactions(
   address: string,
-  limit = config.maxTransactionsToFetch,
+  limit: number = config.maxTransactionsToFetch,
 ): Promise<BasescanTransaction[]> {
   try {
     const result = await basescanGet<BasescanTransaction[] | string>({
@@ -111,6 +126,246 @@ export async function getTokenTransfers(
   }
 }
 
+/** Etherscan-compatible APIs only serve page × offset ≤ 10,000 results per query */
+const MAX_RESULT_WINDOW = 10000;
+
+/** Fields shared by every paginated account list record */
+interface PagedRecord {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  value?: string; // absent on NFT transfers
+  tokenID?: string; // NFT transfers only
+  contractAddress: string;
+  logIndex?: string;
+}
+
+/** Records from a paginated fetch plus how much history they cover */
+export interface HistoryResult<T> {
+  items: T[];
+  coverage: ListCoverage;
+}
+
+/**
+ * Build the default history depth from config.
+ */
+export function defaultHistoryDepth(): HistoryDepth {
+  return {
+    maxRecords: config.historyMaxRecords,
+    ...(config.historyMaxAgeDays > 0 ? { maxAgeDays: config.historyMaxAgeDays } : {}),
+    startBlock: config.historyStartBlock,
+    endBlock: config.historyEndBlock,
+    pageSize: config.historyPageSize,
+  };
+}
+
+/**
+ * History depth for "--deep" analyses: the default block range with
+ * more records per list and no time window.
+ */
+export function deepHistoryDepth(): HistoryDepth {
+  return {
+    maxRecords: Math.max(config.historyDeepMaxRecords, config.historyMaxRecords),
+    startBlock: config.historyStartBlock,
+    endBlock: config.historyEndBlock,
+    pageSize: config.historyPageSize,
+  };
+}
+
+/**
+ * Walk an account list endpoint page by page (newest first) until the
+ * depth limit or the start of history is reached. Every page goes through
+ * the shared rate limiter. When the page × offset result window runs out,
+ * the block range is narrowed to the oldest block seen and paging restarts
+ * (records repeated at the boundary block are de-duplicated).
+ */
+async function fetchPaginated<T extends PagedRecord>(
+  action: 'txlist' | 'txlistinternal' | 'tokentx' | 'tokennfttx',
+  address: string,
+  depth: HistoryDepth,
+): Promise<HistoryResult<T>> {
+  const pageSize = depth.pageSize ?? config.historyPageSize;
+  const cutoff = depth.maxAgeDays
+    ? Math.floor(Date.now() / 1000) - depth.maxAgeDays * 86400
+    : null;
+  const startBlock = depth.startBlock ?? 0;
+  let endBlock = depth.endBlock ?? 99999999;
+  let page = 1;
+  let pages = 0;
+  let stoppedBy: HistoryStopReason = 'end';
+
+  const seen = new Set<string>();
+  const items: T[] = [];
+
+  while (true) {
+    if (pages >= config.historyMaxPages) {
+      stoppedBy = 'maxPages';
+      break;
+    }
+
+    let batch: T[];
+    try {
+      const result = await basescanGet<T[] | string>({
+        module: 'account',
+        action,
+        address,
+        startblock: String(startBlock),
+        endblock: String(endBlock),
+        page: String(page),
+        offset: String(pageSize),
+        sort: 'desc',
+      });
+      batch = Array.isArray(result) ? result : [];
+    } catch (error) {
+      console.error(`[Basescan] Failed to fetch ${action} page ${page} for ${address}:`, error);
+      stoppedBy = 'error';
+      break;
+    }
+    pages++;
+
+    let limitHit: HistoryStopReason | null = null;
+    for (const record of batch) {
+      if (cutoff !== null && parseInt(record.timeStamp) < cutoff) {
+        limitHit = 'timeWindow';
+        break;
+      }
+      if (items.length >= depth.maxRecords) {
+        limitHit = 'maxRecords';
+        break;
+      }
+      const key = recordKey(record);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push(record);
+    }
+
+    if (limitHit) {
+      stoppedBy = limitHit;
+      break;
+    }
+    if (batch.length < pageSize) {
+      stoppedBy = 'end';
+      break;
+    }
+
+    if ((page + 1) * pageSize > MAX_RESULT_WINDOW) {
+      // Result window exhausted — continue from the oldest block seen.
+      // If a single block overflows the window, skip past it to avoid looping.
+      const oldestBlock = parseInt(batch[batch.length - 1]!.blockNumber);
+      endBlock = oldestBlock < endBlock ? oldestBlock : oldestBlock - 1;
+      page = 1;
+    } else {
+      page++;
+    }
+  }
+
+  const timestamps = items
+    .map((r) => parseInt(r.timeStamp))
+    .filter((t) => !isNaN(t) && t > 0);
+
+  return {
+    items,
+    coverage: {
+      fetched: items.length,
+      pages,
+      complete: stoppedBy === 'end',
+      stoppedBy,
+      oldestTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : null,
+      newestTimestamp: timestamps.length > 0 ? Math.max(...timestamps) : null,
+    },
+  };
+}
+
+function recordKey(record: PagedRecord): string {
+  return [
+    record.hash,
+    record.from,
+    record.to,
+    record.value ?? '',
+    record.contractAddress,
+    record.tokenID ?? '',
+    record.logIndex ?? '',
+  ].join(':').toLowerCase();
+}
+
+/**
+ * Fetch normal transaction history, paginated up to the given depth.
+ */
+export async function getTransactionHistory(
+  address: string,
+  depth: HistoryDepth = defaultHistoryDepth(),
+): Promise<HistoryResult<BasescanTransaction>> {
+  return fetchPaginated<BasescanTransaction>('txlist', address, depth);
+}
+
+/**
+ * Fetch internal transaction history, paginated up to the given depth.
+ */
+export async function getInternalTransactionHistory(
+  address: string,
+  depth: HistoryDepth = defaultHistoryDepth(),
+): Promise<HistoryResult<BasescanTransaction>> {
+  return fetchPaginated<BasescanTransaction>('txlistinternal', address, depth);
+}
+
+/**
+ * Fetch ERC-20 token transfer history, paginated up to the given depth.
+ */
+export async function getTokenTransferHistory(
+  address: string,
+  depth: HistoryDepth = defaultHistoryDepth(),
+): Promise<HistoryResult<BasescanTokenTransfer>> {
+  return fetchPaginated<BasescanTokenTransfer>('tokentx', address, depth);
+}
+
+/**
+ * Fetch ERC-721 transfer history, paginated up to the given depth.
+ */
+export async function getNftTransferHistory(
+  address: string,
+  depth: HistoryDepth = defaultHistoryDepth(),
+): Promise<HistoryResult<BasescanNftTransfer>> {
+  return fetchPaginated<BasescanNftTransfer>('tokennfttx', address, depth);
+}
+
+/**
+ * Fetch the oldest normal, internal and token transfers for an address
+ * (sort=asc). Used to find how an address was first funded.
+ * @throws When any of the three lookups fails — an empty result would
+ * read as "never funded"
+ */
+export async function getEarliestTransfers(
+  address: string,
+  limit = 25,
+): Promise<{
+  transactions: BasescanTransaction[];
+  internalTransactions: BasescanTransaction[];
+  tokenTransfers: BasescanTokenTransfer[];
+}> {
+  const fetchOldest = async <T>(action: string): Promise<T[]> => {
+    const result = await basescanGet<T[] | string>({
+      module: 'account',
+      action,
+      address,
+      startblock: '0',
+      endblock: '99999999',
+      page: '1',
+      offset: String(limit),
+      sort: 'asc',
+    });
+    return Array.isArray(result) ? result : [];
+  };
+
+  const [transactions, internalTransactions, tokenTransfers] = await Promise.all([
+    fetchOldest<BasescanTransaction>('txlist'),
+    fetchOldest<BasescanTransaction>('txlistinternal'),
+    fetchOldest<BasescanTokenTransfer>('tokentx'),
+  ]);
+  return { transactions, internalTransactions, tokenTransfers };
+}
+
 /**
  * Get ETH balance for an address.
  */
@@ -165,7 +420,7 @@ export async function getFirstTransaction(
       offset: '1',
       sort: 'asc',
     });
-    return Array.isArray(result) && result.length > 0 ? result[0] : null;
+    return Array.isArray(result) ? result[0] ?? null : null;
   } catch (error) {
     console.error(`[Basescan] Failed to fetch first transaction for ${address}:`, error);
     return null;
@@ -178,12 +433,13 @@ export async function getFirstTransaction(
  */
 export async function getTransactionCount(address: string): Promise<number | null> {
   try {
-    await rateLimiter.waitForSlot();
-    const response = await axios.get(
-      `https://base.blockscout.com/api/v2/addresses/${address}/counters`,
-      { timeout: 10000 },
-    );
-    const count = response.data?.transactions_count;
+    const path = `/addresses/${address}/counters`;
+    const data = await recorded('blockscout', { path }, async () => {
+      await rateLimiter.waitForSlot();
+      const response = await axios.get(`${config.blockscoutApiV2Url}${path}`, { timeout: 10000 });
+      return response.data;
+    });
+    const count = data?.transactions_count;
     if (count !== undefined && count !== null) {
       return parseInt(String(count), 10);
     }
@@ -193,3 +449,253 @@ export async function getTransactionCount(address: string): Promise<number | nul
     return null;
   }
 }
+
+/** Raw event log (Etherscan getLogs shape — numeric fields are hex strings) */
+export interface BasescanLog {
+  address: string;
+  topics: Array<string | null>;
+  data: string;
+  blockNumber: string;
+  timeStamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+/** getLogs returns at most this many logs per call */
+const LOGS_PAGE_SIZE = 1000;
+
+/**
+ * Fetch event logs matching topic0 (and optionally an emitting address and
+ * indexed topics 1–2), oldest first. Full pages are continued from the last
+ * block seen; logs repeated at the boundary block are de-duplicated.
+ * Returns null when the first call fails (unknown, not empty).
+ */
+export async function getLogs(filter: {
+  address?: string;
+  topic0: string;
+  topic1?: string;
+  topic2?: string;
+}): Promise<{ logs: BasescanLog[]; complete: boolean } | null> {
+  const topics: Record<string, string> = { topic0: filter.topic0 };
+  if (filter.topic1) Object.assign(topics, { topic1: filter.topic1, topic0_1_opr: 'and' });
+  if (filter.topic2) Object.assign(topics, { topic2: filter.topic2, topic0_2_opr: 'and', topic1_2_opr: 'and' });
+
+  const seen = new Set<string>();
+  const logs: BasescanLog[] = [];
+  let fromBlock = 0;
+
+  for (let page = 0; page < config.logMaxPages; page++) {
+    let batch: BasescanLog[];
+    try {
+      const result = await basescanGet<BasescanLog[] | string>({
+        module: 'logs',
+        action: 'getLogs',
+        ...(filter.address ? { address: filter.address } : {}),
+        fromBlock: String(fromBlock),
+        toBlock: 'latest',
+        ...topics,
+      });
+      batch = Array.isArray(result) ? result : [];
+    } catch (error) {
+      console.error(`[Basescan] Failed to fetch logs (${filter.topic0}) page ${page + 1}:`, error);
+      return page === 0 ? null : { logs, complete: false };
+    }
+
+    for (const log of batch) {
+      const key = `${log.transactionHash}:${log.logIndex}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      logs.push(log);
+    }
+
+    if (batch.length < LOGS_PAGE_SIZE) return { logs, complete: true };
+
+    // A page that never leaves its first block would loop — skip past it
+    const lastBlock = parseInt(batch[batch.length - 1]!.blockNumber, 16);
+    fromBlock = lastBlock > fromBlock ? lastBlock : fromBlock + 1;
+  }
+
+  return { logs, complete: false };
+}
+
+/** One entry of Blockscout's address token-balance list (ERC-20 / NFT) */
+export interface BlockscoutTokenBalance {
+  token: {
+    address_hash?: string;
+    address?: string; // older Blockscout releases
+    name: string | null;
+    symbol: string | null;
+    decimals: string | null;
+    type: string; // "ERC-20" | "ERC-721" | "ERC-1155" | ...
+    exchange_rate: string | null; // USD price
+    reputation?: string | null; // "ok" | "scam" on newer releases
+    is_scam?: boolean;
+  };
+  token_id: string | null;
+  value: string;
+}
+
+/**
+ * Fetch current ERC-20, ERC-721 and ERC-1155 balances from Blockscout's
+ * v2 API, following next_page_params up to config.holdingsMaxPages.
+ * Returns null when the first page cannot be fetched (unknown, not empty).
+ */
+export async function getTokenBalances(
+  address: string,
+): Promise<{ items: BlockscoutTokenBalance[]; complete: boolean } | null> {
+  return getBlockscoutPages<BlockscoutTokenBalance>(
+    `/addresses/${address}/tokens`,
+    { type: 'ERC-20,ERC-721,ERC-1155' },
+    config.holdingsMaxPages,
+    `token balances for ${address}`,
+  );
+}
+
+/** A contract created by an address, from Blockscout's transaction list */
+export interface CreatedContract {
+  address: string;
+  txHash: string;
+  timestamp: number | null;
+}
+
+/**
+ * Contracts an address deployed directly (creation transactions it
+ * sent), from Blockscout's v2 transaction list — reaches further back
+ * than the depth-limited history. Returns null when the first page
+ * cannot be fetched.
+ */
+export async function getCreatedContracts(
+  address: string,
+): Promise<{ contracts: CreatedContract[]; complete: boolean } | null> {
+  const result = await getBlockscoutPages<{
+    hash: string;
+    timestamp?: string | null;
+    created_contract?: { hash?: string } | null;
+  }>(`/addresses/${address}/transactions`, { filter: 'from' }, config.deployerMaxPages, `created contracts for ${address}`);
+  if (!result) return null;
+
+  const contracts = result.items
+    .filter((tx) => tx.created_contract?.hash)
+    .map((tx) => {
+      const time = tx.timestamp ? Date.parse(tx.timestamp) : NaN;
+      return {
+        address: tx.created_contract!.hash!.toLowerCase(),
+        txHash: tx.hash,
+        timestamp: isNaN(time) ? null : Math.floor(time / 1000),
+      };
+    });
+  return { contracts, complete: result.complete };
+}
+
+/**
+ * Walk a Blockscout v2 list endpoint, following next_page_params up to
+ * maxPages. Returns null when the first page cannot be fetched.
+ */
+async function getBlockscoutPages<T>(
+  path: string,
+  params: Record<string, string>,
+  maxPages: number,
+  what: string,
+): Promise<{ items: T[]; complete: boolean } | null> {
+  const items: T[] = [];
+  let pageParams: Record<string, string> = {};
+
+  for (let page = 0; page < maxPages; page++) {
+    try {
+      const query = { ...params, ...pageParams };
+      const data = await recorded('blockscout', { path, params: query }, async () => {
+        await rateLimiter.waitForSlot();
+        const response = await axios.get<{
+          items?: T[];
+          next_page_params?: Record<string, string | number | null> | null;
+        }>(`${config.blockscoutApiV2Url}${path}`, {
+          params: query,
+          timeout: 10000,
+        });
+        return response.data;
+      });
+      items.push(...(data?.items ?? []));
+
+      const next = data?.next_page_params;
+      if (!next) return { items, complete: true };
+      pageParams = Object.fromEntries(
+        Object.entries(next)
+          .filter(([, value]) => value !== null)
+          .map(([key, value]) => [key, String(value)]),
+      );
+    } catch (error) {
+      console.error(`[Basescan] Failed to fetch ${what} (page ${page + 1}):`, error);
+      return page === 0 ? null : { items, complete: false };
+    }
+  }
+
+  return { items, complete: false };
+}
+
+/** Verified source metadata for a contract (Etherscan getsourcecode shape) */
+export interface ContractSourceInfo {
+  verified: boolean;
+  contractName: string | null;
+  compilerVersion: string | null;
+  abi: unknown[] | null; // parsed ABI when the source is verified
+}
+
+/**
+ * Fetch verification status and ABI for a contract.
+ * Returns null when the lookup itself fails (unknown, not unverified).
+ */
+export async function getContractSource(address: string): Promise<ContractSourceInfo | null> {
+  try {
+    const result = await basescanGet<
+      Array<{ SourceCode?: string; ABI?: string; ContractName?: string; CompilerVersion?: string }> | string
+    >({
+      module: 'contract',
+      action: 'getsourcecode',
+      address,
+    });
+    const entry = Array.isArray(result) ? result[0] : undefined;
+    if (!entry) return null;
+
+    let abi: unknown[] | null = null;
+    try {
+      const parsed: unknown = JSON.parse(entry.ABI ?? '');
+      abi = Array.isArray(parsed) ? parsed : null;
+    } catch {
+      abi = null; // "Contract source code not verified"
+    }
+
+    const verified = abi !== null || !!entry.SourceCode;
+    return {
+      verified,
+      contractName: verified && entry.ContractName ? entry.ContractName : null,
+      compilerVersion: verified && entry.CompilerVersion ? entry.CompilerVersion : null,
+      abi,
+    };
+  } catch (error) {
+    console.error(`[Basescan] Failed to fetch contract source for ${address}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the deployer address and creation tx hash for a contract.
+ */
+export async function getContractCreation(
+  address: string,
+): Promise<{ deployer: string; txHash: string } | null> {
+  try {
+    const result = await basescanGet<
+      Array<{ contractCreator?: string; txHash?: string }> | string
+    >({
+      module: 'contract',
+      action: 'getcontractcreation',
+      contractaddresses: address,
+    });
+    const entry = Array.isArray(result) ? result[0] : undefined;
+    if (!entry?.contractCreator || !entry.txHash) return null;
+    return { deployer: entry.contractCreator.toLowerCase(), txHash: entry.txHash };
+  } catch (error) {
+    console.error(`[Basescan] Failed to fetch contract creation for ${address}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,145 @@
+// ============================================================
+// Tell-Tale Bot — Batch Analysis
+// ============================================================
+// Screens a list of addresses (or names) at once, e.g. an airdrop
+// claimant list. A small pool of workers runs analyses side by side;
+// every Basescan call they make still queues on the shared rate
+// limiter, so the pool is sized to its calls-per-second budget.
+// Each result is handed back as soon as it is ready (the API streams
+// them), then totals and a riskiest-first table close the batch.
+// ============================================================
+
+import { config } from '../config.js';
+import { BatchResult, BatchSummary, WalletReport } from '../types/index.js';
+import { resolveAddressOrName } from './nameResolver.js';
+
+/** Analyses in flight at once — one per Basescan call allowed per second */
+const BATCH_CONCURRENCY = Math.max(1, config.basescanRateLimit);
+
+const RISK_ORDER = { HIGH: 0, MEDIUM: 1, LOW: 2 } as const;
+
+/**
+ * Validate a POST /analyze/batch body: `{ "addresses": [...] }` with
+ * 1–BATCH_MAX_ADDRESSES strings. Repeats are dropped (case-insensitive),
+ * keeping the first. Returns null when the body is malformed.
+ */
+export function parseBatchRequest(body: unknown): { addresses: string[]; deep: boolean } | null {
+  const { addresses, deep = false } = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(addresses) || typeof deep !== 'boolean') return null;
+  if (!addresses.every((a): a is string => typeof a === 'string')) return null;
+
+  const unique = new Map<string, string>();
+  for (const address of addresses) {
+    const trimmed = address.trim();
+    if (trimmed && !unique.has(trimmed.toLowerCase())) unique.set(trimmed.toLowerCase(), trimmed);
+  }
+  if (unique.size === 0 || unique.size > config.batchMaxAddresses) return null;
+
+  return { addresses: [...unique.values()], deep };
+}
+
+/**
+ * Analyze every input with `analyze`, at most BATCH_CONCURRENCY at a
+ * time. `onResult` gets each result as it completes (not in input
+ * order). Inputs that aren't addresses or resolvable names are reported
+ * as invalid; analyses that throw as failed — neither stops the batch.
+ * An input resolving to an address already in the batch (a name and its
+ * address, say) is reported as a duplicate of the first one to resolve
+ * and not analyzed again. Stops picking up new inputs once `signal` is
+ * aborted.
+ */
+export async function runBatch(
+  inputs: string[],
+  analyze: (address: string) => Promise<WalletReport>,
+  onResult: (result: BatchResult) => void = () => {},
+  signal?: AbortSignal,
+): Promise<BatchSummary> {
+  const startTime = Date.now();
+  const results: BatchResult[] = [];
+  const claimed = new Map<string, number>(); // lowercased address → index analyzing it
+  let next = 0;
+
+  const worker = async () => {
+    while (next < inputs.length && !signal?.aborted) {
+      const index = next++;
+      const result = await analyzeOne(index, inputs[index]!, analyze, claimed);
+      results.push(result);
+      onResult(result);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, inputs.length) }, worker));
+
+  const summary = summarizeBatch(results, Date.now() - startTime);
+  console.log(
+    `[Batch] ${summary.analyzed}/${summary.total} analyzed (${summary.byRiskLevel.HIGH} HIGH, ${summary.invalid} invalid, ${summary.duplicates} duplicate, ${summary.failed} failed) in ${summary.durationMs}ms`,
+  );
+  return summary;
+}
+
+/**
+ * Totals for a set of results. Rows put the analyzed addresses first,
+ * riskiest first, then the invalid, duplicate and failed ones in input order.
+ */
+export function summarizeBatch(results: BatchResult[], durationMs: number): BatchSummary {
+  const analyzed = results
+    .filter((r) => r.status === 'ok')
+    .sort(
+      (x, y) =>
+        RISK_ORDER[x.riskLevel!] - RISK_ORDER[y.riskLevel!] ||
+        y.riskScore! - x.riskScore! ||
+        x.index - y.index,
+    );
+  const rest = results.filter((r) => r.status !== 'ok').sort((x, y) => x.index - y.index);
+
+  return {
+    total: results.length,
+    analyzed: analyzed.length,
+    invalid: rest.filter((r) => r.status === 'invalid').length,
+    duplicates: rest.filter((r) => r.status === 'duplicate').length,
+    failed: rest.filter((r) => r.status === 'failed').length,
+    byRiskLevel: {
+      HIGH: analyzed.filter((r) => r.riskLevel === 'HIGH').length,
+      MEDIUM: analyzed.filter((r) => r.riskLevel === 'MEDIUM').length,
+      LOW: analyzed.filter((r) => r.riskLevel === 'LOW').length,
+    },
+    rows: [...analyzed, ...rest],
+    durationMs,
+  };
+}
+
+async function analyzeOne(
+  index: number,
+  input: string,
+  analyze: (address: string) => Promise<WalletReport>,
+  claimed: Map<string, number>,
+): Promise<BatchResult> {
+  const address = await resolveAddressOrName(input);
+  if (!address) {
+    return { index, input, status: 'invalid', error: 'Invalid wallet address or unresolvable name' };
+  }
+
+  const first = claimed.get(address.toLowerCase());
+  if (first !== undefined) {
+    return { index, input, status: 'duplicate', address, error: `Same address as #${first + 1}` };
+  }
+  claimed.set(address.toLowerCase(), index);
+
+  try {
+    const report = await analyze(address);
+    return {
+      index,
+      input,
+      status: 'ok',
+      address,
+      ...(report.name ? { name: report.name } : {}),
+      riskLevel: report.riskLevel,
+      riskScore: report.riskScore,
+      confidence: report.confidence,
+      isContract: !!report.contract,
+      summary: report.summary,
+    };
+  } catch (error) {
+    console.error(`[Batch] Analysis failed for ${address}:`, error);
+    return { index, input, status: 'failed', address, error: 'Analysis failed' };
+  }
+}
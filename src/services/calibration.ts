@@ -0,0 +1,349 @@
+// ============================================================
+// Tell-Tale Bot — Scoring Calibration
+// ============================================================
+// Offline evaluation of a scoring model against labeled addresses
+// with recorded WalletData fixtures (no network):
+//   1. confusion matrix: ground truth × predicted level
+//   2. precision / recall per level and per operating point
+//      ("scam" = MEDIUM and above, or HIGH only)
+//   3. ROC curve and AUC for the raw 0-100 score
+//   4. per-signal weighted contribution for scams vs benign
+//   5. suggested thresholds: the HIGH cut maximizes TPR - FPR
+//      (Youden's J); the LOW cut is the highest score that still
+//      keeps LOW to at most 5% of scams
+// ============================================================
+
+import { isAddress } from 'viem';
+import {
+  CalibrationReport,
+  GroundTruth,
+  LabeledAddress,
+  LevelMetrics,
+  OperatingPoint,
+  RiskLevel,
+  RocPoint,
+  ScoringModel,
+  SignalContribution,
+  WalletData,
+} from '../types/index.js';
+import { computeRiskScore } from './riskScorer.js';
+
+/** Share of scams allowed to land in LOW when suggesting the LOW cut */
+const LOW_MISS_RATE = 0.05;
+
+const LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const ADDRESS_COLUMNS = ['address', 'banned_address', 'contract_address', 'wallet', 'account'];
+const LABEL_COLUMNS = ['label', 'is_scam', 'malicious', 'class', 'label_type'];
+const SCAM_VALUES = new Set(['scam', 'malicious', 'phishing', 'drainer', 'fraud', 'exploit', 'hack', '1', 'true', 'yes']);
+const BENIGN_VALUES = new Set(['benign', 'legit', 'legitimate', 'normal', 'clean', '0', 'false', 'no']);
+
+interface Scored {
+  label: GroundTruth;
+  score: number;
+  level: RiskLevel;
+  contributions: Map<string, number>;
+}
+
+/**
+ * Parse a labeled dataset: a JSON array of { address, label } or a CSV
+ * with a header (Forta labelled-datasets style). With `defaultLabel`,
+ * every row gets that label and no label column is needed — the Forta
+ * malicious-address lists have none.
+ */
+export function parseLabeledDataset(text: string, source: string, defaultLabel?: GroundTruth): LabeledAddress[] {
+  const trimmed = text.trim();
+  const rows: Array<Record<string, string>> = trimmed.startsWith('[')
+    ? (JSON.parse(trimmed) as Array<Record<string, unknown>>).map((row) =>
+        Object.fromEntries(Object.entries(row).map(([k, v]) => [k.toLowerCase(), String(v ?? '')])),
+      )
+    : parseCsv(trimmed);
+
+  const labeled: LabeledAddress[] = [];
+  for (const row of rows) {
+    const address = ADDRESS_COLUMNS.map((c) => row[c]).find((v) => v && isAddress(v.trim(), { strict: false }))?.trim();
+    if (!address) continue;
+
+    const rawLabel = LABEL_COLUMNS.map((c) => row[c]).find((v) => v !== undefined && v !== '');
+    const label = rawLabel !== undefined ? toGroundTruth(rawLabel) : defaultLabel;
+    if (!label) continue;
+
+    labeled.push({ address: address.toLowerCase(), label, source });
+  }
+  return labeled;
+}
+
+/**
+ * Score every labeled address that has a fixture and measure the
+ * verdicts against the labels. Addresses labeled twice keep the first
+ * label.
+ */
+export function evaluateScoring(
+  dataset: LabeledAddress[],
+  loadFixture: (address: string) => WalletData | null,
+  model: ScoringModel,
+): CalibrationReport {
+  const seen = new Set<string>();
+  const scored: Scored[] = [];
+  const missingFixtures: string[] = [];
+
+  for (const entry of dataset) {
+    const address = entry.address.toLowerCase();
+    if (seen.has(address)) continue;
+    seen.add(address);
+
+    const data = loadFixture(address);
+    if (!data) {
+      missingFixtures.push(address);
+      continue;
+    }
+    const { score, level, signals } = computeRiskScore(data, model);
+    scored.push({
+      label: entry.label,
+      score,
+      level,
+      contributions: new Map(signals.map((s) => [s.name, s.score * s.weight])),
+    });
+  }
+
+  const confusion: CalibrationReport['confusion'] = {
+    scam: { LOW: 0, MEDIUM: 0, HIGH: 0 },
+    benign: { LOW: 0, MEDIUM: 0, HIGH: 0 },
+  };
+  for (const s of scored) confusion[s.label][s.level]++;
+
+  const scams = scored.filter((s) => s.label === 'scam').length;
+  const benign = scored.length - scams;
+  const roc = rocCurve(scored);
+
+  return {
+    modelVersion: model.version,
+    samples: scored.length,
+    scams,
+    benign,
+    missingFixtures,
+    confusion,
+    levels: levelMetrics(confusion, scams, benign),
+    operatingPoints: [operatingPoint(confusion, 'MEDIUM'), operatingPoint(confusion, 'HIGH')],
+    roc,
+    auc: scams > 0 && benign > 0 ? areaUnderCurve(roc) : null,
+    signals: signalContributions(scored),
+    suggestedThresholds: suggestThresholds(scored),
+  };
+}
+
+/** Plain-text report for the CLI */
+export function formatCalibrationReport(report: CalibrationReport): string {
+  const pct = (v: number | null) => (v === null ? '  n/a' : `${(v * 100).toFixed(1).padStart(5)}%`);
+  const lines = [
+    `Scoring model ${report.modelVersion} — ${report.samples} samples (${report.scams} scam, ${report.benign} benign)`,
+    ...(report.missingFixtures.length > 0 ? [`Skipped ${report.missingFixtures.length} labeled address(es) with no fixture`] : []),
+    '',
+    'Confusion matrix (rows: label, columns: predicted level)',
+    `          ${LEVELS.map((l) => l.padStart(7)).join('')}`,
+    ...(['scam', 'benign'] as GroundTruth[]).map(
+      (label) => `  ${label.padEnd(8)}${LEVELS.map((l) => String(report.confusion[label][l]).padStart(7)).join('')}`,
+    ),
+    '',
+    'Per level (LOW predicts benign, MEDIUM/HIGH predict scam)',
+    ...LEVELS.map((l) => {
+      const m = report.levels[l];
+      return `  ${l.padEnd(8)}n=${String(m.count).padEnd(6)}precision ${pct(m.precision)}  recall ${pct(m.recall)}`;
+    }),
+    '',
+    'Operating points',
+    ...report.operatingPoints.map(
+      (p) =>
+        `  flag ${p.flagLevel.padEnd(6)}+  accuracy ${pct(p.accuracy)}  precision ${pct(p.precision)}  recall ${pct(p.recall)}  FPR ${pct(p.falsePositiveRate)}`,
+    ),
+    '',
+    `ROC AUC (raw score): ${report.auc === null ? 'n/a (needs both classes)' : report.auc.toFixed(3)}`,
+    '',
+    'Signal contribution (mean score × weight)',
+    `  ${'signal'.padEnd(22)}${'n'.padStart(6)}${'scam'.padStart(9)}${'benign'.padStart(9)}${'sep'.padStart(9)}`,
+    ...report.signals.map(
+      (s) =>
+        `  ${s.name.padEnd(22)}${String(s.present).padStart(6)}${s.meanScam.toFixed(1).padStart(9)}${s.meanBenign.toFixed(1).padStart(9)}${s.separation.toFixed(1).padStart(9)}`,
+    ),
+    '',
+    report.suggestedThresholds
+      ? `Suggested thresholds: low ${report.suggestedThresholds.low}, medium ${report.suggestedThresholds.medium}`
+      : 'Suggested thresholds: n/a (needs both classes)',
+  ];
+  return lines.join('\n');
+}
+
+function operatingPoint(
+  confusion: CalibrationReport['confusion'],
+  flagLevel: OperatingPoint['flagLevel'],
+): OperatingPoint {
+  const flagged = flagLevel === 'HIGH' ? (['HIGH'] as RiskLevel[]) : (['MEDIUM', 'HIGH'] as RiskLevel[]);
+  const count = (label: GroundTruth, levels: RiskLevel[]) => levels.reduce((n, l) => n + confusion[label][l], 0);
+  const cleared = LEVELS.filter((l) => !flagged.includes(l));
+
+  const truePositives = count('scam', flagged);
+  const falsePositives = count('benign', flagged);
+  const trueNegatives = count('benign', cleared);
+  const falseNegatives = count('scam', cleared);
+  const total = truePositives + falsePositives + trueNegatives + falseNegatives;
+
+  return {
+    flagLevel,
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+    accuracy: total > 0 ? (truePositives + trueNegatives) / total : 0,
+    falsePositiveRate: ratio(falsePositives, falsePositives + trueNegatives),
+  };
+}
+
+function levelMetrics(
+  confusion: CalibrationReport['confusion'],
+  scams: number,
+  benign: number,
+): Record<RiskLevel, LevelMetrics> {
+  const metrics = (level: RiskLevel, predicts: GroundTruth): LevelMetrics => {
+    const count = confusion.scam[level] + confusion.benign[level];
+    const correct = confusion[predicts][level];
+    return {
+      predicts,
+      count,
+      precision: ratio(correct, count),
+      recall: ratio(correct, predicts === 'scam' ? scams : benign),
+    };
+  };
+  return { LOW: metrics('LOW', 'benign'), MEDIUM: metrics('MEDIUM', 'scam'), HIGH: metrics('HIGH', 'scam') };
+}
+
+/** One point per integer threshold, from "everything flagged" (-1) to "nothing flagged" (100) */
+function rocCurve(scored: Scored[]): RocPoint[] {
+  const scams = scored.filter((s) => s.label === 'scam');
+  const benign = scored.filter((s) => s.label === 'benign');
+  const points: RocPoint[] = [];
+  for (let threshold = -1; threshold <= 100; threshold++) {
+    points.push({
+      threshold,
+      truePositiveRate: ratio(scams.filter((s) => s.score > threshold).length, scams.length) ?? 0,
+      falsePositiveRate: ratio(benign.filter((s) => s.score > threshold).length, benign.length) ?? 0,
+    });
+  }
+  return points;
+}
+
+/** Trapezoidal area under the ROC curve */
+function areaUnderCurve(roc: RocPoint[]): number {
+  let area = 0;
+  for (let i = 1; i < roc.length; i++) {
+    const a = roc[i - 1]!;
+    const b = roc[i]!;
+    area += (a.falsePositiveRate - b.falsePositiveRate) * (a.truePositiveRate + b.truePositiveRate) / 2;
+  }
+  return area;
+}
+
+function signalContributions(scored: Scored[]): SignalContribution[] {
+  const names = [...new Set(scored.flatMap((s) => [...s.contributions.keys()]))];
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  return names
+    .map((name) => {
+      const of = (label: GroundTruth) =>
+        scored.filter((s) => s.label === label).map((s) => s.contributions.get(name) ?? 0);
+      const meanScam = mean(of('scam'));
+      const meanBenign = mean(of('benign'));
+      return {
+        name,
+        present: scored.filter((s) => s.contributions.has(name)).length,
+        meanScam,
+        meanBenign,
+        separation: meanScam - meanBenign,
+      };
+    })
+    .sort((a, b) => b.separation - a.separation);
+}
+
+/**
+ * HIGH cut (`medium`): the threshold maximizing TPR - FPR, middle of the
+ * best range. LOW cut (`low`): the highest threshold below it that keeps
+ * at most LOW_MISS_RATE of scams at or under it.
+ */
+function suggestThresholds(scored: Scored[]): { low: number; medium: number } | null {
+  const scams = scored.filter((s) => s.label === 'scam').map((s) => s.score);
+  const benign = scored.filter((s) => s.label === 'benign').map((s) => s.score);
+  if (scams.length === 0 || benign.length === 0) return null;
+
+  const above = (scores: number[], t: number) => scores.filter((s) => s > t).length / scores.length;
+  let best = -Infinity;
+  let bestRange: number[] = [];
+  for (let t = 0; t < 100; t++) {
+    const j = above(scams, t) - above(benign, t);
+    if (j > best + 1e-9) {
+      best = j;
+      bestRange = [t];
+    } else if (Math.abs(j - best) <= 1e-9) {
+      bestRange.push(t);
+    }
+  }
+  const medium = Math.max(1, bestRange[Math.floor((bestRange.length - 1) / 2)]!);
+
+  let low = 0;
+  for (let t = medium - 1; t >= 0; t--) {
+    if (1 - above(scams, t) <= LOW_MISS_RATE) {
+      low = t;
+      break;
+    }
+  }
+  return { low, medium };
+}
+
+function toGroundTruth(value: string): GroundTruth | undefined {
+  const v = value.trim().toLowerCase();
+  if (SCAM_VALUES.has(v)) return 'scam';
+  if (BENIGN_VALUES.has(v)) return 'benign';
+  return undefined;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/** Minimal CSV: header row, comma separated, double-quoted fields with "" escapes */
+function parseCsv(text: string): Array<Record<string, string>> {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const header = splitCsvLine(lines[0] ?? '').map((h) => h.trim().toLowerCase());
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((h, i) => [h, cells[i] ?? '']));
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
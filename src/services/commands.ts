@@ -0,0 +1,329 @@
+// ============================================================
+// Tell-Tale Bot — Mention Command Grammar
+// ============================================================
+// "@TellTaleBot <verb> [args] [--options]". The verb is the first
+// word after the mentions; a mention with an address and no verb is
+// an analysis, as it always was — and so is one whose verb arguments
+// don't parse, so everyday sentences ("can you help me check 0x…")
+// still get a report. Wherever an address goes, a Basename or ENS
+// name works too:
+//   analyze 0x… [0x…] [--deep]    full report thread, or one cast per address
+//   details 0x… [--deep]          how the score was reached
+//   compare 0x… 0x… [--deep]      two addresses side by side, and how linked
+//   explain <signal>              what a risk signal checks
+//   report <category> 0x…         one section of the report
+//   approvals 0x…                 live allowances + revoke calldata
+//   precheck 0xTo 0xData …        transaction check before signing
+//   help [command]                command list
+// Anything else gets a short usage reply.
+//
+// Mentioned Farcaster users stand in for their verified addresses
+// when the command is about them — an address verb ("compare @alice
+// @bob", each user in its place) or a bare "@TellTaleBot @alice".
+// Otherwise a mention with no address borrows one from its embeds or
+// the cast it replies to ("is this legit? cc @bob" checks the parent),
+// and only then from the users it mentions.
+// ============================================================
+
+import { config } from '../config.js';
+import {
+  BotCommand,
+  CommandVerb,
+  NeynarCastEvent,
+  ReportCategory,
+  ScoringModel,
+  SignalModule,
+} from '../types/index.js';
+import { extractTargets, isName } from '../utils/address.js';
+import { listSignals } from '../signals/index.js';
+import { REPORT_CATEGORIES } from './reportGenerator.js';
+import { parsePrecheckCommand } from './precheck.js';
+import { resolveName } from './nameResolver.js';
+import { describeEmbeds, fetchCastContent, fetchVerifiedAddresses } from './farcaster.js';
+
+const VERBS = new Map<string, CommandVerb>([
+  ['analyze', 'analyze'],
+  ['analyse', 'analyze'],
+  ['details', 'details'],
+  ['breakdown', 'details'],
+  ['compare', 'compare'],
+  ['explain', 'explain'],
+  ['report', 'report'],
+  ['approvals', 'approvals'],
+  ['approval', 'approvals'],
+  ['precheck', 'precheck'],
+  ['help', 'help'],
+]);
+
+const OPTIONS = new Set(['deep']);
+
+/** Verbs whose arguments are addresses, so a mentioned user can be one */
+const ADDRESS_VERBS = new Set<CommandVerb>(['analyze', 'details', 'compare', 'report', 'approvals']);
+
+/** One line per verb, shown by "help" and in usage replies */
+const USAGE: Record<CommandVerb, string> = {
+  analyze: 'analyze 0x… [--deep] — full risk report (--deep reads more history)',
+  details: 'details 0x… — how the score was reached',
+  compare: 'compare 0x… 0x… — two addresses side by side, and whether they\'re linked',
+  explain: 'explain <signal> — what a risk signal checks',
+  report: `report <${[...REPORT_CATEGORIES, 'approvals'].join('|')}> 0x… — one section of the report`,
+  approvals: 'approvals 0x… — live token approvals with revoke calldata',
+  precheck: 'precheck 0xTarget 0xCalldata [ETH value] [from=0xSigner] — check a transaction before signing',
+  help: 'help [command] — this list',
+};
+
+/**
+ * Turn a mention into a command. Mentioned users are replaced by their
+ * verified addresses when the command is about them; otherwise an
+ * address missing from the text comes from its embeds, the parent cast
+ * or, failing those, the mentioned users. Names are resolved.
+ */
+export async function commandFromMention(cast: NeynarCastEvent['data'], botFid: number): Promise<BotCommand> {
+  const found = (text: string) => extractTargets(text).join(' ');
+  const text = [cast.text, found(describeEmbeds(cast.embeds).join('\n'))].join('\n');
+  const profiles = mentionOrder(cast.text, cast.mentioned_profiles.filter((p) => p.fid !== botFid));
+
+  const words = leadingWords(text);
+  const verb = words[0] !== undefined ? VERBS.get(words[0]) ?? null : null;
+  const aboutUsers =
+    profiles.length > 0 &&
+    (verb ? ADDRESS_VERBS.has(verb) : words.every((w) => w === '') && extractTargets(text).length === 0);
+  if (aboutUsers) return withProfileAddresses(text, profiles, verb);
+
+  // Only look further when the mention needs an address it doesn't have
+  const command = parseCommand(text);
+  if (command.verb !== 'usage' || extractTargets(text).length > 0) return resolveCommand(command);
+
+  if (cast.parent_hash) {
+    const parent = await fetchCastContent(cast.parent_hash);
+    const targets = parent ? found(parent) : '';
+    if (targets) return resolveCommand(parseCommand(`${text}\n${targets}`));
+    if (profiles.length === 0) {
+      return usage(null, "I didn't find a wallet address in your message or the cast you replied to.");
+    }
+  }
+  return profiles.length > 0 ? withProfileAddresses(text, profiles, verb) : command;
+}
+
+type MentionedProfile = NeynarCastEvent['data']['mentioned_profiles'][number];
+
+/**
+ * Put each mentioned user's verified addresses where they were mentioned
+ * (appended if the text doesn't name them) and parse the result. A
+ * compare takes each user's primary address so two users make a pair.
+ */
+async function withProfileAddresses(
+  text: string,
+  profiles: MentionedProfile[],
+  verb: CommandVerb | null,
+): Promise<BotCommand> {
+  const lookups = await Promise.all(profiles.map((p) => fetchVerifiedAddresses(p.fid)));
+
+  let withAddresses = text;
+  for (const [i, profile] of profiles.entries()) {
+    const addresses = lookups[i];
+    if (!addresses) {
+      return { verb: 'usage', message: `❓ I couldn't look up @${profile.username}'s wallets. Please try again later.` };
+    }
+    if (addresses.length === 0) {
+      return { verb: 'usage', message: `❓ @${profile.username} has no verified Ethereum addresses on Farcaster.` };
+    }
+    const replacement = (verb === 'compare' ? addresses.slice(0, 1) : addresses).join(' ');
+    const handle = mentionPattern(profile.username);
+    withAddresses = handle.test(withAddresses)
+      ? withAddresses.replace(handle, replacement)
+      : `${withAddresses}\n${replacement}`;
+  }
+  return resolveCommand(parseCommand(withAddresses));
+}
+
+/** Profiles in the order the text mentions them; unnamed ones last */
+function mentionOrder(text: string, profiles: MentionedProfile[]): MentionedProfile[] {
+  const position = (p: MentionedProfile) => {
+    const index = text.search(mentionPattern(p.username));
+    return index === -1 ? Infinity : index;
+  };
+  return [...profiles].sort((a, b) => position(a) - position(b));
+}
+
+/** "@username" as a whole handle (usernames may contain dots and dashes) */
+function mentionPattern(username: string): RegExp {
+  return new RegExp(`@${username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w.-])`, 'i');
+}
+
+/**
+ * Parse mention text into a command. Never throws: anything that
+ * doesn't fit the grammar comes back as a `usage` command. Address
+ * arguments may still be names; see resolveCommand().
+ */
+export function parseCommand(text: string): BotCommand {
+  const tokens = text.split(/\s+/).filter((t) => t !== '' && !t.startsWith('@'));
+  const options = tokens.filter((t) => t.startsWith('--')).map((t) => t.slice(2).toLowerCase());
+  const unknownOption = options.find((o) => !OPTIONS.has(o));
+  if (unknownOption !== undefined) {
+    return usage(null, `Unknown option --${unknownOption}.`);
+  }
+  const deep = options.includes('deep');
+
+  const words = leadingWords(text);
+  const verb = words[0] !== undefined ? VERBS.get(words[0]) ?? null : null;
+  const args = words.slice(1).filter((w) => w !== '');
+
+  const addresses = extractTargets(text);
+  const address = addresses[0];
+
+  // Verb arguments that don't parse: analyze the address if there is one
+  const unparsed = (usageVerb: CommandVerb, problem: string): BotCommand =>
+    address ? analyze(addresses, deep) : usage(usageVerb, problem);
+
+  switch (verb) {
+    case null:
+      return address
+        ? analyze(addresses, deep)
+        : usage(null, "I didn't catch a wallet address or command.");
+    case 'help': {
+      const topic = args[0] !== undefined ? VERBS.get(args[0]) ?? null : null;
+      if (args[0] !== undefined && !topic && address) return analyze(addresses, deep);
+      return { verb: 'help', topic };
+    }
+    case 'explain': {
+      const query = args.join(' ');
+      if (!query) return unparsed('explain', 'Which signal should I explain?');
+      const signal = findSignal(query);
+      if (!signal) {
+        return unparsed('explain', `Unknown signal "${query}". Signals: ${listSignals().map((s) => s.name).join(', ')}.`);
+      }
+      return { verb: 'explain', signal: signal.id };
+    }
+    case 'precheck': {
+      const input = parsePrecheckCommand(text);
+      return input ? { verb: 'precheck', input } : unparsed('precheck', 'Tag me with the transaction to check.');
+    }
+    case 'compare': {
+      const [a, b] = addresses;
+      if (!a || !b || addresses.length > 2) return unparsed('compare', 'Compare takes exactly two addresses.');
+      return { verb: 'compare', addresses: [a, b], deep };
+    }
+    case 'report': {
+      const category = args[0];
+      if (!category || !isReportCategory(category)) return unparsed('report', 'Which section should I report?');
+      if (!address) return usage('report', 'Tag me with the address to report on.');
+      return { verb: 'report', category, address, deep };
+    }
+    case 'approvals':
+      return address ? { verb: 'approvals', address } : usage('approvals', 'Tag me with the wallet to audit.');
+    case 'analyze':
+      return address ? analyze(addresses, deep) : usage(verb, 'Tag me with the address to analyze.');
+    case 'details':
+      return address ? { verb, address, deep } : usage(verb, 'Tag me with the address to analyze.');
+  }
+}
+
+/**
+ * Words before the first address, mentions and options skipped; only
+ * the first one can be the verb.
+ */
+function leadingWords(text: string): string[] {
+  const words: string[] = [];
+  for (const token of text.split(/\s+/)) {
+    if (token === '' || token.startsWith('@') || token.startsWith('--')) continue;
+    if (/0x[a-fA-F0-9]{40}/.test(token) || isName(token)) break;
+    words.push(token.toLowerCase().replace(/[^a-z0-9-]/g, ''));
+  }
+  return words;
+}
+
+/** Analyze every address given, up to the per-mention limit */
+function analyze(addresses: string[], deep: boolean): BotCommand {
+  return { verb: 'analyze', addresses: addresses.slice(0, config.mentionMaxAddresses), deep };
+}
+
+/**
+ * Resolve name arguments to addresses. A name that doesn't resolve
+ * turns the command into a usage reply saying so.
+ */
+export async function resolveCommand(command: BotCommand): Promise<BotCommand> {
+  const resolve = async (target: string) => (isName(target) ? resolveName(target) : target);
+  const unresolved = (name: string): BotCommand => ({
+    verb: 'usage',
+    message: `❓ I couldn't resolve ${name} to an address on Base or Ethereum.`,
+  });
+
+  switch (command.verb) {
+    case 'analyze': {
+      const resolved = await Promise.all(command.addresses.map(resolve));
+      const missing = command.addresses.find((_, i) => !resolved[i]);
+      if (missing) return unresolved(missing);
+      return { ...command, addresses: [...new Set(resolved as string[])] };
+    }
+    case 'details':
+    case 'report':
+    case 'approvals': {
+      const address = await resolve(command.address);
+      return address ? { ...command, address } : unresolved(command.address);
+    }
+    case 'compare': {
+      const [a, b] = command.addresses;
+      const [resolvedA, resolvedB] = await Promise.all([resolve(a), resolve(b)]);
+      if (!resolvedA) return unresolved(a);
+      if (!resolvedB) return unresolved(b);
+      if (resolvedA === resolvedB) return usage('compare', `${a} and ${b} are the same address.`);
+      return { ...command, addresses: [resolvedA, resolvedB] };
+    }
+    default:
+      return command;
+  }
+}
+
+/** Command list for "help", or one command's usage */
+export function formatHelp(topic: CommandVerb | null): string {
+  if (topic) return `ℹ️ @TellTaleBot ${USAGE[topic]}`;
+  return [
+    'ℹ️ Tell-Tale Bot commands:',
+    ...(Object.keys(USAGE) as CommandVerb[]).map((verb) => `• ${USAGE[verb]}`),
+    'Just tagging me with an address runs analyze. Basenames and ENS names work wherever an address does.',
+  ].join('\n');
+}
+
+/**
+ * What a signal checks and the weight the scoring model gives it.
+ */
+export function formatSignalExplanation(signalId: string, model: ScoringModel): string {
+  const signal = listSignals().find((s) => s.id === signalId);
+  if (!signal) return `❓ Unknown signal "${signalId}".`;
+
+  const weights = [
+    ['wallets', model.wallet[signalId]],
+    ['contracts', model.contract[signalId]],
+  ] as const;
+  const used = weights
+    .filter(([, settings]) => settings && settings.enabled !== false)
+    .map(([mode, settings]) => `${Math.round(settings!.weight * 100)}% for ${mode}`);
+
+  return [
+    `📊 ${signal.name}`,
+    signal.about,
+    used.length > 0
+      ? `Weight: ${used.join(', ')} (model ${model.version}).`
+      : `Not used by scoring model ${model.version}.`,
+  ].join('\n');
+}
+
+function usage(verb: CommandVerb | null, problem: string): BotCommand {
+  return {
+    verb: 'usage',
+    message: verb
+      ? `❓ ${problem}\nUsage: @TellTaleBot ${USAGE[verb]}`
+      : `❓ ${problem} Try @TellTaleBot 0x… to analyze a wallet, or @TellTaleBot help for all commands.`,
+  };
+}
+
+/** Match a signal by id or name, ignoring case, spaces and dashes */
+function findSignal(query: string): SignalModule | undefined {
+  const key = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+  return listSignals().find((s) => key(s.id) === key(query) || key(s.name) === key(query));
+}
+
+function isReportCategory(word: string): word is ReportCategory | 'approvals' {
+  return word === 'approvals' || (REPORT_CATEGORIES as string[]).includes(word);
+}
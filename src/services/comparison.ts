@@ -0,0 +1,265 @@
+// ============================================================
+// Tell-Tale Bot — Wallet Comparison
+// ============================================================
+// Looks for links between two addresses in their fetched history:
+//   - direct transfers between them (ETH, internal, tokens)
+//   - counterparties both transacted with — shared protocols
+//     (known contracts) are listed but don't count as evidence
+//   - addresses in both funding paths — a common exchange hot
+//     wallet counts for little, a private funder for a lot
+//   - timing: how often both send transactions minutes apart
+// and turns them into a hedged relationship verdict.
+// Pure over the fetched history — no extra API calls.
+// ============================================================
+
+import { formatEther, formatUnits, zeroAddress } from 'viem';
+import {
+  WalletData,
+  WalletRelationship,
+  RelationshipStrength,
+  SharedCounterparty,
+  DirectTransfer,
+  CommonFunder,
+  TimingCorrelation,
+  FundingHop,
+} from '../types/index.js';
+import { getContractLabel } from '../data/knownContracts.js';
+import { shortenAddress } from '../utils/address.js';
+import { safeBigInt } from '../utils/format.js';
+import { rankCounterparties } from './counterparties.js';
+
+/** Transactions this close together count as correlated */
+const TIMING_WINDOW_SECONDS = 120;
+
+/** Correlated transactions needed before timing counts at all */
+const MIN_TIMING_MATCHES = 3;
+
+/** Points per kind of link; the total (capped at 100) sets the strength */
+const POINTS = {
+  directTransfers: 40,
+  privateFunder: 35,
+  exchangeFunder: 5,
+  sharedCounterparty: 8, // per private counterparty
+  sharedCounterpartyMax: 24,
+  timingStrong: 25, // ratio >= 0.5
+  timingWeak: 10, // ratio >= 0.2
+};
+
+/** Minimum score for each strength, strongest first */
+const STRENGTH_THRESHOLDS: Array<[RelationshipStrength, number]> = [
+  ['strong', 60],
+  ['moderate', 30],
+  ['weak', 5],
+];
+
+/** List sizes kept in the relationship */
+const MAX_SHARED = 10;
+const MAX_DIRECT = 10;
+
+/**
+ * The two addresses of a pair lowercased and sorted, so A/B and B/A
+ * share a cache key and fixture bundle.
+ */
+export function comparisonKey(a: string, b: string): [string, string] {
+  const [x, y] = [a.toLowerCase(), b.toLowerCase()];
+  return x < y ? [x, y] : [y, x];
+}
+
+/**
+ * Compare two addresses' fetched history and judge how strongly
+ * they appear linked.
+ */
+export function compareWalletData(a: WalletData, b: WalletData): WalletRelationship {
+  const shared = findSharedCounterparties(a, b);
+  const direct = findDirectTransfers(a, b);
+  const funders = findCommonFunders(a, b);
+  const timing = correlateTiming(a, b, new Set(direct.map((t) => t.txHash)));
+
+  const privateShared = shared.filter((c) => !c.label);
+  const privateFunders = funders.filter((f) => !f.attribution);
+  const labeledFunders = funders.filter((f) => f.attribution);
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (direct.length > 0) {
+    score += POINTS.directTransfers;
+    reasons.push(`${direct.length} direct transfer(s) between the two addresses`);
+  }
+  if (privateFunders.length > 0) {
+    score += POINTS.privateFunder;
+    reasons.push(`Common funder: ${privateFunders.map((f) => shortenAddress(f.address)).join(', ')}`);
+  } else if (labeledFunders.length > 0) {
+    score += POINTS.exchangeFunder;
+    reasons.push(
+      `Both funded via ${labeledFunders.map((f) => f.attribution!.label).join(', ')} — common for unrelated users`,
+    );
+  }
+  if (privateShared.length > 0) {
+    score += Math.min(privateShared.length * POINTS.sharedCounterparty, POINTS.sharedCounterpartyMax);
+    reasons.push(`${privateShared.length} counterparty(ies) in common, excluding known protocols`);
+  }
+  if (timing.matched >= MIN_TIMING_MATCHES && timing.ratio >= 0.2) {
+    score += timing.ratio >= 0.5 ? POINTS.timingStrong : POINTS.timingWeak;
+    reasons.push(
+      `${Math.round(timing.ratio * 100)}% of the less active address's transactions came within ${TIMING_WINDOW_SECONDS / 60} minutes of the other's`,
+    );
+  }
+
+  score = Math.min(score, 100);
+  const strength = STRENGTH_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? 'none';
+  if (strength === 'none' && reasons.length === 0) {
+    reasons.push('No direct transfers, common funders, private shared counterparties or correlated timing found in the fetched history');
+  }
+
+  return {
+    strength,
+    score,
+    reasons,
+    sharedCounterparties: shared.slice(0, MAX_SHARED),
+    directTransfers: direct.slice(0, MAX_DIRECT),
+    directTransferCount: direct.length,
+    commonFunders: funders,
+    timing,
+  };
+}
+
+/**
+ * Counterparties of both addresses, private ones first, then by how
+ * often the less frequent side used them.
+ */
+function findSharedCounterparties(a: WalletData, b: WalletData): SharedCounterparty[] {
+  const exclude = new Set([a.address.toLowerCase(), b.address.toLowerCase(), zeroAddress]);
+  const countsB = new Map(rankCounterparties(b, Infinity).map((c) => [c.address, c.txCount]));
+  const names = { ...a.primaryNames, ...b.primaryNames };
+
+  const shared: SharedCounterparty[] = [];
+  for (const { address, txCount } of rankCounterparties(a, Infinity)) {
+    const txCountB = countsB.get(address);
+    if (txCountB === undefined || exclude.has(address)) continue;
+    const label = getContractLabel(address);
+    const name = names[address];
+    shared.push({
+      address,
+      ...(label ? { label } : {}),
+      ...(name ? { name } : {}),
+      txCountA: txCount,
+      txCountB,
+    });
+  }
+
+  return shared.sort(
+    (x, y) =>
+      Number(!!x.label) - Number(!!y.label) ||
+      Math.min(y.txCountA, y.txCountB) - Math.min(x.txCountA, x.txCountB),
+  );
+}
+
+/**
+ * Value moved from one address to the other, from either side's
+ * history, newest first.
+ */
+function findDirectTransfers(a: WalletData, b: WalletData): DirectTransfer[] {
+  const pair = new Set([a.address.toLowerCase(), b.address.toLowerCase()]);
+  const between = (from: string, to: string) =>
+    pair.has(from.toLowerCase()) && pair.has(to.toLowerCase()) && from.toLowerCase() !== to.toLowerCase();
+
+  const transfers = new Map<string, DirectTransfer>();
+  const add = (transfer: DirectTransfer, key: string) => {
+    if (!transfers.has(key)) transfers.set(key, transfer);
+  };
+
+  for (const data of [a, b]) {
+    for (const tx of [...data.transactions, ...data.internalTransactions]) {
+      if (!tx.to || !between(tx.from, tx.to) || safeBigInt(tx.value) === 0n) continue;
+      add(
+        {
+          from: tx.from.toLowerCase(),
+          to: tx.to.toLowerCase(),
+          asset: 'ETH',
+          amount: formatEther(safeBigInt(tx.value)),
+          txHash: tx.hash,
+          timestamp: parseInt(tx.timeStamp),
+        },
+        `${tx.hash}:ETH:${tx.from.toLowerCase()}:${tx.value}`,
+      );
+    }
+    for (const tx of data.tokenTransfers) {
+      if (!between(tx.from, tx.to) || safeBigInt(tx.value) === 0n) continue;
+      add(
+        {
+          from: tx.from.toLowerCase(),
+          to: tx.to.toLowerCase(),
+          asset: tx.tokenSymbol || shortenAddress(tx.contractAddress),
+          amount: formatUnits(safeBigInt(tx.value), parseInt(tx.tokenDecimal) || 0),
+          txHash: tx.hash,
+          timestamp: parseInt(tx.timeStamp),
+        },
+        `${tx.hash}:${tx.contractAddress.toLowerCase()}:${tx.logIndex ?? tx.value}`,
+      );
+    }
+  }
+
+  return [...transfers.values()].sort((x, y) => y.timestamp - x.timestamp);
+}
+
+/**
+ * Addresses that appear as funders in both funding paths (other than
+ * the two compared addresses themselves).
+ */
+function findCommonFunders(a: WalletData, b: WalletData): CommonFunder[] {
+  const exclude = new Set([a.address.toLowerCase(), b.address.toLowerCase()]);
+  const fundersOf = (data: WalletData) =>
+    new Map((data.fundingTrace?.hops ?? []).map((hop): [string, FundingHop] => [hop.from.toLowerCase(), hop]));
+
+  const fundersA = fundersOf(a);
+  const fundersB = fundersOf(b);
+
+  const common: CommonFunder[] = [];
+  for (const [address, hop] of fundersA) {
+    if (!fundersB.has(address) || exclude.has(address)) continue;
+    const attribution = hop.attribution ?? fundersB.get(address)!.attribution;
+    common.push({ address, ...(attribution ? { attribution } : {}) });
+  }
+  return common;
+}
+
+/**
+ * Share of the less active address's outgoing transactions sent within
+ * the window of one of the other's. Transfers between the two are left
+ * out — they line up by definition.
+ */
+function correlateTiming(a: WalletData, b: WalletData, skipHashes: Set<string>): TimingCorrelation {
+  const sentTimes = (data: WalletData) => {
+    const wallet = data.address.toLowerCase();
+    return data.transactions
+      .filter((tx) => tx.from.toLowerCase() === wallet && !skipHashes.has(tx.hash))
+      .map((tx) => parseInt(tx.timeStamp))
+      .filter((t) => !isNaN(t) && t > 0)
+      .sort((x, y) => x - y);
+  };
+
+  const timesA = sentTimes(a);
+  const timesB = sentTimes(b);
+  const [fewer, more] = timesA.length <= timesB.length ? [timesA, timesB] : [timesB, timesA];
+
+  const matched = fewer.filter((t) => hasWithin(more, t, TIMING_WINDOW_SECONDS)).length;
+  return {
+    windowSeconds: TIMING_WINDOW_SECONDS,
+    matched,
+    total: fewer.length,
+    ratio: fewer.length > 0 ? matched / fewer.length : 0,
+  };
+}
+
+/** Whether the sorted list has a value within `window` of `t` */
+function hasWithin(sorted: number[], t: number, window: number): boolean {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid]! < t - window) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < sorted.length && sorted[lo]! <= t + window;
+}
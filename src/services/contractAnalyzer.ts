@@ -0,0 +1,336 @@
+// ============================================================
+// Tell-Tale Bot — Contract Analyzer
+// ============================================================
+// Contract-mode data for an address that holds code:
+//   - verification status & ABI (Blockscout getsourcecode)
+//   - proxy pattern (EIP-1967 implementation/admin/beacon slots,
+//     EIP-1822 PROXIABLE slot, EIP-1167 minimal proxy bytecode)
+//   - owner() and whether ownership was renounced
+//   - privileged functions (mint / pause / blacklist / upgrade /
+//     ownership) from bytecode selectors and the verified ABI
+//   - SELFDESTRUCT reachable in the runtime code
+//   - deployer address & creation tx
+// Smart accounts (Coinbase Smart Wallet, Safe) and EIP-7702 delegated
+// EOAs hold code too, but they are someone's wallet: detectSmartAccount
+// picks them out so they are scored as wallets instead.
+// Every lookup degrades to "unknown" on failure — a partial
+// analysis is still useful.
+// ============================================================
+
+import { hexToBigInt, keccak256, toFunctionSelector, toHex, zeroAddress, type Hex } from 'viem';
+import {
+  ContractAnalysis,
+  ContractCapability,
+  ProxyInfo,
+  SmartAccount,
+  SmartAccountKind,
+} from '../types/index.js';
+import * as basescan from './basescan.js';
+import { callViaRpc, getCodeViaRpc, getStorageAtViaRpc } from './rpcFallback.js';
+
+/** EIP-1967 slots are keccak256(label) - 1 */
+function eip1967Slot(label: string): Hex {
+  return toHex(hexToBigInt(keccak256(toHex(label))) - 1n, { size: 32 });
+}
+
+const PROXY_SLOTS = {
+  implementation: eip1967Slot('eip1967.proxy.implementation'),
+  admin: eip1967Slot('eip1967.proxy.admin'),
+  beacon: eip1967Slot('eip1967.proxy.beacon'),
+  proxiable: keccak256(toHex('PROXIABLE')), // EIP-1822 (UUPS predecessor)
+} as const;
+
+/** EIP-1167 minimal proxy runtime code; the 20-byte target sits in the middle */
+const MINIMAL_PROXY_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3/i;
+
+/** EIP-7702 delegation designator: 0xef0100 followed by the delegate address */
+const DELEGATION_PATTERN = /^0xef0100([0-9a-f]{40})$/i;
+
+/** Smart-account implementations deployed on Base, by the address their proxies point at */
+const SMART_ACCOUNT_IMPLEMENTATIONS = new Map<string, SmartAccountKind>([
+  ['0x000100abaad02f1cfc8bbf6bf9f6ba82f7cf1ad7', 'coinbaseSmartWallet'], // CoinbaseSmartWallet v1
+  ['0xd9db270c1b5e3bd161e8c8503c55ceabee709552', 'safe'], // Safe 1.3.0
+  ['0x3e5c63644e683549055b9be8653de26e0b4cd36e', 'safe'], // SafeL2 1.3.0
+  ['0xfb1bffc9d739b8d520daf37df666da4c687191eb', 'safe'], // SafeL2 1.3.0 (EIP-155)
+  ['0x41675c099f32341bf84bfc5382af534df5c7461a', 'safe'], // Safe 1.4.1
+  ['0x29fcb43b46531bca003ddc8fcb67ffe91900c762', 'safe'], // SafeL2 1.4.1
+]);
+
+/** Opcodes after which the following bytes are unreachable until the next JUMPDEST */
+const TERMINATING_OPCODES = new Set([0x00, 0x56, 0xf3, 0xfd, 0xfe, 0xff]); // STOP JUMP RETURN REVERT INVALID SELFDESTRUCT
+const JUMPDEST = 0x5b;
+
+/** Display order of capabilities */
+const CAPABILITY_ORDER: ContractCapability[] = [
+  'mint',
+  'pause',
+  'blacklist',
+  'selfdestruct',
+  'upgrade',
+  'ownership',
+];
+
+/** Well-known signatures for each privileged capability, matched by selector */
+const CAPABILITY_SIGNATURES: Record<Exclude<ContractCapability, 'selfdestruct'>, string[]> = {
+  mint: ['mint(address,uint256)', 'mint(uint256)', 'mintTo(address,uint256)', 'issue(uint256)'],
+  pause: ['pause()', 'unpause()', 'setPaused(bool)'],
+  blacklist: [
+    'blacklist(address)',
+    'addBlackList(address)',
+    'addToBlacklist(address)',
+    'setBlacklist(address,bool)',
+    'blacklistAddress(address,bool)',
+    'setBots(address[],bool)',
+  ],
+  upgrade: ['upgradeTo(address)', 'upgradeToAndCall(address,bytes)', 'changeAdmin(address)'],
+  ownership: ['transferOwnership(address)', 'renounceOwnership()'],
+};
+
+/** Name patterns for state-changing functions in a verified ABI */
+const CAPABILITY_NAME_PATTERNS: Array<[ContractCapability, RegExp]> = [
+  ['mint', /^(mint|mintTo|issue)/i],
+  ['pause', /^(pause|unpause|setPaused)/i],
+  ['blacklist', /(black|block|deny)list|blacklisted|^setBots?$|^addBots?$/i],
+  ['upgrade', /^upgrade/i],
+  ['ownership', /^(transferOwnership|renounceOwnership)$/],
+];
+
+const SELECTOR_TO_SIGNATURE = new Map<string, { capability: ContractCapability; signature: string }>(
+  Object.entries(CAPABILITY_SIGNATURES).flatMap(([capability, signatures]) =>
+    signatures.map((signature) => [
+      toFunctionSelector(signature),
+      { capability: capability as ContractCapability, signature },
+    ]),
+  ),
+);
+
+const OWNER_SELECTOR = toFunctionSelector('owner()');
+const IMPLEMENTATION_SELECTOR = toFunctionSelector('implementation()');
+
+/**
+ * Analyze a deployed contract. Never throws.
+ */
+export async function analyzeContract(address: string): Promise<ContractAnalysis> {
+  const target = address.toLowerCase() as Hex;
+
+  const [code, source, creation, owner] = await Promise.all([
+    safely(getCodeViaRpc(target), '0x' as Hex, `bytecode for ${address}`),
+    basescan.getContractSource(address),
+    basescan.getContractCreation(address),
+    readOwner(target),
+  ]);
+
+  const proxy = await safely(detectProxy(target, code), null, `proxy slots for ${address}`);
+
+  // Privileges of a proxy live in its implementation
+  const [implCode, implSource] = proxy?.implementation
+    ? await Promise.all([
+        safely(getCodeViaRpc(proxy.implementation as Hex), '0x' as Hex, `implementation bytecode for ${address}`),
+        basescan.getContractSource(proxy.implementation),
+      ])
+    : ['0x' as Hex, null];
+
+  const found = new Map<ContractCapability, Set<string>>();
+  const addFinding = (capability: ContractCapability, fn: string) =>
+    found.set(capability, (found.get(capability) ?? new Set()).add(fn));
+
+  for (const bytecode of [code, implCode]) {
+    for (const { capability, signature } of findPrivilegedFunctions(bytecode)) {
+      addFinding(capability, signature);
+    }
+  }
+
+  for (const abi of [source?.abi, implSource?.abi]) {
+    for (const signature of mutatingFunctions(abi ?? [])) {
+      const name = signature.slice(0, signature.indexOf('('));
+      for (const [capability, pattern] of CAPABILITY_NAME_PATTERNS) {
+        if (pattern.test(name)) addFinding(capability, signature);
+      }
+    }
+  }
+
+  // Upgradeable proxies can change their code regardless of selectors
+  if (proxy && proxy.kind !== 'eip1167') addFinding('upgrade', `${proxy.kind} proxy`);
+
+  const capabilities = CAPABILITY_ORDER.filter((c) => found.has(c));
+
+  return {
+    verified: source?.verified ?? false,
+    contractName: implSource?.contractName ?? source?.contractName ?? null,
+    compilerVersion: source?.compilerVersion ?? null,
+    bytecodeSize: (code.length - 2) / 2,
+    proxy,
+    owner,
+    ownershipRenounced: owner === zeroAddress,
+    capabilities,
+    privilegedFunctions: [...new Set(capabilities.flatMap((c) => [...found.get(c)!]))],
+    deployer: creation?.deployer ?? null,
+    creationTxHash: creation?.txHash ?? null,
+  };
+}
+
+/**
+ * Privileged functions (and SELFDESTRUCT) found in runtime bytecode.
+ */
+export function findPrivilegedFunctions(
+  code: string,
+): Array<{ capability: ContractCapability; signature: string }> {
+  const { selectors, hasSelfdestruct } = scanBytecode(code);
+  const found = [...selectors].flatMap((selector) => {
+    const match = SELECTOR_TO_SIGNATURE.get(selector);
+    return match ? [match] : [];
+  });
+  if (hasSelfdestruct) found.push({ capability: 'selfdestruct', signature: 'SELFDESTRUCT opcode' });
+  return found;
+}
+
+/**
+ * Read owner() for a contract; null if it has none or the call fails.
+ */
+export async function readOwner(address: string): Promise<string | null> {
+  return readAddress(address.toLowerCase() as Hex, OWNER_SELECTOR);
+}
+
+/**
+ * Whether an address's code is a user's wallet: an EIP-7702 delegation,
+ * or a proxy to a known smart-account implementation (EIP-1967 slot for
+ * Coinbase Smart Wallet, slot 0 for Safe). Null for anything else or
+ * when the lookups fail.
+ */
+export async function detectSmartAccount(address: string): Promise<SmartAccount | null> {
+  const target = address.toLowerCase() as Hex;
+  const code = await safely(getCodeViaRpc(target), '0x' as Hex, `bytecode for ${address}`);
+  if (code === '0x') return null;
+
+  const delegation = code.match(DELEGATION_PATTERN);
+  if (delegation) return { kind: 'eip7702', implementation: `0x${delegation[1]!.toLowerCase()}` };
+
+  const implementations = await Promise.all(
+    [PROXY_SLOTS.implementation, toHex(0, { size: 32 })].map(async (slot) =>
+      slotToAddress(await safely(getStorageAtViaRpc(target, slot), '0x' as Hex, `slot ${slot} of ${address}`)),
+    ),
+  );
+  for (const implementation of implementations) {
+    const kind = implementation ? SMART_ACCOUNT_IMPLEMENTATIONS.get(implementation) : undefined;
+    if (kind) return { kind, implementation: implementation! };
+  }
+  return null;
+}
+
+/**
+ * Detect proxy patterns from bytecode and well-known storage slots.
+ */
+async function detectProxy(address: Hex, code: Hex): Promise<ProxyInfo | null> {
+  const minimal = code.match(MINIMAL_PROXY_PATTERN);
+  if (minimal) {
+    return { kind: 'eip1167', implementation: `0x${minimal[1]!.toLowerCase()}`, admin: null, beacon: null };
+  }
+  if (code === '0x') return null;
+
+  const [implementation = null, admin = null, beacon = null, proxiable = null] = await Promise.all(
+    [PROXY_SLOTS.implementation, PROXY_SLOTS.admin, PROXY_SLOTS.beacon, PROXY_SLOTS.proxiable].map(
+      async (slot) => slotToAddress(await getStorageAtViaRpc(address, slot)),
+    ),
+  );
+
+  if (implementation) return { kind: 'eip1967', implementation, admin, beacon: null };
+  if (beacon) {
+    const beaconImpl = await readAddress(beacon as Hex, IMPLEMENTATION_SELECTOR);
+    return { kind: 'eip1967-beacon', implementation: beaconImpl, admin, beacon };
+  }
+  if (proxiable) return { kind: 'eip1822', implementation: proxiable, admin: null, beacon: null };
+  return null;
+}
+
+/**
+ * Walk runtime bytecode opcodes (skipping PUSH data and the trailing
+ * CBOR metadata) collecting PUSH4 constants — function selectors in the
+ * dispatcher — and whether SELFDESTRUCT (0xff) appears as an opcode.
+ * Only reachable code counts: after STOP / JUMP / RETURN / REVERT /
+ * INVALID / SELFDESTRUCT, bytes are skipped until the next JUMPDEST, so
+ * data appended after the code (constructor args, immutables, tables)
+ * isn't read as instructions.
+ */
+export function scanBytecode(code: string): { selectors: Set<string>; hasSelfdestruct: boolean } {
+  const hex = code.startsWith('0x') ? code.slice(2).toLowerCase() : code.toLowerCase();
+  const bytes = stripMetadata(hex);
+  const selectors = new Set<string>();
+  let hasSelfdestruct = false;
+  let reachable = true;
+
+  for (let i = 0; i < bytes.length; i++) {
+    const op = bytes[i]!;
+    if (!reachable) {
+      reachable = op === JUMPDEST;
+      continue;
+    }
+    if (TERMINATING_OPCODES.has(op)) reachable = false;
+    if (op === 0xff) {
+      hasSelfdestruct = true;
+    } else if (op >= 0x60 && op <= 0x7f) {
+      const size = op - 0x5f;
+      if (size === 4 && i + 4 < bytes.length) {
+        selectors.add('0x' + hex.slice((i + 1) * 2, (i + 5) * 2));
+      }
+      i += size;
+    }
+  }
+
+  return { selectors, hasSelfdestruct };
+}
+
+/**
+ * Solidity appends CBOR metadata whose length is the final two bytes.
+ */
+function stripMetadata(hex: string): Uint8Array {
+  const bytes = Uint8Array.from(hex.match(/../g) ?? [], (b) => parseInt(b, 16));
+  if (bytes.length < 2) return bytes;
+
+  const metadataLength = (bytes[bytes.length - 2]! << 8) | bytes[bytes.length - 1]!;
+  const start = bytes.length - 2 - metadataLength;
+  const header = bytes[start];
+  // CBOR maps start with 0xa0–0xbf
+  if (start > 0 && header !== undefined && header >= 0xa0 && header <= 0xbf) {
+    return bytes.slice(0, start);
+  }
+  return bytes;
+}
+
+/** Signatures of state-changing functions in an ABI */
+function mutatingFunctions(abi: unknown[]): string[] {
+  return abi.flatMap((entry) => {
+    const item = entry as {
+      type?: string;
+      name?: string;
+      stateMutability?: string;
+      constant?: boolean;
+      inputs?: Array<{ type?: string }>;
+    };
+    if (item.type !== 'function' || !item.name) return [];
+    if (item.stateMutability === 'view' || item.stateMutability === 'pure' || item.constant) return [];
+    return [`${item.name}(${(item.inputs ?? []).map((i) => i.type ?? '').join(',')})`];
+  });
+}
+
+/** Call a zero-arg function returning an address; null if absent or failed */
+async function readAddress(target: Hex, selector: Hex): Promise<string | null> {
+  const result = await safely(callViaRpc(target, selector), null, `${selector} on ${target}`);
+  if (!result || result.length < 66) return null;
+  return `0x${result.slice(26, 66).toLowerCase()}`;
+}
+
+/** Decode an address stored in a 32-byte slot; null when empty */
+function slotToAddress(value: Hex): string | null {
+  const hex = value.slice(2).padStart(64, '0');
+  const address = `0x${hex.slice(24).toLowerCase()}`;
+  return address === zeroAddress ? null : address;
+}
+
+async function safely<T>(promise: Promise<T>, fallback: T, what: string): Promise<T> {
+  try {
+    return await promise;
+  } catch (error) {
+    console.error(`[ContractAnalyzer] Failed to read ${what}:`, error);
+    return fallback;
+  }
+}
@@ -0,0 +1,40 @@
+// ============================================================
+// Tell-Tale Bot — Counterparty Ranking
+// ============================================================
+// Addresses a wallet transacted with, ranked by how many of its
+// normal transactions involve them. Backs the report's top
+// interactions and picks which counterparties get names resolved.
+// ============================================================
+
+import { WalletData } from '../types/index.js';
+
+export interface RankedCounterparty {
+  address: string; // lowercase
+  txCount: number;
+}
+
+/**
+ * Rank counterparties by transaction count, most frequent first.
+ */
+export function rankCounterparties(
+  data: Pick<WalletData, 'address' | 'transactions'>,
+  limit = 5,
+): RankedCounterparty[] {
+  const counterparties = new Map<string, number>();
+  const myAddr = data.address.toLowerCase();
+
+  for (const tx of data.transactions) {
+    const other = tx.from.toLowerCase() === myAddr
+      ? tx.to
+      : tx.from;
+    if (other) {
+      const key = other.toLowerCase();
+      counterparties.set(key, (counterparties.get(key) || 0) + 1);
+    }
+  }
+
+  return Array.from(counterparties.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([address, txCount]) => ({ address, txCount }));
+}
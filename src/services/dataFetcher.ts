@@ -7,10 +7,29 @@
 // - Scam databases
 // ============================================================
 
-import { WalletData } from '../types/index.js';
+import {
+  WalletData,
+  HistoryDepth,
+  BasescanTransaction,
+  BasescanTokenTransfer,
+  BasescanNftTransfer,
+  WalletGraph,
+  DeployerHistory,
+} from '../types/index.js';
 import * as basescan from './basescan.js';
 import * as scamDb from './scamDb.js';
 import { getBalanceViaRpc, isContractViaRpc } from './rpcFallback.js';
+import { traceFunding } from './fundingTracer.js';
+import { buildWalletGraph } from './graphBuilder.js';
+import { analyzeContract, detectSmartAccount } from './contractAnalyzer.js';
+import { analyzeWalletTokens } from './tokenAnalyzer.js';
+import { fetchHoldings } from './holdings.js';
+import { fetchApprovals } from './approvals.js';
+import { detectAddressPoisoning } from './poisoning.js';
+import { detectDrains } from './drains.js';
+import { fetchDeployerHistory } from './deployerHistory.js';
+import { rankCounterparties } from './counterparties.js';
+import { lookupPrimaryNames } from './nameResolver.js';
 
 /**
  * Fetch balance: try Basescan first, fall back to RPC if Basescan returns
@@ -55,9 +74,13 @@ async function fetchIsContractWithFallback(
 
 /**
  * Fetch all available data for a wallet address.
- * Parallelizes independent API calls for speed.
+ * Parallelizes independent API calls for speed; history lists are
+ * paginated up to `depth` (defaults to the configured history depth).
  */
-export async function fetchWalletData(address: string): Promise<WalletData> {
+export async function fetchWalletData(
+  address: string,
+  depth: HistoryDepth = basescan.defaultHistoryDepth(),
+): Promise<WalletData> {
   const startTime = Date.now();
   const hexAddress = address as `0x${string}`;
 
@@ -66,31 +89,41 @@ export async function fetchWalletData(address: string): Promise<WalletData> {
     transactions,
     internalTransactions,
     tokenTransfers,
+    nftTransfers,
     balance,
     contractCheck,
     scamFlags,
     firstTx,
     totalTxCount,
+    funding,
   ] = await Promise.allSettled([
-    basescan.getTransactions(address),
-    basescan.getInternalTransactions(address),
-    basescan.getTokenTransfers(address),
+    basescan.getTransactionHistory(address, depth),
+    basescan.getInternalTransactionHistory(address, depth),
+    basescan.getTokenTransferHistory(address, depth),
+    basescan.getNftTransferHistory(address, depth),
     fetchBalanceWithFallback(address, hexAddress),
     fetchIsContractWithFallback(address, hexAddress),
     scamDb.checkAddress(address),
     basescan.getFirstTransaction(address),
     basescan.getTransactionCount(address),
+    traceFunding(address),
   ]);
 
   // Extract results with safe defaults
-  const txs = transactions.status === 'fulfilled' ? transactions.value : [];
-  const internalTxs = internalTransactions.status === 'fulfilled' ? internalTransactions.value : [];
-  const tokenTxs = tokenTransfers.status === 'fulfilled' ? tokenTransfers.value : [];
+  const txHistory = transactions.status === 'fulfilled' ? transactions.value : emptyHistory<BasescanTransaction>();
+  const internalHistory = internalTransactions.status === 'fulfilled' ? internalTransactions.value : emptyHistory<BasescanTransaction>();
+  const tokenHistory = tokenTransfers.status === 'fulfilled' ? tokenTransfers.value : emptyHistory<BasescanTokenTransfer>();
+  const nftHistory = nftTransfers.status === 'fulfilled' ? nftTransfers.value : emptyHistory<BasescanNftTransfer>();
+  const txs = txHistory.items;
+  const internalTxs = internalHistory.items;
+  const tokenTxs = tokenHistory.items;
+  const nftTxs = nftHistory.items;
   const bal = balance.status === 'fulfilled' ? balance.value : 0n;
   const isContractAddr = contractCheck.status === 'fulfilled' ? contractCheck.value : false;
   const flags = scamFlags.status === 'fulfilled' ? scamFlags.value : [];
   const firstTransaction = firstTx.status === 'fulfilled' ? firstTx.value : null;
   const trueTxCount = totalTxCount.status === 'fulfilled' ? totalTxCount.value : null;
+  const fundingTrace = funding.status === 'fulfilled' ? funding.value : null;
 
   // Check interacted addresses against local scam DB
   const interactedAddresses = [
@@ -112,9 +145,8 @@ export async function fetchWalletData(address: string): Promise<WalletData> {
   }
 
   // Determine account age from the dedicated first-transaction query.
-  // This is accurate even when the address has >100 txs (the main batch
-  // only fetches the most recent 100 sorted desc, so its min-timestamp
-  // may not be the real first tx).
+  // This is accurate even when the paginated history stopped short of
+  // the first tx (depth limits, time window, block range).
   let firstTxTimestamp: number | null = null;
   if (firstTransaction) {
     const ts = parseInt(firstTransaction.timeStamp);
@@ -128,19 +160,99 @@ export async function fetchWalletData(address: string): Promise<WalletData> {
     const allTimestamps = [
       ...txs.map((tx) => parseInt(tx.timeStamp)),
       ...internalTxs.map((tx) => parseInt(tx.timeStamp)),
+      ...tokenTxs.map((tx) => parseInt(tx.timeStamp)),
     ].filter((t) => !isNaN(t) && t > 0);
     firstTxTimestamp = allTimestamps.length > 0 ? Math.min(...allTimestamps) : null;
   }
 
+  // Smart accounts and EIP-7702 delegated EOAs hold code but are a
+  // user's wallet — they stay in wallet mode and keep the wallet signals
+  const smartAccount = isContractAddr ? await detectSmartAccount(address) : null;
+  const contractMode = isContractAddr && !smartAccount;
+
+  // Second wave: everything that only needs the fetched history, run
+  // side by side. Each stage is isolated — a failure drops that section
+  // of the report instead of failing the analysis. Approvals take their
+  // symbols from the holdings snapshot, so those two run as one chain.
+  const [
+    contractResult,
+    tokenResult,
+    holdingsResult,
+    deployerResult,
+    graphResult,
+    namesResult,
+  ] = await Promise.allSettled([
+    // Contract mode: verification, proxy, privileges, deployer
+    contractMode ? analyzeContract(address) : Promise.resolve(null),
+    // Honeypot/tax simulation for tokens the address is, deployed or holds
+    analyzeWalletTokens({ address, isContract: contractMode, transactions: txs, tokenTransfers: tokenTxs }),
+    // Current holdings (spam classification needs the transfer history),
+    // then outstanding allowances
+    fetchHoldings({ address, balance: bal, transactions: txs, tokenTransfers: tokenTxs }).then(async (holdings) => ({
+      holdings,
+      approvals: await fetchApprovals({
+        address,
+        tokenTransfers: tokenTxs,
+        ...(holdings ? { holdings } : {}),
+      }),
+    })),
+    // Contracts this wallet deployed, checked for rug patterns
+    contractMode
+      ? Promise.resolve(null)
+      : fetchDeployerHistory({
+          address,
+          transactions: txs,
+          internalTransactions: internalTxs,
+          tokenTransfers: tokenTxs,
+        }),
+    // Counterparty graph — the 2-hop expansion depends on the 1-hop
+    // neighbors, so it runs after the history fetch.
+    buildWalletGraph({
+      address,
+      transactions: txs,
+      internalTransactions: internalTxs,
+      tokenTransfers: tokenTxs,
+    }),
+    // Primary names for the target and the counterparties the report lists
+    lookupPrimaryNames([
+      address,
+      ...rankCounterparties({ address, transactions: txs }).map((c) => c.address),
+    ]),
+  ]);
+
+  const contractAnalysis = stageValue(contractResult, 'Contract analysis', address);
+  const tokenRisks = stageValue(tokenResult, 'Token analysis', address) ?? [];
+  const holdingsAndApprovals = stageValue(holdingsResult, 'Holdings and approvals', address);
+  const holdings = holdingsAndApprovals?.holdings ?? null;
+  const approvals = holdingsAndApprovals?.approvals ?? null;
+  const deployerHistory: DeployerHistory | null = stageValue(deployerResult, 'Deployer history', address);
+  const graph: WalletGraph | null = stageValue(graphResult, 'Graph build', address);
+  const primaryNames = stageValue(namesResult, 'Name lookup', address) ?? {};
+
+  // Lookalike / dusting activity in either direction
+  const poisoning = detectAddressPoisoning({ address, transactions: txs, tokenTransfers: tokenTxs });
+  const poisoned = poisoning.pairs.length > 0 || poisoning.perpetrator;
+
+  // Drain sweeps out of (victim) or into (sweeper) the wallet —
+  // approvals help date the grant that triggered a sweep
+  const drains = detectDrains({
+    address,
+    transactions: txs,
+    internalTransactions: internalTxs,
+    tokenTransfers: tokenTxs,
+    nftTransfers: nftTxs,
+    ...(approvals ? { approvals } : {}),
+  });
+
   const accountAge = firstTxTimestamp
     ? Math.floor(Date.now() / 1000) - firstTxTimestamp
     : null;
 
   const elapsed = Date.now() - startTime;
   // Use the true transaction count from Blockscout counters when available;
-  // fall back to the batch size (capped at 100).
+  // fall back to the number of txs fetched (bounded by history depth).
   const transactionCount = trueTxCount ?? txs.length;
-  console.log(`[DataFetcher] Fetched data for ${address} in ${elapsed}ms (${txs.length} txs fetched, ${transactionCount} total, ${tokenTxs.length} token txs, ${flags.length} flags)`);
+  console.log(`[DataFetcher] Fetched data for ${address} in ${elapsed}ms (${txs.length} txs fetched in ${txHistory.coverage.pages} page(s), ${transactionCount} total, ${tokenTxs.length} token txs, ${flags.length} flags)`);
 
   return {
     address,
@@ -149,9 +261,54 @@ export async function fetchWalletData(address: string): Promise<WalletData> {
     transactions: txs,
     tokenTransfers: tokenTxs,
     internalTransactions: internalTxs,
+    nftTransfers: nftTxs,
     accountAge,
     firstTxTimestamp,
     isContract: isContractAddr,
     scamFlags: flags,
+    historyCoverage: {
+      depth,
+      transactions: txHistory.coverage,
+      internalTransactions: internalHistory.coverage,
+      tokenTransfers: tokenHistory.coverage,
+      nftTransfers: nftHistory.coverage,
+    },
+    ...(fundingTrace ? { fundingTrace } : {}),
+    ...(graph ? { graph } : {}),
+    ...(contractAnalysis ? { contractAnalysis } : {}),
+    ...(smartAccount ? { smartAccount } : {}),
+    ...(tokenRisks.length > 0 ? { tokenRisks } : {}),
+    ...(holdings ? { holdings } : {}),
+    ...(approvals ? { approvals } : {}),
+    ...(poisoned ? { poisoning } : {}),
+    ...(drains ? { drains } : {}),
+    ...(deployerHistory ? { deployerHistory } : {}),
+    ...(Object.keys(primaryNames).length > 0 ? { primaryNames } : {}),
+  };
+}
+
+/**
+ * Value of an isolated second-wave stage, or null (logged) when it rejected.
+ */
+function stageValue<T>(result: PromiseSettledResult<T>, stage: string, address: string): T | null {
+  if (result.status === 'fulfilled') return result.value;
+  console.error(`[DataFetcher] ${stage} failed for ${address}:`, result.reason);
+  return null;
+}
+
+/**
+ * Placeholder history for a list whose fetch rejected outright.
+ */
+function emptyHistory<T>(): basescan.HistoryResult<T> {
+  return {
+    items: [],
+    coverage: {
+      fetched: 0,
+      pages: 0,
+      complete: false,
+      stoppedBy: 'error',
+      oldestTimestamp: null,
+      newestTimestamp: null,
+    },
   };
 }
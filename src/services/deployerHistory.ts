@@ -0,0 +1,255 @@
+// ============================================================
+// Tell-Tale Bot — Deployer & Rug-Pull History
+// ============================================================
+// Lists the contracts an address created and checks each for the
+// usual rug patterns, from the deployer's own transfer history:
+//   1. creations: CREATE transactions in the fetched history, plus
+//      Blockscout's transaction list (older than the history depth),
+//      plus tokens first minted to the wallet in its own transaction
+//      whose creation traces back to it (factory / launchpad deploys)
+//   2. liquidity removal: LP tokens returned to the pair they were
+//      minted from, or the token and ETH/WETH paid back together from
+//      one address in a transaction the deployer signed
+//   3. mint-and-dump: at least half the minted supply sold for ETH/WETH
+//   4. renounce-then-drain: renounceOwnership() followed by 2 or 3
+//   5. scam-database matches on the contract
+// ============================================================
+
+import { zeroAddress } from 'viem';
+import { config } from '../config.js';
+import {
+  WalletData,
+  DeployedContract,
+  DeployerHistory,
+  RugPattern,
+  BasescanTokenTransfer,
+} from '../types/index.js';
+import { shortenAddress } from '../utils/address.js';
+import { formatDelay } from '../utils/format.js';
+import * as basescan from './basescan.js';
+import * as scamDb from './scamDb.js';
+
+/** renounceOwnership() */
+const RENOUNCE_SELECTOR = '0x715018a6';
+
+type DeployerSource = Pick<WalletData, 'address' | 'transactions' | 'internalTransactions' | 'tokenTransfers'>;
+
+type Creation = Pick<DeployedContract, 'address' | 'txHash' | 'timestamp' | 'via'>;
+
+/**
+ * Find and check the contracts an address deployed. Returns null when
+ * it deployed nothing we can see.
+ */
+export async function fetchDeployerHistory(data: DeployerSource): Promise<DeployerHistory | null> {
+  const wallet = data.address.toLowerCase();
+  const ownHashes = new Set(
+    data.transactions.filter((tx) => tx.from.toLowerCase() === wallet).map((tx) => tx.hash),
+  );
+
+  const creations = new Map<string, Creation>();
+  for (const tx of data.transactions) {
+    if (tx.from.toLowerCase() !== wallet || tx.to || !tx.contractAddress || tx.isError === '1') continue;
+    creations.set(tx.contractAddress.toLowerCase(), {
+      address: tx.contractAddress.toLowerCase(),
+      txHash: tx.hash,
+      timestamp: parseInt(tx.timeStamp),
+      via: 'direct',
+    });
+  }
+
+  const created = await basescan.getCreatedContracts(wallet);
+  for (const contract of created?.contracts ?? []) {
+    if (!creations.has(contract.address)) creations.set(contract.address, { ...contract, via: 'direct' });
+  }
+
+  for (const creation of await findFactoryTokens(wallet, data.tokenTransfers, ownHashes, creations)) {
+    creations.set(creation.address, creation);
+  }
+
+  if (creations.size === 0) return null;
+
+  const newestFirst = [...creations.values()].sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+  const checked = newestFirst.slice(0, config.deployerMaxContracts);
+  const contracts: DeployedContract[] = [];
+  for (const creation of checked) {
+    contracts.push(await checkContract(wallet, creation, data, ownHashes));
+  }
+
+  return {
+    contracts,
+    found: creations.size,
+    tokenCount: contracts.filter((c) => c.symbol !== null).length,
+    rugCount: contracts.filter((c) => c.patterns.length > 0).length,
+    complete: checked.length === creations.size && (created?.complete ?? false),
+  };
+}
+
+/** "PEPE2 (0x1234...abcd): liquidity pulled 3 h after launch; sold 92% of minted supply" */
+export function describeDeployedContract(contract: DeployedContract): string {
+  const name = contract.symbol ? `${contract.symbol} (${shortenAddress(contract.address)})` : shortenAddress(contract.address);
+  return contract.evidence.length > 0 ? `${name}: ${contract.evidence.join('; ')}` : `${name}: no rug patterns`;
+}
+
+/**
+ * Tokens minted to the wallet inside a transaction it signed, confirmed
+ * as its deployments through the explorer's contract-creation record.
+ */
+async function findFactoryTokens(
+  wallet: string,
+  transfers: BasescanTokenTransfer[],
+  ownHashes: Set<string>,
+  known: Map<string, Creation>,
+): Promise<Creation[]> {
+  const minted = new Map<string, BasescanTokenTransfer>();
+  for (const t of transfers) {
+    const token = t.contractAddress.toLowerCase();
+    if (known.has(token) || minted.has(token)) continue;
+    if (t.from.toLowerCase() === zeroAddress && t.to.toLowerCase() === wallet && ownHashes.has(t.hash)) {
+      minted.set(token, t);
+    }
+  }
+
+  const found: Creation[] = [];
+  for (const [token, mint] of [...minted.entries()].slice(0, config.deployerMaxContracts)) {
+    const creation = await basescan.getContractCreation(token);
+    if (!creation || (creation.deployer !== wallet && !ownHashes.has(creation.txHash))) continue;
+    found.push({ address: token, txHash: creation.txHash, timestamp: parseInt(mint.timeStamp), via: 'factory' });
+  }
+  return found;
+}
+
+async function checkContract(
+  wallet: string,
+  creation: Creation,
+  data: DeployerSource,
+  ownHashes: Set<string>,
+): Promise<DeployedContract> {
+  const token = creation.address;
+  const moves = data.tokenTransfers.filter((t) => t.contractAddress.toLowerCase() === token);
+  const symbol = moves[0]?.tokenSymbol || null;
+  const patterns = new Set<RugPattern>();
+  const evidence: string[] = [];
+
+  // Liquidity adds: the token sent to P, and P's LP token minted to the wallet, in one tx
+  const pools = new Set<string>();
+  for (const t of moves) {
+    if (t.from.toLowerCase() !== wallet) continue;
+    const pool = t.to.toLowerCase();
+    const lpMinted = data.tokenTransfers.some(
+      (lp) =>
+        lp.hash === t.hash &&
+        lp.contractAddress.toLowerCase() === pool &&
+        lp.from.toLowerCase() === zeroAddress &&
+        lp.to.toLowerCase() === wallet,
+    );
+    if (lpMinted) pools.add(pool);
+  }
+
+  const pulls = liquidityPulls(wallet, token, pools, data, ownHashes);
+  if (pulls.length > 0) {
+    patterns.add('liquidityRemoved');
+    const first = pulls[0]!;
+    const after = creation.timestamp ? ` ${formatDelay(first.timestamp - creation.timestamp)} after launch` : '';
+    evidence.push(`liquidity pulled${after} (tx ${first.hash.slice(0, 10)}...)`);
+  }
+
+  const mintedRaw = sum(moves.filter((t) => t.from.toLowerCase() === zeroAddress && t.to.toLowerCase() === wallet));
+  const dumps = dumpsForEth(wallet, moves, data);
+  const dumpedRaw = sum(dumps);
+  if (mintedRaw > 0n && dumpedRaw * 2n >= mintedRaw) {
+    patterns.add('mintAndDump');
+    evidence.push(`sold ${Number((dumpedRaw * 100n) / mintedRaw)}% of minted supply for ETH`);
+  }
+
+  const renounce = data.transactions.find(
+    (tx) =>
+      tx.from.toLowerCase() === wallet &&
+      tx.to?.toLowerCase() === token &&
+      tx.isError !== '1' &&
+      tx.input?.toLowerCase().startsWith(RENOUNCE_SELECTOR),
+  );
+  if (renounce) {
+    const renouncedAt = parseInt(renounce.timeStamp);
+    const drainAt = [...pulls, ...dumps.map((t) => ({ hash: t.hash, timestamp: parseInt(t.timeStamp) }))]
+      .map((d) => d.timestamp)
+      .filter((t) => t > renouncedAt)
+      .sort((a, b) => a - b)[0];
+    if (drainAt !== undefined) {
+      patterns.add('renounceThenDrain');
+      evidence.push(`ownership renounced, then drained ${formatDelay(drainAt - renouncedAt)} later`);
+    }
+  }
+
+  const scamFlags = await scamDb.checkAddress(token);
+  if (scamFlags.length > 0) {
+    patterns.add('scamFlagged');
+    evidence.push(`[${scamFlags[0]!.source}] ${scamFlags[0]!.category}`);
+  }
+
+  return { ...creation, symbol, patterns: [...patterns], evidence, scamFlags };
+}
+
+/**
+ * Liquidity removals, earliest first: LP tokens sent back to their
+ * pair, or the token paid to the wallet together with ETH/WETH from one
+ * address, in a transaction the wallet signed and paid nothing into.
+ */
+function liquidityPulls(
+  wallet: string,
+  token: string,
+  pools: Set<string>,
+  data: DeployerSource,
+  ownHashes: Set<string>,
+): Array<{ hash: string; timestamp: number }> {
+  const pulls = new Map<string, number>();
+
+  for (const t of data.tokenTransfers) {
+    const contract = t.contractAddress.toLowerCase();
+    if (t.from.toLowerCase() === wallet && pools.has(contract) && t.to.toLowerCase() === contract) {
+      pulls.set(t.hash, parseInt(t.timeStamp));
+    }
+  }
+
+  for (const t of data.tokenTransfers) {
+    if (t.contractAddress.toLowerCase() !== token || t.to.toLowerCase() !== wallet || !ownHashes.has(t.hash)) continue;
+    const payer = t.from.toLowerCase();
+    if (payer === zeroAddress) continue;
+    const paidIn = data.tokenTransfers.some(
+      (o) => o.hash === t.hash && o.from.toLowerCase() === wallet && o.to.toLowerCase() === payer,
+    );
+    if (!paidIn && receivedEth(wallet, t.hash, data, payer)) pulls.set(t.hash, parseInt(t.timeStamp));
+  }
+
+  return [...pulls.entries()]
+    .map(([hash, timestamp]) => ({ hash, timestamp }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Outflows of the token in transactions that paid the wallet ETH or WETH and no token back */
+function dumpsForEth(wallet: string, moves: BasescanTokenTransfer[], data: DeployerSource): BasescanTokenTransfer[] {
+  return moves.filter(
+    (t) =>
+      t.from.toLowerCase() === wallet &&
+      t.to.toLowerCase() !== zeroAddress &&
+      !moves.some((back) => back.hash === t.hash && back.to.toLowerCase() === wallet) &&
+      receivedEth(wallet, t.hash, data),
+  );
+}
+
+/** ETH (internal transfer) or WETH paid to the wallet in a transaction, optionally by one payer */
+function receivedEth(wallet: string, hash: string, data: DeployerSource, payer?: string): boolean {
+  const weth = config.tokenSimWeth.toLowerCase();
+  const matches = (from: string) => payer === undefined || from.toLowerCase() === payer;
+  return (
+    data.internalTransactions.some(
+      (tx) => tx.hash === hash && tx.to?.toLowerCase() === wallet && BigInt(tx.value || '0') > 0n && matches(tx.from),
+    ) ||
+    data.tokenTransfers.some(
+      (t) => t.hash === hash && t.contractAddress.toLowerCase() === weth && t.to.toLowerCase() === wallet && matches(t.from),
+    )
+  );
+}
+
+function sum(transfers: BasescanTokenTransfer[]): bigint {
+  return transfers.reduce((total, t) => total + BigInt(t.value || '0'), 0n);
+}
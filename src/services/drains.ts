@@ -0,0 +1,299 @@
+// ============================================================
+// Tell-Tale Bot — Drain Sweep Detection
+// ============================================================
+// Drainers empty a wallet in one burst: ETH, tokens and NFTs leave
+// within minutes for one or two destinations, usually pulled through
+// an approval or permit the owner just signed (or signed by a sweeper
+// bot holding a leaked key). Detection works from both sides:
+//   - victim:  a rapid multi-asset outflow to ≤2 unlabeled destinations,
+//              with nothing coming back in the same transactions (swaps),
+//              and either pulled transfers, a grant shortly before, or
+//              3+ assets at once
+//   - sweeper: the wallet signed transferFrom calls moving other wallets'
+//              assets, or received multi-asset bursts from 3+ wallets
+// Pure over the fetched history — no extra API calls.
+// ============================================================
+
+import { zeroAddress } from 'viem';
+import {
+  WalletData,
+  DrainAnalysis,
+  DrainAssetKind,
+  DrainEvent,
+} from '../types/index.js';
+import { getContractLabel } from '../data/knownContracts.js';
+import { shortenAddress } from '../utils/address.js';
+import { formatDelay } from '../utils/format.js';
+
+/** Transfers within this window of the first one form a burst */
+const BURST_WINDOW_SECONDS = 15 * 60;
+
+/** An approval or permit this long before a burst counts as its trigger */
+const GRANT_WINDOW_SECONDS = 24 * 60 * 60;
+
+/** A sweep goes to at most this many destinations */
+const MAX_DESTINATIONS = 2;
+
+/** Distinct assets for a burst to count as a sweep */
+const MIN_SWEPT_ASSETS = 2;
+
+/** Assets that make a sweep on their own, without pulled transfers or a grant */
+const MIN_UNTRIGGERED_ASSETS = 3;
+
+/** Wallets sending multi-asset bursts in before an address counts as a collector */
+const MIN_COLLECTED_SOURCES = 3;
+
+/** Selectors that grant a spender: approve, increaseAllowance, setApprovalForAll, permit */
+const GRANT_SELECTORS = new Set(['0x095ea7b3', '0x39509351', '0xa22cb465', '0xd505accf']);
+
+/** Permit2 approve(token, spender, amount, expiration) — spender is the second argument */
+const PERMIT2_APPROVE_SELECTOR = '0x87517c45';
+
+/** transferFrom / safeTransferFrom(address,address,uint256[,bytes]) — `from` is the first argument */
+const PULL_SELECTORS = new Set(['0x23b872dd', '0x42842e0e', '0xb88d4fde']);
+
+/** One asset movement, normalized across lists */
+interface Movement {
+  from: string;
+  to: string;
+  kind: DrainAssetKind;
+  asset: string; // unique key: "ETH", token contract, or contract:tokenId
+  label: string; // display name
+  hash: string;
+  timestamp: number;
+}
+
+interface Grant {
+  spender: string;
+  txHash: string;
+  timestamp: number;
+}
+
+type DrainInput = Pick<WalletData, 'address' | 'transactions' | 'internalTransactions' | 'tokenTransfers'> &
+  Partial<Pick<WalletData, 'nftTransfers' | 'approvals'>>;
+
+/**
+ * Look for drain sweeps out of the wallet (victim) or into / executed
+ * by it (sweeper). Returns null when neither pattern is present.
+ */
+export function detectDrains(data: DrainInput): DrainAnalysis | null {
+  const wallet = data.address.toLowerCase();
+  if (getContractLabel(wallet)) return null; // exchanges and protocols move many assets by design
+
+  const movements = collectMovements(data);
+  const ownHashes = new Set(
+    data.transactions.filter((tx) => tx.from.toLowerCase() === wallet).map((tx) => tx.hash),
+  );
+
+  const sweeps = findSweeperEvents(wallet, data, movements, ownHashes);
+  if (sweeps.length > 0) {
+    return { role: 'sweeper', events: sweeps, sources: new Set(sweeps.map((e) => e.source)).size };
+  }
+
+  const drained = findVictimEvents(wallet, movements, ownHashes, collectGrants(wallet, data));
+  return drained.length > 0 ? { role: 'victim', events: drained, sources: 1 } : null;
+}
+
+/** "ETH, USDC, 2 NFTs → 0x1234...abcd in 3 min (pulled 2, 10 min after approval)" */
+export function describeDrainEvent(event: DrainEvent): string {
+  const nfts = event.assetKinds.filter((k) => k === 'nft').length;
+  const fungible = event.assets.filter((_, i) => event.assetKinds[i] !== 'nft');
+  const assets = [...fungible, ...(nfts > 0 ? [`${nfts} NFT${nfts === 1 ? '' : 's'}`] : [])].join(', ');
+  const minutes = Math.max(1, Math.round((event.endedAt - event.startedAt) / 60));
+  const details = [
+    ...(event.pulled > 0 ? [`pulled ${event.pulled}`] : []),
+    ...(event.grant ? [`${formatDelay(event.startedAt - event.grant.timestamp)} after approval`] : []),
+  ];
+  return `${shortenAddress(event.source)}: ${assets} → ${event.destinations.map((d) => shortenAddress(d)).join(', ')} in ${minutes} min${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+function findVictimEvents(
+  wallet: string,
+  movements: Movement[],
+  ownHashes: Set<string>,
+  grants: Grant[],
+): DrainEvent[] {
+  // Swap legs: outflows whose transaction also paid the wallet back
+  const paidBack = new Set(movements.filter((m) => m.to === wallet).map((m) => m.hash));
+  const outflows = movements.filter(
+    (m) => m.from === wallet && m.to !== zeroAddress && !paidBack.has(m.hash) && !getContractLabel(m.to),
+  );
+
+  const events: DrainEvent[] = [];
+  for (const burst of bursts(outflows)) {
+    // Transfers out of the wallet that it did not sign spent an allowance or permit
+    const event = toEvent(wallet, burst, (m) => !ownHashes.has(m.hash));
+    if (event.destinations.length > MAX_DESTINATIONS || event.assets.length < MIN_SWEPT_ASSETS) continue;
+
+    const grant = findGrant(grants, event);
+    if (event.pulled === 0 && !grant && event.assets.length < MIN_UNTRIGGERED_ASSETS) continue;
+    events.push({ ...event, grant });
+  }
+  return events;
+}
+
+function findSweeperEvents(
+  wallet: string,
+  data: DrainInput,
+  movements: Movement[],
+  ownHashes: Set<string>,
+): DrainEvent[] {
+  // Transactions where the wallet called transferFrom on someone else's assets
+  const pullHashes = new Set(
+    data.transactions
+      .filter((tx) => {
+        if (tx.from.toLowerCase() !== wallet || !tx.input) return false;
+        if (!PULL_SELECTORS.has(tx.input.slice(0, 10).toLowerCase())) return false;
+        return `0x${tx.input.slice(34, 74)}`.toLowerCase() !== wallet;
+      })
+      .map((tx) => tx.hash),
+  );
+  const pulled = movements.filter((m) => pullHashes.has(m.hash) && m.from !== wallet);
+
+  // Multi-asset bursts arriving from other wallets
+  const bySource = new Map<string, Movement[]>();
+  for (const m of movements) {
+    if (m.to !== wallet || m.from === wallet || m.from === zeroAddress || getContractLabel(m.from)) continue;
+    if (!bySource.has(m.from)) bySource.set(m.from, []);
+    bySource.get(m.from)!.push(m);
+  }
+  const collected = [...bySource.entries()].flatMap(([source, inflows]) =>
+    bursts(inflows)
+      .map((burst) => toEvent(source, burst, (m) => ownHashes.has(m.hash)))
+      .filter((e) => e.assets.length >= MIN_SWEPT_ASSETS),
+  );
+
+  const pulledBySource = new Map<string, Movement[]>();
+  for (const m of pulled) {
+    if (!pulledBySource.has(m.from)) pulledBySource.set(m.from, []);
+    pulledBySource.get(m.from)!.push(m);
+  }
+  const pulledEvents = [...pulledBySource.entries()].flatMap(([source, moves]) =>
+    bursts(moves).map((burst) => toEvent(source, burst, () => true)),
+  );
+
+  // One pull from one wallet may be the owner moving its own funds;
+  // several wallets, or several assets at once, is a sweeper
+  const pulledSources = new Set(pulledEvents.map((e) => e.source));
+  const pulling = pulledSources.size >= 2 || pulledEvents.some((e) => e.assets.length >= MIN_SWEPT_ASSETS);
+  const collecting = new Set(collected.map((e) => e.source)).size >= MIN_COLLECTED_SOURCES;
+  if (!pulling && !collecting) return [];
+
+  const seen = new Set<string>();
+  return [...(pulling ? pulledEvents : []), ...collected]
+    .filter((e) => {
+      const key = `${e.source}:${e.startedAt}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Group time-sorted movements into bursts of BURST_WINDOW_SECONDS */
+function bursts(movements: Movement[]): Movement[][] {
+  const sorted = [...movements].sort((a, b) => a.timestamp - b.timestamp);
+  const groups: Movement[][] = [];
+  for (const m of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && m.timestamp - current[0]!.timestamp <= BURST_WINDOW_SECONDS) current.push(m);
+    else groups.push([m]);
+  }
+  return groups;
+}
+
+function toEvent(source: string, burst: Movement[], isPulled: (m: Movement) => boolean): DrainEvent {
+  const assets = new Map<string, Movement>();
+  for (const m of burst) if (!assets.has(m.asset)) assets.set(m.asset, m);
+  return {
+    source,
+    destinations: [...new Set(burst.map((m) => m.to))],
+    assets: [...assets.values()].map((m) => m.label),
+    assetKinds: [...assets.values()].map((m) => m.kind),
+    transfers: burst.length,
+    pulled: burst.filter(isPulled).length,
+    startedAt: burst[0]!.timestamp,
+    endedAt: burst[burst.length - 1]!.timestamp,
+    grant: null,
+    txHashes: [...new Set(burst.map((m) => m.hash))],
+  };
+}
+
+/**
+ * The latest approval or permit shortly before a burst — to one of its
+ * destinations, or to any unlabeled spender when assets were pulled.
+ */
+function findGrant(grants: Grant[], event: DrainEvent): Grant | null {
+  const candidates = grants.filter(
+    (g) =>
+      g.timestamp <= event.startedAt &&
+      event.startedAt - g.timestamp <= GRANT_WINDOW_SECONDS &&
+      (event.destinations.includes(g.spender) || (event.pulled > 0 && !getContractLabel(g.spender))),
+  );
+  return candidates.sort((a, b) => b.timestamp - a.timestamp)[0] ?? null;
+}
+
+/** Approvals the wallet signed, plus live grants rebuilt from Approval logs (permits included) */
+function collectGrants(wallet: string, data: DrainInput): Grant[] {
+  const grants: Grant[] = [];
+  for (const tx of data.transactions) {
+    if (tx.from.toLowerCase() !== wallet || tx.isError === '1' || !tx.input) continue;
+    const selector = tx.input.slice(0, 10).toLowerCase();
+    const spender = GRANT_SELECTORS.has(selector)
+      ? `0x${tx.input.slice(34, 74)}`
+      : selector === PERMIT2_APPROVE_SELECTOR
+        ? `0x${tx.input.slice(98, 138)}`
+        : null;
+    if (spender) grants.push({ spender: spender.toLowerCase(), txHash: tx.hash, timestamp: parseInt(tx.timeStamp) });
+  }
+  for (const approval of data.approvals?.approvals ?? []) {
+    grants.push({ spender: approval.spender, txHash: approval.txHash, timestamp: approval.timestamp });
+  }
+  return grants;
+}
+
+function collectMovements(data: DrainInput): Movement[] {
+  const movements: Movement[] = [];
+
+  for (const tx of [...data.transactions, ...data.internalTransactions]) {
+    if (tx.isError === '1' || !tx.to || BigInt(tx.value || '0') === 0n) continue;
+    movements.push({
+      from: tx.from.toLowerCase(),
+      to: tx.to.toLowerCase(),
+      kind: 'native',
+      asset: 'ETH',
+      label: 'ETH',
+      hash: tx.hash,
+      timestamp: parseInt(tx.timeStamp),
+    });
+  }
+
+  for (const t of data.tokenTransfers) {
+    if (BigInt(t.value || '0') === 0n) continue;
+    const token = t.contractAddress.toLowerCase();
+    movements.push({
+      from: t.from.toLowerCase(),
+      to: t.to.toLowerCase(),
+      kind: 'erc20',
+      asset: token,
+      label: t.tokenSymbol || shortenAddress(token),
+      hash: t.hash,
+      timestamp: parseInt(t.timeStamp),
+    });
+  }
+
+  for (const t of data.nftTransfers ?? []) {
+    const collection = t.contractAddress.toLowerCase();
+    movements.push({
+      from: t.from.toLowerCase(),
+      to: t.to.toLowerCase(),
+      kind: 'nft',
+      asset: `${collection}:${t.tokenID}`,
+      label: `${t.tokenSymbol || shortenAddress(collection)} #${t.tokenID}`,
+      hash: t.hash,
+      timestamp: parseInt(t.timeStamp),
+    });
+  }
+
+  return movements;
+}
@@ -5,6 +5,8 @@
 import crypto from 'crypto';
 import { NeynarAPIClient, Configuration } from '@neynar/nodejs-sdk';
 import { config } from '../config.js';
+import { CastEmbed } from '../types/index.js';
+import { recorded } from './fixtureRecorder.js';
 
 let neynar: NeynarAPIClient | null = null;
 
@@ -24,30 +26,54 @@ function getClient(): NeynarAPIClient {
  * Post a reply cast on Farcaster.
  * @param text - The reply text (must be <= 1024 bytes)
  * @param parentHash - The hash of the cast being replied to
+ * @returns The hash of the newly published reply
  */
-export async function postReply(text: string, parentHash: string): Promise<void> {
+export async function postReply(text: string, parentHash: string): Promise<string> {
   try {
-    await getClient().publishCast({
-      signerUuid: config.neynarSignerUuid,
-      text,
-      parent: parentHash,
-    });
+    const response = await recorded('neynar', { text, parent: parentHash }, () =>
+      getClient().publishCast({
+        signerUuid: config.neynarSignerUuid,
+        text,
+        parent: parentHash,
+      }),
+    );
     console.log(`[Farcaster] Reply posted to cast ${parentHash.slice(0, 10)}...`);
+    return response.cast.hash;
   } catch (error) {
     console.error('[Farcaster] Failed to post reply:', error);
     throw error;
   }
 }
 
+/**
+ * Post a list of casts as a chained reply thread under a parent cast.
+ * Each cast replies to the previous one, so the thread reads top-down.
+ * @returns Hashes of the published casts, in order
+ */
+export async function postThread(casts: string[], parentHash: string): Promise<string[]> {
+  const hashes: string[] = [];
+  let parent = parentHash;
+
+  for (const text of casts) {
+    parent = await postReply(text, parent);
+    hashes.push(parent);
+  }
+
+  console.log(`[Farcaster] Thread of ${hashes.length} cast(s) posted under ${parentHash.slice(0, 10)}...`);
+  return hashes;
+}
+
 /**
  * Post a standalone cast on Farcaster.
  */
 export async function postCast(text: string): Promise<void> {
   try {
-    await getClient().publishCast({
-      signerUuid: config.neynarSignerUuid,
-      text,
-    });
+    await recorded('neynar', { text }, () =>
+      getClient().publishCast({
+        signerUuid: config.neynarSignerUuid,
+        text,
+      }),
+    );
     console.log('[Farcaster] Cast posted successfully');
   } catch (error) {
     console.error('[Farcaster] Failed to post cast:', error);
@@ -55,6 +81,52 @@ export async function postCast(text: string): Promise<void> {
   }
 }
 
+/**
+ * Text of a cast followed by its embeds (URLs and the text of quoted
+ * casts), one per line. Returns null when the cast can't be fetched.
+ */
+export async function fetchCastContent(hash: string): Promise<string | null> {
+  try {
+    const { cast } = await recorded('neynar', { cast: hash }, () =>
+      getClient().lookupCastByHashOrUrl({ identifier: hash, type: 'hash' }),
+    );
+    return [cast.text, ...describeEmbeds(cast.embeds)].join('\n');
+  } catch (error) {
+    console.error(`[Farcaster] Failed to fetch cast ${hash.slice(0, 10)}...:`, error);
+    return null;
+  }
+}
+
+/**
+ * A Farcaster user's verified Ethereum addresses, primary first.
+ * Returns null when the lookup fails.
+ */
+export async function fetchVerifiedAddresses(fid: number): Promise<string[] | null> {
+  try {
+    const { users } = await recorded('neynar', { verifiedAddresses: fid }, () =>
+      getClient().fetchBulkUsers({ fids: [fid] }),
+    );
+    const verified = users[0]?.verified_addresses;
+    if (!verified) return [];
+
+    const primary = verified.primary?.eth_address;
+    return [...new Set([...(primary ? [primary] : []), ...verified.eth_addresses].map((a) => a.toLowerCase()))];
+  } catch (error) {
+    console.error(`[Farcaster] Failed to fetch verified addresses for FID ${fid}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Embed URLs and quoted-cast text, one string per embed.
+ */
+export function describeEmbeds(embeds: CastEmbed[] | undefined): string[] {
+  return (embeds ?? []).flatMap((embed) => [
+    ...(embed.url ? [embed.url] : []),
+    ...(embed.cast?.text ? [embed.cast.text] : []),
+  ]);
+}
+
 /**
  * Verify a Neynar webhook signature.
  * Neynar uses HMAC-SHA512 for webhook signatures.
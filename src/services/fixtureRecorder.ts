@@ -0,0 +1,247 @@
+// ============================================================
+// Tell-Tale Bot — Fixture Record / Replay
+// ============================================================
+// Every upstream call (Basescan/Blockscout, RPC, ChainAbuse, the
+// summary LLM, Neynar) goes through `recorded()`. Selected by
+// FIXTURE_MODE:
+//   - off:    live network, nothing captured
+//   - record: live network; each response (or failure) made during
+//             an analysis is saved to <FIXTURE_DIR>/<name>.json
+//   - replay: responses are served from the bundle in call order and
+//             nothing leaves the process; a call with no recording
+//             fails like an unreachable upstream would
+// Bundles are scoped with withFixtureBundle(), which tracks the
+// active bundle per async context so concurrent analyses don't mix.
+// A run answered from cache records only its Neynar traffic; it never
+// replaces a bundle already on disk.
+// ============================================================
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { config } from '../config.js';
+import { FixtureBundle, FixtureEntry, FixtureMode } from '../types/index.js';
+
+/** fetch signature accepted by viem's http transport and the OpenAI SDK */
+type FetchFn = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+interface HttpRecording {
+  status: number;
+  body: string;
+}
+
+interface ActiveBundle {
+  mode: 'record' | 'replay';
+  bundle: FixtureBundle;
+  byKey: Map<string, FixtureEntry[]>; // replay lookup
+  served: Map<string, number>; // replay: responses already served per key
+}
+
+const active = new AsyncLocalStorage<ActiveBundle>();
+
+/** Sources that read or post casts rather than fetch analysis data */
+const FARCASTER_SOURCES = new Set(['neynar']);
+
+/**
+ * Run `fn` with a fixture bundle: recorded to, or replayed from,
+ * <dir>/<name>.json. Nested calls join the bundle already active.
+ * In record mode the bundle is saved even when `fn` throws, unless it
+ * made no data calls (a cache hit) and would overwrite an existing one.
+ * @throws In replay mode, when the bundle file is missing or invalid
+ */
+export async function withFixtureBundle<T>(
+  name: string,
+  fn: () => Promise<T>,
+  options: { mode?: FixtureMode; dir?: string } = {},
+): Promise<T> {
+  const mode = options.mode ?? config.fixtureMode;
+  if (mode === 'off' || active.getStore()) return fn();
+
+  const path = fixtureBundlePath(options.dir ?? config.fixtureDir, name);
+
+  if (mode === 'replay') {
+    const bundle = loadFixtureBundle(path);
+    console.log(`[Fixtures] Replaying ${bundle.entries.length} response(s) from ${path}`);
+    return active.run({ mode, bundle, byKey: indexEntries(bundle.entries), served: new Map() }, fn);
+  }
+
+  const bundle: FixtureBundle = { name, recordedAt: new Date().toISOString(), entries: [] };
+  try {
+    return await active.run({ mode, bundle, byKey: new Map(), served: new Map() }, fn);
+  } finally {
+    saveBundle(path, bundle);
+  }
+}
+
+function saveBundle(path: string, bundle: FixtureBundle): void {
+  const fetchedData = bundle.entries.some((entry) => !FARCASTER_SOURCES.has(entry.source));
+  if (!fetchedData && existsSync(path)) {
+    console.log(`[Fixtures] Kept ${path} — this run made no data calls`);
+    return;
+  }
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(bundle, null, 2) + '\n');
+    console.log(`[Fixtures] Recorded ${bundle.entries.length} response(s) to ${path}`);
+  } catch (error) {
+    console.error(`[Fixtures] Could not save bundle ${path}:`, error);
+  }
+}
+
+/**
+ * Make an upstream call through the active bundle.
+ * @param source - Upstream name (basescan, rpc, openai, ...)
+ * @param request - JSON value identifying the call; replay matches on it
+ * @param fetch - The live call; its result must be JSON-serializable
+ */
+export async function recorded<T>(source: string, request: unknown, fetch: () => Promise<T>): Promise<T> {
+  const state = active.getStore();
+  if (!state) {
+    if (config.fixtureMode === 'replay') {
+      throw new Error(`No fixture bundle active — ${source} call refused in replay mode`);
+    }
+    return fetch();
+  }
+
+  if (state.mode === 'replay') return replay(state, source, request) as T;
+
+  try {
+    const response = await fetch();
+    state.bundle.entries.push({ source, request: clone(request), response: clone(response) });
+    return response;
+  } catch (error) {
+    state.bundle.entries.push({
+      source,
+      request: clone(request),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * A fetch that goes through the active bundle (OpenAI SDK). Matches on
+ * method, URL and body.
+ */
+export function recordedFetch(source: string, fetchFn: FetchFn = fetch): FetchFn {
+  return async (input, init) => {
+    if (isLive()) return fetchFn(input, init);
+
+    const request = {
+      method: init?.method ?? 'GET',
+      url: input instanceof Request ? input.url : String(input),
+      body: typeof init?.body === 'string' ? init.body : null,
+    };
+    const { status, body } = await recorded(source, request, () => readResponse(fetchFn(input, init)));
+    return new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+  };
+}
+
+/**
+ * A fetch for viem's http transport. Matches JSON-RPC calls on method and
+ * params only, so a replay works whichever provider is active, and
+ * answers with the id of the request being served.
+ */
+export function recordedRpcFetch(fetchFn: FetchFn = fetch): FetchFn {
+  return async (input, init) => {
+    if (isLive()) return fetchFn(input, init);
+
+    const call = JSON.parse(String(init?.body)) as RpcMessage | RpcMessage[];
+    const strip = ({ method, params }: RpcMessage) => ({ method, params: params ?? [] });
+    const request = Array.isArray(call) ? call.map(strip) : strip(call);
+
+    const { status, body } = await recorded('rpc', request, () => readResponse(fetchFn(input, init)));
+    return new Response(withRpcIds(body, call), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+}
+
+export function fixtureBundlePath(dir: string, name: string): string {
+  return join(dir, `${name.toLowerCase().replace(/[^a-z0-9._-]/g, '_')}.json`);
+}
+
+/** @throws When the file is missing or not a fixture bundle */
+export function loadFixtureBundle(path: string): FixtureBundle {
+  const raw = JSON.parse(readFileSync(path, 'utf8')) as Partial<FixtureBundle>;
+  if (typeof raw.name !== 'string' || !Array.isArray(raw.entries)) {
+    throw new Error(`Not a fixture bundle: ${path}`);
+  }
+  return raw as FixtureBundle;
+}
+
+interface RpcMessage {
+  id?: number | string;
+  method: string;
+  params?: unknown;
+}
+
+/** No bundle to record to or replay from — call the network directly */
+function isLive(): boolean {
+  return !active.getStore() && config.fixtureMode !== 'replay';
+}
+
+/**
+ * Serve the next recorded response for this request. Once a request's
+ * recordings are used up the last one keeps being served (pollers,
+ * retried calls).
+ */
+function replay(state: ActiveBundle, source: string, request: unknown): unknown {
+  const key = requestKey(source, request);
+  const entries = state.byKey.get(key);
+  if (!entries || entries.length === 0) {
+    throw new Error(`No recorded ${source} response for ${JSON.stringify(request)}`);
+  }
+  const index = state.served.get(key) ?? 0;
+  state.served.set(key, index + 1);
+
+  const entry = entries[Math.min(index, entries.length - 1)]!;
+  if (entry.error !== undefined) throw new Error(entry.error);
+  return clone(entry.response);
+}
+
+function indexEntries(entries: FixtureEntry[]): Map<string, FixtureEntry[]> {
+  const byKey = new Map<string, FixtureEntry[]>();
+  for (const entry of entries) {
+    const key = requestKey(entry.source, entry.request);
+    byKey.set(key, [...(byKey.get(key) ?? []), entry]);
+  }
+  return byKey;
+}
+
+async function readResponse(response: Promise<Response>): Promise<HttpRecording> {
+  const res = await response;
+  return { status: res.status, body: await res.text() };
+}
+
+/** Re-number recorded JSON-RPC responses with the ids of this request */
+function withRpcIds(body: string, call: RpcMessage | RpcMessage[]): string {
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown> | Array<Record<string, unknown>>;
+    if (Array.isArray(parsed) && Array.isArray(call)) {
+      return JSON.stringify(parsed.map((message, i) => ({ ...message, id: call[i]?.id ?? message.id })));
+    }
+    if (!Array.isArray(parsed) && !Array.isArray(call)) return JSON.stringify({ ...parsed, id: call.id ?? parsed.id });
+  } catch {
+    // not JSON (e.g. a provider's HTML error page) — serve as recorded
+  }
+  return body;
+}
+
+/** source + request with object keys sorted, so key order never matters */
+function requestKey(source: string, request: unknown): string {
+  const sorted = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sorted);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((k) => [k, sorted((value as Record<string, unknown>)[k])]),
+      );
+    }
+    return value;
+  };
+  return `${source} ${JSON.stringify(sorted(request))}`;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
@@ -0,0 +1,125 @@
+// ============================================================
+// Tell-Tale Bot — Funding Source Tracer
+// ============================================================
+// Follows a wallet's first inbound funding backwards, hop by hop,
+// until it reaches a labeled entity (exchange, bridge, mixer,
+// flagged wallet), runs out of inbound transfers, or hits the
+// configured depth. Native ETH funding is preferred; token
+// transfers are only followed when no ETH was ever received.
+// ============================================================
+
+import { formatEther, formatUnits, zeroAddress } from 'viem';
+import { config } from '../config.js';
+import {
+  BasescanTransaction,
+  BasescanTokenTransfer,
+  FundingHop,
+  FundingTrace,
+} from '../types/index.js';
+import { shortenAddress } from '../utils/address.js';
+import { safeBigInt } from '../utils/format.js';
+import * as basescan from './basescan.js';
+import { attributeAddress } from './attribution.js';
+
+/**
+ * Trace where an address's funds came from, up to `maxDepth` hops.
+ */
+export async function traceFunding(
+  address: string,
+  maxDepth = config.fundingTraceDepth,
+): Promise<FundingTrace> {
+  const hops: FundingHop[] = [];
+  const visited = new Set([address.toLowerCase()]);
+  let current = address;
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    let hop: FundingHop | null;
+    try {
+      const earliest = await basescan.getEarliestTransfers(current);
+      hop = firstFundingHop(
+        current,
+        earliest.transactions,
+        earliest.internalTransactions,
+        earliest.tokenTransfers,
+      );
+    } catch (error) {
+      console.error(`[FundingTracer] Failed at hop ${depth + 1} for ${current}:`, error);
+      return { hops, origin: null, stoppedBy: 'error', maxDepth };
+    }
+
+    if (!hop) return { hops, origin: null, stoppedBy: 'noInbound', maxDepth };
+
+    hops.push(hop);
+    if (hop.attribution) {
+      return { hops, origin: hop.attribution, stoppedBy: 'labeled', maxDepth };
+    }
+    if (visited.has(hop.from)) {
+      return { hops, origin: null, stoppedBy: 'cycle', maxDepth };
+    }
+
+    visited.add(hop.from);
+    current = hop.from;
+  }
+
+  return { hops, origin: null, stoppedBy: 'depth', maxDepth };
+}
+
+/**
+ * Find the earliest inbound funding transfer for an address in the
+ * given records, attributed when the sender is a labeled entity.
+ * Mints (from the zero address), failed txs and zero-value transfers
+ * are not funding.
+ */
+export function firstFundingHop(
+  address: string,
+  transactions: BasescanTransaction[],
+  internalTransactions: BasescanTransaction[],
+  tokenTransfers: BasescanTokenTransfer[],
+): FundingHop | null {
+  const self = address.toLowerCase();
+  const isFunding = (from: string, to: string, value: bigint) =>
+    to?.toLowerCase() === self &&
+    !!from &&
+    from.toLowerCase() !== zeroAddress &&
+    from.toLowerCase() !== self &&
+    value > 0n;
+
+  const ethHops: FundingHop[] = [...transactions, ...internalTransactions]
+    .filter((tx) => tx.isError !== '1' && isFunding(tx.from, tx.to, safeBigInt(tx.value)))
+    .map((tx) => ({
+      from: tx.from.toLowerCase(),
+      to: self,
+      asset: 'ETH',
+      amount: formatEther(safeBigInt(tx.value)),
+      txHash: tx.hash,
+      timestamp: parseInt(tx.timeStamp),
+    }));
+
+  const tokenHops: FundingHop[] = tokenTransfers
+    .filter((t) => isFunding(t.from, t.to, safeBigInt(t.value)))
+    .map((t) => ({
+      from: t.from.toLowerCase(),
+      to: self,
+      asset: t.tokenSymbol || 'tokens',
+      amount: formatUnits(safeBigInt(t.value), parseInt(t.tokenDecimal) || 0),
+      txHash: t.hash,
+      timestamp: parseInt(t.timeStamp),
+    }));
+
+  const candidates = ethHops.length > 0 ? ethHops : tokenHops;
+  const earliest = candidates.sort((a, b) => a.timestamp - b.timestamp)[0];
+  if (!earliest) return null;
+
+  const attribution = attributeAddress(earliest.from);
+  return attribution ? { ...earliest, attribution } : earliest;
+}
+
+/**
+ * Human-readable line for one hop, used as signal evidence.
+ */
+export function describeFundingHop(hop: FundingHop, index: number): string {
+  const funder = hop.attribution
+    ? `${shortenAddress(hop.from)} (${hop.attribution.label})`
+    : shortenAddress(hop.from);
+  return `Hop ${index + 1}: ${shortenAddress(hop.to)} ← ${hop.amount} ${hop.asset} from ${funder} (tx: ${hop.txHash.slice(0, 10)}...)`;
+}
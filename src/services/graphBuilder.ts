@@ -0,0 +1,402 @@
+// ============================================================
+// Tell-Tale Bot — Connected-Wallet Graph
+// ============================================================
+// Builds a counterparty graph around a wallet from its normal,
+// internal and token transfers (1 hop), optionally expanding the
+// busiest unlabeled neighbors with their own transfers (2 hops).
+// Cluster detection looks for sybil rings and sweep networks:
+//   - commonFunder:     3+ wallets first funded by one address in a batch
+//   - sweepDestination: 3+ wallets sending ETH to one address in a batch
+//   - synchronized:     3+ EOAs sending transactions within seconds
+// A payment seen in the graph only nominates a funder; each member's
+// real first inbound ETH is looked up before it joins the cluster.
+// Labeled addresses (DEXes, bridges, exchanges) are never anchors —
+// everyone trades with Uniswap — and neither is the target itself
+// unless config.graphTargetAnchors is set: any wallet pays a few
+// people, or gets paid by a few, in a day.
+// ============================================================
+
+import { formatEther, zeroAddress } from 'viem';
+import { config } from '../config.js';
+import {
+  WalletData,
+  BasescanTransaction,
+  BasescanTokenTransfer,
+  FundingHop,
+  GraphNode,
+  GraphEdge,
+  WalletCluster,
+  WalletGraph,
+} from '../types/index.js';
+import { shortenAddress } from '../utils/address.js';
+import { safeBigInt } from '../utils/format.js';
+import { getContractLabel } from '../data/knownContracts.js';
+import * as basescan from './basescan.js';
+import { firstFundingHop } from './fundingTracer.js';
+
+/** Minimum wallets for a group to count as a cluster */
+const MIN_CLUSTER_SIZE = 3;
+
+/** Funding / sweep transfers must land within this window to form a batch */
+const BATCH_WINDOW_SECONDS = 24 * 60 * 60;
+
+/** Transactions from different EOAs within this window count as synchronized */
+const SYNC_WINDOW_SECONDS = 60;
+
+const MAX_SYNC_CLUSTERS = 5;
+
+/** One transfer, normalized across normal, internal and token lists */
+interface Transfer {
+  kind: 'normal' | 'internal' | 'token';
+  from: string;
+  to: string;
+  asset: string;
+  valueWei: bigint; // native ETH only; 0 for tokens
+  timestamp: number;
+  hash: string;
+}
+
+/** Timestamped activity of one address, used for batch detection */
+interface ActivityEvent {
+  address: string;
+  timestamp: number;
+}
+
+type WalletTransfers = Pick<
+  WalletData,
+  'address' | 'transactions' | 'internalTransactions' | 'tokenTransfers'
+>;
+
+/**
+ * Build the counterparty graph around a wallet.
+ * @param depth - 1 = the wallet's counterparties only; 2 = also expand the
+ *   busiest unlabeled neighbors with their own recent transfers
+ */
+export async function buildWalletGraph(
+  data: WalletTransfers,
+  depth: 1 | 2 = config.graphDepth,
+): Promise<WalletGraph> {
+  const center = data.address.toLowerCase();
+  const graph = new GraphAccumulator(center);
+
+  graph.add(toTransfers(data.transactions, data.internalTransactions, data.tokenTransfers));
+
+  const expanded: string[] = [];
+  if (depth === 2) {
+    const neighbors = graph
+      .neighbors()
+      .filter(isEligibleAnchor)
+      .slice(0, config.graphExpandNeighbors);
+
+    const results = await Promise.all(
+      neighbors.map(async (address) => {
+        const [txs, tokenTxs] = await Promise.all([
+          basescan.getTransactions(address, config.graphNeighborTxLimit),
+          basescan.getTokenTransfers(address, config.graphNeighborTxLimit),
+        ]);
+        return { address, transfers: toTransfers(txs, [], tokenTxs) };
+      }),
+    );
+
+    for (const { address, transfers } of results) {
+      graph.add(transfers);
+      expanded.push(address);
+    }
+  }
+
+  return graph.toGraph(depth, expanded);
+}
+
+/** One address's first inbound ETH, or null when it has none or the lookup failed */
+type FundingLookup = (address: string) => Promise<FundingHop | null>;
+
+/**
+ * First-funding lookups for cluster candidates, at most
+ * config.graphFundingChecks addresses per graph. Token-only funding
+ * (airdrops, spam) doesn't count.
+ */
+function fundingLookup(): FundingLookup {
+  const lookups = new Map<string, Promise<FundingHop | null>>();
+  return (address) => {
+    const cached = lookups.get(address);
+    if (cached) return cached;
+    if (lookups.size >= config.graphFundingChecks) return Promise.resolve(null);
+
+    const lookup = basescan
+      .getEarliestTransfers(address)
+      .then((earliest) => {
+        const hop = firstFundingHop(
+          address,
+          earliest.transactions,
+          earliest.internalTransactions,
+          earliest.tokenTransfers,
+        );
+        return hop?.asset === 'ETH' ? hop : null;
+      })
+      .catch((error) => {
+        console.error(`[GraphBuilder] First-funding lookup failed for ${address}:`, error);
+        return null;
+      });
+    lookups.set(address, lookup);
+    return lookup;
+  };
+}
+
+/**
+ * Accumulates nodes, edges and the underlying transfers.
+ * Transfers seen twice (e.g. a neighbor's tx with the target) are counted once.
+ */
+class GraphAccumulator {
+  private nodes = new Map<string, GraphNode>();
+  private edges = new Map<string, GraphEdge & { valueWei: bigint }>();
+  private seen = new Set<string>();
+  private transfers: Transfer[] = [];
+
+  constructor(private center: string) {
+    this.nodes.set(center, { address: center, hop: 0, txCount: 0, inbound: 0, outbound: 0 });
+  }
+
+  add(transfers: Transfer[]): void {
+    for (const t of transfers) {
+      const key = `${t.hash}:${t.kind}:${t.from}:${t.to}:${t.asset}`;
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      this.transfers.push(t);
+
+      const hop = t.from === this.center || t.to === this.center ? 1 : 2;
+      this.touch(t.from, hop).outbound++;
+      this.touch(t.to, hop).inbound++;
+
+      const edgeKey = `${t.from}:${t.to}`;
+      const edge = this.edges.get(edgeKey) ?? {
+        from: t.from,
+        to: t.to,
+        txCount: 0,
+        assets: [],
+        valueEth: '0',
+        valueWei: 0n,
+        firstSeen: t.timestamp,
+        lastSeen: t.timestamp,
+      };
+      edge.txCount++;
+      edge.valueWei += t.valueWei;
+      if (!edge.assets.includes(t.asset)) edge.assets.push(t.asset);
+      edge.firstSeen = Math.min(edge.firstSeen, t.timestamp);
+      edge.lastSeen = Math.max(edge.lastSeen, t.timestamp);
+      this.edges.set(edgeKey, edge);
+    }
+  }
+
+  /** 1-hop neighbors, busiest first */
+  neighbors(): string[] {
+    return [...this.nodes.values()]
+      .filter((n) => n.hop === 1)
+      .sort((a, b) => b.txCount - a.txCount)
+      .map((n) => n.address);
+  }
+
+  async toGraph(depth: 1 | 2, expanded: string[]): Promise<WalletGraph> {
+    return {
+      center: this.center,
+      depth,
+      nodes: [...this.nodes.values()].sort((a, b) => a.hop - b.hop || b.txCount - a.txCount),
+      edges: [...this.edges.values()]
+        .sort((a, b) => b.txCount - a.txCount)
+        .map(({ valueWei, ...edge }) => ({ ...edge, valueEth: formatEther(valueWei) })),
+      clusters: await detectClusters(this.center, this.transfers, fundingLookup()),
+      expanded,
+    };
+  }
+
+  private touch(address: string, hop: 1 | 2): GraphNode {
+    const node = this.nodes.get(address);
+    if (node) {
+      node.txCount++;
+      if (node.hop > hop) node.hop = hop;
+      return node;
+    }
+
+    const label = getContractLabel(address);
+    const created: GraphNode = {
+      address,
+      ...(label ? { label } : {}),
+      hop: address === this.center ? 0 : hop,
+      txCount: 1,
+      inbound: 0,
+      outbound: 0,
+    };
+    this.nodes.set(address, created);
+    return created;
+  }
+}
+
+/**
+ * Detect common-funder, sweep-destination and synchronized clusters.
+ * Funder candidates are confirmed against each member's real first
+ * funding via `firstFunding`.
+ */
+async function detectClusters(
+  center: string,
+  transfers: Transfer[],
+  firstFunding: FundingLookup,
+): Promise<WalletCluster[]> {
+  const chronological = [...transfers].sort((a, b) => a.timestamp - b.timestamp);
+  const ethMoves = chronological.filter((t) => t.kind !== 'token' && t.valueWei > 0n);
+  const isAnchor = (address: string) =>
+    isEligibleAnchor(address) && (config.graphTargetAnchors || address !== center);
+  const describe = (address: string) =>
+    address === center ? 'the target' : shortenAddress(address);
+  const clusters: WalletCluster[] = [];
+
+  // Common funder: wallets this address paid ETH to in a batch are
+  // candidates; members are those whose first ETH ever came from it
+  const paidBy = groupBy(ethMoves.filter((t) => t.from !== t.to), (t) => t.from);
+  for (const [funder, paid] of paidBy) {
+    if (!isAnchor(funder)) continue;
+    const candidates = largestBatch(
+      paid.map((t) => ({ address: t.to, timestamp: t.timestamp })),
+      BATCH_WINDOW_SECONDS,
+    );
+    if (candidates.length < MIN_CLUSTER_SIZE) continue;
+
+    const hops = await Promise.all(candidates.map(firstFunding));
+    const funded = hops
+      .filter((hop): hop is FundingHop => hop?.from === funder)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const members = largestBatch(
+      funded.map((hop) => ({ address: hop.to, timestamp: hop.timestamp })),
+      BATCH_WINDOW_SECONDS,
+    );
+    if (members.length < MIN_CLUSTER_SIZE) continue;
+    clusters.push({
+      kind: 'commonFunder',
+      anchor: funder,
+      members,
+      includesTarget: funder === center || members.includes(center),
+      description: `${members.length} wallets first funded by ${describe(funder)} within 24h`,
+    });
+  }
+
+  // Sweep destination: several wallets moving ETH to the same address
+  // (token transfers are left out — spam airdrops arrive in batches)
+  const sentTo = groupBy(ethMoves, (t) => t.to);
+  for (const [destination, received] of sentTo) {
+    if (!isAnchor(destination)) continue;
+    const members = largestBatch(
+      received
+        .filter((t) => t.from !== destination)
+        .map((t) => ({ address: t.from, timestamp: t.timestamp })),
+      BATCH_WINDOW_SECONDS,
+    );
+    if (members.length < MIN_CLUSTER_SIZE) continue;
+    clusters.push({
+      kind: 'sweepDestination',
+      anchor: destination,
+      members,
+      includesTarget: destination === center || members.includes(center),
+      description: `${members.length} wallets sent ETH to ${describe(destination)} within 24h`,
+    });
+  }
+
+  // Synchronized: distinct EOAs (normal tx senders) acting within seconds
+  const syncEvents = chronological
+    .filter((t) => t.kind === 'normal' && t.from !== center && isEligibleAnchor(t.from))
+    .map((t) => ({ address: t.from, timestamp: t.timestamp }));
+  const syncKeys = new Set<string>();
+  for (const members of findBatches(syncEvents, SYNC_WINDOW_SECONDS)) {
+    const key = [...members].sort().join(',');
+    if (syncKeys.has(key) || syncKeys.size >= MAX_SYNC_CLUSTERS) continue;
+    syncKeys.add(key);
+    clusters.push({
+      kind: 'synchronized',
+      anchor: null,
+      members,
+      includesTarget: false,
+      description: `${members.length} wallets sent transactions within ${SYNC_WINDOW_SECONDS}s of each other`,
+    });
+  }
+
+  return clusters;
+}
+
+/**
+ * Sliding-window grouping: every run of events within `windowSeconds`
+ * that involves at least MIN_CLUSTER_SIZE distinct addresses.
+ * Events must be sorted by timestamp.
+ */
+function findBatches(events: ActivityEvent[], windowSeconds: number): string[][] {
+  const batches: string[][] = [];
+  let start = 0;
+
+  while (start < events.length) {
+    const first = events[start]!;
+    let end = start;
+    while (end < events.length && events[end]!.timestamp - first.timestamp <= windowSeconds) {
+      end++;
+    }
+
+    const members = [...new Set(events.slice(start, end).map((e) => e.address))];
+    if (members.length >= MIN_CLUSTER_SIZE) {
+      batches.push(members);
+      start = end;
+    } else {
+      start++;
+    }
+  }
+
+  return batches;
+}
+
+/** The largest batch of distinct addresses within the window, or [] */
+function largestBatch(events: ActivityEvent[], windowSeconds: number): string[] {
+  return findBatches(events, windowSeconds).reduce<string[]>(
+    (best, batch) => (batch.length > best.length ? batch : best),
+    [],
+  );
+}
+
+function isEligibleAnchor(address: string): boolean {
+  return address !== zeroAddress && !getContractLabel(address);
+}
+
+function toTransfers(
+  transactions: BasescanTransaction[],
+  internalTransactions: BasescanTransaction[],
+  tokenTransfers: BasescanTokenTransfer[],
+): Transfer[] {
+  const fromTx = (kind: 'normal' | 'internal') => (tx: BasescanTransaction): Transfer => {
+    const valueWei = tx.isError === '1' ? 0n : safeBigInt(tx.value);
+    return {
+      kind,
+      from: tx.from.toLowerCase(),
+      to: tx.to.toLowerCase(),
+      asset: 'ETH',
+      valueWei,
+      timestamp: parseInt(tx.timeStamp),
+      hash: tx.hash.toLowerCase(),
+    };
+  };
+
+  return [
+    ...transactions.map(fromTx('normal')),
+    ...internalTransactions.map(fromTx('internal')),
+    ...tokenTransfers.map((t): Transfer => ({
+      kind: 'token',
+      from: t.from.toLowerCase(),
+      to: t.to.toLowerCase(),
+      asset: t.tokenSymbol || 'tokens',
+      valueWei: 0n,
+      timestamp: parseInt(t.timeStamp),
+      hash: t.hash.toLowerCase(),
+    })),
+  ].filter((t) => t.from && t.to && !isNaN(t.timestamp));
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
@@ -0,0 +1,223 @@
+// ============================================================
+// Tell-Tale Bot — Holdings Snapshot
+// ============================================================
+// What a wallet holds right now:
+//   - ERC-20, ERC-721 and ERC-1155 balances from Blockscout's v2
+//     token-balance list (with USD prices where available)
+//   - fallback: balanceOf multicall over the ERC-20s seen in the
+//     wallet's transfer history (no NFTs, no prices)
+// Each holding is checked for unsolicited airdrops and spam:
+// explorer scam flags, scam-DB matches, names advertising links or
+// "claims", and unpriced tokens the wallet never moved itself.
+// ============================================================
+
+import { formatEther, formatUnits, parseAbi, type Hex } from 'viem';
+import { config } from '../config.js';
+import {
+  WalletData,
+  TokenHolding,
+  TokenStandard,
+  HoldingsSnapshot,
+  BasescanTokenTransfer,
+} from '../types/index.js';
+import { safeBigInt } from '../utils/format.js';
+import * as basescan from './basescan.js';
+import * as scamDb from './scamDb.js';
+import { withFallback } from './rpcFallback.js';
+
+type HoldingsSource = Pick<WalletData, 'address' | 'balance' | 'transactions' | 'tokenTransfers'>;
+
+const STANDARDS: TokenStandard[] = ['ERC-20', 'ERC-721', 'ERC-1155'];
+
+/** NFT token IDs kept per collection */
+const MAX_TOKEN_IDS = 20;
+
+/** Token names/symbols that advertise a website, reward or claim */
+const LURE_PATTERN =
+  /https?:\/\/|www\.|t\.me\/|\.(com|io|xyz|org|net|app|site|live|gift)\b|claim|reward|visit|voucher|airdrop/i;
+
+const BALANCE_OF_ABI = parseAbi(['function balanceOf(address) view returns (uint256)']);
+
+/** A holding before spam classification */
+type RawHolding = Omit<TokenHolding, 'unsolicited' | 'spam' | 'spamReasons'> & {
+  explorerFlagged: boolean;
+};
+
+/**
+ * Snapshot the wallet's current token and NFT holdings.
+ * Never throws; null when neither Blockscout nor RPC could be read.
+ */
+export async function fetchHoldings(data: HoldingsSource): Promise<HoldingsSnapshot | null> {
+  const listing = await basescan.getTokenBalances(data.address);
+  if (listing) return buildSnapshot(data, 'blockscout', fromBlockscout(listing.items), listing.complete);
+
+  try {
+    const tokens = await balancesViaRpc(data);
+    // Transfer history only covers ERC-20s — NFTs are unknown
+    return buildSnapshot(data, 'rpc', tokens, false);
+  } catch (error) {
+    console.error(`[Holdings] RPC balance fallback failed for ${data.address}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Normalize Blockscout token-balance entries. ERC-1155 entries (one per
+ * token ID) are merged per contract.
+ */
+export function fromBlockscout(items: basescan.BlockscoutTokenBalance[]): RawHolding[] {
+  const holdings = new Map<string, RawHolding>();
+
+  for (const item of items) {
+    const token = (item.token.address_hash ?? item.token.address ?? '').toLowerCase();
+    const standard = STANDARDS.find((s) => s === item.token.type);
+    const raw = safeBigInt(item.value);
+    if (!token || !standard || raw === 0n) continue;
+
+    const existing = holdings.get(token);
+    if (existing) {
+      existing.rawBalance = String(BigInt(existing.rawBalance) + raw);
+      existing.balance = existing.rawBalance;
+      if (item.token_id && existing.tokenIds && existing.tokenIds.length < MAX_TOKEN_IDS) {
+        existing.tokenIds.push(item.token_id);
+      }
+      continue;
+    }
+
+    const decimals = standard === 'ERC-20' ? parseInt(item.token.decimals ?? '', 10) : NaN;
+    const balance = isNaN(decimals) ? raw.toString() : formatUnits(raw, decimals);
+    const price = item.token.exchange_rate ? parseFloat(item.token.exchange_rate) : NaN;
+
+    holdings.set(token, {
+      token,
+      standard,
+      name: item.token.name || null,
+      symbol: item.token.symbol || null,
+      decimals: isNaN(decimals) ? null : decimals,
+      balance,
+      rawBalance: raw.toString(),
+      ...(standard === 'ERC-20' ? {} : { tokenIds: item.token_id ? [item.token_id] : [] }),
+      valueUsd:
+        standard === 'ERC-20' && !isNaN(price) ? Math.round(price * parseFloat(balance) * 100) / 100 : null,
+      explorerFlagged: item.token.is_scam === true || item.token.reputation === 'scam',
+    });
+  }
+
+  return [...holdings.values()];
+}
+
+/**
+ * Current balances of the ERC-20s the wallet has transferred, read with a
+ * single balanceOf multicall.
+ */
+async function balancesViaRpc(data: HoldingsSource): Promise<RawHolding[]> {
+  const self = data.address.toLowerCase() as Hex;
+  const seen = new Map<string, BasescanTokenTransfer>();
+  for (const t of data.tokenTransfers) {
+    const token = t.contractAddress.toLowerCase();
+    if (token && !seen.has(token)) seen.set(token, t);
+  }
+  const tokens = [...seen.keys()].slice(0, config.holdingsRpcTokenLimit);
+  if (tokens.length === 0) return [];
+
+  const results = await withFallback((client) =>
+    client.multicall({
+      contracts: tokens.map((token) => ({
+        address: token as Hex,
+        abi: BALANCE_OF_ABI,
+        functionName: 'balanceOf' as const,
+        args: [self] as const,
+      })),
+      allowFailure: true,
+    }),
+  );
+
+  return tokens.flatMap((token, i): RawHolding[] => {
+    const result = results[i];
+    if (result?.status !== 'success' || result.result === 0n) return [];
+    const transfer = seen.get(token)!;
+    const decimals = parseInt(transfer.tokenDecimal, 10);
+    return [
+      {
+        token,
+        standard: 'ERC-20',
+        name: transfer.tokenName || null,
+        symbol: transfer.tokenSymbol || null,
+        decimals: isNaN(decimals) ? null : decimals,
+        balance: isNaN(decimals) ? result.result.toString() : formatUnits(result.result, decimals),
+        rawBalance: result.result.toString(),
+        valueUsd: null,
+        explorerFlagged: false,
+      },
+    ];
+  });
+}
+
+/**
+ * Classify holdings and assemble the snapshot.
+ */
+export function buildSnapshot(
+  data: HoldingsSource,
+  source: HoldingsSnapshot['source'],
+  raw: RawHolding[],
+  complete: boolean,
+): HoldingsSnapshot {
+  const flagged = scamDb.batchCheckLocal(raw.map((h) => h.token));
+  const selfMoved = tokensMovedByWallet(data);
+  const received = new Set(
+    data.tokenTransfers
+      .filter((t) => t.to.toLowerCase() === data.address.toLowerCase())
+      .map((t) => t.contractAddress.toLowerCase()),
+  );
+
+  const holdings = raw.map(({ explorerFlagged, ...holding }): TokenHolding => {
+    // Only ERC-20 transfer history is available, so NFTs are never "unsolicited"
+    const unsolicited =
+      holding.standard === 'ERC-20' && received.has(holding.token) && !selfMoved.has(holding.token);
+
+    const spamReasons: string[] = [];
+    if (explorerFlagged) spamReasons.push('flagged as scam by the explorer');
+    const flag = flagged.get(holding.token);
+    if (flag) spamReasons.push(`in scam database (${flag.category})`);
+    if (LURE_PATTERN.test(`${holding.name ?? ''} ${holding.symbol ?? ''}`)) {
+      spamReasons.push('name advertises a link or claim');
+    }
+    if (unsolicited && holding.valueUsd === null) spamReasons.push('unsolicited airdrop with no market price');
+
+    return { ...holding, unsolicited, spam: spamReasons.length > 0, spamReasons };
+  });
+
+  // Legitimate holdings first, then by value
+  const byValue = (a: TokenHolding, b: TokenHolding) =>
+    Number(a.spam) - Number(b.spam) || (b.valueUsd ?? -1) - (a.valueUsd ?? -1);
+  const tokens = holdings.filter((h) => h.standard === 'ERC-20').sort(byValue);
+  const nfts = holdings.filter((h) => h.standard !== 'ERC-20').sort(byValue);
+
+  const priced = tokens.filter((h) => !h.spam && h.valueUsd !== null);
+  return {
+    source,
+    ethBalance: formatEther(data.balance),
+    tokens,
+    nfts,
+    spamCount: holdings.filter((h) => h.spam).length,
+    totalValueUsd:
+      priced.length > 0 ? Math.round(priced.reduce((sum, h) => sum + h.valueUsd!, 0) * 100) / 100 : null,
+    complete,
+  };
+}
+
+/**
+ * ERC-20s moved by a transaction the wallet itself sent (a swap, a
+ * transfer, a claim) — anything else it holds arrived unasked.
+ */
+function tokensMovedByWallet(data: HoldingsSource): Set<string> {
+  const self = data.address.toLowerCase();
+  const ownTxs = new Set(
+    data.transactions.filter((tx) => tx.from.toLowerCase() === self).map((tx) => tx.hash.toLowerCase()),
+  );
+  return new Set(
+    data.tokenTransfers
+      .filter((t) => t.from.toLowerCase() === self || ownTxs.has(t.hash.toLowerCase()))
+      .map((t) => t.contractAddress.toLowerCase()),
+  );
+}
@@ -0,0 +1,134 @@
+// ============================================================
+// Tell-Tale Bot — Name Resolution (Basenames + ENS)
+// ============================================================
+// Forward: "name.base.eth" → address via the Basenames L2 resolver
+// on Base; any other ".eth" name via ENS on Ethereum L1.
+// Reverse: an address's primary name — its Basename first, then
+// its ENS name. A reverse record only counts when the name resolves
+// back to the same address, so nobody can claim someone else's name.
+// Both directions go through the RPC fallback chains and are cached,
+// including misses.
+// ============================================================
+
+import { decodeFunctionResult, encodeFunctionData, getAddress, parseAbi, zeroAddress } from 'viem';
+import { base } from 'viem/chains';
+import { namehash, normalize, toCoinType } from 'viem/ens';
+import { config } from '../config.js';
+import { TtlCache } from '../utils/rateLimit.js';
+import { extractAddress, isName } from '../utils/address.js';
+import { callViaRpc, withMainnetFallback } from './rpcFallback.js';
+
+const L2_RESOLVER_ABI = parseAbi([
+  'function addr(bytes32 node) view returns (address)',
+  'function name(bytes32 node) view returns (string)',
+]);
+
+const BASENAME_SUFFIX = '.base.eth';
+
+// Reverse records for Base live under "<address>.<coin type>.reverse" (ENSIP-11)
+const BASE_REVERSE_SUFFIX = `${toCoinType(base.id).toString(16)}.reverse`;
+
+const nameCache = new TtlCache<string | null>(config.nameCacheTtlSeconds * 1000);
+const primaryNameCache = new TtlCache<string | null>(config.nameCacheTtlSeconds * 1000);
+
+/**
+ * Resolve a Basename or ENS name to a checksummed address.
+ * Returns null when the name is invalid, unregistered or has no address.
+ */
+export async function resolveName(name: string): Promise<string | null> {
+  let normalized: string;
+  try {
+    normalized = normalize(name);
+  } catch {
+    return null; // not a valid ENS name (ENSIP-15)
+  }
+
+  const cached = nameCache.get(normalized);
+  if (cached !== undefined) return cached;
+
+  try {
+    const address = normalized.endsWith(BASENAME_SUFFIX)
+      ? await resolveBasename(normalized)
+      : await withMainnetFallback((client) => client.getEnsAddress({ name: normalized }));
+    const resolved = address && address !== zeroAddress ? getAddress(address) : null;
+    nameCache.set(normalized, resolved);
+    return resolved;
+  } catch (error) {
+    console.error(`[Names] Failed to resolve ${normalized}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The address's primary name: its Basename, else its ENS name.
+ * Returns null when it has neither.
+ */
+export async function lookupPrimaryName(address: string): Promise<string | null> {
+  const key = address.toLowerCase();
+  const cached = primaryNameCache.get(key);
+  if (cached !== undefined) return cached;
+
+  try {
+    const hexAddress = getAddress(address);
+    const name =
+      (await lookupBasename(hexAddress)) ??
+      (await withMainnetFallback((client) => client.getEnsName({ address: hexAddress })));
+    primaryNameCache.set(key, name);
+    return name;
+  } catch (error) {
+    console.error(`[Names] Failed to look up primary name for ${address}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Primary names for several addresses, keyed by lowercase address.
+ * Addresses without one are left out.
+ */
+export async function lookupPrimaryNames(addresses: string[]): Promise<Record<string, string>> {
+  const unique = [...new Set(addresses.map((a) => a.toLowerCase()))];
+  const names = await Promise.all(unique.map((address) => lookupPrimaryName(address)));
+
+  const result: Record<string, string> = {};
+  unique.forEach((address, i) => {
+    const name = names[i];
+    if (name) result[address] = name;
+  });
+  return result;
+}
+
+/**
+ * Turn user input (an address or a name) into a checksummed address.
+ * Returns null when it is neither, or the name doesn't resolve.
+ */
+export async function resolveAddressOrName(input: string): Promise<string | null> {
+  const address = extractAddress(input);
+  if (address) return address;
+  return isName(input) ? resolveName(input) : null;
+}
+
+async function resolveBasename(name: string): Promise<string | null> {
+  const result = await callViaRpc(
+    config.basenameResolver as `0x${string}`,
+    encodeFunctionData({ abi: L2_RESOLVER_ABI, functionName: 'addr', args: [namehash(name)] }),
+  );
+  if (!result || result === '0x') return null;
+  return decodeFunctionResult({ abi: L2_RESOLVER_ABI, functionName: 'addr', data: result });
+}
+
+/**
+ * The Basename an address set as its primary name, if it still
+ * resolves back to that address.
+ */
+async function lookupBasename(address: `0x${string}`): Promise<string | null> {
+  const node = namehash(`${address.slice(2).toLowerCase()}.${BASE_REVERSE_SUFFIX}`);
+  const result = await callViaRpc(
+    config.basenameResolver as `0x${string}`,
+    encodeFunctionData({ abi: L2_RESOLVER_ABI, functionName: 'name', args: [node] }),
+  );
+  if (!result || result === '0x') return null;
+
+  const name = decodeFunctionResult({ abi: L2_RESOLVER_ABI, functionName: 'name', data: result });
+  if (!name) return null;
+  return (await resolveName(name)) === address ? name : null;
+}
@@ -0,0 +1,340 @@
+// ============================================================
+// Tell-Tale Bot — LLM Output Validator (Hallucination Guard)
+// ============================================================
+// Cross-references every claim in a structured LLM summary against
+// the verified inputs it was generated from:
+//   - 40-hex addresses   → must appear in txs / token / internal transfers
+//   - 64-hex tx hashes   → must appear in txs / token / internal transfers
+//   - numeric claims     → tx counts, account age, ETH amounts, scores
+//   - entity names       → protocol/token/service names must be grounded
+// Address and hash problems are repaired (scrubbed or dropped);
+// wrong numbers or invented entities reject the summary outright.
+// ============================================================
+
+import { formatEther } from 'viem';
+import {
+  WalletData,
+  RiskSignal,
+  AiSummary,
+  ValidationViolation,
+  SummaryValidation,
+} from '../types/index.js';
+import { knownContracts, getContractLabel } from '../data/knownContracts.js';
+import { safeBigInt } from '../utils/format.js';
+
+/**
+ * Protocol, token and service names the LLM might drop into a summary.
+ * Derived from the known-contract registry plus commonly confused names.
+ */
+const ENTITY_NAMES: string[] = [
+  ...new Set([
+    ...knownContracts
+      .map((c) => c.label.split(' ')[0]!)
+      .filter((name) => name !== 'Base'),
+    'Tornado Cash',
+    'Coinbase',
+    'Binance',
+    'OpenSea',
+    'Curve',
+    'Compound',
+    'SushiSwap',
+    'Balancer',
+    'Stargate',
+    'Pink Drainer',
+    'Inferno Drainer',
+    'Angel Drainer',
+  ]),
+];
+
+const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
+const TX_HASH_PATTERN = /0x[a-fA-F0-9]{64}(?![a-fA-F0-9])/g;
+
+/**
+ * Durations stated as the account's age ("120 days old", "a 3-month-old
+ * wallet", "account age of 40 days", "first seen 2 months ago"). Other
+ * durations ("funds moved within 2 days") are not checked. Group 1 is
+ * the number, group 2 the unit.
+ */
+const AGE_PATTERNS = [
+  /\b(\d[\d,]*)[\s-]+(days?|months?)[\s-]+old\b/gi,
+  /\b(?:age|aged|first (?:seen|active|transaction|tx))\b[^.\d]{0,20}?\b(\d[\d,]*)[\s-]+(days?|months?)\b/gi,
+];
+
+/** Verified facts extracted from the analysis inputs */
+interface GroundTruth {
+  addresses: Set<string>;
+  txHashes: Set<string>;
+  txCounts: Set<number>;
+  ageDays: number | null;
+  ethAmounts: number[];
+  scores: Set<number>;
+  /** Numbers quoted verbatim in template-generated signal text */
+  quotedNumbers: Set<number>;
+  /** Lowercased corpus of grounded names (labels, tokens, signal text) */
+  corpus: string;
+}
+
+export interface SummaryValidationResult {
+  /** The (possibly repaired) output, or null when rejected */
+  output: AiSummary | null;
+  validation: SummaryValidation;
+}
+
+/**
+ * Validate a structured LLM summary against the data it was generated from.
+ */
+export function validateAiSummary(
+  output: AiSummary,
+  data: WalletData,
+  signals: RiskSignal[],
+  riskScore: number,
+): SummaryValidationResult {
+  const truth = buildGroundTruth(data, signals, riskScore);
+  const violations: ValidationViolation[] = [];
+  let rejected = false;
+
+  // 1. Citations: drop anything not present in the data
+  const citedAddresses = output.citedAddresses.filter((addr) => {
+    if (truth.addresses.has(addr.toLowerCase())) return true;
+    violations.push({
+      kind: 'address',
+      field: 'citedAddresses',
+      value: addr,
+      reason: 'Cited address does not appear in the fetched data',
+    });
+    return false;
+  });
+
+  const citedTxHashes = output.citedTxHashes.filter((hash) => {
+    if (truth.txHashes.has(hash.toLowerCase())) return true;
+    violations.push({
+      kind: 'txHash',
+      field: 'citedTxHashes',
+      value: hash,
+      reason: 'Cited transaction hash does not appear in the fetched data',
+    });
+    return false;
+  });
+
+  // 2. Free-text fields: scrub unknown hashes/addresses, check numbers & entities
+  const checkText = (field: string, text: string): string => {
+    const repaired = scrubText(field, text, truth, violations);
+    const claimViolations = [
+      ...checkNumbers(field, repaired, truth),
+      ...checkEntities(field, repaired, truth),
+    ];
+    if (claimViolations.length > 0) {
+      rejected = true;
+      violations.push(...claimViolations);
+    }
+    return repaired;
+  };
+
+  const summary = checkText('summary', output.summary);
+  const verdictWording = checkText('verdictWording', output.verdictWording);
+  const signalCommentary = output.signalCommentary.map((c) => ({
+    ...c,
+    commentary: checkText(`signalCommentary[${c.signal}]`, c.commentary),
+  }));
+
+  if (rejected) {
+    return { output: null, validation: { outcome: 'rejected', violations } };
+  }
+
+  return {
+    output: { summary, verdictWording, signalCommentary, citedTxHashes, citedAddresses },
+    validation: { outcome: violations.length > 0 ? 'repaired' : 'accepted', violations },
+  };
+}
+
+function buildGroundTruth(
+  data: WalletData,
+  signals: RiskSignal[],
+  riskScore: number,
+): GroundTruth {
+  const allTxs = [...data.transactions, ...data.internalTransactions];
+
+  const contract = data.contractAnalysis;
+  const addresses = new Set(
+    [
+      data.address,
+      ...allTxs.flatMap((tx) => [tx.from, tx.to, tx.contractAddress]),
+      ...data.tokenTransfers.flatMap((t) => [t.from, t.to, t.contractAddress]),
+      // Contract-mode addresses given to the LLM in the prompt
+      contract?.owner,
+      contract?.deployer,
+      contract?.proxy?.implementation,
+      contract?.proxy?.admin,
+      contract?.proxy?.beacon,
+    ]
+      .filter((a): a is string => !!a)
+      .map((a) => a.toLowerCase()),
+  );
+
+  const txHashes = new Set(
+    [
+      ...[...allTxs, ...data.tokenTransfers].map((tx) => tx.hash),
+      ...(contract?.creationTxHash ? [contract.creationTxHash] : []),
+    ].map((hash) => hash.toLowerCase()),
+  );
+
+  const ethAmounts = [data.balance, ...allTxs.map((tx) => safeBigInt(tx.value))]
+    .filter((v) => v > 0n)
+    .map((v) => parseFloat(formatEther(v)));
+
+  const signalText = signals
+    .flatMap((s) => [s.description, ...(s.evidence ?? [])])
+    .join('\n');
+
+  // Per-counterparty tx counts (shown to the LLM as top counterparties)
+  const counterpartyCounts = new Map<string, number>();
+  const self = data.address.toLowerCase();
+  for (const tx of data.transactions) {
+    const other = (tx.from.toLowerCase() === self ? tx.to : tx.from).toLowerCase();
+    if (other) counterpartyCounts.set(other, (counterpartyCounts.get(other) ?? 0) + 1);
+  }
+
+  const quotedNumbers = new Set([
+    ...(signalText.match(/\d[\d,]*(?:\.\d+)?/g) ?? []).map(parseNumber),
+    ...counterpartyCounts.values(),
+  ]);
+
+  const corpus = [
+    signalText,
+    ...data.scamFlags.flatMap((f) => [f.source, f.category, f.description]),
+    ...data.tokenTransfers.flatMap((t) => [t.tokenName, t.tokenSymbol]),
+    contract?.contractName ?? '',
+    ...[...addresses].map((a) => getContractLabel(a) ?? ''),
+  ]
+    .join('\n')
+    .toLowerCase();
+
+  return {
+    addresses,
+    txHashes,
+    txCounts: new Set([
+      data.transactionCount,
+      data.transactions.length,
+      data.tokenTransfers.length,
+      data.internalTransactions.length,
+    ]),
+    ageDays: data.accountAge !== null ? data.accountAge / 86400 : null,
+    ethAmounts,
+    scores: new Set([riskScore, ...signals.map((s) => s.score)]),
+    quotedNumbers,
+    corpus,
+  };
+}
+
+/**
+ * Replace unknown tx hashes and addresses in free text. Hashes are matched
+ * first so their 40-hex prefixes aren't mistaken for addresses.
+ */
+function scrubText(
+  field: string,
+  text: string,
+  truth: GroundTruth,
+  violations: ValidationViolation[],
+): string {
+  const withoutHashes = text.replace(TX_HASH_PATTERN, (hash) => {
+    if (truth.txHashes.has(hash.toLowerCase())) return hash;
+    violations.push({
+      kind: 'txHash',
+      field,
+      value: hash,
+      reason: 'Transaction hash does not appear in the fetched data — removed',
+    });
+    return '[tx removed]';
+  });
+
+  return withoutHashes.replace(ADDRESS_PATTERN, (addr) => {
+    if (truth.addresses.has(addr.toLowerCase())) return addr;
+    violations.push({
+      kind: 'address',
+      field,
+      value: addr,
+      reason: 'Address does not appear in the fetched data — removed',
+    });
+    return '[address removed]';
+  });
+}
+
+/**
+ * Check numeric claims (tx counts, age, ETH amounts, scores) against the data.
+ * Numbers quoted verbatim in signal text are always considered grounded.
+ */
+function checkNumbers(field: string, text: string, truth: GroundTruth): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  const flag = (value: string, reason: string) =>
+    violations.push({ kind: 'number', field, value, reason });
+  const quoted = (n: number) => truth.quotedNumbers.has(n);
+
+  for (const m of text.matchAll(/\b(\d[\d,]*)\s+(?:transactions?|txs?)\b/gi)) {
+    const n = parseNumber(m[1]!);
+    if (!truth.txCounts.has(n) && !quoted(n)) {
+      flag(m[0], `Transaction count ${n} does not match the data`);
+    }
+  }
+
+  const ageClaims = new Map<number, RegExpMatchArray>(); // by offset of the number
+  for (const pattern of AGE_PATTERNS) {
+    for (const m of text.matchAll(pattern)) ageClaims.set(m.index! + m[0].indexOf(m[1]!), m);
+  }
+  for (const m of ageClaims.values()) {
+    const n = parseNumber(m[1]!);
+    if (quoted(n)) continue;
+    if (truth.ageDays === null) {
+      flag(m[0], 'Account age is unknown, but the text states one');
+      continue;
+    }
+    const isMonths = m[2]!.toLowerCase().startsWith('month');
+    const actual = isMonths ? truth.ageDays / 30 : truth.ageDays;
+    if (Math.abs(actual - n) > 1) {
+      flag(m[0], `Stated age ${m[0]} does not match ~${Math.round(actual)} ${isMonths ? 'months' : 'days'}`);
+    }
+  }
+
+  for (const m of text.matchAll(/\b(\d[\d,]*(?:\.\d+)?)\s*ETH\b/gi)) {
+    const n = parseNumber(m[1]!);
+    const matches = truth.ethAmounts.some((v) => Math.abs(v - n) <= Math.max(0.005, v * 0.01));
+    if (!matches && !quoted(n)) {
+      flag(m[0], `ETH amount ${n} does not match any fetched balance or transfer`);
+    }
+  }
+
+  const scorePatterns = [/\b(\d{1,3})\s*\/\s*100\b/g, /\bscore(?:\s+of)?\s+(\d{1,3})\b/gi];
+  for (const pattern of scorePatterns) {
+    for (const m of text.matchAll(pattern)) {
+      const n = parseNumber(m[1]!);
+      if (!truth.scores.has(n)) {
+        flag(m[0], `Score ${n} does not match the computed scores`);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Flag protocol/token/service names that don't appear anywhere in the inputs.
+ */
+function checkEntities(field: string, text: string, truth: GroundTruth): ValidationViolation[] {
+  const lower = text.toLowerCase();
+  return ENTITY_NAMES.filter((name) => {
+    const pattern = new RegExp(`\\b${escapeRegExp(name.toLowerCase())}\\b`);
+    return pattern.test(lower) && !truth.corpus.includes(name.toLowerCase());
+  }).map((name) => ({
+    kind: 'entity' as const,
+    field,
+    value: name,
+    reason: `"${name}" is not among the wallet's labeled counterparties or tokens`,
+  }));
+}
+
+function parseNumber(raw: string): number {
+  return parseFloat(raw.replace(/,/g, ''));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,211 @@
+// ============================================================
+// Tell-Tale Bot — Address-Poisoning Detection
+// ============================================================
+// Address poisoning plants a lookalike of a real counterparty (same
+// leading and trailing characters) in a wallet's history, hoping the
+// owner copies it from there next time. The lookalike arrives as:
+//   - a zero-value transfer, often a spoofed transferFrom(wallet, lookalike, 0)
+//   - a dust amount of ETH or a token
+//   - a counterfeit token copying the symbol of one the wallet uses
+// The wallet is a victim when such transfers come from lookalikes of
+// its genuine counterparties (worse if it later paid one), and a
+// perpetrator when zero-value / dust transfers it sent to many unrelated
+// wallets dominate what it sends. Spam it merely receives never counts.
+// Pure over the fetched history — no extra API calls.
+// ============================================================
+
+import { formatUnits, zeroAddress } from 'viem';
+import {
+  WalletData,
+  LookalikePair,
+  PoisoningAnalysis,
+  PoisoningKind,
+} from '../types/index.js';
+import { shortenAddress } from '../utils/address.js';
+
+/** Characters that must match at each end, and in total, for a lookalike */
+const LOOKALIKE_MIN_SIDE = 3;
+const LOOKALIKE_MIN_TOTAL = 7;
+
+/** Native transfers below this are dust (0.0001 ETH) */
+const ETH_DUST_WEI = 10n ** 14n;
+
+/** Token transfers below this many whole units are dust */
+const TOKEN_DUST_UNITS = 0.01;
+
+/** Distinct counterparties of suspicious transfers before a wallet counts as a sprayer */
+const SPRAY_MIN_COUNTERPARTIES = 10;
+
+/** One value movement touching the wallet, normalized across lists */
+interface Movement {
+  counterparty: string;
+  outbound: boolean;
+  asset: string; // "ETH" or token symbol
+  hash: string;
+  timestamp: number;
+  suspicious: PoisoningKind | null;
+}
+
+/**
+ * Scan normal transactions and token transfers for lookalike
+ * counterparties and zero-value / dust spraying.
+ */
+export function detectAddressPoisoning(
+  data: Pick<WalletData, 'address' | 'transactions' | 'tokenTransfers'>,
+): PoisoningAnalysis {
+  const wallet = data.address.toLowerCase();
+  const movements = collectMovements(wallet, data).sort((a, b) => a.timestamp - b.timestamp);
+
+  // Transactions the wallet signed itself — anything else touching it
+  // was pushed by someone else
+  const ownHashes = new Set(
+    data.transactions.filter((tx) => tx.from.toLowerCase() === wallet).map((tx) => tx.hash),
+  );
+
+  // Genuine counterparties and when the wallet first dealt with them
+  const firstSeen = new Map<string, number>();
+  for (const m of movements) {
+    if (!m.suspicious && !firstSeen.has(m.counterparty)) firstSeen.set(m.counterparty, m.timestamp);
+  }
+
+  const pairs = new Map<string, LookalikePair>();
+  for (const m of movements) {
+    if (!m.suspicious || ownHashes.has(m.hash) || pairs.has(m.counterparty)) continue;
+    const genuine = [...firstSeen.entries()].find(
+      ([address, seen]) => seen <= m.timestamp && isLookalike(address, m.counterparty),
+    );
+    if (!genuine) continue;
+    pairs.set(m.counterparty, {
+      genuine: genuine[0],
+      lookalike: m.counterparty,
+      kind: m.suspicious,
+      asset: m.asset,
+      txHash: m.hash,
+      timestamp: m.timestamp,
+      fellFor: movements.some(
+        (o) => o.outbound && !o.suspicious && o.counterparty === m.counterparty && o.timestamp > m.timestamp,
+      ),
+    });
+  }
+
+  // Spraying is judged only on what the wallet sent or signed — inbound
+  // zero-value and dust transfers are what its victims see
+  const suspicious = movements.filter((m) => m.suspicious);
+  const sent = movements.filter((m) => m.outbound || ownHashes.has(m.hash));
+  const sprayedTransfers = sent.filter((m) => m.suspicious);
+  const sprayed = new Set(sprayedTransfers.map((m) => m.counterparty));
+  const unexplained = [...sprayed].filter((address) => !pairs.has(address)).length;
+
+  return {
+    pairs: [...pairs.values()],
+    suspiciousTransfers: suspicious.length,
+    sprayCounterparties: sprayed.size,
+    perpetrator:
+      unexplained >= SPRAY_MIN_COUNTERPARTIES && sprayedTransfers.length * 2 >= sent.length,
+  };
+}
+
+/**
+ * Two different addresses sharing enough leading and trailing hex
+ * characters to pass a glance at a shortened "0x1234...abcd" display.
+ */
+export function isLookalike(a: string, b: string): boolean {
+  const x = a.toLowerCase().slice(2);
+  const y = b.toLowerCase().slice(2);
+  if (x === y) return false;
+
+  let prefix = 0;
+  while (prefix < x.length && x[prefix] === y[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < x.length && x[x.length - 1 - suffix] === y[y.length - 1 - suffix]) suffix++;
+
+  return prefix >= LOOKALIKE_MIN_SIDE && suffix >= LOOKALIKE_MIN_SIDE && prefix + suffix >= LOOKALIKE_MIN_TOTAL;
+}
+
+/** "0x1234ab...99cdef mimics 0x1234ab...88cdef (zero-value USDC, funds sent)" */
+export function describeLookalike(pair: LookalikePair): string {
+  const how =
+    pair.kind === 'zeroValue'
+      ? `zero-value ${pair.asset}`
+      : pair.kind === 'dust'
+        ? `${pair.asset} dust`
+        : `counterfeit ${pair.asset}`;
+  return `${shortenAddress(pair.lookalike, 6)} mimics ${shortenAddress(pair.genuine, 6)} (${how}${pair.fellFor ? ', funds sent' : ''})`;
+}
+
+function collectMovements(
+  wallet: string,
+  data: Pick<WalletData, 'transactions' | 'tokenTransfers'>,
+): Movement[] {
+  const movements: Movement[] = [];
+
+  for (const tx of data.transactions) {
+    const from = tx.from.toLowerCase();
+    const to = (tx.to || '').toLowerCase();
+    if (tx.isError === '1' || !to || (from !== wallet && to !== wallet) || from === to) continue;
+    const value = BigInt(tx.value || '0');
+    const plain = !tx.input || tx.input === '0x';
+
+    // Contract calls made to the wallet say nothing about counterparties
+    if (to === wallet && !plain) continue;
+    const suspicious: PoisoningKind | null = !plain
+      ? null
+      : value === 0n
+        ? 'zeroValue'
+        : value < ETH_DUST_WEI
+          ? 'dust'
+          : null;
+
+    movements.push({
+      counterparty: from === wallet ? to : from,
+      outbound: from === wallet,
+      asset: 'ETH',
+      hash: tx.hash,
+      timestamp: parseInt(tx.timeStamp),
+      suspicious,
+    });
+  }
+
+  // Symbols of tokens the wallet itself sent — inbound copies of those
+  // symbols from other contracts are counterfeits
+  const realTokens = new Map<string, Set<string>>();
+  for (const t of data.tokenTransfers) {
+    if (t.from.toLowerCase() !== wallet || BigInt(t.value || '0') === 0n) continue;
+    const symbol = t.tokenSymbol.toUpperCase();
+    if (!realTokens.has(symbol)) realTokens.set(symbol, new Set());
+    realTokens.get(symbol)!.add(t.contractAddress.toLowerCase());
+  }
+
+  for (const t of data.tokenTransfers) {
+    const from = t.from.toLowerCase();
+    const to = t.to.toLowerCase();
+    if ((from !== wallet && to !== wallet) || from === to) continue;
+    const counterparty = from === wallet ? to : from;
+    if (counterparty === zeroAddress) continue; // mints and burns
+
+    const token = t.contractAddress.toLowerCase();
+    const raw = BigInt(t.value || '0');
+    const decimals = parseInt(t.tokenDecimal) || 0;
+    const known = realTokens.get(t.tokenSymbol.toUpperCase());
+
+    const suspicious: PoisoningKind | null =
+      raw === 0n
+        ? 'zeroValue'
+        : to === wallet && known && !known.has(token)
+          ? 'counterfeitToken'
+          : parseFloat(formatUnits(raw, decimals)) < TOKEN_DUST_UNITS
+            ? 'dust'
+            : null;
+
+    movements.push({
+      counterparty,
+      outbound: from === wallet,
+      asset: t.tokenSymbol || shortenAddress(token),
+      hash: t.hash,
+      timestamp: parseInt(t.timeStamp),
+      suspicious,
+    });
+  }
+
+  return movements;
+}
@@ -0,0 +1,746 @@
+// ============================================================
+// Tell-Tale Bot — Transaction Pre-Check
+// ============================================================
+// "Is it safe to sign this?" for an unsigned transaction:
+//   1. decode the calldata against well-known selectors (approvals,
+//      transfers, permits, multicalls), then the target's verified ABI
+//   2. check the target and every embedded spender / operator /
+//      recipient against the scam DB, known-contract labels and
+//      contract analysis
+//   3. simulate it with eth_simulateV1 (traceTransfers) for the
+//      signer's expected balance changes, falling back to eth_call
+//   4. score it into a WalletReport-style verdict
+// Nothing is signed or broadcast.
+// ============================================================
+
+import {
+  decodeFunctionData,
+  formatEther,
+  formatUnits,
+  isAddress,
+  keccak256,
+  parseAbi,
+  parseEther,
+  toFunctionSelector,
+  toFunctionSignature,
+  toHex,
+  zeroAddress,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { config } from '../config.js';
+import {
+  ApprovalKind,
+  BalanceChange,
+  ContractAnalysis,
+  DecodedCall,
+  PrecheckInput,
+  PrecheckParty,
+  PrecheckReport,
+  PrecheckSimulation,
+  RiskLevel,
+  RiskSignal,
+} from '../types/index.js';
+import { getContractLabel } from '../data/knownContracts.js';
+import { shortenAddress } from '../utils/address.js';
+import * as basescan from './basescan.js';
+import * as scamDb from './scamDb.js';
+import { withFallback, isContractViaRpc } from './rpcFallback.js';
+import { withFixtureBundle } from './fixtureRecorder.js';
+import { analyzeContract } from './contractAnalyzer.js';
+import { assessRisk, isUnlimitedAmount } from './approvals.js';
+import { getScoringModel, riskLevelFor, scamBoostFor } from './scoringModel.js';
+
+/** The subset of a viem client the simulation needs */
+export type PrecheckClient = Pick<PublicClient, 'call' | 'simulateBlocks' | 'multicall'>;
+
+/** Placeholder signer when the caller did not say who signs */
+const PLACEHOLDER_SIGNER: Hex = '0x00000000000000000000000000000000007e1172';
+
+/** eth_simulateV1 reports native ETH movements as logs from this address */
+const NATIVE_TRANSFER_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+/** Minimum score when a signal is maxed out (flagged target or spender) */
+const CRITICAL_SCORE_FLOOR = 75;
+
+/** Multicall nesting followed when decoding */
+const MAX_DECODE_DEPTH = 3;
+
+/** Selectors with a well-known meaning, matched before the verified ABI */
+const KNOWN_ABI = parseAbi([
+  'function approve(address spender, uint256 amount)',
+  'function increaseAllowance(address spender, uint256 addedValue)',
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'function multicall(bytes[] data)',
+  'function multicall(uint256 deadline, bytes[] data)',
+  'function aggregate((address target, bytes callData)[] calls)',
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls)',
+]);
+
+const KNOWN_BY_SELECTOR = new Map<string, AbiFunction>(
+  KNOWN_ABI.map((item) => [toFunctionSelector(item), item]),
+);
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const TOKEN_INFO_ABI = parseAbi([
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+]);
+
+/**
+ * Parse "precheck <to> <calldata> [value in ETH] [from=0x...]" out of
+ * cast text. Returns null when the target or calldata is missing or
+ * malformed.
+ */
+export function parsePrecheckCommand(text: string): PrecheckInput | null {
+  const match = /\bprecheck\s+(0x[0-9a-fA-F]{40})\s+(0x(?:[0-9a-fA-F]{2})*)(?=\s|$)(.*)$/is.exec(text);
+  if (!match) return null;
+  const [, to, data, rest] = match as unknown as [string, string, string, string];
+
+  const from = /\bfrom=(0x[0-9a-fA-F]{40})\b/i.exec(rest)?.[1];
+  const ether = /(?:^|\s)(\d+(?:\.\d+)?)(?:\s*eth)?(?=\s|$)/i.exec(rest)?.[1];
+  let value = 0n;
+  try {
+    if (ether) value = parseEther(ether);
+  } catch {
+    return null;
+  }
+
+  return {
+    to: to.toLowerCase(),
+    data: data.toLowerCase(),
+    value: value.toString(),
+    ...(from ? { from: from.toLowerCase() } : {}),
+  };
+}
+
+/**
+ * Validate a POST /precheck body: { to, data?, value? (wei, decimal
+ * string), from? }. Returns null when any field is malformed.
+ */
+export function parsePrecheckRequest(body: unknown): PrecheckInput | null {
+  const { to, data = '0x', value = '0', from } = (body ?? {}) as Record<string, unknown>;
+  if (typeof to !== 'string' || !isAddress(to, { strict: false })) return null;
+  if (typeof data !== 'string' || !/^0x(?:[0-9a-fA-F]{2})*$/.test(data)) return null;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  if (from !== undefined && (typeof from !== 'string' || !isAddress(from, { strict: false }))) return null;
+
+  return {
+    to: to.toLowerCase(),
+    data: data.toLowerCase(),
+    value: BigInt(value).toString(),
+    ...(from ? { from: from.toLowerCase() } : {}),
+  };
+}
+
+/**
+ * Pre-check an unsigned transaction. Never throws — lookups that fail
+ * lower the confidence instead.
+ */
+export async function precheckTransaction(input: PrecheckInput): Promise<PrecheckReport> {
+  return withFixtureBundle(precheckBundleName(input), () => checkTransaction(input));
+}
+
+/**
+ * Fixture bundle name for a pre-check: the target plus a short hash of
+ * the calldata, value and signer, so each distinct transaction gets its
+ * own recording.
+ */
+export function precheckBundleName(input: PrecheckInput): string {
+  const fingerprint = keccak256(toHex(JSON.stringify([input.data, input.value, input.from ?? null])));
+  return `precheck-${input.to}-${fingerprint.slice(2, 10)}`;
+}
+
+async function checkTransaction(input: PrecheckInput): Promise<PrecheckReport> {
+  const startTime = Date.now();
+  const to = input.to.toLowerCase();
+  const data = (input.data || '0x').toLowerCase() as Hex;
+  const value = BigInt(input.value || '0');
+
+  const targetSource = data === '0x' ? null : await basescan.getContractSource(to);
+  const decoded = decodeCall(to, data, value, targetSource?.abi ?? null);
+
+  const [parties, simulation] = await Promise.all([
+    checkParties(decoded),
+    withFallback((client) => simulateTransaction(client, { ...input, to, data })).catch(
+      (error): PrecheckSimulation => {
+        console.error(`[Precheck] Simulation failed for ${to}:`, error);
+        return unavailableSimulation(input.from);
+      },
+    ),
+  ]);
+
+  const signals = [
+    scoreTarget(decoded, parties[0]!, targetSource?.verified ?? null),
+    scorePermissions(decoded, parties),
+    scoreSimulation(decoded, simulation),
+    scoreDecoding(decoded),
+  ];
+  // Thresholds and the scam boost follow the wallet scoring model
+  const model = getScoringModel(to);
+  const flagCount = parties.reduce((n, p) => n + p.scamFlags.length, 0);
+  const weighted = Math.round(
+    signals.reduce((sum, s) => sum + s.score * s.weight, 0) + scamBoostFor(flagCount, model),
+  );
+  // One flagged party is enough to refuse a signature, whatever the other signals say
+  const floor = signals.some((s) => s.score >= 100) ? CRITICAL_SCORE_FLOOR : 0;
+  const riskScore = Math.max(floor, Math.min(100, weighted));
+  const riskLevel = riskLevelFor(riskScore, model);
+
+  return {
+    transaction: { to, data, value: value.toString(), ...(input.from ? { from: input.from.toLowerCase() } : {}) },
+    chain: 'Base',
+    riskLevel,
+    riskScore,
+    modelVersion: model.version,
+    confidence: precheckConfidence(decoded, simulation),
+    signals,
+    summary: summarizePrecheck(decoded, parties[0]!, riskLevel, riskScore),
+    decoded,
+    parties,
+    simulation,
+    keyFindings: precheckFindings(signals, parties, simulation),
+    recommendations: precheckRecommendations(riskLevel, signals),
+    disclaimer: config.disclaimer,
+    analyzedAt: new Date().toISOString(),
+    responseTimeMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Decode calldata: well-known selectors first, then the target's
+ * verified ABI. Multicalls are decoded recursively.
+ */
+export function decodeCall(
+  target: string,
+  data: Hex,
+  value: bigint,
+  abi: unknown[] | null,
+  depth = 0,
+): DecodedCall {
+  if (data === '0x') {
+    return {
+      target,
+      selector: null,
+      signature: null,
+      source: null,
+      action: value > 0n ? 'nativeTransfer' : 'unknown',
+      args: [],
+      ...(value > 0n ? { recipient: target, amount: value.toString() } : {}),
+    };
+  }
+
+  const selector = data.slice(0, 10);
+  const known = KNOWN_BY_SELECTOR.get(selector);
+  if (known) {
+    try {
+      const { args } = decodeFunctionData({ abi: [known], data });
+      return describeKnownCall(target, selector, known, [...(args ?? [])], depth);
+    } catch {
+      // selector collision with malformed arguments — try the ABI
+    }
+  }
+
+  if (abi) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: abi as Abi, data });
+      const item = (abi as AbiFunction[]).find(
+        (entry) => entry.type === 'function' && entry.name === functionName && toFunctionSelector(entry) === selector,
+      );
+      return {
+        target,
+        selector,
+        signature: item ? toFunctionSignature(item) : functionName,
+        source: 'abi',
+        action: 'contractCall',
+        args: [...(args ?? [])].map(stringifyArg),
+      };
+    } catch {
+      // not in the verified ABI either
+    }
+  }
+
+  return { target, selector, signature: null, source: null, action: 'unknown', args: [] };
+}
+
+function describeKnownCall(
+  target: string,
+  selector: string,
+  item: AbiFunction,
+  args: unknown[],
+  depth: number,
+): DecodedCall {
+  const call: DecodedCall = {
+    target,
+    selector,
+    signature: toFunctionSignature(item),
+    source: 'known',
+    action: 'contractCall',
+    args: args.map(stringifyArg),
+  };
+  const address = (i: number) => String(args[i]).toLowerCase();
+  const amount = (i: number) => BigInt(args[i] as bigint);
+
+  switch (call.signature) {
+    case 'approve(address,uint256)':
+    case 'increaseAllowance(address,uint256)': {
+      const value = amount(1);
+      const revoke = value === 0n && item.name === 'approve';
+      return {
+        ...call,
+        action: revoke ? 'revoke' : 'approval',
+        spender: address(0),
+        amount: value.toString(),
+        unlimited: isUnlimitedAmount(value),
+      };
+    }
+    case 'approve(address,address,uint160,uint48)': {
+      const value = amount(2);
+      return {
+        ...call,
+        action: value === 0n ? 'revoke' : 'approval',
+        spender: address(1),
+        amount: value.toString(),
+        unlimited: isUnlimitedAmount(value),
+      };
+    }
+    case 'setApprovalForAll(address,bool)':
+      return { ...call, action: args[1] ? 'operator' : 'revoke', spender: address(0), unlimited: args[1] === true };
+    case 'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)': {
+      const value = amount(2);
+      return { ...call, action: 'permit', spender: address(1), amount: value.toString(), unlimited: isUnlimitedAmount(value) };
+    }
+    case 'transfer(address,uint256)':
+      return { ...call, action: 'transfer', recipient: address(0), amount: amount(1).toString() };
+    case 'transferFrom(address,address,uint256)':
+    case 'safeTransferFrom(address,address,uint256)':
+    case 'safeTransferFrom(address,address,uint256,bytes)':
+      return { ...call, action: 'transfer', recipient: address(1), amount: amount(2).toString() };
+    case 'safeTransferFrom(address,address,uint256,uint256,bytes)':
+      return { ...call, action: 'transfer', recipient: address(1), amount: amount(3).toString() };
+    case 'multicall(bytes[])':
+    case 'multicall(uint256,bytes[])': {
+      const inner = args[args.length - 1] as Hex[];
+      return {
+        ...call,
+        action: 'multicall',
+        calls: depth < MAX_DECODE_DEPTH ? inner.map((d) => decodeCall(target, d, 0n, null, depth + 1)) : [],
+      };
+    }
+    case 'aggregate((address,bytes)[])':
+    case 'aggregate3((address,bool,bytes)[])': {
+      const inner = args[0] as Array<{ target: string; callData: Hex }>;
+      return {
+        ...call,
+        action: 'multicall',
+        calls:
+          depth < MAX_DECODE_DEPTH
+            ? inner.map((c) => decodeCall(c.target.toLowerCase(), c.callData, 0n, null, depth + 1))
+            : [],
+      };
+    }
+    default:
+      return call;
+  }
+}
+
+/** Every call in a decoded tree, outermost first */
+export function flattenCalls(call: DecodedCall): DecodedCall[] {
+  return [call, ...(call.calls ?? []).flatMap(flattenCalls)];
+}
+
+/**
+ * Target first, then embedded spenders / operators / recipients — each
+ * checked against the scam DB and labels; contracts among the target
+ * and spenders get a full contract analysis.
+ */
+async function checkParties(decoded: DecodedCall): Promise<PrecheckParty[]> {
+  const roles = new Map<string, PrecheckParty['role']>([[decoded.target, 'target']]);
+  for (const call of flattenCalls(decoded)) {
+    if (call.target !== decoded.target && !roles.has(call.target)) roles.set(call.target, 'target');
+    if (call.spender && !roles.has(call.spender)) {
+      roles.set(call.spender, call.action === 'operator' ? 'operator' : 'spender');
+    }
+    if (call.recipient && !roles.has(call.recipient)) roles.set(call.recipient, 'recipient');
+  }
+  roles.delete(zeroAddress);
+
+  let analyses = 0;
+  const parties: PrecheckParty[] = [];
+  for (const [address, role] of roles) {
+    const [scamFlags, isContract] = await Promise.all([
+      scamDb.checkAddress(address),
+      isContractViaRpc(address as Hex).catch(() => null),
+    ]);
+
+    let contract: ContractAnalysis | null = null;
+    if (isContract && role !== 'recipient' && analyses < config.precheckMaxContracts) {
+      analyses++;
+      contract = await analyzeContract(address);
+    }
+
+    parties.push({ address, role, label: getContractLabel(address) ?? null, scamFlags, isContract, contract });
+  }
+  return parties;
+}
+
+/**
+ * Simulate the transaction for the signer's balance changes. Uses
+ * eth_simulateV1 with traceTransfers; falls back to a plain eth_call
+ * (success / revert only) when the node does not support it.
+ */
+export async function simulateTransaction(
+  client: PrecheckClient,
+  input: PrecheckInput,
+): Promise<PrecheckSimulation> {
+  const from = (input.from?.toLowerCase() ?? PLACEHOLDER_SIGNER) as Hex;
+  const value = BigInt(input.value || '0');
+  const call = { account: from, to: input.to as Hex, data: input.data as Hex, value };
+  // A placeholder signer needs enough ETH to cover the value and gas
+  const stateOverrides = input.from ? [] : [{ address: from, balance: value + parseEther('1') }];
+  const base = { from, signerKnown: !!input.from };
+
+  try {
+    const [block] = await client.simulateBlocks({
+      blocks: [{ calls: [call], stateOverrides }],
+      traceTransfers: true,
+    });
+    const result = block?.calls[0];
+    if (!result) throw new Error('empty simulation result');
+
+    if (result.status !== 'success') {
+      return { ...base, status: 'reverted', revertReason: revertReason(result.error), gasUsed: result.gasUsed.toString(), balanceChanges: [] };
+    }
+    return {
+      ...base,
+      status: 'success',
+      revertReason: null,
+      gasUsed: result.gasUsed.toString(),
+      balanceChanges: await withTokenInfo(client, balanceChanges(from, result.logs ?? [])),
+    };
+  } catch (error) {
+    console.warn('[Precheck] eth_simulateV1 unavailable, falling back to eth_call:', error instanceof Error ? error.message : error);
+  }
+
+  try {
+    await client.call({ ...call, ...(input.from ? {} : { stateOverride: stateOverrides }) });
+    return { ...base, status: 'success', revertReason: null, gasUsed: null, balanceChanges: [] };
+  } catch (error) {
+    return { ...base, status: 'reverted', revertReason: revertReason(error), gasUsed: null, balanceChanges: [] };
+  }
+}
+
+/** Net movement of one asset in base units, before symbol and decimals are known */
+interface RawBalanceChange {
+  asset: string; // token address, or "ETH"
+  delta: bigint;
+  nft: boolean; // ERC-721: counted in items, no decimals
+}
+
+/** Net Transfer-log movements into and out of the signer */
+function balanceChanges(
+  signer: string,
+  logs: ReadonlyArray<{ address: string; topics: readonly (string | null)[]; data: string }>,
+): RawBalanceChange[] {
+  const deltas = new Map<string, RawBalanceChange>();
+  for (const log of logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3) continue;
+    const from = `0x${log.topics[1]!.slice(-40)}`.toLowerCase();
+    const to = `0x${log.topics[2]!.slice(-40)}`.toLowerCase();
+    if (from !== signer && to !== signer) continue;
+
+    // ERC-721 transfers index the token ID and move one item
+    const amount = log.topics.length === 4 ? 1n : log.data === '0x' ? 0n : BigInt(log.data);
+    const asset = log.address.toLowerCase() === NATIVE_TRANSFER_ADDRESS ? 'ETH' : log.address.toLowerCase();
+    const delta = (to === signer ? amount : 0n) - (from === signer ? amount : 0n);
+    const change = deltas.get(asset) ?? { asset, delta: 0n, nft: log.topics.length === 4 };
+    deltas.set(asset, { ...change, delta: change.delta + delta });
+  }
+  return [...deltas.values()].filter((c) => c.delta !== 0n);
+}
+
+/**
+ * Read each token's symbol and decimals in one multicall and turn the
+ * deltas into human-readable amounts. NFTs count items; a token whose
+ * decimals can't be read keeps its base-unit amount.
+ */
+async function withTokenInfo(client: PrecheckClient, changes: RawBalanceChange[]): Promise<BalanceChange[]> {
+  const tokens = changes.filter((c) => c.asset !== 'ETH');
+  let results: Awaited<ReturnType<typeof readTokenInfo>> = [];
+  try {
+    results = tokens.length > 0 ? await readTokenInfo(client, tokens) : [];
+  } catch {
+    // no symbols or decimals: fall back to addresses and base units
+  }
+
+  return changes.map((c) => {
+    if (c.asset === 'ETH') return { asset: c.asset, symbol: 'ETH', delta: formatEther(c.delta) };
+    const i = tokens.indexOf(c);
+    const symbol = results[2 * i];
+    const decimals = results[2 * i + 1];
+    return {
+      asset: c.asset,
+      symbol: symbol?.status === 'success' ? String(symbol.result) : null,
+      delta: formatUnits(c.delta, !c.nft && decimals?.status === 'success' ? Number(decimals.result) : 0),
+    };
+  });
+}
+
+function readTokenInfo(client: PrecheckClient, tokens: RawBalanceChange[]) {
+  return client.multicall({
+    contracts: tokens.flatMap((c) => [
+      { address: c.asset as Hex, abi: TOKEN_INFO_ABI, functionName: 'symbol' as const },
+      { address: c.asset as Hex, abi: TOKEN_INFO_ABI, functionName: 'decimals' as const },
+    ]),
+    allowFailure: true,
+  });
+}
+
+function unavailableSimulation(from: string | undefined): PrecheckSimulation {
+  return {
+    status: 'unavailable',
+    from: from?.toLowerCase() ?? PLACEHOLDER_SIGNER,
+    signerKnown: !!from,
+    revertReason: null,
+    gasUsed: null,
+    balanceChanges: [],
+  };
+}
+
+function revertReason(error: unknown): string {
+  const e = error as { shortMessage?: string; message?: string } | undefined;
+  const reason = e?.shortMessage ?? e?.message ?? 'execution reverted';
+  return reason.split('\n')[0]!.slice(0, 200);
+}
+
+// ── Signals ────────────────────────────────────────────────
+// Weights: target 25%, permissions 35%, simulation 25%, decoding 15%
+
+function scoreTarget(decoded: DecodedCall, target: PrecheckParty, verified: boolean | null): RiskSignal {
+  const weight = 0.25;
+  const name = 'Target';
+  const who = target.label ?? shortenAddress(target.address);
+
+  if (target.scamFlags.length > 0) {
+    return {
+      name,
+      weight,
+      score: 100,
+      description: `Target ${who} is flagged: ${target.scamFlags[0]!.category}.`,
+      evidence: target.scamFlags.map((f) => `[${f.source}] ${f.category}: ${f.description}`),
+    };
+  }
+  if (target.label) {
+    return { name, weight, score: 5, description: `Target is a known contract: ${target.label}.` };
+  }
+  if (decoded.action === 'nativeTransfer') {
+    return { name, weight, score: 15, description: `Plain ETH transfer to ${who}.` };
+  }
+  if (target.isContract === false) {
+    return { name, weight, score: 60, description: `Calldata sent to ${who}, which has no contract code.` };
+  }
+  if (verified === false) {
+    return { name, weight, score: 50, description: `Target contract ${who} is not verified.` };
+  }
+
+  const capabilities = target.contract?.capabilities.filter((c) => c !== 'ownership') ?? [];
+  if (capabilities.length > 0) {
+    return {
+      name,
+      weight,
+      score: 25,
+      description: `Verified target ${who}; owner can ${capabilities.join(', ')}.`,
+    };
+  }
+  return { name, weight, score: 15, description: `Target ${who} is a verified contract.` };
+}
+
+function scorePermissions(decoded: DecodedCall, parties: PrecheckParty[]): RiskSignal {
+  const weight = 0.35;
+  const name = 'Permissions Granted';
+  const grants = flattenCalls(decoded).filter(
+    (c) => (c.action === 'approval' || c.action === 'operator' || c.action === 'permit') && c.spender,
+  );
+
+  if (grants.length === 0) {
+    return { name, weight, score: 0, description: 'Does not grant any token permissions.' };
+  }
+
+  const assessed = grants.map((call) => {
+    const party = parties.find((p) => p.address === call.spender);
+    const kind: ApprovalKind =
+      call.action === 'operator' ? 'operator' : call.signature?.startsWith('approve(address,address') ? 'permit2' : 'erc20';
+    // EOAs have no source to verify — treat them like unverified contracts
+    const verified = party?.isContract === false ? false : party?.contract?.verified ?? null;
+    const { riskScore, reasons } = assessRisk(
+      kind,
+      call.unlimited ?? false,
+      party?.label ?? null,
+      party?.scamFlags[0]?.category ?? null,
+      verified,
+    );
+    return { call, riskScore, reason: reasons[0]! };
+  });
+  const worst = assessed.reduce((a, b) => (b.riskScore > a.riskScore ? b : a));
+
+  return {
+    name,
+    weight,
+    score: worst.riskScore,
+    description: `Grants ${grants.length} token permission(s); riskiest: ${worst.reason}.`,
+    evidence: assessed.map(
+      ({ call, reason }) =>
+        `${call.signature} on ${shortenAddress(call.target)} → ${shortenAddress(call.spender!)}: ${reason}`,
+    ),
+  };
+}
+
+function scoreSimulation(decoded: DecodedCall, simulation: PrecheckSimulation): RiskSignal {
+  const weight = 0.25;
+  const name = 'Simulation';
+  const evidence = simulation.balanceChanges.map(
+    (c) => `${c.delta.startsWith('-') ? '' : '+'}${c.delta} ${c.symbol ?? shortenAddress(c.asset)}`,
+  );
+  const withEvidence = (score: number, description: string): RiskSignal => ({
+    name,
+    weight,
+    score,
+    description,
+    ...(evidence.length > 0 ? { evidence } : {}),
+  });
+
+  if (simulation.status === 'unavailable') {
+    return withEvidence(30, 'Could not simulate the transaction.');
+  }
+  if (simulation.status === 'reverted') {
+    return withEvidence(
+      simulation.signerKnown ? 60 : 30,
+      `Transaction would revert${simulation.revertReason ? `: ${simulation.revertReason}` : ''}.`,
+    );
+  }
+
+  const out = simulation.balanceChanges.filter((c) => c.delta.startsWith('-'));
+  const received = simulation.balanceChanges.filter((c) => !c.delta.startsWith('-'));
+  const intendedTransfer = flattenCalls(decoded).some((c) => c.action === 'transfer' || c.action === 'nativeTransfer');
+
+  if (out.length > 0 && received.length === 0 && !intendedTransfer) {
+    return withEvidence(70, `Assets leave the wallet with nothing received (${out.length} asset(s)).`);
+  }
+  if (out.length > 0 || received.length > 0) {
+    return withEvidence(10, `Simulated successfully: ${out.length} asset(s) out, ${received.length} in.`);
+  }
+  return withEvidence(5, 'Simulated successfully with no balance changes.');
+}
+
+function scoreDecoding(decoded: DecodedCall): RiskSignal {
+  const weight = 0.15;
+  const name = 'Call Decoding';
+  const unknown = flattenCalls(decoded).filter((c) => c.action === 'unknown' && c.selector);
+
+  if (unknown.length > 0) {
+    return {
+      name,
+      weight,
+      score: 60,
+      description: `${unknown.length} call(s) could not be decoded — unknown selector and no verified ABI.`,
+      evidence: unknown.map((c) => `${c.selector} on ${shortenAddress(c.target)}`),
+    };
+  }
+  if (decoded.source === 'abi') {
+    return { name, weight, score: 15, description: `Decoded from the verified ABI: ${decoded.signature}.` };
+  }
+  if (decoded.action === 'nativeTransfer') {
+    return { name, weight, score: 5, description: 'Plain ETH transfer — no calldata.' };
+  }
+  return { name, weight, score: 5, description: `Recognized call: ${decoded.signature ?? 'none'}.` };
+}
+
+function precheckConfidence(decoded: DecodedCall, simulation: PrecheckSimulation): number {
+  let confidence = 100;
+  if (simulation.status === 'unavailable') confidence -= 30;
+  if (!simulation.signerKnown) confidence -= 10;
+  if (flattenCalls(decoded).some((c) => c.action === 'unknown' && c.selector)) confidence -= 20;
+  return Math.max(10, confidence);
+}
+
+function summarizePrecheck(
+  decoded: DecodedCall,
+  target: PrecheckParty,
+  level: RiskLevel,
+  score: number,
+): string {
+  const who = target.label ?? shortenAddress(target.address);
+  const what =
+    decoded.action === 'nativeTransfer'
+      ? `sends ETH to ${who}`
+      : decoded.signature
+        ? `calls ${decoded.signature} on ${who}`
+        : `calls an unrecognized function (${decoded.selector}) on ${who}`;
+  const verdict =
+    level === 'LOW'
+      ? 'No significant red flags detected.'
+      : level === 'MEDIUM'
+        ? 'Some indicators warrant caution before signing.'
+        : 'Multiple red flags — do not sign without independent verification.';
+  return `This transaction ${what} (${level} risk, ${score}/100). ${verdict}`;
+}
+
+function precheckFindings(
+  signals: RiskSignal[],
+  parties: PrecheckParty[],
+  simulation: PrecheckSimulation,
+): string[] {
+  const findings: string[] = [];
+  for (const signal of [...signals].sort((a, b) => b.score * b.weight - a.score * a.weight)) {
+    if (signal.score > 30) findings.push(signal.description);
+  }
+  for (const party of parties) {
+    for (const flag of party.scamFlags) {
+      findings.push(`[${flag.source}] ${party.role} ${shortenAddress(party.address)}: ${flag.category}`);
+    }
+  }
+  for (const change of simulation.balanceChanges) {
+    findings.push(`Balance change: ${change.delta} ${change.symbol ?? shortenAddress(change.asset)}`);
+  }
+  return [...new Set(findings)].slice(0, 6);
+}
+
+function precheckRecommendations(level: RiskLevel, signals: RiskSignal[]): string[] {
+  const recs: string[] = [];
+  for (const signal of signals) {
+    if (signal.score <= 30) continue;
+    switch (signal.name) {
+      case 'Target':
+        recs.push('Confirm the contract address with the project through an official channel.');
+        break;
+      case 'Permissions Granted':
+        recs.push('Grant only the allowance you need, to a spender you can identify — never unlimited to unknown contracts.');
+        break;
+      case 'Simulation':
+        recs.push('Check the simulated balance changes match what you expect before signing.');
+        break;
+      case 'Call Decoding':
+        recs.push('The calldata could not be decoded — do not sign transactions you cannot read.');
+        break;
+    }
+  }
+  if (recs.length === 0) recs.push('No significant red flags detected.');
+  if (level === 'HIGH') recs.push('Do NOT sign this transaction without thorough verification.');
+  return [...new Set(recs)];
+}
+
+function stringifyArg(arg: unknown): string {
+  if (typeof arg === 'bigint') return arg.toString();
+  if (typeof arg === 'string') return isAddress(arg) ? arg.toLowerCase() : arg;
+  return JSON.stringify(arg, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
@@ -1,42 +1,75 @@
 // ============================================================
-// Tell-Tale Bot — Report Generator (GPT-4o + Template)
+// Tell-Tale Bot — Report Generator (LLM + Template)
 // ============================================================
 // Generates human-readable reports using:
 // 1. Template-based structure (prevents hallucination)
-// 2. GPT-4o for natural language summary (grounded in data)
+// 2. A SummaryProvider (GPT-4o by default) for the natural
+//    language summary (grounded in data)
 // 3. Post-generation validation
 // ============================================================
 
-import OpenAI from 'openai';
+import { formatUnits } from 'viem';
 import { config } from '../config.js';
 import {
   WalletData,
   WalletReport,
   RiskLevel,
   RiskSignal,
+  RiskAssessment,
   TopInteraction,
+  AiSummary,
+  SummaryValidation,
+  ContractAnalysis,
+  HoldingsSnapshot,
+  TokenHolding,
+  ApprovalSnapshot,
+  TokenApproval,
+  PrecheckReport,
+  DecodedCall,
+  DrainAnalysis,
+  ReportCategory,
+  WalletComparison,
+  RelationshipStrength,
+  BatchResult,
+  BatchSummary,
   RISK_EMOJI,
 } from '../types/index.js';
 import { shortenAddress } from '../utils/address.js';
 import { getContractLabel } from '../data/knownContracts.js';
-
-const openai = new OpenAI({ apiKey: config.openaiApiKey });
+import { parseAiSummary, AI_SUMMARY_SCHEMA_DESCRIPTION } from './summarySchema.js';
+import { validateAiSummary } from './outputValidator.js';
+import { describeApproval } from './approvals.js';
+import { rankCounterparties } from './counterparties.js';
+import {
+  SummaryProvider,
+  SummaryContext,
+  getSummaryProvider,
+  generateFallbackSummary,
+} from './summaryProvider.js';
 
 /**
  * Generate a full wallet analysis report.
+ * @param provider - Summary backend; defaults to the one selected by config
  */
 export async function generateReport(
   data: WalletData,
-  riskScore: number,
-  riskLevel: RiskLevel,
-  signals: RiskSignal[],
+  assessment: RiskAssessment,
   startTime: number,
+  provider: SummaryProvider = getSummaryProvider(),
 ): Promise<WalletReport> {
+  const { score: riskScore, level: riskLevel, signals, modelVersion } = assessment;
   const topInteractions = computeTopInteractions(data);
   const keyFindings = extractKeyFindings(data, signals);
 
   // Generate AI summary (grounded in verified data only)
-  const summary = await generateAiSummary(data, riskScore, riskLevel, signals, keyFindings);
+  const { summary, analysis, validation } = await generateAiSummary(provider, {
+    data,
+    riskScore,
+    riskLevel,
+    signals,
+    keyFindings,
+    topInteractions,
+  });
 
   // Generate recommendations
   const recommendations = generateRecommendations(riskLevel, signals);
@@ -44,16 +77,27 @@ export async function generateReport(
   // Calculate confidence based on data completeness
   const confidence = calculateConfidence(data);
 
+  const name = data.primaryNames?.[data.address.toLowerCase()];
+
   const report: WalletReport = {
     address: data.address,
+    ...(name ? { name } : {}),
     chain: 'Base',
     riskLevel,
     riskScore,
+    modelVersion,
     confidence,
     signals,
     summary,
+    ...(analysis ? { analysis } : {}),
+    ...(validation ? { validation } : {}),
     keyFindings,
     topInteractions,
+    ...(data.graph ? { graph: data.graph } : {}),
+    ...(data.contractAnalysis ? { contract: data.contractAnalysis } : {}),
+    ...(data.holdings ? { holdings: data.holdings } : {}),
+    ...(data.approvals ? { approvals: data.approvals } : {}),
+    ...(data.drains ? { drains: data.drains } : {}),
     recommendations,
     disclaimer: config.disclaimer,
     analyzedAt: new Date().toISOString(),
@@ -69,12 +113,15 @@ export async function generateReport(
  */
 export function formatForCast(report: WalletReport): string {
   const emoji = RISK_EMOJI[report.riskLevel];
-  const addr = shortenAddress(report.address);
+  const addr = displayAddress(report);
 
   // Build the cast, keeping within byte limit
-  let cast = `🔍 Tell-Tale Bot — Wallet Report\n\n`;
+  let cast = `🔍 Tell-Tale Bot — ${reportKind(report)} Report\n\n`;
   cast += `📍 ${addr} | Base\n`;
-  cast += `${emoji} ${report.riskLevel} RISK (${report.riskScore}/100)\n\n`;
+  cast += `${emoji} ${report.riskLevel} RISK (${report.riskScore}/100)\n`;
+  if (report.holdings) cast += `${summarizeHoldings(report.holdings)}\n`;
+  if (report.drains) cast += `${describeDrainRole(report.drains)}\n`;
+  cast += '\n';
 
   // Summary (truncate if needed)
   const maxSummaryLen = 300;
@@ -97,7 +144,7 @@ export function formatForCast(report: WalletReport): string {
   if (report.topInteractions.length > 0) {
     const interactions = report.topInteractions
       .slice(0, 2)
-      .map((i) => `↔ ${i.label || shortenAddress(i.address)} (${i.txCount} txs)`)
+      .map((i) => `↔ ${interactionName(i)} (${i.txCount} txs)`)
       .join('\n');
     cast += `${interactions}\n\n`;
   }
@@ -115,130 +162,719 @@ export function formatForCast(report: WalletReport): string {
 }
 
 /**
- * Use GPT-4o to generate a natural language summary.
+ * Format a WalletReport into an ordered thread of casts:
+ * verdict, findings, interactions, signals (with evidence),
+ * recommendations, disclaimer. Every cast fits within
+ * config.maxReportLength — sections too long for one cast continue
+ * in the next instead of being truncated.
+ */
+export function formatThreadForCast(report: WalletReport): string[] {
+  const sections = reportSections(report);
+  return renderThread([
+    headerSection(report),
+    ...REPORT_CATEGORIES.flatMap((category) => sections[category] ?? []),
+    { title: report.disclaimer, blocks: [] },
+  ]);
+}
+
+/** Sections a user can ask for on their own ("report <category>"), in thread order */
+export const REPORT_CATEGORIES: ReportCategory[] = [
+  'contract',
+  'holdings',
+  'findings',
+  'interactions',
+  'signals',
+  'recommendations',
+];
+
+const SECTION_TITLES: Record<ReportCategory, string> = {
+  contract: '🧾 Contract Profile',
+  holdings: '💰 Holdings',
+  findings: '📋 Key Findings',
+  interactions: '↔ Top Interactions',
+  signals: '📊 Risk Signals',
+  recommendations: '✅ Recommendations',
+};
+
+/**
+ * Format one section of a report as a thread under the usual header.
+ * Sections the report doesn't have say so instead of being dropped.
+ */
+export function formatReportSection(report: WalletReport, category: ReportCategory): string[] {
+  const section = reportSections(report)[category] ?? {
+    title: SECTION_TITLES[category],
+    blocks: [['Nothing to report for this address.']],
+  };
+  return renderThread([headerSection(report), section, { title: report.disclaimer, blocks: [] }]);
+}
+
+/**
+ * Format how the score was reached: each signal's score × weight,
+ * biggest contribution first, then any scam-flag boost or floor.
+ */
+export function formatScoreBreakdown(report: WalletReport): string[] {
+  const contributions = report.signals
+    .map((s) => ({ signal: s, points: s.score * s.weight }))
+    .sort((a, b) => b.points - a.points);
+  const weighted = contributions.reduce((sum, c) => sum + c.points, 0);
+  const adjustment = report.riskScore - Math.round(weighted);
+
+  return renderThread([
+    headerSection(report),
+    {
+      title: '🧮 Score Breakdown',
+      blocks: [
+        ...contributions.map(({ signal, points }) => [
+          `• ${signal.name}: ${signal.score}/100 × ${Math.round(signal.weight * 100)}% = ${points.toFixed(1)}`,
+        ]),
+        [
+          `Weighted total: ${weighted.toFixed(1)}`,
+          ...(adjustment !== 0 ? [`Scam-flag boost / floor: ${adjustment > 0 ? '+' : ''}${adjustment}`] : []),
+          `Score: ${report.riskScore}/100 (model ${report.modelVersion})`,
+        ],
+      ],
+    },
+    { title: report.disclaimer, blocks: [] },
+  ]);
+}
+
+/** Hedged wording for each relationship strength */
+const RELATIONSHIP_WORDING: Record<RelationshipStrength, string> = {
+  strong: '🔴 Strong links — patterns consistent with common control',
+  moderate: '🟠 Some links — the addresses appear connected',
+  weak: '🟡 Weak links only — possibly coincidental',
+  none: '⚪ No links found in the fetched history',
+};
+
+/**
+ * Format a comparison: both verdicts and the relationship verdict,
+ * the links behind it, then every signal's score for both addresses.
+ */
+export function formatComparisonThread(comparison: WalletComparison): string[] {
+  const { a, b, relationship } = comparison;
+  const side = (address: string) => (address === a.address.toLowerCase() ? 'A' : 'B');
+  const verdict = (letter: string, report: WalletReport) =>
+    `${letter}: ${RISK_EMOJI[report.riskLevel]} ${displayAddress(report)} — ${report.riskLevel} RISK (${report.riskScore}/100) · ${reportKind(report)}`;
+  const names = [...new Set([...a.signals, ...b.signals].map((s) => s.name))];
+  const score = (report: WalletReport, name: string) => {
+    const signal = report.signals.find((s) => s.name === name);
+    return signal ? String(signal.score) : '–';
+  };
+
+  const sections: ThreadSection[] = [
+    {
+      title: '⚖️ Tell-Tale Bot — Comparison',
+      blocks: [
+        [
+          verdict('A', a),
+          verdict('B', b),
+          '',
+          `${RELATIONSHIP_WORDING[relationship.strength]} (${relationship.score}/100)`,
+        ],
+      ],
+    },
+    { title: '🔗 Links', blocks: relationship.reasons.map((r) => [`• ${r}`]) },
+  ];
+  if (relationship.directTransfers.length > 0) {
+    const more = relationship.directTransferCount - relationship.directTransfers.length;
+    sections.push({
+      title: '↔ Direct Transfers',
+      blocks: [
+        ...relationship.directTransfers.map((t) => [
+          `• ${side(t.from)} → ${side(t.to)}: ${formatAmount(t.amount)} ${t.asset} (${t.txHash.slice(0, 10)}…)`,
+        ]),
+        ...(more > 0 ? [[`…and ${more} more`]] : []),
+      ],
+    });
+  }
+  if (relationship.commonFunders.length > 0) {
+    sections.push({
+      title: '💸 Common Funders',
+      blocks: relationship.commonFunders.map((f) => [
+        `• ${f.attribution ? `${f.attribution.label} (${f.attribution.category})` : shortenAddress(f.address)}`,
+      ]),
+    });
+  }
+  if (relationship.sharedCounterparties.length > 0) {
+    sections.push({
+      title: '👥 Shared Counterparties',
+      blocks: relationship.sharedCounterparties.map((c) => [
+        `• ${interactionName(c)} (A: ${c.txCountA}, B: ${c.txCountB} txs)`,
+      ]),
+    });
+  }
+  sections.push(
+    {
+      title: '📊 Risk Signals (A vs B)',
+      blocks: names.map((name) => [`• ${name}: ${score(a, name)} vs ${score(b, name)}`]),
+    },
+    { title: a.disclaimer, blocks: [] },
+  );
+
+  return renderThread(sections);
+}
+
+/** Risk levels in batch totals, riskiest first */
+const RISK_LEVELS: RiskLevel[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Format a batch as a compact reply: the totals, then one line per
+ * address, riskiest first.
+ */
+export function formatBatchThread(summary: BatchSummary): string[] {
+  const unanalyzed = summary.invalid + summary.failed;
+  return renderThread([
+    {
+      title: '🔍 Tell-Tale Bot — Batch Verdicts',
+      blocks: [
+        [
+          `${summary.total} address(es): ${RISK_LEVELS.map((level) => `${RISK_EMOJI[level]} ${summary.byRiskLevel[level]} ${level}`).join(' · ')}`,
+          ...(unanalyzed > 0 ? [`❌ ${unanalyzed} not analyzed`] : []),
+          ...(summary.duplicates > 0 ? [`🔁 ${summary.duplicates} repeat(s) of an address already listed`] : []),
+        ],
+      ],
+    },
+    {
+      title: '📋 Verdicts',
+      blocks: summary.rows.map((row) => [
+        row.status === 'ok'
+          ? `${RISK_EMOJI[row.riskLevel!]} ${batchName(row)} — ${row.riskLevel} ${row.riskScore}/100${row.isContract ? ' (contract)' : ''}`
+          : `${row.status === 'duplicate' ? '🔁' : '❌'} ${row.address ? batchName(row) : row.input} — ${row.error}`,
+      ]),
+    },
+    { title: config.disclaimer, blocks: [] },
+  ]);
+}
+
+/**
+ * Format a batch as a plain-text table with full addresses, riskiest
+ * first — for screening lists outside Farcaster.
+ */
+export function formatBatchTable(summary: BatchSummary): string {
+  const header = ['#', 'Risk', 'Score', 'Address', 'Name / Note'];
+  const rows = summary.rows.map((row) => [
+    String(row.index + 1),
+    row.riskLevel ?? '–',
+    row.riskScore !== undefined ? String(row.riskScore) : '–',
+    row.address ?? row.input,
+    row.status === 'ok' ? `${row.name ?? ''}${row.isContract ? ' (contract)' : ''}`.trim() : row.error ?? '',
+  ]);
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map((r) => r[i]!.length)));
+  return [header, ...rows]
+    .map((cells) => cells.map((cell, i) => cell.padEnd(widths[i]!)).join('  ').trimEnd())
+    .join('\n');
+}
+
+function headerSection(report: WalletReport): ThreadSection {
+  return {
+    title: `🔍 Tell-Tale Bot — ${reportKind(report)} Report`,
+    blocks: [
+      [
+        `📍 ${displayAddress(report)} | Base`,
+        `${RISK_EMOJI[report.riskLevel]} ${report.riskLevel} RISK (${report.riskScore}/100) · ${report.confidence}% confidence`,
+        ...(report.analysis ? [report.analysis.verdictWording] : []),
+        ...(report.drains ? [describeDrainRole(report.drains)] : []),
+        '',
+        report.summary,
+      ],
+    ],
+  };
+}
+
+/** The report's optional sections, keyed by category; list sections are absent when empty */
+function reportSections(report: WalletReport): Partial<Record<ReportCategory, ThreadSection>> {
+  const sections: Partial<Record<ReportCategory, ThreadSection>> = {};
+  const add = (category: ReportCategory, blocks: string[][]) => {
+    if (blocks.length > 0) sections[category] = { title: SECTION_TITLES[category], blocks };
+  };
+
+  if (report.contract) sections.contract = { title: SECTION_TITLES.contract, blocks: describeContract(report.contract) };
+  if (report.holdings) sections.holdings = { title: SECTION_TITLES.holdings, blocks: describeHoldings(report.holdings) };
+  add('findings', report.keyFindings.map((f) => [`• ${f}`]));
+  add(
+    'interactions',
+    report.topInteractions.map((i) => [`• ${interactionName(i)} (${i.txCount} txs)`]),
+  );
+  add(
+    'signals',
+    report.signals.map((s) => [
+      `• ${s.name} (${s.score}/100): ${s.description}`,
+      ...(s.evidence ?? []).map((e) => `  ↳ ${e}`),
+      ...(report.analysis?.signalCommentary ?? [])
+        .filter((c) => c.signal === s.name)
+        .map((c) => `  💬 ${c.commentary}`),
+    ]),
+  );
+  add('recommendations', report.recommendations.map((r) => [`• ${r}`]));
+
+  return sections;
+}
+
+/** Approvals listed in a threaded audit (riskiest first) */
+const MAX_THREAD_APPROVALS = 8;
+
+/**
+ * Format an approvals audit as a thread: one block per live allowance,
+ * riskiest first, each with the exact revoke transaction (target and
+ * calldata) to send from the audited wallet.
+ */
+export function formatApprovalsThread(address: string, snapshot: ApprovalSnapshot): string[] {
+  const live = snapshot.approvals;
+  const high = live.filter((a) => a.risk === 'high').length;
+  const medium = live.filter((a) => a.risk === 'medium').length;
+  const sections: ThreadSection[] = [
+    {
+      title: '🔐 Tell-Tale Bot — Approvals Audit',
+      blocks: [
+        [
+          `📍 ${shortenAddress(address)} | Base`,
+          live.length > 0
+            ? `${live.length} live approval(s) · ${high} high risk · ${medium} medium risk`
+            : `No live approvals found${snapshot.revokedCount > 0 ? ` (${snapshot.revokedCount} revoked, spent or expired)` : ''}.`,
+          ...(snapshot.complete ? [] : ['⚠️ Partial scan — some approval logs could not be read.']),
+        ],
+      ],
+    },
+  ];
+
+  const shown = live.slice(0, MAX_THREAD_APPROVALS);
+  const toRevoke = shown.filter((a) => a.risk !== 'low');
+  const lowRisk = shown.filter((a) => a.risk === 'low');
+  const describe = (a: TokenApproval, i: number): string[] => [
+    `${i + 1}. ${RISK_EMOJI[a.risk.toUpperCase() as RiskLevel]} ${describeApproval(a)}`,
+    `  ↳ ${a.reasons.join('; ')}`,
+    `  ↳ Revoke: send to ${a.revoke.to}`,
+    `  ↳ data: ${a.revoke.data}`,
+  ];
+
+  if (toRevoke.length > 0) {
+    sections.push({ title: '🚨 Revoke First', blocks: toRevoke.map(describe) });
+  }
+  if (lowRisk.length > 0) {
+    sections.push({
+      title: '✅ Known Spenders',
+      blocks: lowRisk.map((a, i) => describe(a, toRevoke.length + i)),
+    });
+  }
+  if (live.length > shown.length) {
+    sections.push({ title: `…and ${live.length - shown.length} lower-ranked approval(s) not shown.`, blocks: [] });
+  }
+
+  sections.push({ title: config.disclaimer, blocks: [] });
+  return renderThread(sections);
+}
+
+/**
+ * Format a transaction pre-check as a thread: verdict, decoded call,
+ * parties involved, simulated balance changes, signals, recommendations.
+ */
+export function formatPrecheckThread(report: PrecheckReport): string[] {
+  const { transaction: tx, decoded, simulation } = report;
+  const sections: ThreadSection[] = [
+    {
+      title: '🧪 Tell-Tale Bot — Transaction Pre-Check',
+      blocks: [
+        [
+          `📍 to ${shortenAddress(tx.to)} | Base`,
+          `${RISK_EMOJI[report.riskLevel]} ${report.riskLevel} RISK (${report.riskScore}/100) · ${report.confidence}% confidence`,
+          '',
+          report.summary,
+        ],
+      ],
+    },
+  ];
+
+  sections.push({ title: '🔎 Decoded Call', blocks: describeDecodedCall(decoded, 0) });
+
+  if (report.parties.length > 0) {
+    sections.push({
+      title: '👥 Parties',
+      blocks: report.parties.map((p) => [
+        `• ${p.role}: ${p.label ?? shortenAddress(p.address)}${p.isContract === false ? ' (EOA)' : ''}`,
+        ...p.scamFlags.map((f) => `  ⚠️ [${f.source}] ${f.category}`),
+        ...(p.contract && !p.contract.verified ? ['  ↳ unverified contract'] : []),
+      ]),
+    });
+  }
+
+  const simLines =
+    simulation.status === 'success'
+      ? simulation.balanceChanges.length > 0
+        ? simulation.balanceChanges.map(
+            (c) => `• ${c.delta.startsWith('-') ? '' : '+'}${c.delta} ${c.symbol ?? shortenAddress(c.asset)}`,
+          )
+        : ['• Succeeds with no balance changes for the signer.']
+      : simulation.status === 'reverted'
+        ? [`• Reverts: ${simulation.revertReason ?? 'unknown reason'}`]
+        : ['• Simulation unavailable.'];
+  sections.push({
+    title: '🧮 Simulation',
+    blocks: [
+      [
+        ...simLines,
+        ...(simulation.signerKnown ? [] : ['  ↳ no signer given — simulated from a placeholder wallet']),
+      ],
+    ],
+  });
+
+  sections.push({
+    title: '📊 Risk Signals',
+    blocks: report.signals.map((s) => [
+      `• ${s.name} (${s.score}/100): ${s.description}`,
+      ...(s.evidence ?? []).map((e) => `  ↳ ${e}`),
+    ]),
+  });
+
+  if (report.recommendations.length > 0) {
+    sections.push({
+      title: '✅ Recommendations',
+      blocks: report.recommendations.map((r) => [`• ${r}`]),
+    });
+  }
+
+  sections.push({ title: report.disclaimer, blocks: [] });
+  return renderThread(sections);
+}
+
+/**
+ * Split sections into casts within config.maxReportLength and number them.
+ */
+function renderThread(sections: ThreadSection[]): string[] {
+  // Reserve room for the " (n/m)" thread counter on each cast
+  const counterReserve = byteLength(' (99/99)');
+  const casts = sections.flatMap((section) =>
+    splitSection(section, config.maxReportLength - counterReserve),
+  );
+
+  return casts.map((cast, i) => {
+    const newline = cast.indexOf('\n');
+    const counter = ` (${i + 1}/${casts.length})`;
+    return newline === -1
+      ? cast + counter
+      : cast.slice(0, newline) + counter + cast.slice(newline);
+  });
+}
+
+/** The report's primary name next to its short address, when it has one */
+function displayAddress(report: WalletReport): string {
+  const short = shortenAddress(report.address);
+  return report.name ? `${report.name} (${short})` : short;
+}
+
+/** A batch row's primary name next to its short address, when it has one */
+function batchName(row: BatchResult): string {
+  const short = shortenAddress(row.address!);
+  return row.name ? `${row.name} (${short})` : short;
+}
+
+/** Known-contract label first, then primary name, then short address */
+function interactionName(interaction: Pick<TopInteraction, 'address' | 'label' | 'name'>): string {
+  return interaction.label || interaction.name || shortenAddress(interaction.address);
+}
+
+function describeDrainRole(drains: DrainAnalysis): string {
+  return drains.role === 'sweeper'
+    ? `🚨 Role: drainer sweeper / collector (${drains.sources} wallet(s) swept)`
+    : '⚠️ Role: drain victim — assets were swept out';
+}
+
+function reportKind(report: WalletReport): 'Wallet' | 'Contract' {
+  return report.contract ? 'Contract' : 'Wallet';
+}
+
+/**
+ * Decoded call lines, one block per call; multicall members are
+ * numbered and indented under their parent.
+ */
+function describeDecodedCall(call: DecodedCall, depth: number): string[][] {
+  const indent = '  '.repeat(depth);
+  const head =
+    call.action === 'nativeTransfer'
+      ? `${indent}• send ${formatAmount(formatUnits(BigInt(call.amount ?? '0'), 18))} ETH`
+      : `${indent}• ${call.signature ?? `unknown selector ${call.selector}`}${call.source === 'abi' ? ' (verified ABI)' : ''}`;
+  const details = [
+    ...(call.spender ? [`${indent}  ↳ ${call.action === 'operator' ? 'operator' : 'spender'}: ${shortenAddress(call.spender)}`] : []),
+    ...(call.recipient && call.action !== 'nativeTransfer' ? [`${indent}  ↳ recipient: ${shortenAddress(call.recipient)}`] : []),
+    ...(call.unlimited ? [`${indent}  ↳ amount: unlimited`] : call.amount && call.action !== 'nativeTransfer' ? [`${indent}  ↳ amount: ${call.amount}`] : []),
+  ];
+  return [[head, ...details], ...(call.calls ?? []).flatMap((inner) => describeDecodedCall(inner, depth + 1))];
+}
+
+/**
+ * Contract profile lines: verification, proxy, owner, privileges, deployer.
+ */
+function describeContract(contract: ContractAnalysis): string[][] {
+  const owner = contract.ownershipRenounced
+    ? 'renounced'
+    : contract.owner
+      ? shortenAddress(contract.owner)
+      : 'none detected';
+  const proxy = contract.proxy
+    ? `${contract.proxy.kind.toUpperCase()} → ${
+        contract.proxy.implementation ? shortenAddress(contract.proxy.implementation) : 'unknown implementation'
+      }`
+    : 'no';
+
+  return [
+    [`• Verified: ${contract.verified ? `yes${contract.contractName ? ` (${contract.contractName})` : ''}` : 'no'}`],
+    [`• Proxy: ${proxy}`],
+    [`• Owner: ${owner}`],
+    [`• Privileges: ${contract.capabilities.length > 0 ? contract.capabilities.join(', ') : 'none detected'}`],
+    [`• Deployer: ${contract.deployer ? shortenAddress(contract.deployer) : 'unknown'}`],
+  ];
+}
+
+/**
+ * One-line holdings summary for the single-cast report.
+ */
+function summarizeHoldings(holdings: HoldingsSnapshot): string {
+  const legit = holdings.tokens.filter((t) => !t.spam).length;
+  const parts = [
+    `${formatAmount(holdings.ethBalance)} ETH`,
+    `${legit} token${legit === 1 ? '' : 's'}${holdings.totalValueUsd !== null ? ` (${formatUsd(holdings.totalValueUsd)})` : ''}`,
+    ...(holdings.nfts.length > 0 ? [`${holdings.nfts.length} NFT collection${holdings.nfts.length === 1 ? '' : 's'}`] : []),
+    ...(holdings.spamCount > 0 ? [`${holdings.spamCount} spam`] : []),
+  ];
+  return `💰 ${parts.join(' · ')}`;
+}
+
+/**
+ * Holdings lines: ETH, top tokens by value, NFT collections, spam.
+ */
+function describeHoldings(holdings: HoldingsSnapshot): string[][] {
+  const legit = holdings.tokens.filter((t) => !t.spam);
+  const spam = [...holdings.tokens, ...holdings.nfts].filter((t) => t.spam);
+  const nfts = holdings.nfts.filter((t) => !t.spam);
+
+  const blocks: string[][] = [[`• ETH: ${formatAmount(holdings.ethBalance)}`]];
+  if (legit.length > 0) {
+    blocks.push([
+      `• Tokens: ${legit.length}${holdings.totalValueUsd !== null ? ` worth ${formatUsd(holdings.totalValueUsd)}` : ''}`,
+      ...legit.slice(0, 5).map((t) => `  ↳ ${formatAmount(t.balance)} ${holdingName(t)}${t.valueUsd !== null ? ` (${formatUsd(t.valueUsd)})` : ''}`),
+    ]);
+  }
+  if (nfts.length > 0) {
+    blocks.push([
+      `• NFTs: ${nfts.length} collection(s)`,
+      ...nfts.slice(0, 5).map((t) => `  ↳ ${holdingName(t)} ×${t.balance} (${t.standard})`),
+    ]);
+  }
+  if (spam.length > 0) {
+    blocks.push([
+      `• Spam / unsolicited airdrops: ${spam.length}`,
+      // Addresses only — spam names are often the phishing link itself
+      ...spam.slice(0, 3).map((t) => `  ↳ ${shortenAddress(t.token)} — ${t.spamReasons.join(', ')}`),
+    ]);
+  }
+  if (!holdings.complete) {
+    blocks.push([
+      holdings.source === 'rpc'
+        ? '• Partial snapshot: explorer unavailable, ERC-20s from transfer history only (no NFTs)'
+        : '• Partial snapshot: holdings list truncated',
+    ]);
+  }
+  return blocks;
+}
+
+function holdingName(holding: TokenHolding): string {
+  return holding.symbol ?? holding.name ?? shortenAddress(holding.token);
+}
+
+function formatAmount(amount: string): string {
+  const value = parseFloat(amount);
+  return isNaN(value) ? amount : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** A titled section of a threaded report; blocks are kept together when possible. */
+interface ThreadSection {
+  title: string;
+  blocks: string[][];
+}
+
+/**
+ * Split a section into one or more casts of at most maxBytes.
+ * Continuation casts repeat the title with a "(cont.)" marker.
+ */
+function splitSection(section: ThreadSection, maxBytes: number): string[] {
+  const contTitle = `${section.title} (cont.)`;
+  const casts: string[] = [];
+  let current = truncateLine(section.title, maxBytes);
+
+  const pushLine = (line: string) => {
+    const candidate = `${current}\n${line}`;
+    if (byteLength(candidate) <= maxBytes) {
+      current = candidate;
+      return;
+    }
+    casts.push(current);
+    current = `${contTitle}\n${truncateLine(line, maxBytes - byteLength(contTitle) - 1)}`;
+  };
+
+  for (const block of section.blocks) {
+    const blockText = block.join('\n');
+    const fitsHere = byteLength(`${current}\n${blockText}`) <= maxBytes;
+    const fitsFresh = byteLength(`${contTitle}\n${blockText}`) <= maxBytes;
+
+    if (!fitsHere && fitsFresh) {
+      // Start a fresh cast so the block stays together
+      casts.push(current);
+      current = contTitle;
+    }
+    for (const line of block) pushLine(line);
+  }
+
+  casts.push(current);
+  return casts;
+}
+
+/**
+ * Truncate a single line to a byte budget without splitting a code point.
+ */
+function truncateLine(line: string, maxBytes: number): string {
+  if (byteLength(line) <= maxBytes) return line;
+  const chars = Array.from(line);
+  while (chars.length > 0 && byteLength(chars.join('') + '...') > maxBytes) {
+    chars.pop();
+  }
+  return chars.join('') + '...';
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Ask the summary provider (JSON mode) to fill the structured summary template.
  * CRITICAL: Only pass verified onchain data — never ask LLM to look anything up.
+ * Malformed or rejected responses fall back to the template summary.
  */
 async function generateAiSummary(
-  data: WalletData,
-  riskScore: number,
-  riskLevel: RiskLevel,
-  signals: RiskSignal[],
-  keyFindings: string[],
-): Promise<string> {
+  provider: SummaryProvider,
+  context: SummaryContext,
+): Promise<{ summary: string; analysis?: AiSummary; validation?: SummaryValidation }> {
+  const { data, riskScore, riskLevel, signals, keyFindings, topInteractions } = context;
   const signalSummaries = signals
     .map((s) => `- ${s.name} (${s.score}/100): ${s.description}`)
     .join('\n');
 
-  const prompt = `You are a blockchain security analyst. Generate a 1-2 sentence summary of this wallet analysis.
+  const recentTxs = data.transactions
+    .slice(0, 10)
+    .map((tx) => `- ${tx.hash} ${tx.from} → ${tx.to || '(contract creation)'}`)
+    .join('\n');
+
+  const targetName = data.primaryNames?.[data.address.toLowerCase()];
+  const counterparties = topInteractions
+    .map((i) => `- ${i.address}${i.label || i.name ? ` (${i.label || i.name})` : ''}: ${i.txCount} txs`)
+    .join('\n');
+
+  const prompt = `You are a blockchain security analyst. Fill in the JSON template below for this wallet analysis.
 
 RULES:
+- Respond with a single JSON object matching the template exactly. No extra keys, no prose outside JSON.
 - ONLY state facts present in the data below. Do NOT invent or assume anything.
+- Only cite transaction hashes and addresses that appear verbatim in the data below.
 - Use hedging language: "indicators suggest", "patterns consistent with", "appears to"
 - If data is insufficient, say so.
-- Keep it under 200 characters.
+- Only comment on signals listed below, using their exact names.
+
+TEMPLATE:
+${AI_SUMMARY_SCHEMA_DESCRIPTION}
 
 VERIFIED DATA:
-Address: ${data.address}
+Address: ${data.address}${targetName ? ` (${targetName})` : ''}
 Chain: Base
 Risk Score: ${riskScore}/100 (${riskLevel})
 Transaction Count: ${data.transactionCount}
+Transactions Analyzed: ${data.transactions.length}${describeCoverage(data)}
 Account Age: ${data.accountAge ? Math.round(data.accountAge / 86400) + ' days' : 'unknown'}
-Is Contract: ${data.isContract}
+Is Contract: ${data.isContract}${describeContractForPrompt(data)}
 Scam Flags: ${data.scamFlags.length}
 Signals:
 ${signalSummaries}
 Key Findings:
-${keyFindings.join('; ')}`;
+${keyFindings.join('; ')}
+Top Counterparties:
+${counterparties || '- none'}
+Recent Transactions:
+${recentTxs || '- none'}`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 150,
-      temperature: 0.3, // Low temperature for factual consistency
-    });
+    const content = await provider.generate(prompt, context);
+    const parsed = parseAiSummary(content, signals.map((s) => s.name));
+    if (!parsed.ok) {
+      console.warn(`[ReportGen] AI response failed schema validation: ${parsed.errors.join('; ')}`);
+      return {
+        summary: generateFallbackSummary(riskLevel, riskScore, data),
+        validation: {
+          outcome: 'rejected',
+          violations: parsed.errors.map((reason) => ({
+            kind: 'schema' as const,
+            field: 'response',
+            value: content.slice(0, 200),
+            reason,
+          })),
+        },
+      };
+    }
 
-    const aiSummary = response.choices[0]?.message?.content?.trim();
-    if (!aiSummary) throw new Error('Empty AI response');
+    // Post-generation validation: every cited address, hash, number and
+    // entity must be grounded in the data we passed in
+    const { output, validation } = validateAiSummary(parsed.value, data, signals, riskScore);
+    for (const v of validation.violations) {
+      console.warn(`[ReportGen] AI ${v.kind} violation in ${v.field}: ${v.value} — ${v.reason}`);
+    }
+    if (!output) {
+      return { summary: generateFallbackSummary(riskLevel, riskScore, data), validation };
+    }
 
-    // Post-generation validation: basic check that AI didn't invent addresses/hashes
-    return validateAiOutput(aiSummary, data);
+    return { summary: output.summary, analysis: output, validation };
   } catch (error) {
     console.error('[ReportGen] AI summary failed, using template fallback:', error);
-    return generateFallbackSummary(riskLevel, riskScore, data);
+    return { summary: generateFallbackSummary(riskLevel, riskScore, data) };
   }
 }
 
 /**
- * Validate AI output doesn't contain hallucinated data.
+ * Contract-mode facts for the LLM prompt, or what kind of smart account
+ * the code is.
  */
-function validateAiOutput(text: string, data: WalletData): string {
-  // Check for invented addresses (0x... patterns not in our data)
-  const addressPattern = /0x[a-fA-F0-9]{40}/g;
-  const mentions = text.match(addressPattern) || [];
-  const knownAddresses = new Set([
-    data.address.toLowerCase(),
-    ...data.transactions.map((tx) => tx.from.toLowerCase()),
-    ...data.transactions.map((tx) => tx.to.toLowerCase()),
-  ]);
-
-  for (const addr of mentions) {
-    if (!knownAddresses.has(addr.toLowerCase())) {
-      console.warn(`[ReportGen] AI hallucinated address ${addr} — removing from output`);
-      return text.replace(addr, '[address removed]');
-    }
+function describeContractForPrompt(data: WalletData): string {
+  if (data.smartAccount) {
+    return `\nSmart Account: ${data.smartAccount.kind} → ${data.smartAccount.implementation} (a user's wallet, analyzed as one)`;
   }
-
-  return text;
+  const contract = data.contractAnalysis;
+  if (!contract) return '';
+  return `
+Source Verified: ${contract.verified}${contract.contractName ? ` (${contract.contractName})` : ''}
+Proxy: ${contract.proxy ? `${contract.proxy.kind} → ${contract.proxy.implementation ?? 'unknown'}` : 'none'}
+Owner: ${contract.ownershipRenounced ? 'renounced' : contract.owner ?? 'none detected'}
+Privileged Capabilities: ${contract.capabilities.join(', ') || 'none'}
+Deployer: ${contract.deployer ?? 'unknown'}`;
 }
 
 /**
- * Template-based fallback summary (no AI needed).
+ * Describe how much history the analysis covered, for the LLM prompt.
  */
-function generateFallbackSummary(
-  level: RiskLevel,
-  score: number,
-  data: WalletData,
-): string {
-  const age = data.accountAge
-    ? `${Math.round(data.accountAge / 86400)} days old`
-    : 'unknown age';
-
-  switch (level) {
-    case 'LOW':
-      return `This wallet appears low-risk (${score}/100). ${age}, ${data.transactionCount} transactions, no known scam links detected.`;
-    case 'MEDIUM':
-      return `This wallet shows some concerning indicators (${score}/100). ${age}, ${data.transactionCount} transactions. Proceed with caution.`;
-    case 'HIGH':
-      return `This wallet has multiple red flags (${score}/100). ${age}, ${data.transactionCount} transactions, ${data.scamFlags.length} scam database match(es). Exercise extreme caution.`;
-  }
+function describeCoverage(data: WalletData): string {
+  const coverage = data.historyCoverage?.transactions;
+  if (!coverage) return '';
+  return coverage.complete ? ' (complete history)' : ` (partial history — stopped by ${coverage.stoppedBy})`;
 }
 
 /**
- * Compute top interacting addresses by transaction count.
+ * Compute top interacting addresses by transaction count, with
+ * known-contract labels and primary names.
  */
 function computeTopInteractions(data: WalletData): TopInteraction[] {
-  const counterparties = new Map<string, number>();
-  const myAddr = data.address.toLowerCase();
-
-  for (const tx of data.transactions) {
-    const other = tx.from.toLowerCase() === myAddr
-      ? tx.to
-      : tx.from;
-    if (other) {
-      const key = other.toLowerCase();
-      counterparties.set(key, (counterparties.get(key) || 0) + 1);
-    }
-  }
-
-  return Array.from(counterparties.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 5)
-    .map(([addr, count]) => ({
-      address: addr,
-      label: getContractLabel(addr),  // resolve known-contract labels
-      txCount: count,
-    }));
+  return rankCounterparties(data).map(({ address, txCount }) => {
+    const label = getContractLabel(address); // resolve known-contract labels
+    const name = data.primaryNames?.[address];
+    return { address, ...(label ? { label } : {}), ...(name ? { name } : {}), txCount };
+  });
 }
 
 /**
@@ -260,6 +896,11 @@ function extractKeyFindings(data: WalletData, signals: RiskSignal[]): string[] {
     findings.push(`[${flag.source}] ${flag.category}: ${flag.description}`);
   }
 
+  // Wallet clusters the target belongs to
+  for (const cluster of data.graph?.clusters ?? []) {
+    if (cluster.includesTarget) findings.push(`Wallet cluster: ${cluster.description}`);
+  }
+
   // Account basics
   if (data.accountAge !== null) {
     findings.push(
@@ -284,6 +925,9 @@ function calculateConfidence(data: WalletData): number {
   if (data.accountAge === null) confidence -= 20;
   if (data.tokenTransfers.length === 0) confidence -= 10;
   if (data.internalTransactions.length === 0) confidence -= 5;
+
+  // Partial history — heuristics only saw a slice of the wallet's activity
+  if (data.historyCoverage && !data.historyCoverage.transactions.complete) confidence -= 5;
   if (data.scamFlags.length === 0) confidence -= 0; // no penalty — absence of flags is fine
 
   // Low tx count = less data to work with
@@ -310,7 +954,7 @@ function generateRecommendations(level: RiskLevel, signals: RiskSignal[]): strin
         recs.push('Unusual large transfer patterns detected — could indicate fund draining.');
         break;
       case 'Contract Approvals':
-        recs.push('Multiple token approvals detected — review and revoke any unnecessary approvals.');
+        recs.push('Review live token approvals and revoke any held by unverified or flagged spenders.');
         break;
       case 'Funding Source':
         recs.push('Funding from flagged sources — funds may originate from illicit activity.');
@@ -318,6 +962,33 @@ function generateRecommendations(level: RiskLevel, signals: RiskSignal[]): strin
       case 'Token Diversity':
         recs.push('Unusually high token diversity — may include airdrop scam tokens.');
         break;
+      case 'Source Verification':
+        recs.push('Contract source is unverified — do not approve or deposit without an independent review.');
+        break;
+      case 'Upgradeability':
+        recs.push('Contract is upgradeable — its behavior can change after you interact with it.');
+        break;
+      case 'Owner Privileges':
+        recs.push('Owner can mint, pause or blacklist — check who controls the owner key (multisig, timelock).');
+        break;
+      case 'Self-Destruct':
+        recs.push('Contract can self-destruct — avoid leaving funds in it.');
+        break;
+      case 'Deployer':
+        recs.push("Review the deployer's other contracts before trusting this one.");
+        break;
+      case 'Token Risk':
+        recs.push('Token simulation found honeypot behavior, high taxes or owner controls — do not buy before checking it can be sold.');
+        break;
+      case 'Drain Pattern':
+        recs.push('Drain sweeps detected — do not send funds to this address, and revoke approvals if it is yours.');
+        break;
+      case 'Address Poisoning':
+        recs.push('Lookalike addresses appear in this history — never copy a recipient from past transactions; check every character.');
+        break;
+      case 'Deployer History':
+        recs.push('This deployer has pulled liquidity or dumped its own tokens before — avoid tokens it launches.');
+        break;
     }
   }
 
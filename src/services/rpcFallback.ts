@@ -2,75 +2,130 @@
 // Tell-Tale Bot — RPC Provider Fallback Service
 // ============================================================
 
-import { createPublicClient, http, type HttpTransport, type Chain } from 'viem';
-import { base } from 'viem/chains';
+import { createPublicClient, http } from 'viem';
+import { base, mainnet } from 'viem/chains';
 import { config } from '../config.js';
+import { RpcProviderConfig } from '../types/index.js';
+import { recordedRpcFetch } from './fixtureRecorder.js';
 
-// Exact type for a Base public client
+// Exact types for the Base and Ethereum L1 public clients
 type BasePublicClient = ReturnType<typeof createBaseClient>;
 function createBaseClient(url: string) {
   return createPublicClient({
     chain: base,
-    transport: http(url, { timeout: 10000 }),
+    transport: http(url, { timeout: 10000, fetchFn: recordedRpcFetch() }),
   });
 }
 
-let activeClient: BasePublicClient | null = null;
-let activeProviderIndex = 0;
+type MainnetPublicClient = ReturnType<typeof createMainnetClient>;
+function createMainnetClient(url: string) {
+  return createPublicClient({
+    chain: mainnet,
+    transport: http(url, { timeout: 10000, fetchFn: recordedRpcFetch() }),
+  });
+}
 
-/**
- * Get a viem PublicClient with automatic fallback across providers.
- * If the current provider fails, rotates to the next one.
- */
-export function getClient(): BasePublicClient {
-  if (activeClient) return activeClient;
+/** Provider rotation state for one chain */
+interface ProviderPool<C> {
+  label: string; // log tag
+  providers: RpcProviderConfig[];
+  create: (url: string) => C;
+  client: C | null;
+  index: number;
+}
 
-  const provider = config.rpcProviders[activeProviderIndex];
+const basePool: ProviderPool<BasePublicClient> = {
+  label: 'RPC',
+  providers: config.rpcProviders,
+  create: createBaseClient,
+  client: null,
+  index: 0,
+};
+
+// Ethereum L1 — only needed for ENS name resolution
+const mainnetPool: ProviderPool<MainnetPublicClient> = {
+  label: 'RPC:L1',
+  providers: config.mainnetRpcProviders,
+  create: createMainnetClient,
+  client: null,
+  index: 0,
+};
+
+function poolClient<C>(pool: ProviderPool<C>): C {
+  if (pool.client) return pool.client;
+
+  const provider = pool.providers[pool.index];
   if (!provider) {
     throw new Error('No RPC providers available');
   }
 
-  activeClient = createBaseClient(provider.url);
+  pool.client = pool.create(provider.url);
 
-  console.log(`[RPC] Using provider: ${provider.name}`);
-  return activeClient;
+  console.log(`[${pool.label}] Using provider: ${provider.name}`);
+  return pool.client;
 }
 
-/**
- * Rotate to next RPC provider (called on failure).
- */
-export function rotateProvider(): void {
-  activeProviderIndex = (activeProviderIndex + 1) % config.rpcProviders.length;
-  activeClient = null;
-  const next = config.rpcProviders[activeProviderIndex];
-  console.log(`[RPC] Rotating to: ${next?.name ?? 'unknown'}`);
+function rotatePool<C>(pool: ProviderPool<C>): void {
+  pool.index = (pool.index + 1) % pool.providers.length;
+  pool.client = null;
+  const next = pool.providers[pool.index];
+  console.log(`[${pool.label}] Rotating to: ${next?.name ?? 'unknown'}`);
 }
 
-/**
- * Execute a viem call with automatic provider rotation on failure.
- */
-export async function withFallback<T>(
-  fn: (client: BasePublicClient) => Promise<T>,
-): Promise<T> {
-  const maxAttempts = config.rpcProviders.length;
+async function poolFallback<C, T>(pool: ProviderPool<C>, fn: (client: C) => Promise<T>): Promise<T> {
+  const maxAttempts = pool.providers.length;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
-      const client = getClient();
+      const client = poolClient(pool);
       return await fn(client);
     } catch (error) {
-      const providerName = config.rpcProviders[activeProviderIndex]?.name ?? 'unknown';
+      const providerName = pool.providers[pool.index]?.name ?? 'unknown';
       console.warn(
-        `[RPC] Provider ${providerName} failed:`,
+        `[${pool.label}] Provider ${providerName} failed:`,
         error instanceof Error ? error.message : error,
       );
-      rotateProvider();
+      rotatePool(pool);
     }
   }
 
   throw new Error('All RPC providers failed');
 }
 
+/**
+ * Get a viem PublicClient with automatic fallback across providers.
+ * If the current provider fails, rotates to the next one.
+ */
+export function getClient(): BasePublicClient {
+  return poolClient(basePool);
+}
+
+/**
+ * Rotate to next RPC provider (called on failure).
+ */
+export function rotateProvider(): void {
+  rotatePool(basePool);
+}
+
+/**
+ * Execute a viem call with automatic provider rotation on failure.
+ */
+export async function withFallback<T>(
+  fn: (client: BasePublicClient) => Promise<T>,
+): Promise<T> {
+  return poolFallback(basePool, fn);
+}
+
+/**
+ * Execute a viem call against Ethereum L1 (ENS) with the same
+ * provider rotation as Base.
+ */
+export async function withMainnetFallback<T>(
+  fn: (client: MainnetPublicClient) => Promise<T>,
+): Promise<T> {
+  return poolFallback(mainnetPool, fn);
+}
+
 /**
  * Get ETH balance via RPC fallback (alternative to Basescan).
  */
@@ -94,3 +149,46 @@ export async function isContractViaRpc(address: `0x${string}`): Promise<boolean>
   );
   return code !== undefined && code !== '0x';
 }
+
+/**
+ * Get runtime bytecode via RPC fallback ('0x' for EOAs).
+ */
+export async function getCodeViaRpc(address: `0x${string}`): Promise<`0x${string}`> {
+  const code = await withFallback((client) => client.getCode({ address }));
+  return code ?? '0x';
+}
+
+/**
+ * Read a raw storage slot via RPC fallback.
+ */
+export async function getStorageAtViaRpc(
+  address: `0x${string}`,
+  slot: `0x${string}`,
+): Promise<`0x${string}`> {
+  const value = await withFallback((client) => client.getStorageAt({ address, slot }));
+  return value ?? '0x';
+}
+
+/**
+ * eth_call via RPC fallback. Returns null when the call reverts
+ * (e.g. the function does not exist) rather than rotating providers.
+ */
+export async function callViaRpc(
+  to: `0x${string}`,
+  data: `0x${string}`,
+): Promise<`0x${string}` | null> {
+  return withFallback(async (client) => {
+    try {
+      const result = await client.call({ to, data });
+      return result.data ?? null;
+    } catch (error) {
+      if (isRevert(error)) return null;
+      throw error;
+    }
+  });
+}
+
+function isRevert(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return message.includes('revert') || message.includes('execution reverted');
+}
@@ -9,6 +9,7 @@
 import axios from 'axios';
 import { ScamFlag } from '../types/index.js';
 import { isWhitelisted } from '../data/knownContracts.js';
+import { recorded } from './fixtureRecorder.js';
 
 /**
  * Local scam address set — loaded from seed data at startup.
@@ -89,21 +90,22 @@ export function batchCheckLocal(addresses: string[]): Map<string, ScamFlag> {
  */
 async function checkChainAbuse(address: string): Promise<ScamFlag[]> {
   try {
-    const response = await axios.get(
-      `https://www.chainabuse.com/api/v0/reports`,
-      {
-        params: {
-          address,
-          chain: 'BASE',
+    const params = { address, chain: 'BASE' };
+    const data = await recorded('chainabuse', params, async () => {
+      const response = await axios.get(
+        `https://www.chainabuse.com/api/v0/reports`,
+        {
+          params,
+          timeout: 5000,
+          // ChainAbuse may require API key in the future
+          // headers: { 'Authorization': `Bearer ${config.chainAbuseApiKey}` }
         },
-        timeout: 5000,
-        // ChainAbuse may require API key in the future
-        // headers: { 'Authorization': `Bearer ${config.chainAbuseApiKey}` }
-      },
-    );
+      );
+      return response.data;
+    });
 
-    if (response.data && Array.isArray(response.data.reports)) {
-      return response.data.reports.map((report: any) => ({
+    if (data && Array.isArray(data.reports)) {
+      return data.reports.map((report: any) => ({
         source: 'ChainAbuse',
         category: report.category || 'scam',
         description: report.description || 'Reported on ChainAbuse',
@@ -0,0 +1,158 @@
+// ============================================================
+// Tell-Tale Bot — Scoring Model
+// ============================================================
+// Weights, level thresholds, the scam-flag boost and every signal
+// cut-off live in a JSON model file rather than in code:
+//   - the bundled default (src/data/scoringModel.json), or
+//     SCORING_MODEL_PATH to replace it
+//   - SCORING_CHALLENGER_PATH + SCORING_CHALLENGER_SHARE to score a
+//     share of addresses (0-100 %) with a second model for A/B runs;
+//     an address always lands in the same bucket
+// The model's version is stamped on every report.
+// ============================================================
+
+import { readFileSync } from 'fs';
+import { config } from '../config.js';
+import { RiskLevel, ScoringModel, SignalSettings } from '../types/index.js';
+import { getSignal } from '../signals/index.js';
+import bundledModel from '../data/scoringModel.json';
+
+let primary: ScoringModel | null = null;
+let challenger: ScoringModel | null | undefined;
+
+/**
+ * The model that scores this address: the challenger for addresses in
+ * its A/B bucket, otherwise the primary model.
+ */
+export function getScoringModel(address?: string): ScoringModel {
+  primary ??= config.scoringModelPath
+    ? loadScoringModel(config.scoringModelPath) ?? defaultScoringModel()
+    : defaultScoringModel();
+  if (challenger === undefined) {
+    challenger = config.scoringChallengerPath ? loadScoringModel(config.scoringChallengerPath) : null;
+  }
+  return selectScoringModel(address, primary, challenger, config.scoringChallengerShare);
+}
+
+/**
+ * A/B split: addresses whose bucket (0-99, from the address itself) is
+ * below `sharePct` get the challenger.
+ */
+export function selectScoringModel(
+  address: string | undefined,
+  primaryModel: ScoringModel,
+  challengerModel: ScoringModel | null,
+  sharePct: number,
+): ScoringModel {
+  if (!challengerModel || !address || sharePct <= 0) return primaryModel;
+  return addressBucket(address) < sharePct ? challengerModel : primaryModel;
+}
+
+export function defaultScoringModel(): ScoringModel {
+  return parseScoringModel(bundledModel, 'bundled default');
+}
+
+/**
+ * Read and validate a model file. Returns null (and logs) when the file
+ * is missing or invalid, so a bad deploy falls back to the default.
+ */
+export function loadScoringModel(path: string): ScoringModel | null {
+  try {
+    const model = parseScoringModel(JSON.parse(readFileSync(path, 'utf8')), path);
+    console.log(`[ScoringModel] Loaded model ${model.version} from ${path}`);
+    return model;
+  } catch (error) {
+    console.error(`[ScoringModel] Could not load ${path}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Validate a parsed model. Throws with the first problem found: unknown
+ * signal ids or parameters, weights outside 0-1, unordered thresholds.
+ */
+export function parseScoringModel(raw: unknown, source: string): ScoringModel {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid scoring model (${source}): ${problem}`);
+  };
+  if (!isObject(raw)) return fail('not a JSON object');
+
+  const { version, thresholds, scamBoost, wallet, contract } = raw;
+  if (typeof version !== 'string' || version.trim() === '') fail('"version" must be a non-empty string');
+  if (!isObject(thresholds) || !isNumber(thresholds.low) || !isNumber(thresholds.medium)) {
+    fail('"thresholds" must have numeric "low" and "medium"');
+  }
+  const { low, medium } = thresholds as { low: number; medium: number };
+  if (low < 0 || medium <= low || medium > 100) fail('"thresholds" must satisfy 0 <= low < medium <= 100');
+  if (!Array.isArray(scamBoost) || scamBoost.length === 0 || !scamBoost.every(isNumber)) {
+    fail('"scamBoost" must be a non-empty array of numbers');
+  }
+
+  return {
+    version: version as string,
+    thresholds: { low, medium },
+    scamBoost: scamBoost as number[],
+    wallet: parseSignalSet(wallet, 'wallet', fail),
+    contract: parseSignalSet(contract, 'contract', fail),
+  };
+}
+
+/** LOW / MEDIUM / HIGH for a 0-100 score under the model's thresholds */
+export function riskLevelFor(score: number, model: ScoringModel): RiskLevel {
+  return score <= model.thresholds.low ? 'LOW' : score <= model.thresholds.medium ? 'MEDIUM' : 'HIGH';
+}
+
+/**
+ * Points added for independent scam reports — a single max-weight signal
+ * can't alone push past HIGH, but corroborating flags from different
+ * sources are a strong indicator. The last entry covers any higher count.
+ */
+export function scamBoostFor(flagCount: number, model: ScoringModel): number {
+  return model.scamBoost[Math.min(flagCount, model.scamBoost.length - 1)]!;
+}
+
+function parseSignalSet(
+  raw: unknown,
+  mode: string,
+  fail: (problem: string) => never,
+): Record<string, SignalSettings> {
+  if (!isObject(raw)) return fail(`"${mode}" must map signal ids to settings`);
+
+  const signals: Record<string, SignalSettings> = {};
+  for (const [id, entry] of Object.entries(raw)) {
+    const module = getSignal(id);
+    if (!module) fail(`unknown signal "${id}" in "${mode}"`);
+    if (!isObject(entry) || !isNumber(entry.weight) || entry.weight < 0 || entry.weight > 1) {
+      fail(`"${mode}.${id}.weight" must be a number between 0 and 1`);
+    }
+    const { weight, enabled, params } = entry as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') fail(`"${mode}.${id}.enabled" must be a boolean`);
+    if (params !== undefined && !isObject(params)) fail(`"${mode}.${id}.params" must be an object`);
+
+    for (const [key, value] of Object.entries((params ?? {}) as Record<string, unknown>)) {
+      if (!(key in module!.defaults)) fail(`unknown parameter "${mode}.${id}.params.${key}"`);
+      if (!isNumber(value)) fail(`"${mode}.${id}.params.${key}" must be a number`);
+    }
+
+    signals[id] = {
+      weight: weight as number,
+      ...(enabled !== undefined ? { enabled: enabled as boolean } : {}),
+      ...(params !== undefined ? { params: params as Record<string, number> } : {}),
+    };
+  }
+  return signals;
+}
+
+/** Stable 0-99 bucket from the address's trailing hex digits */
+function addressBucket(address: string): number {
+  const tail = parseInt(address.slice(-8), 16);
+  return isNaN(tail) ? 0 : tail % 100;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
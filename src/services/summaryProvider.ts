@@ -0,0 +1,165 @@
+// ============================================================
+// Tell-Tale Bot — Summary Providers (LLM abstraction)
+// ============================================================
+// The summary stage talks to a SummaryProvider, selected by config:
+// - openai:            OpenAI API (GPT-4o by default)
+// - openai-compatible: any OpenAI-compatible endpoint (self-hosted models)
+// - template:          deterministic, offline — no outbound calls
+// Every provider returns raw JSON text; schema validation happens in
+// the report generator so all providers go through the same checks.
+// ============================================================
+
+import OpenAI from 'openai';
+import { config } from '../config.js';
+import {
+  WalletData,
+  RiskLevel,
+  RiskSignal,
+  TopInteraction,
+  AiSummary,
+  SummaryProviderName,
+} from '../types/index.js';
+import { AI_SUMMARY_LIMITS } from './summarySchema.js';
+import { recordedFetch } from './fixtureRecorder.js';
+
+/** Verified inputs the summary is grounded in */
+export interface SummaryContext {
+  data: WalletData;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  signals: RiskSignal[];
+  keyFindings: string[];
+  topInteractions: TopInteraction[];
+}
+
+/** A backend that turns a grounded prompt into a JSON summary string */
+export interface SummaryProvider {
+  readonly name: SummaryProviderName;
+  generate(prompt: string, context: SummaryContext): Promise<string>;
+}
+
+/**
+ * OpenAI chat-completions provider in JSON mode.
+ * Also backs the OpenAI-compatible provider via a custom base URL.
+ */
+export class OpenAiSummaryProvider implements SummaryProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    private model: string,
+    options: { apiKey: string; baseURL?: string },
+  ) {
+    this.client = new OpenAI({ ...options, fetch: recordedFetch(name) });
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+      max_tokens: 600,
+      temperature: 0.3, // Low temperature for factual consistency
+    });
+
+    const content = response.choices[0]?.message?.content?.trim();
+    if (!content) throw new Error('Empty AI response');
+    return content;
+  }
+}
+
+/** Hedged verdict phrasing used by the template provider */
+const VERDICT_WORDING: Record<RiskLevel, string> = {
+  LOW: 'Patterns consistent with normal activity',
+  MEDIUM: 'Some indicators suggest elevated risk',
+  HIGH: 'Multiple indicators consistent with malicious activity',
+};
+
+/**
+ * Deterministic offline provider. Fills the JSON template from the
+ * verified inputs only, so output is reproducible and never hallucinated.
+ */
+export class TemplateSummaryProvider implements SummaryProvider {
+  readonly name = 'template' as const;
+
+  async generate(_prompt: string, context: SummaryContext): Promise<string> {
+    const { data, riskScore, riskLevel, signals } = context;
+
+    const summary: AiSummary = {
+      summary: generateFallbackSummary(riskLevel, riskScore, data),
+      verdictWording: VERDICT_WORDING[riskLevel],
+      signalCommentary: signals
+        .filter((s) => s.score > 30)
+        .map((s) => ({
+          signal: s.name,
+          commentary:
+            s.description.length > AI_SUMMARY_LIMITS.commentaryMaxChars
+              ? s.description.slice(0, AI_SUMMARY_LIMITS.commentaryMaxChars - 3) + '...'
+              : s.description,
+        })),
+      citedTxHashes: [],
+      citedAddresses: [],
+    };
+
+    return JSON.stringify(summary);
+  }
+}
+
+/**
+ * Template-based fallback summary (no AI needed).
+ */
+export function generateFallbackSummary(
+  level: RiskLevel,
+  score: number,
+  data: WalletData,
+): string {
+  const age = data.accountAge
+    ? `${Math.round(data.accountAge / 86400)} days old`
+    : 'unknown age';
+  const subject = data.contractAnalysis ? 'contract' : 'wallet';
+
+  switch (level) {
+    case 'LOW':
+      return `This ${subject} appears low-risk (${score}/100). ${age}, ${data.transactionCount} transactions, no known scam links detected.`;
+    case 'MEDIUM':
+      return `This ${subject} shows some concerning indicators (${score}/100). ${age}, ${data.transactionCount} transactions. Proceed with caution.`;
+    case 'HIGH':
+      return `This ${subject} has multiple red flags (${score}/100). ${age}, ${data.transactionCount} transactions, ${data.scamFlags.length} scam database match(es). Exercise extreme caution.`;
+  }
+}
+
+/**
+ * Build a provider by name from config.
+ */
+export function createSummaryProvider(name: SummaryProviderName): SummaryProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAiSummaryProvider('openai', config.summaryModel, {
+        apiKey: config.openaiApiKey,
+      });
+    case 'openai-compatible':
+      if (!config.summaryBaseUrl) {
+        throw new Error('SUMMARY_BASE_URL is required for the openai-compatible summary provider');
+      }
+      return new OpenAiSummaryProvider('openai-compatible', config.summaryModel, {
+        // Self-hosted servers often ignore the key, but the SDK requires one
+        apiKey: config.summaryApiKey || 'not-needed',
+        baseURL: config.summaryBaseUrl,
+      });
+    case 'template':
+      return new TemplateSummaryProvider();
+  }
+}
+
+let provider: SummaryProvider | null = null;
+
+/**
+ * Lazy-initialize the configured summary provider.
+ */
+export function getSummaryProvider(): SummaryProvider {
+  if (!provider) {
+    provider = createSummaryProvider(config.summaryProvider);
+    console.log(`[Summary] Using provider: ${provider.name}`);
+  }
+  return provider;
+}
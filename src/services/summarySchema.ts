@@ -0,0 +1,159 @@
+// ============================================================
+// Tell-Tale Bot — Structured LLM Output Schema
+// ============================================================
+// The summary stage runs the LLM in JSON mode and fills a fixed
+// template. Every response is parsed and validated here before it
+// can reach a report — anything malformed is rejected so the caller
+// falls back to the deterministic template summary.
+// ============================================================
+
+import { AiSummary, SignalCommentary } from '../types/index.js';
+
+/** Limits enforced on LLM-written fields */
+export const AI_SUMMARY_LIMITS = {
+  summaryMaxChars: 300,
+  verdictMaxChars: 120,
+  commentaryMaxChars: 200,
+  maxCitations: 10,
+} as const;
+
+/**
+ * JSON shape the LLM is instructed to return.
+ * Embedded verbatim in the prompt so the model sees the exact contract.
+ */
+export const AI_SUMMARY_SCHEMA_DESCRIPTION = `{
+  "summary": string (1-2 sentences, max ${AI_SUMMARY_LIMITS.summaryMaxChars} chars),
+  "verdictWording": string (short hedged verdict, max ${AI_SUMMARY_LIMITS.verdictMaxChars} chars),
+  "signalCommentary": [{ "signal": string (exact signal name), "commentary": string (max ${AI_SUMMARY_LIMITS.commentaryMaxChars} chars) }],
+  "citedTxHashes": string[] (0x-prefixed 64-hex tx hashes taken from the data, may be empty),
+  "citedAddresses": string[] (0x-prefixed 40-hex addresses taken from the data, may be empty)
+}`;
+
+const TX_HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+export type AiSummaryParseResult =
+  | { ok: true; value: AiSummary }
+  | { ok: false; errors: string[] };
+
+/**
+ * Parse and validate a raw LLM response against the AiSummary schema.
+ * @param raw - The raw message content returned by the model
+ * @param signalNames - Names of the signals the model was given; commentary
+ *   for any other signal is rejected
+ */
+export function parseAiSummary(raw: string, signalNames: string[]): AiSummaryParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, errors: ['Response is not valid JSON'] };
+  }
+
+  if (!isRecord(parsed)) {
+    return { ok: false, errors: ['Response is not a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  const summary = readString(parsed, 'summary', AI_SUMMARY_LIMITS.summaryMaxChars, errors);
+  const verdictWording = readString(parsed, 'verdictWording', AI_SUMMARY_LIMITS.verdictMaxChars, errors);
+  const citedTxHashes = readPatternList(parsed, 'citedTxHashes', TX_HASH_PATTERN, errors);
+  const citedAddresses = readPatternList(parsed, 'citedAddresses', ADDRESS_PATTERN, errors);
+  const signalCommentary = readCommentary(parsed, new Set(signalNames), errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      summary: summary!,
+      verdictWording: verdictWording!,
+      signalCommentary: signalCommentary!,
+      citedTxHashes: citedTxHashes!,
+      citedAddresses: citedAddresses!,
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  obj: Record<string, unknown>,
+  key: string,
+  maxChars: number,
+  errors: string[],
+): string | undefined {
+  const value = obj[key];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`"${key}" must be a non-empty string`);
+    return undefined;
+  }
+  if (value.length > maxChars) {
+    errors.push(`"${key}" exceeds ${maxChars} characters`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function readPatternList(
+  obj: Record<string, unknown>,
+  key: string,
+  pattern: RegExp,
+  errors: string[],
+): string[] | undefined {
+  const value = obj[key];
+  if (!Array.isArray(value)) {
+    errors.push(`"${key}" must be an array`);
+    return undefined;
+  }
+  if (value.length > AI_SUMMARY_LIMITS.maxCitations) {
+    errors.push(`"${key}" has more than ${AI_SUMMARY_LIMITS.maxCitations} entries`);
+    return undefined;
+  }
+  const invalid = value.filter((v) => typeof v !== 'string' || !pattern.test(v));
+  if (invalid.length > 0) {
+    errors.push(`"${key}" contains ${invalid.length} malformed entr${invalid.length === 1 ? 'y' : 'ies'}`);
+    return undefined;
+  }
+  return value as string[];
+}
+
+function readCommentary(
+  obj: Record<string, unknown>,
+  signalNames: Set<string>,
+  errors: string[],
+): SignalCommentary[] | undefined {
+  const value = obj.signalCommentary;
+  if (!Array.isArray(value)) {
+    errors.push('"signalCommentary" must be an array');
+    return undefined;
+  }
+
+  const result: SignalCommentary[] = [];
+  for (const entry of value) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.signal !== 'string' ||
+      typeof entry.commentary !== 'string' ||
+      entry.commentary.trim().length === 0
+    ) {
+      errors.push('"signalCommentary" entries must be { signal, commentary } strings');
+      return undefined;
+    }
+    if (!signalNames.has(entry.signal)) {
+      errors.push(`"signalCommentary" references unknown signal "${entry.signal}"`);
+      return undefined;
+    }
+    if (entry.commentary.length > AI_SUMMARY_LIMITS.commentaryMaxChars) {
+      errors.push(`Commentary for "${entry.signal}" exceeds ${AI_SUMMARY_LIMITS.commentaryMaxChars} characters`);
+      return undefined;
+    }
+    result.push({ signal: entry.signal, commentary: entry.commentary.trim() });
+  }
+  return result;
+}
@@ -0,0 +1,568 @@
+// ============================================================
+// Tell-Tale Bot — Token Honeypot & Tax Analyzer
+// ============================================================
+// Simulates buy → transfer → sell for an ERC-20 against a Uniswap
+// V2-style router with eth_simulateV1 (batched eth_call) and state
+// overrides — a throwaway account is given ETH, nothing is signed
+// or broadcast. Measures buy/transfer/sell taxes and detects sells
+// that revert (honeypots). Tokens without a pair fall back to a
+// transfer-only check, locating the balance mapping via eth_call
+// state overrides. Nodes without eth_simulateV1 get plain eth_calls
+// instead: the buy from a funded throwaway account, then the sell with
+// the token balance and router allowance written into storage — each
+// call stands alone, so this path tells whether trades revert but
+// can't measure taxes. Owner-only controls (fees, trading switches,
+// limits, mint/pause/blacklist) are read from the bytecode.
+// ============================================================
+
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeAbiParameters,
+  keccak256,
+  parseAbi,
+  parseEther,
+  toFunctionSelector,
+  toHex,
+  type PublicClient,
+  type StateOverride,
+  type Hex,
+} from 'viem';
+import { config } from '../config.js';
+import {
+  WalletData,
+  TokenRisk,
+  TokenSimulationStatus,
+} from '../types/index.js';
+import { isWhitelisted } from '../data/knownContracts.js';
+import { safeBigInt } from '../utils/format.js';
+import { withFallback, getCodeViaRpc } from './rpcFallback.js';
+import { findPrivilegedFunctions, readOwner, scanBytecode } from './contractAnalyzer.js';
+
+/** The subset of a viem client the simulation needs (easy to point at anvil) */
+export type SimulationClient = Pick<PublicClient, 'call' | 'simulateBlocks' | 'readContract'>;
+
+/** Throwaway accounts used only inside simulations */
+const BUYER: Hex = '0x00000000000000000000000000000000007e1170';
+const RECIPIENT: Hex = '0x00000000000000000000000000000000007e1171';
+
+const DEADLINE = 9_999_999_999n;
+
+/** Storage slots probed when looking for the balances mapping */
+const SLOT_SEARCH_LIMIT = 10;
+
+/** Sell/transfer tax at or above this is treated as a honeypot */
+const HONEYPOT_TAX_PCT = 90;
+
+const ERC20_ABI = parseAbi([
+  'function balanceOf(address) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function symbol() view returns (string)',
+]);
+
+/** JSON-RPC codes for "method not found" and "method not supported" */
+const UNSUPPORTED_METHOD_CODES = new Set([-32601, -32004]);
+
+const ROUTER_ABI = parseAbi([
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[])',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+]);
+
+/** Owner-only token controls commonly abused by scam tokens */
+const TOKEN_CONTROL_SIGNATURES = [
+  'setFee(uint256)',
+  'setFees(uint256,uint256)',
+  'setTaxFee(uint256)',
+  'setTaxes(uint256,uint256)',
+  'updateFees(uint256,uint256)',
+  'setBuyTax(uint256)',
+  'setSellTax(uint256)',
+  'setMaxTxAmount(uint256)',
+  'setMaxWallet(uint256)',
+  'setMaxWalletSize(uint256)',
+  'enableTrading()',
+  'openTrading()',
+  'setTradingEnabled(bool)',
+  'excludeFromFee(address)',
+];
+
+const TOKEN_CONTROL_SELECTORS = new Map<string, string>(
+  TOKEN_CONTROL_SIGNATURES.map((signature) => [toFunctionSelector(signature), signature]),
+);
+
+/** Measured outcome of the buy/transfer/sell simulation */
+export interface TokenSimulation {
+  status: TokenSimulationStatus;
+  buyTaxPct: number | null;
+  sellTaxPct: number | null;
+  transferTaxPct: number | null;
+}
+
+type TokenSource = Pick<WalletData, 'address' | 'isContract' | 'transactions' | 'tokenTransfers'>;
+
+interface RawCall {
+  account?: Hex;
+  to: Hex;
+  data: Hex;
+  value?: bigint;
+}
+
+interface RawResult {
+  ok: boolean;
+  data: Hex;
+}
+
+/**
+ * Analyze the tokens a wallet holds or deployed (or the address itself
+ * when it is a contract), at most config.tokenAnalysisLimit of them,
+ * simulated side by side.
+ */
+export async function analyzeWalletTokens(data: TokenSource): Promise<TokenRisk[]> {
+  const candidates = tokenCandidates(data).slice(0, config.tokenAnalysisLimit);
+  const risks = await Promise.all(candidates.map(({ token, relation }) => analyzeToken(token, relation)));
+  return risks.filter((risk): risk is TokenRisk => risk !== null);
+}
+
+/**
+ * Tokens worth simulating for an address: the address itself in contract
+ * mode, then tokens it deployed, then tokens it still holds (net inflow),
+ * most recently active first. Well-known tokens are skipped.
+ */
+export function tokenCandidates(
+  data: TokenSource,
+): Array<{ token: string; relation: TokenRisk['relation'] }> {
+  const self = data.address.toLowerCase();
+  const candidates = new Map<string, TokenRisk['relation']>();
+
+  if (data.isContract) candidates.set(self, 'self');
+
+  for (const tx of data.transactions) {
+    if (tx.from.toLowerCase() === self && !tx.to && tx.contractAddress && tx.isError !== '1') {
+      candidates.set(tx.contractAddress.toLowerCase(), 'deployed');
+    }
+  }
+
+  const net = new Map<string, bigint>();
+  for (const t of data.tokenTransfers) {
+    const token = t.contractAddress.toLowerCase();
+    const value = safeBigInt(t.value);
+    const delta = t.to.toLowerCase() === self ? value : t.from.toLowerCase() === self ? -value : 0n;
+    net.set(token, (net.get(token) ?? 0n) + delta);
+  }
+  for (const [token, balance] of net) {
+    if (balance > 0n && !candidates.has(token)) candidates.set(token, 'held');
+  }
+
+  return [...candidates.entries()]
+    .filter(([token]) => !isWhitelisted(token))
+    .map(([token, relation]) => ({ token, relation }));
+}
+
+/**
+ * Simulate one token and inspect its owner controls.
+ * Returns null when the address does not behave like an ERC-20.
+ */
+export async function analyzeToken(
+  token: string,
+  relation: TokenRisk['relation'],
+): Promise<TokenRisk | null> {
+  const address = token.toLowerCase() as Hex;
+
+  let symbol: string | null;
+  try {
+    symbol = await withFallback((client) =>
+      client.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }),
+    );
+  } catch {
+    return null; // not an ERC-20 (or unreadable) — nothing to simulate
+  }
+
+  let simulation: TokenSimulation;
+  try {
+    simulation = await withFallback((client) => simulateToken(client, address));
+  } catch (error) {
+    console.error(`[TokenAnalyzer] Simulation failed for ${token}:`, error);
+    simulation = { status: 'error', buyTaxPct: null, sellTaxPct: null, transferTaxPct: null };
+  }
+
+  const [code, owner] = await Promise.all([
+    getCodeViaRpc(address).catch(() => '0x' as Hex),
+    readOwner(address),
+  ]);
+
+  return {
+    token: address,
+    symbol,
+    relation,
+    simulation: simulation.status,
+    buyTaxPct: simulation.buyTaxPct,
+    sellTaxPct: simulation.sellTaxPct,
+    transferTaxPct: simulation.transferTaxPct,
+    honeypot: isHoneypot(simulation),
+    owner,
+    ownerFunctions: ownerControls(code),
+  };
+}
+
+/**
+ * Run the buy → transfer → sell simulation against a client.
+ * Exported separately so it can be pointed at a local fork (anvil).
+ * A node without eth_simulateV1 is not a failure: the checks are
+ * repeated with plain eth_calls (no taxes) rather than thrown, which
+ * would rotate the provider pool for every token.
+ */
+export async function simulateToken(client: SimulationClient, token: Hex): Promise<TokenSimulation> {
+  try {
+    return await simulateWithBlocks(client, token);
+  } catch (error) {
+    if (!isUnsupportedMethod(error)) throw error;
+    console.warn(`[TokenAnalyzer] eth_simulateV1 unsupported, checking ${token} with eth_call`);
+    return simulateWithCalls(client, token);
+  }
+}
+
+/** Buy → transfer → sell in simulated blocks, measuring each tax */
+async function simulateWithBlocks(client: SimulationClient, token: Hex): Promise<TokenSimulation> {
+  const router = config.tokenSimRouter as Hex;
+  const weth = config.tokenSimWeth as Hex;
+  const buyValue = parseEther(config.tokenSimBuyEth);
+
+  const buyCall = encodeBuy(router, weth, token, buyValue);
+
+  // 1. Quote, buy, and see how many tokens actually arrived
+  const [quote, buy, bought] = await runSequence(client, [
+    { to: router, data: encodeQuote(buyValue, [weth, token]) },
+    buyCall,
+    { to: token, data: encodeBalanceOf(BUYER) },
+  ]);
+
+  if (!quote?.ok) {
+    return simulateTransferOnly(client, token);
+  }
+  if (!buy?.ok || !bought?.ok) {
+    return { status: 'buyFailed', buyTaxPct: null, sellTaxPct: null, transferTaxPct: null };
+  }
+
+  const expectedTokens = decodeQuote(quote.data);
+  const boughtTokens = decodeUint(bought.data);
+  const buyTaxPct = taxPct(expectedTokens, boughtTokens);
+  if (boughtTokens === 0n) {
+    return { status: 'buyFailed', buyTaxPct, sellTaxPct: null, transferTaxPct: null };
+  }
+
+  // 2. Transfer and sell paths, each replayed on top of the buy
+  const [transferResults, sellResults] = await Promise.all([
+    runSequence(client, [
+      buyCall,
+      { account: BUYER, to: token, data: encodeTransfer(RECIPIENT, boughtTokens) },
+      { to: token, data: encodeBalanceOf(RECIPIENT) },
+    ]),
+    runSequence(client, [
+      buyCall,
+      {
+        account: BUYER,
+        to: token,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [router, boughtTokens] }),
+      },
+      { to: router, data: encodeQuote(boughtTokens, [token, weth]) },
+      encodeSell(router, weth, token, boughtTokens),
+      { to: weth, data: encodeBalanceOf(BUYER) },
+    ]),
+  ]);
+
+  const [, transfer, received] = transferResults;
+  const transferTaxPct =
+    transfer?.ok && received?.ok ? taxPct(boughtTokens, decodeUint(received.data)) : null;
+
+  const [, approve, sellQuote, sell, wethOut] = sellResults;
+  if (!approve?.ok || !sell?.ok || !sellQuote?.ok || !wethOut?.ok) {
+    return { status: 'sellBlocked', buyTaxPct, sellTaxPct: null, transferTaxPct };
+  }
+
+  return {
+    status: 'ok',
+    buyTaxPct,
+    sellTaxPct: taxPct(decodeQuote(sellQuote.data), decodeUint(wethOut.data)),
+    transferTaxPct,
+  };
+}
+
+/**
+ * No router pair: give the buyer a balance by overriding the balances
+ * mapping (found via eth_call state overrides) and simulate a transfer.
+ */
+async function simulateTransferOnly(client: SimulationClient, token: Hex): Promise<TokenSimulation> {
+  const amount = 10n ** 18n;
+  const slotKey = await findBalanceSlot(client, token, amount);
+  if (!slotKey) {
+    return { status: 'unsupported', buyTaxPct: null, sellTaxPct: null, transferTaxPct: null };
+  }
+
+  const [transfer, received] = await runSequence(
+    client,
+    [
+      { account: BUYER, to: token, data: encodeTransfer(RECIPIENT, amount) },
+      { to: token, data: encodeBalanceOf(RECIPIENT) },
+    ],
+    [{ address: token, stateDiff: [{ slot: slotKey, value: toHex(amount, { size: 32 }) }] }],
+  );
+
+  return {
+    status: 'noLiquidity',
+    buyTaxPct: null,
+    sellTaxPct: null,
+    transferTaxPct: transfer?.ok && received?.ok ? taxPct(amount, decodeUint(received.data)) : null,
+  };
+}
+
+/**
+ * The same checks with standalone eth_calls, for nodes without
+ * eth_simulateV1. The buy only has to go through; the sell starts from
+ * the quoted amount written straight into BUYER's balance and router
+ * allowance. Taxes stay unknown — nothing carries over between calls.
+ */
+async function simulateWithCalls(client: SimulationClient, token: Hex): Promise<TokenSimulation> {
+  const router = config.tokenSimRouter as Hex;
+  const weth = config.tokenSimWeth as Hex;
+  const buyValue = parseEther(config.tokenSimBuyEth);
+  const unknownTaxes = { buyTaxPct: null, sellTaxPct: null, transferTaxPct: null };
+  const funded: StateOverride = [{ address: BUYER, balance: parseEther('100') }];
+
+  const quote = await callOnce(client, { to: router, data: encodeQuote(buyValue, [weth, token]) });
+  const amount = quote.ok ? decodeQuote(quote.data) : 10n ** 18n;
+  const balanceKey = await findBalanceSlot(client, token, amount);
+
+  if (!quote.ok) {
+    if (!balanceKey) return { status: 'unsupported', ...unknownTaxes };
+    await callOnce(client, { account: BUYER, to: token, data: encodeTransfer(RECIPIENT, amount) }, [
+      { address: token, stateDiff: [{ slot: balanceKey, value: toHex(amount, { size: 32 }) }] },
+    ]);
+    return { status: 'noLiquidity', ...unknownTaxes };
+  }
+
+  const buy = await callOnce(client, encodeBuy(router, weth, token, buyValue), funded);
+  if (!buy.ok) return { status: 'buyFailed', ...unknownTaxes };
+
+  const allowanceKey = balanceKey ? await findAllowanceSlot(client, token, router, amount) : null;
+  if (!balanceKey || !allowanceKey) return { status: 'unsupported', ...unknownTaxes };
+
+  const sell = await callOnce(client, encodeSell(router, weth, token, amount), [
+    ...funded,
+    {
+      address: token,
+      stateDiff: [
+        { slot: balanceKey, value: toHex(amount, { size: 32 }) },
+        { slot: allowanceKey, value: toHex(amount, { size: 32 }) },
+      ],
+    },
+  ]);
+  return { status: sell.ok ? 'ok' : 'sellBlocked', ...unknownTaxes };
+}
+
+/**
+ * Find the storage key of BUYER's balance by overriding candidate slots
+ * (Solidity and Vyper mapping layouts) and checking balanceOf.
+ */
+async function findBalanceSlot(
+  client: SimulationClient,
+  token: Hex,
+  probe: bigint,
+): Promise<Hex | null> {
+  return findMappingKey(client, token, encodeBalanceOf(BUYER), probe, (slot) => [
+    keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [BUYER, slot])),
+    keccak256(encodeAbiParameters([{ type: 'uint256' }, { type: 'address' }], [slot, BUYER])),
+  ]);
+}
+
+/**
+ * Find the storage key of BUYER's allowance for `spender` the same way
+ * (nested mapping: owner, then spender).
+ */
+async function findAllowanceSlot(
+  client: SimulationClient,
+  token: Hex,
+  spender: Hex,
+  probe: bigint,
+): Promise<Hex | null> {
+  const read = encodeFunctionData({ abi: ERC20_ABI, functionName: 'allowance', args: [BUYER, spender] });
+  return findMappingKey(client, token, read, probe, (slot) => {
+    const solidity = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [BUYER, slot]));
+    const vyper = keccak256(encodeAbiParameters([{ type: 'uint256' }, { type: 'address' }], [slot, BUYER]));
+    return [
+      keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [spender, solidity])),
+      keccak256(encodeAbiParameters([{ type: 'bytes32' }, { type: 'address' }], [vyper, spender])),
+    ];
+  });
+}
+
+/**
+ * Override each candidate key (per slot 0..SLOT_SEARCH_LIMIT) with
+ * `probe` and return the one that makes the view call `read` return it.
+ */
+async function findMappingKey(
+  client: SimulationClient,
+  token: Hex,
+  read: Hex,
+  probe: bigint,
+  candidates: (slot: bigint) => Hex[],
+): Promise<Hex | null> {
+  for (let slot = 0n; slot < BigInt(SLOT_SEARCH_LIMIT); slot++) {
+    for (const key of candidates(slot)) {
+      try {
+        const result = await client.call({
+          to: token,
+          data: read,
+          stateOverride: [{ address: token, stateDiff: [{ slot: key, value: toHex(probe, { size: 32 }) }] }],
+        });
+        if (result.data && decodeUint(result.data) === probe) return key;
+      } catch {
+        // reverting view call — try the next candidate
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * One standalone eth_call. A revert is a result (ok: false); anything
+ * else — a provider failure — is thrown so the pool can rotate.
+ */
+async function callOnce(client: SimulationClient, call: RawCall, stateOverride: StateOverride = []): Promise<RawResult> {
+  try {
+    const result = await client.call({ ...call, ...(stateOverride.length > 0 ? { stateOverride } : {}) });
+    return { ok: true, data: result.data ?? '0x' };
+  } catch (error) {
+    if (isRevert(error)) return { ok: false, data: '0x' };
+    throw error;
+  }
+}
+
+/**
+ * Run calls in order within one simulated block. The throwaway accounts
+ * are funded via state overrides so no real balance is needed.
+ */
+async function runSequence(
+  client: SimulationClient,
+  calls: RawCall[],
+  extraOverrides: StateOverride = [],
+): Promise<RawResult[]> {
+  const [block] = await client.simulateBlocks({
+    blocks: [
+      {
+        calls,
+        stateOverrides: [
+          { address: BUYER, balance: parseEther('100') },
+          { address: RECIPIENT, balance: parseEther('1') },
+          ...extraOverrides,
+        ],
+      },
+    ],
+  });
+  return (block?.calls ?? []).map((c) => ({ ok: c.status === 'success', data: c.data }));
+}
+
+function encodeBuy(router: Hex, weth: Hex, token: Hex, value: bigint): RawCall {
+  return {
+    account: BUYER,
+    to: router,
+    value,
+    data: encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'swapExactETHForTokensSupportingFeeOnTransferTokens',
+      args: [0n, [weth, token], BUYER, DEADLINE],
+    }),
+  };
+}
+
+function encodeSell(router: Hex, weth: Hex, token: Hex, amount: bigint): RawCall {
+  return {
+    account: BUYER,
+    to: router,
+    data: encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'swapExactTokensForTokensSupportingFeeOnTransferTokens',
+      args: [amount, 0n, [token, weth], BUYER, DEADLINE],
+    }),
+  };
+}
+
+/** Whether an RPC error (or any error it wraps) says the method doesn't exist on this node */
+function isUnsupportedMethod(error: unknown): boolean {
+  return errorChain(error).some(
+    (e) =>
+      UNSUPPORTED_METHOD_CODES.has((e as { code?: number }).code ?? 0) ||
+      /method .*(not found|not supported|does not exist|is not available)|unsupported method/i.test(
+        (e as Error).message ?? '',
+      ),
+  );
+}
+
+/** Whether an eth_call error is the call reverting (as opposed to the node failing) */
+function isRevert(error: unknown): boolean {
+  return errorChain(error).some(
+    (e) =>
+      (e as { code?: number }).code === 3 ||
+      ['ExecutionRevertedError', 'RawContractError', 'ContractFunctionRevertedError'].includes((e as Error).name) ||
+      /revert/i.test((e as Error).message ?? ''),
+  );
+}
+
+/** An error and the causes it wraps, outermost first */
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  for (let e = error; e && typeof e === 'object' && chain.length < 10; e = (e as { cause?: unknown }).cause) {
+    chain.push(e);
+  }
+  return chain;
+}
+
+/** Owner-only controls present in the token's bytecode */
+function ownerControls(code: string): string[] {
+  const controls = [...scanBytecode(code).selectors].flatMap((selector) => {
+    const signature = TOKEN_CONTROL_SELECTORS.get(selector);
+    return signature ? [signature] : [];
+  });
+  const privileged = findPrivilegedFunctions(code)
+    .filter((f) => f.capability !== 'ownership')
+    .map((f) => f.signature);
+  return [...new Set([...controls, ...privileged])];
+}
+
+function isHoneypot(simulation: TokenSimulation): boolean {
+  return (
+    simulation.status === 'sellBlocked' ||
+    (simulation.sellTaxPct ?? 0) >= HONEYPOT_TAX_PCT ||
+    (simulation.transferTaxPct ?? 0) >= HONEYPOT_TAX_PCT
+  );
+}
+
+/** Percentage lost between expected and received, to 0.1% */
+function taxPct(expected: bigint, received: bigint): number | null {
+  if (expected === 0n) return null;
+  if (received >= expected) return 0;
+  return Number(((expected - received) * 1000n) / expected) / 10;
+}
+
+function encodeQuote(amountIn: bigint, path: Hex[]): Hex {
+  return encodeFunctionData({ abi: ROUTER_ABI, functionName: 'getAmountsOut', args: [amountIn, path] });
+}
+
+function decodeQuote(data: Hex): bigint {
+  const amounts = decodeFunctionResult({ abi: ROUTER_ABI, functionName: 'getAmountsOut', data });
+  return amounts[amounts.length - 1] ?? 0n;
+}
+
+function encodeBalanceOf(account: Hex): Hex {
+  return encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [account] });
+}
+
+function encodeTransfer(to: Hex, amount: bigint): Hex {
+  return encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [to, amount] });
+}
+
+function decodeUint(data: Hex): bigint {
+  return data && data !== '0x' ? BigInt(data.slice(0, 66)) : 0n;
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// Tell-Tale Bot — WalletData Fixtures
+// ============================================================
+// Recorded WalletData as JSON, so scoring can be re-run offline.
+// The only bigint (balance) is stored as a decimal string. One
+// file per address: <dir>/<lowercase address>.json
+// ============================================================
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { WalletData } from '../types/index.js';
+
+export function serializeWalletData(data: WalletData): string {
+  return JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+}
+
+/**
+ * Parse a fixture back into WalletData. Throws when the JSON is not a
+ * WalletData record (missing address / history lists).
+ */
+export function parseWalletData(json: string): WalletData {
+  const raw = JSON.parse(json) as Record<string, unknown>;
+  if (
+    typeof raw.address !== 'string' ||
+    !Array.isArray(raw.transactions) ||
+    !Array.isArray(raw.tokenTransfers) ||
+    !Array.isArray(raw.internalTransactions) ||
+    !Array.isArray(raw.scamFlags)
+  ) {
+    throw new Error('Not a WalletData fixture: missing address, history lists or scamFlags');
+  }
+  return { ...(raw as unknown as WalletData), balance: BigInt((raw.balance as string | number | undefined) ?? 0) };
+}
+
+export function walletFixturePath(dir: string, address: string): string {
+  return join(dir, `${address.toLowerCase()}.json`);
+}
+
+/** Load the fixture recorded for an address; null when there is none */
+export function loadWalletFixture(dir: string, address: string): WalletData | null {
+  let json: string;
+  try {
+    json = readFileSync(walletFixturePath(dir, address), 'utf8');
+  } catch {
+    return null;
+  }
+  return parseWalletData(json);
+}
+
+export function saveWalletFixture(dir: string, data: WalletData): string {
+  const path = walletFixturePath(dir, data.address);
+  writeFileSync(path, serializeWalletData(data) + '\n');
+  return path;
+}
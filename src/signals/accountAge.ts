@@ -0,0 +1,55 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Account Age
+// ============================================================
+// Newer accounts are more frequently associated with scams.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  veryNewDays: 7,
+  newDays: 30,
+  establishedDays: 180,
+  noHistoryScore: 70,
+  veryNewScore: 90,
+  newScore: 60,
+  youngScore: 30,
+  establishedScore: 10,
+};
+
+export const accountAge: SignalModule<typeof DEFAULTS> = {
+  id: 'accountAge',
+  name: 'Account Age',
+  about: 'How long ago the wallet first transacted — brand-new wallets are behind most scams.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    if (data.accountAge === null) {
+      return {
+        score: p.noHistoryScore,
+        description: 'No transaction history found — unable to determine account age.',
+        evidence: ['No transactions on record'],
+      };
+    }
+
+    const days = data.accountAge / 86400;
+    let score: number;
+    let description: string;
+    if (days < p.veryNewDays) {
+      score = p.veryNewScore;
+      description = `Account is very new (${Math.round(days)} days old).`;
+    } else if (days < p.newDays) {
+      score = p.newScore;
+      description = `Account is relatively new (${Math.round(days)} days old).`;
+    } else if (days < p.establishedDays) {
+      score = p.youngScore;
+      description = `Account is ${Math.round(days)} days old.`;
+    } else {
+      score = p.establishedScore;
+      description = `Account is ${Math.round(days / 30)} months old — well-established.`;
+    }
+    const first = data.firstTxTimestamp ? new Date(data.firstTxTimestamp * 1000).toISOString().split('T')[0] : 'unknown';
+
+    return { score, description, evidence: [`First transaction: ${first}`] };
+  },
+};
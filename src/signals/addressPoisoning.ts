@@ -0,0 +1,49 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Address Poisoning (additive)
+// ============================================================
+// From either side: spraying zero-value / dust transfers at scale
+// is the scam itself; being sprayed by lookalikes of real
+// counterparties marks a targeted wallet, worse if it already paid
+// one. Only applies when lookalikes or spraying were found.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+import { describeLookalike } from '../services/poisoning.js';
+
+const DEFAULTS = {
+  perpetratorScore: 95,
+  fellForScore: 60,
+  targetedScore: 35,
+};
+
+export const addressPoisoning: SignalModule<typeof DEFAULTS> = {
+  id: 'addressPoisoning',
+  name: 'Address Poisoning',
+  about: 'Lookalike addresses and dust sprayed at or from the wallet to trick copy-paste transfers.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const poisoning = data.poisoning;
+    if (!poisoning) return null;
+
+    const fellFor = poisoning.pairs.filter((pair) => pair.fellFor);
+    const evidence = [...fellFor, ...poisoning.pairs.filter((pair) => !pair.fellFor)]
+      .slice(0, 5)
+      .map(describeLookalike);
+
+    let score: number;
+    let description: string;
+    if (poisoning.perpetrator) {
+      score = p.perpetratorScore;
+      description = `Zero-value or dust transfers sent to ${poisoning.sprayCounterparties} wallets — address-poisoning at scale.`;
+    } else if (fellFor.length > 0) {
+      score = p.fellForScore;
+      description = `Sent funds to ${fellFor.length} lookalike address(es) after being targeted by address poisoning.`;
+    } else {
+      score = p.targetedScore;
+      description = `Targeted by address poisoning: ${poisoning.pairs.length} lookalike(s) of real counterparties in its history.`;
+    }
+
+    return { score, description, ...(evidence.length > 0 ? { evidence } : {}) };
+  },
+};
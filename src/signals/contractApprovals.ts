@@ -0,0 +1,97 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Contract Approvals
+// ============================================================
+// Live allowances reconstructed from approval logs: what matters
+// is who can still spend the wallet's tokens, not how often it
+// approved. Falls back to counting approve() calls when the logs
+// were unavailable.
+// ============================================================
+
+import { ApprovalSnapshot, SignalModule, SignalOutcome } from '../types/index.js';
+import { describeApproval } from '../services/approvals.js';
+
+const DEFAULTS = {
+  flaggedScore: 100,
+  unverifiedBaseScore: 60,
+  unverifiedPerApproval: 10,
+  unverifiedMaxScore: 95,
+  unlabeledBaseScore: 30,
+  unlabeledPerApproval: 5,
+  unlabeledMaxScore: 50,
+  knownScore: 10,
+  noApprovalsScore: 5,
+  // approve() call counting when logs are unavailable
+  unlimitedCount: 5,
+  unlimitedScore: 70,
+  manyCount: 10,
+  manyScore: 50,
+  someScore: 15,
+};
+
+const UNLIMITED_AMOUNT = 'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff';
+
+export const contractApprovals: SignalModule<typeof DEFAULTS> = {
+  id: 'contractApprovals',
+  name: 'Contract Approvals',
+  about: 'Token allowances still open to other contracts, worst when unlimited or granted to unverified or flagged spenders.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    if (data.approvals) return scoreOutstandingApprovals(data.approvals, p);
+
+    const approveTxs = data.transactions.filter(
+      (tx) =>
+        tx.functionName?.toLowerCase().includes('approve') ||
+        tx.input?.startsWith('0x095ea7b3'), // approve(address,uint256) selector
+    );
+    const unlimitedApprovals = data.transactions.filter(
+      (tx) => tx.input?.startsWith('0x095ea7b3') && tx.input?.includes(UNLIMITED_AMOUNT),
+    );
+
+    if (unlimitedApprovals.length > p.unlimitedCount) {
+      return {
+        score: p.unlimitedScore,
+        description: `${unlimitedApprovals.length} unlimited token approvals — elevated risk of drainer interaction.`,
+      };
+    }
+    if (approveTxs.length > p.manyCount) {
+      return { score: p.manyScore, description: `${approveTxs.length} contract approval transactions detected.` };
+    }
+    if (approveTxs.length > 0) {
+      return { score: p.someScore, description: `${approveTxs.length} contract approval(s) — normal DeFi usage.` };
+    }
+    return { score: p.noApprovalsScore, description: 'No contract approvals detected.' };
+  },
+};
+
+function scoreOutstandingApprovals(snapshot: ApprovalSnapshot, p: typeof DEFAULTS): SignalOutcome {
+  const live = snapshot.approvals;
+  const flagged = live.filter((a) => a.spenderFlag);
+  const high = live.filter((a) => a.risk === 'high');
+  const medium = live.filter((a) => a.risk === 'medium');
+  const evidence = live.slice(0, 8).map(describeApproval);
+
+  let score: number;
+  let description: string;
+  if (flagged.length > 0) {
+    score = p.flaggedScore;
+    description = `${flagged.length} live approval(s) to flagged spenders — tokens can be drained.`;
+  } else if (high.length > 0) {
+    score = Math.min(p.unverifiedMaxScore, p.unverifiedBaseScore + high.length * p.unverifiedPerApproval);
+    description = `${high.length} live unlimited approval(s) to unverified spenders.`;
+  } else if (medium.length > 0) {
+    score = Math.min(p.unlabeledMaxScore, p.unlabeledBaseScore + medium.length * p.unlabeledPerApproval);
+    description = `${medium.length} live approval(s) to unlabeled spenders.`;
+  } else if (live.length > 0) {
+    score = p.knownScore;
+    description = `${live.length} live approval(s), all to known or verified spenders.`;
+  } else {
+    score = p.noApprovalsScore;
+    description =
+      snapshot.revokedCount > 0
+        ? `No live token approvals (${snapshot.revokedCount} revoked, spent or expired).`
+        : 'No token approvals found.';
+  }
+
+  return { score, description, ...(evidence.length > 0 ? { evidence } : {}) };
+}
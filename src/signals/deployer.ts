@@ -0,0 +1,51 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Deployer (contract mode)
+// ============================================================
+// Who created the contract: a flagged deployer taints it, a
+// labeled one vouches for it.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+import { attributeAddress, isTainted } from '../services/attribution.js';
+import { shortenAddress } from '../utils/address.js';
+
+const DEFAULTS = {
+  unknownScore: 40,
+  taintedScore: 95,
+  labeledScore: 5,
+  unlabeledScore: 20,
+};
+
+export const deployer: SignalModule<typeof DEFAULTS> = {
+  id: 'deployer',
+  name: 'Deployer',
+  about: 'Who created the contract and whether that deployer is flagged or a known entity.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const contract = data.contractAnalysis;
+    if (!contract) return null;
+
+    if (!contract.deployer) {
+      return { score: p.unknownScore, description: 'Deployer could not be determined.' };
+    }
+
+    const evidence = [
+      `Deployer: ${contract.deployer}`,
+      ...(contract.creationTxHash ? [`Creation tx: ${contract.creationTxHash}`] : []),
+    ];
+    const attribution = attributeAddress(contract.deployer);
+
+    if (attribution && isTainted(attribution)) {
+      return { score: p.taintedScore, description: `Deployed by a flagged address (${attribution.category}).`, evidence };
+    }
+    if (attribution) {
+      return { score: p.labeledScore, description: `Deployed by ${attribution.label}.`, evidence };
+    }
+    return {
+      score: p.unlabeledScore,
+      description: `Deployed by ${shortenAddress(contract.deployer)} — no known flags on the deployer.`,
+      evidence,
+    };
+  },
+};
@@ -0,0 +1,65 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Deployer History (additive)
+// ============================================================
+// Rug patterns across the contracts the wallet deployed: pulled
+// liquidity, mint-and-dump, renounce-then-drain or scam-database
+// hits. Serial rug-pullers are floored at HIGH however clean their
+// own wallet looks — deployer wallets are often fresh, funded and
+// quiet. Only applies when the wallet deployed contracts.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+import { describeDeployedContract } from '../services/deployerHistory.js';
+
+const DEFAULTS = {
+  scamFlaggedScore: 100,
+  serialRugCount: 2,
+  serialRugScore: 90,
+  rugScore: 70,
+  serialDeployerTokens: 3,
+  serialDeployerScore: 20,
+  cleanScore: 10,
+  serialRugFloor: 75, // minimum total score for serial or scam-flagged deployers
+};
+
+export const deployerHistory: SignalModule<typeof DEFAULTS> = {
+  id: 'deployerHistory',
+  name: 'Deployer History',
+  about: 'Contracts the wallet deployed and whether they were rugged: pulled liquidity, mint-and-dump or renounce-then-drain.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const history = data.deployerHistory;
+    if (!history) return null;
+
+    const rugged = history.contracts.filter((c) => c.patterns.length > 0);
+    const evidence = rugged.slice(0, 5).map(describeDeployedContract);
+    const deployed = `${history.found} contract(s)${history.tokenCount > 0 ? `, ${history.tokenCount} token(s)` : ''}`;
+
+    if (history.contracts.some((c) => c.scamFlags.length > 0)) {
+      return {
+        score: p.scamFlaggedScore,
+        description: `Deployed ${deployed}, including contracts flagged in scam databases.`,
+        evidence,
+        floor: p.serialRugFloor,
+      };
+    }
+    if (rugged.length >= p.serialRugCount) {
+      return {
+        score: p.serialRugScore,
+        description: `Serial rug pattern: ${rugged.length} of ${history.contracts.length} checked deployments show pulled liquidity or dumps.`,
+        evidence,
+        floor: p.serialRugFloor,
+      };
+    }
+    if (rugged.length > 0) {
+      const shows = rugged.length === 1 ? 'one shows' : `${rugged.length} show`;
+      return { score: p.rugScore, description: `Deployed ${deployed}; ${shows} pulled liquidity or a dump.`, evidence };
+    }
+    return {
+      score: history.tokenCount >= p.serialDeployerTokens ? p.serialDeployerScore : p.cleanScore,
+      description: `Deployed ${deployed}; no rug patterns found${history.complete ? '' : ' in the contracts checked'}.`,
+      evidence,
+    };
+  },
+};
@@ -0,0 +1,47 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Drain Pattern (additive)
+// ============================================================
+// A sweeper is part of the theft; a victim swept without any
+// approval or pull most likely leaked its key — funds sent there
+// may be swept again. Only applies when sweeps were found.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+import { describeDrainEvent } from '../services/drains.js';
+
+const DEFAULTS = {
+  sweeperScore: 95,
+  leakedKeyScore: 70,
+  victimScore: 55,
+};
+
+export const drainPattern: SignalModule<typeof DEFAULTS> = {
+  id: 'drainPattern',
+  name: 'Drain Pattern',
+  about: 'Rapid multi-asset sweeps out of the wallet (victim) or into it from other wallets (sweeper).',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const drains = data.drains;
+    if (!drains) return null;
+
+    const evidence = drains.events.slice(0, 5).map(describeDrainEvent);
+    if (drains.role === 'sweeper') {
+      return {
+        score: p.sweeperScore,
+        description: `Appears to be a drainer SWEEPER / collector: pulled or received multi-asset sweeps from ${drains.sources} wallet(s).`,
+        evidence,
+      };
+    }
+
+    const latest = drains.events[drains.events.length - 1]!;
+    const leakedKey = drains.events.some((e) => e.pulled === 0 && !e.grant);
+    return {
+      score: leakedKey ? p.leakedKeyScore : p.victimScore,
+      description: leakedKey
+        ? `Appears to be a drain VICTIM: ${latest.assets.length} assets swept out in minutes by its own key — the key may be compromised.`
+        : `Appears to be a drain VICTIM: ${latest.assets.length} assets pulled out in minutes${latest.grant ? ' shortly after an approval or permit' : ' through allowances'}.`,
+      evidence,
+    };
+  },
+};
@@ -0,0 +1,90 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Funding Source
+// ============================================================
+// Where the wallet's first funds came from, using the multi-hop
+// trace when one was fetched, otherwise the first inbound transfer
+// in the history (a single-hop trace). A trace whose first lookup
+// failed says nothing either way, so the signal is skipped.
+// ============================================================
+
+import { FundingTrace, SignalModule, WalletData } from '../types/index.js';
+import { firstFundingHop, describeFundingHop } from '../services/fundingTracer.js';
+import { isTainted } from '../services/attribution.js';
+
+const DEFAULTS = {
+  noInboundScore: 40,
+  taintedScore: 90,
+  exchangeScore: 5,
+  knownScore: 10,
+  listedScore: 30,
+  unattributedScore: 20,
+};
+
+export const fundingSource: SignalModule<typeof DEFAULTS> = {
+  id: 'fundingSource',
+  name: 'Funding Source',
+  about: 'Where the wallet\'s first funds came from, traced back up to several hops.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const trace = data.fundingTrace ?? localFundingTrace(data);
+    if (trace.hops.length === 0 && trace.stoppedBy === 'error') return null; // unknown, not unfunded
+    if (trace.hops.length === 0) {
+      return {
+        score: p.noInboundScore,
+        description: 'No incoming transactions found — unable to analyze funding source.',
+      };
+    }
+
+    const evidence = trace.hops.map(describeFundingHop);
+    const hops = `${trace.hops.length} hop(s)`;
+    const origin = trace.origin;
+
+    if (origin && isTainted(origin)) {
+      return {
+        score: p.taintedScore,
+        description: `Funding traces back to a flagged source (${origin.category}) within ${hops}.`,
+        evidence,
+      };
+    }
+    if (origin?.category === 'exchange') {
+      return { score: p.exchangeScore, description: `Funded from ${origin.label} (exchange) within ${hops}.`, evidence };
+    }
+    if (origin?.source === 'known') {
+      return {
+        score: p.knownScore,
+        description: `Funding traces to ${origin.label} (${origin.category}) within ${hops}.`,
+        evidence,
+      };
+    }
+    if (origin) {
+      return {
+        score: p.listedScore,
+        description: `Funding traces to a listed address (${origin.category}) within ${hops}.`,
+        evidence,
+      };
+    }
+
+    return {
+      score: p.unattributedScore,
+      description:
+        trace.stoppedBy === 'depth'
+          ? `Funding origin not attributed within ${hops} — no known flagged origins.`
+          : trace.stoppedBy === 'error'
+            ? `Funding trace cut short by a failed lookup after ${hops} — no known flagged origins so far.`
+            : `Funding path ends at an unlabeled address after ${hops} — no known flagged origins.`,
+      evidence,
+    };
+  },
+};
+
+function localFundingTrace(data: WalletData): FundingTrace {
+  const hop = firstFundingHop(data.address, data.transactions, data.internalTransactions, data.tokenTransfers);
+  if (!hop) return { hops: [], origin: null, stoppedBy: 'noInbound', maxDepth: 1 };
+  return {
+    hops: [hop],
+    origin: hop.attribution ?? null,
+    stoppedBy: hop.attribution ? 'labeled' : 'depth',
+    maxDepth: 1,
+  };
+}
@@ -0,0 +1,70 @@
+// ============================================================
+// Tell-Tale Bot — Signal Registry
+// ============================================================
+// Every risk signal is a module implementing SignalModule. A
+// scoring model refers to signals by id; the engine in riskScorer
+// looks them up here. New signals are added with registerSignal()
+// before the first model is loaded.
+// ============================================================
+
+import { SignalModule, SignalParams } from '../types/index.js';
+import { accountAge } from './accountAge.js';
+import { transactionVolume } from './transactionVolume.js';
+import { scamDatabase } from './scamDatabase.js';
+import { largeTransfers } from './largeTransfers.js';
+import { contractApprovals } from './contractApprovals.js';
+import { fundingSource } from './fundingSource.js';
+import { tokenDiversity } from './tokenDiversity.js';
+import { tokenRisk } from './tokenRisk.js';
+import { addressPoisoning } from './addressPoisoning.js';
+import { drainPattern } from './drainPattern.js';
+import { deployerHistory } from './deployerHistory.js';
+import { sourceVerification } from './sourceVerification.js';
+import { upgradeability } from './upgradeability.js';
+import { ownerPrivileges } from './ownerPrivileges.js';
+import { selfDestruct } from './selfDestruct.js';
+import { deployer } from './deployer.js';
+
+const registry = new Map<string, SignalModule>();
+
+/**
+ * Add a signal module. Ids are unique — registering an existing id
+ * throws rather than silently replacing a built-in signal.
+ */
+export function registerSignal<P extends SignalParams>(module: SignalModule<P>): void {
+  if (registry.has(module.id)) {
+    throw new Error(`Signal "${module.id}" is already registered`);
+  }
+  registry.set(module.id, module as unknown as SignalModule);
+}
+
+export function getSignal(id: string): SignalModule | undefined {
+  return registry.get(id);
+}
+
+export function listSignals(): SignalModule[] {
+  return [...registry.values()];
+}
+
+for (const module of [
+  // Wallet mode
+  accountAge,
+  transactionVolume,
+  scamDatabase,
+  largeTransfers,
+  contractApprovals,
+  fundingSource,
+  tokenDiversity,
+  tokenRisk,
+  addressPoisoning,
+  drainPattern,
+  deployerHistory,
+  // Contract mode
+  sourceVerification,
+  upgradeability,
+  ownerPrivileges,
+  selfDestruct,
+  deployer,
+] as SignalModule[]) {
+  registerSignal(module);
+}
@@ -0,0 +1,71 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Large Transfers
+// ============================================================
+// Large outgoing ETH transfers, worst when several leave within
+// a short window.
+// ============================================================
+
+import { formatEther } from 'viem';
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  largeEth: 1,
+  clusterSeconds: 3600,
+  manyCount: 5,
+  noTransactionsScore: 20,
+  clusterScore: 80,
+  manyScore: 50,
+  someScore: 20,
+  noneScore: 5,
+};
+
+export const largeTransfers: SignalModule<typeof DEFAULTS> = {
+  id: 'largeTransfers',
+  name: 'Large Transfers',
+  about: 'Large outgoing ETH transfers, especially several within a short window.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const txs = data.transactions;
+    if (txs.length === 0) {
+      return { score: p.noTransactionsScore, description: 'No transactions to analyze for large transfers.' };
+    }
+
+    const outgoing = txs.filter((tx) => tx.from.toLowerCase() === data.address.toLowerCase());
+    const largeOutgoing = outgoing.filter((tx) => parseFloat(formatEther(BigInt(tx.value))) > p.largeEth);
+
+    // Check for sudden large outflows (multiple large txs in short time)
+    const largeTimestamps = largeOutgoing.map((tx) => parseInt(tx.timeStamp)).sort((a, b) => a - b);
+    let hasCluster = false;
+    for (let i = 1; i < largeTimestamps.length; i++) {
+      if (largeTimestamps[i]! - largeTimestamps[i - 1]! < p.clusterSeconds) {
+        hasCluster = true;
+        break;
+      }
+    }
+
+    let score: number;
+    let description: string;
+    if (hasCluster) {
+      score = p.clusterScore;
+      description = `Detected cluster of ${largeOutgoing.length} large outgoing transfers in short succession.`;
+    } else if (largeOutgoing.length > p.manyCount) {
+      score = p.manyScore;
+      description = `${largeOutgoing.length} large outgoing transfers detected.`;
+    } else if (largeOutgoing.length > 0) {
+      score = p.someScore;
+      description = `${largeOutgoing.length} large outgoing transfer(s) — within normal range.`;
+    } else {
+      score = p.noneScore;
+      description = 'No large outgoing transfers detected.';
+    }
+
+    return {
+      score,
+      description,
+      evidence: largeOutgoing
+        .slice(0, 3)
+        .map((tx) => `${formatEther(BigInt(tx.value))} ETH → ${tx.to.slice(0, 10)}... (tx: ${tx.hash.slice(0, 10)}...)`),
+    };
+  },
+};
@@ -0,0 +1,68 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Owner Privileges (contract mode)
+// ============================================================
+// Mint, pause, blacklist and upgrade functions while an owner is
+// active. Renounced ownership disarms owner-gated functions (proxy
+// upgrades are controlled by the proxy admin, not owner()).
+// ============================================================
+
+import { ContractCapability, SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  mintRisk: 35,
+  blacklistRisk: 30,
+  pauseRisk: 20,
+  upgradeRisk: 15,
+  baseScore: 10, // added to the capability risks while an owner is active
+  renouncedScore: 15,
+  noPrivilegesScore: 5,
+};
+
+/** Parameter holding the risk contributed by each privileged capability */
+const CAPABILITY_PARAM: Partial<Record<ContractCapability, keyof typeof DEFAULTS>> = {
+  mint: 'mintRisk',
+  blacklist: 'blacklistRisk',
+  pause: 'pauseRisk',
+  upgrade: 'upgradeRisk',
+};
+
+export const ownerPrivileges: SignalModule<typeof DEFAULTS> = {
+  id: 'ownerPrivileges',
+  name: 'Owner Privileges',
+  about: 'Mint, pause, blacklist and upgrade powers an active owner holds over the contract.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const contract = data.contractAnalysis;
+    if (!contract) return null;
+
+    const privileged = contract.capabilities.filter((c) => CAPABILITY_PARAM[c] !== undefined);
+    const evidence = [
+      ...(contract.owner ? [`Owner: ${contract.owner}`] : []),
+      ...contract.privilegedFunctions.slice(0, 8).map((fn) => `Function: ${fn}`),
+    ];
+
+    if (privileged.length === 0) {
+      return {
+        score: p.noPrivilegesScore,
+        description: 'No mint, pause, blacklist or upgrade functions detected.',
+        ...(evidence.length > 0 ? { evidence } : {}),
+      };
+    }
+
+    if (contract.ownershipRenounced && !contract.proxy) {
+      return {
+        score: p.renouncedScore,
+        description: `Privileged functions present (${privileged.join(', ')}) but ownership is renounced.`,
+        evidence,
+      };
+    }
+
+    const risk = privileged.reduce((sum, c) => sum + p[CAPABILITY_PARAM[c]!], 0);
+    return {
+      score: Math.min(100, risk + p.baseScore),
+      description: `Owner/admin can ${privileged.join(', ')} — holders depend on the operator's good faith.`,
+      evidence,
+    };
+  },
+};
@@ -0,0 +1,32 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Scam Database
+// ============================================================
+// Matches for the address itself in the local and remote scam
+// databases. Used in both wallet and contract mode.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  perFlagScore: 40,
+};
+
+export const scamDatabase: SignalModule<typeof DEFAULTS> = {
+  id: 'scamDatabase',
+  name: 'Scam Database',
+  about: 'Matches for the address in local and community scam databases.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const flagCount = data.scamFlags.length;
+    if (flagCount === 0) {
+      return { score: 0, description: 'No matches in known scam databases.' };
+    }
+
+    return {
+      score: Math.min(100, flagCount * p.perFlagScore),
+      description: `Found ${flagCount} flag(s) in scam databases.`,
+      evidence: data.scamFlags.map((f) => `[${f.source}] ${f.category}: ${f.description}`),
+    };
+  },
+};
@@ -0,0 +1,33 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Self-Destruct (contract mode)
+// ============================================================
+// A SELFDESTRUCT opcode in the runtime code lets the contract
+// destroy itself and move its ETH.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  presentScore: 80,
+  absentScore: 0,
+};
+
+export const selfDestruct: SignalModule<typeof DEFAULTS> = {
+  id: 'selfDestruct',
+  name: 'Self-Destruct',
+  about: 'Whether the contract code can destroy itself and move its ETH.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const contract = data.contractAnalysis;
+    if (!contract) return null;
+
+    if (contract.capabilities.includes('selfdestruct')) {
+      return {
+        score: p.presentScore,
+        description: 'Bytecode contains SELFDESTRUCT — the contract may be able to destroy itself and move its ETH.',
+      };
+    }
+    return { score: p.absentScore, description: 'No SELFDESTRUCT opcode found.' };
+  },
+};
@@ -0,0 +1,37 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Source Verification (contract mode)
+// ============================================================
+// Unverified source code means the contract's behavior cannot be
+// reviewed.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  unverifiedScore: 80,
+  verifiedScore: 10,
+};
+
+export const sourceVerification: SignalModule<typeof DEFAULTS> = {
+  id: 'sourceVerification',
+  name: 'Source Verification',
+  about: 'Whether the contract source is verified so its behavior can be reviewed.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const contract = data.contractAnalysis;
+    if (!contract) return null;
+
+    if (!contract.verified) {
+      return {
+        score: p.unverifiedScore,
+        description: 'Contract source code is not verified — its behavior cannot be reviewed.',
+      };
+    }
+    return {
+      score: p.verifiedScore,
+      description: `Source code is verified${contract.contractName ? ` (${contract.contractName})` : ''}.`,
+      ...(contract.compilerVersion ? { evidence: [`Compiler: ${contract.compilerVersion}`] } : {}),
+    };
+  },
+};
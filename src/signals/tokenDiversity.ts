@@ -0,0 +1,42 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Token Diversity
+// ============================================================
+// Very many distinct tokens usually means spam / airdrop scams
+// landing in the wallet.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  manyTokens: 50,
+  someTokens: 20,
+  manyScore: 60,
+  someScore: 30,
+  normalScore: 10,
+  noneScore: 15,
+};
+
+export const tokenDiversity: SignalModule<typeof DEFAULTS> = {
+  id: 'tokenDiversity',
+  name: 'Token Diversity',
+  about: 'How many distinct tokens the wallet touched — very many usually means spam airdrops.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const tokenCount = new Set(data.tokenTransfers.map((t) => t.contractAddress.toLowerCase())).size;
+
+    if (tokenCount > p.manyTokens) {
+      return {
+        score: p.manyScore,
+        description: `Interacted with ${tokenCount} unique tokens — may include scam/airdrop tokens.`,
+      };
+    }
+    if (tokenCount > p.someTokens) {
+      return { score: p.someScore, description: `Interacted with ${tokenCount} unique tokens.` };
+    }
+    if (tokenCount > 0) {
+      return { score: p.normalScore, description: `Interacted with ${tokenCount} unique token(s) — normal range.` };
+    }
+    return { score: p.noneScore, description: 'No token transfer activity detected.' };
+  },
+};
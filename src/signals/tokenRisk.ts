@@ -0,0 +1,93 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Token Risk (additive)
+// ============================================================
+// Honeypots, transfer taxes and owner-only controls on tokens the
+// address holds or deployed. Holding a honeypot makes the wallet a
+// likely victim, so held tokens weigh less than deployed ones.
+// Only applies when tokens were simulated.
+// ============================================================
+
+import { zeroAddress } from 'viem';
+import { SignalModule, TokenRisk } from '../types/index.js';
+import { shortenAddress } from '../utils/address.js';
+
+const DEFAULTS = {
+  honeypotScore: 100,
+  heavyTaxPct: 50,
+  heavyTaxScore: 80,
+  taxPct: 10,
+  taxScore: 50,
+  anyTaxScore: 25,
+  buyFailedScore: 60,
+  cleanScore: 5,
+  ownerControlsBonus: 15,
+  heldFactor: 0.6,
+  elevatedScore: 30, // worst token above this is called out in the description
+};
+
+export const tokenRisk: SignalModule<typeof DEFAULTS> = {
+  id: 'tokenRisk',
+  name: 'Token Risk',
+  about: 'Honeypots, transfer taxes and owner-only controls on tokens the wallet holds or deployed.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const tokens = data.tokenRisks;
+    if (!tokens?.length) return null;
+
+    const scored = tokens
+      .map((t) => ({ token: t, score: tokenRiskScore(t, p) }))
+      .sort((a, b) => b.score - a.score);
+    const worst = scored[0]!;
+    const name = (t: TokenRisk) => t.symbol ?? shortenAddress(t.token);
+    const evidence = scored.map(({ token }) => describeTokenRisk(token, name(token)));
+    const honeypots = tokens.filter((t) => t.honeypot);
+
+    let description: string;
+    if (honeypots.length > 0) {
+      const deployedHoneypot = honeypots.find((t) => t.relation !== 'held');
+      description = deployedHoneypot
+        ? `Deployed honeypot token ${name(deployedHoneypot)} — simulated sells fail or are taxed away.`
+        : `Holds ${honeypots.length} honeypot token(s) that cannot be sold (${honeypots.map(name).join(', ')}).`;
+    } else if (worst.score > p.elevatedScore) {
+      description = `Token ${name(worst.token)} shows elevated risk (taxes or owner controls).`;
+    } else {
+      description = `Simulated ${tokens.length} token(s) — no honeypot or abnormal taxes detected.`;
+    }
+
+    return { score: worst.score, description, evidence };
+  },
+};
+
+function tokenRiskScore(token: TokenRisk, p: typeof DEFAULTS): number {
+  const maxTax = Math.max(token.buyTaxPct ?? 0, token.sellTaxPct ?? 0, token.transferTaxPct ?? 0);
+  let score = token.honeypot
+    ? p.honeypotScore
+    : maxTax >= p.heavyTaxPct
+      ? p.heavyTaxScore
+      : maxTax >= p.taxPct
+        ? p.taxScore
+        : maxTax > 0
+          ? p.anyTaxScore
+          : token.simulation === 'buyFailed'
+            ? p.buyFailedScore
+            : p.cleanScore;
+
+  const ownerActive = token.owner !== null && token.owner !== zeroAddress;
+  if (ownerActive && token.ownerFunctions.length > 0) score = Math.min(100, score + p.ownerControlsBonus);
+
+  return token.relation === 'held' ? Math.round(score * p.heldFactor) : score;
+}
+
+function describeTokenRisk(token: TokenRisk, name: string): string {
+  const pct = (v: number | null) => (v === null ? '?' : `${v}%`);
+  const parts = [
+    `${name} (${token.relation})`,
+    token.simulation === 'ok' || token.simulation === 'sellBlocked'
+      ? `buy ${pct(token.buyTaxPct)} / sell ${pct(token.sellTaxPct)} / transfer ${pct(token.transferTaxPct)} tax`
+      : `simulation: ${token.simulation}${token.transferTaxPct !== null ? `, transfer ${token.transferTaxPct}% tax` : ''}`,
+    ...(token.honeypot ? ['HONEYPOT'] : []),
+    ...(token.ownerFunctions.length > 0 ? [`owner controls: ${token.ownerFunctions.slice(0, 4).join(', ')}`] : []),
+  ];
+  return parts.join(' · ');
+}
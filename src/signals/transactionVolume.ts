@@ -0,0 +1,52 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Transaction Volume
+// ============================================================
+// Too little history says nothing good; far too much can mean a
+// bot or mixer.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  veryLowCount: 5,
+  lowCount: 20,
+  highCount: 500,
+  noneScore: 50,
+  veryLowScore: 60,
+  lowScore: 30,
+  highScore: 40,
+  normalScore: 10,
+};
+
+export const transactionVolume: SignalModule<typeof DEFAULTS> = {
+  id: 'transactionVolume',
+  name: 'Transaction Volume',
+  about: 'How much history the wallet has — too little says nothing good, far too much can mean a bot.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const txCount = data.transactionCount;
+    let score: number;
+    let description: string;
+
+    if (txCount === 0) {
+      score = p.noneScore;
+      description = 'No transactions found.';
+    } else if (txCount < p.veryLowCount) {
+      score = p.veryLowScore;
+      description = `Very low transaction count (${txCount}).`;
+    } else if (txCount < p.lowCount) {
+      score = p.lowScore;
+      description = `Low transaction count (${txCount}).`;
+    } else if (txCount > p.highCount) {
+      // Could be a bot or mixer
+      score = p.highScore;
+      description = `Unusually high transaction count (${txCount}) — could indicate automated activity.`;
+    } else {
+      score = p.normalScore;
+      description = `Normal transaction volume (${txCount} transactions).`;
+    }
+
+    return { score, description, evidence: [`Total transactions analyzed: ${txCount}`] };
+  },
+};
@@ -0,0 +1,50 @@
+// ============================================================
+// Tell-Tale Bot — Signal: Upgradeability (contract mode)
+// ============================================================
+// Proxies whose code can be swapped by an admin. EIP-1167 minimal
+// proxies clone a fixed implementation and cannot be upgraded.
+// ============================================================
+
+import { SignalModule } from '../types/index.js';
+
+const DEFAULTS = {
+  notProxyScore: 10,
+  minimalProxyScore: 20,
+  upgradeableScore: 60,
+};
+
+export const upgradeability: SignalModule<typeof DEFAULTS> = {
+  id: 'upgradeability',
+  name: 'Upgradeability',
+  about: 'Whether the contract is a proxy whose code an admin can swap.',
+  defaults: DEFAULTS,
+
+  evaluate(data, p) {
+    const contract = data.contractAnalysis;
+    if (!contract) return null;
+
+    const proxy = contract.proxy;
+    if (!proxy) {
+      return { score: p.notProxyScore, description: 'Not a proxy — contract code cannot be swapped out.' };
+    }
+
+    const evidence = [
+      ...(proxy.implementation ? [`Implementation: ${proxy.implementation}`] : []),
+      ...(proxy.admin ? [`Proxy admin: ${proxy.admin}`] : []),
+      ...(proxy.beacon ? [`Beacon: ${proxy.beacon}`] : []),
+    ];
+
+    if (proxy.kind === 'eip1167') {
+      return {
+        score: p.minimalProxyScore,
+        description: 'Minimal proxy (EIP-1167) — clones a fixed implementation and cannot be upgraded.',
+        evidence,
+      };
+    }
+    return {
+      score: p.upgradeableScore,
+      description: `Upgradeable ${proxy.kind.toUpperCase()} proxy — the code behind this address can be changed by its admin.`,
+      evidence,
+    };
+  },
+};
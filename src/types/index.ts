@@ -21,27 +21,215 @@ export interface RiskSignal {
   evidence?: string[];
 }
 
+/** Tunable cut-offs and sub-scores of one signal, keyed by parameter name */
+export type SignalParams = Record<string, number>;
+
+/** What a signal module found; the engine adds its name and model weight */
+export interface SignalOutcome {
+  score: number; // 0-100
+  description: string;
+  evidence?: string[];
+  floor?: number; // minimum total score this finding forces, whatever the weighted sum
+}
+
+/**
+ * A risk signal module. `defaults` lists every tunable parameter; a
+ * scoring model may override any of them.
+ */
+export interface SignalModule<P extends SignalParams = SignalParams> {
+  id: string; // key in the scoring model file, e.g. "accountAge"
+  name: string; // RiskSignal name shown in reports
+  about: string; // one-sentence explanation for users ("explain <signal>")
+  defaults: P;
+  /** null = not applicable to this address (additive signals) */
+  evaluate(data: WalletData, params: P): SignalOutcome | null;
+}
+
+/** One signal's entry in a scoring model */
+export interface SignalSettings {
+  weight: number; // 0-1
+  enabled?: boolean; // default true
+  params?: SignalParams; // overrides of the module's defaults
+}
+
+/**
+ * Scoring model: which signals run, their weights and cut-offs, and how
+ * the weighted total maps to a risk level. Loaded from JSON.
+ */
+export interface ScoringModel {
+  version: string; // stamped on every report
+  thresholds: { low: number; medium: number }; // score <= low → LOW, <= medium → MEDIUM, else HIGH
+  scamBoost: number[]; // points added by scam-flag count: [0 flags, 1, 2, 3+]
+  wallet: Record<string, SignalSettings>; // signal id → settings, in report order
+  contract: Record<string, SignalSettings>; // contract-mode signal set
+}
+
+/** Weighted verdict and the model that produced it */
+export interface RiskAssessment {
+  score: number; // 0-100
+  level: RiskLevel;
+  signals: RiskSignal[];
+  modelVersion: string;
+}
+
 /** Full wallet analysis result */
 export interface WalletReport {
   address: string;
+  name?: string; // primary Basename / ENS name, when set
   chain: 'Base';
   riskLevel: RiskLevel;
   riskScore: number; // 0-100
+  modelVersion: string; // scoring model that produced the verdict
   confidence: number; // 0-100
   signals: RiskSignal[];
   summary: string;
+  analysis?: AiSummary; // structured LLM output (absent when template fallback was used)
+  validation?: SummaryValidation; // audit trail of the LLM output checks
   keyFindings: string[];
   topInteractions: TopInteraction[];
+  graph?: WalletGraph; // connected wallets and detected clusters
+  contract?: ContractAnalysis; // contract-mode details (absent for wallets)
+  holdings?: HoldingsSnapshot; // current token / NFT holdings
+  approvals?: ApprovalSnapshot; // live allowances with revoke calldata
+  drains?: DrainAnalysis; // drain sweeps and the role the address played
   recommendations: string[];
   disclaimer: string;
   analyzedAt: string;
   responseTimeMs: number;
 }
 
+/**
+ * How strongly two compared addresses appear linked:
+ * - strong: several independent links (e.g. direct transfers and a private common funder)
+ * - moderate: one solid link (direct transfers, a private common funder) or several weaker ones
+ * - weak: only weak links (a shared counterparty, a common exchange funder)
+ * - none: no link found in the fetched history
+ */
+export type RelationshipStrength = 'strong' | 'moderate' | 'weak' | 'none';
+
+/** A counterparty both compared addresses transacted with */
+export interface SharedCounterparty {
+  address: string;
+  label?: string; // known-contract label — shared protocols are weak evidence
+  name?: string; // primary Basename / ENS name
+  txCountA: number;
+  txCountB: number;
+}
+
+/** A transfer from one compared address to the other */
+export interface DirectTransfer {
+  from: string;
+  to: string;
+  asset: string; // "ETH" or token symbol
+  amount: string; // human-readable units
+  txHash: string;
+  timestamp: number;
+}
+
+/** An address in both addresses' funding paths */
+export interface CommonFunder {
+  address: string;
+  attribution?: EntityAttribution; // set when the funder is a labeled entity (e.g. an exchange)
+}
+
+/** How often the two addresses transact within minutes of each other */
+export interface TimingCorrelation {
+  windowSeconds: number;
+  matched: number; // transactions of the less active address with one of the other's within the window
+  total: number; // transactions of the less active address
+  ratio: number; // matched / total, 0-1
+}
+
+/** Overlap between two addresses and the verdict drawn from it */
+export interface WalletRelationship {
+  strength: RelationshipStrength;
+  score: number; // 0-100
+  reasons: string[];
+  sharedCounterparties: SharedCounterparty[];
+  directTransfers: DirectTransfer[]; // newest first, capped
+  directTransferCount: number;
+  commonFunders: CommonFunder[];
+  timing: TimingCorrelation;
+}
+
+/** Two reports side by side plus their relationship */
+export interface WalletComparison {
+  a: WalletReport;
+  b: WalletReport;
+  relationship: WalletRelationship;
+  comparedAt: string;
+}
+
+/** How one address in a batch ended up */
+export type BatchStatus = 'ok' | 'invalid' | 'duplicate' | 'failed';
+
+/** One address's compact verdict in a batch analysis */
+export interface BatchResult {
+  index: number; // position in the request
+  input: string; // as given: an address or a name
+  status: BatchStatus;
+  address?: string; // resolved, checksummed
+  name?: string; // primary name
+  riskLevel?: RiskLevel;
+  riskScore?: number;
+  confidence?: number;
+  isContract?: boolean;
+  summary?: string;
+  error?: string; // why it is invalid, a duplicate or failed
+}
+
+/** Totals for a batch, plus every result in table order */
+export interface BatchSummary {
+  total: number;
+  analyzed: number;
+  invalid: number;
+  duplicates: number; // inputs resolving to an address already in the batch
+  failed: number;
+  byRiskLevel: Record<RiskLevel, number>;
+  rows: BatchResult[]; // analyzed riskiest first, then the rest in input order
+  durationMs: number;
+}
+
+/** Report section a user can ask for on its own */
+export type ReportCategory = 'contract' | 'holdings' | 'findings' | 'interactions' | 'signals' | 'recommendations';
+
+/** Per-signal commentary written by the LLM */
+export interface SignalCommentary {
+  signal: string; // must match a RiskSignal name
+  commentary: string;
+}
+
+/** Structured summary returned by the LLM stage (JSON mode, schema-validated) */
+export interface AiSummary {
+  summary: string;
+  signalCommentary: SignalCommentary[];
+  citedTxHashes: string[];
+  citedAddresses: string[];
+  verdictWording: string; // e.g., "Patterns consistent with normal DeFi usage"
+}
+
+/** Category of a problem found in LLM output */
+export type ViolationKind = 'schema' | 'address' | 'txHash' | 'number' | 'entity';
+
+/** A single claim in LLM output that is not grounded in the input data */
+export interface ValidationViolation {
+  kind: ViolationKind;
+  field: string; // e.g., "summary", "citedAddresses", "signalCommentary[Account Age]"
+  value: string; // the offending text
+  reason: string;
+}
+
+/** Result of validating LLM output against the verified inputs */
+export interface SummaryValidation {
+  outcome: 'accepted' | 'repaired' | 'rejected';
+  violations: ValidationViolation[];
+}
+
 /** Top wallet interactions */
 export interface TopInteraction {
   address: string;
   label?: string; // e.g., "Uniswap V3 Router"
+  name?: string; // primary Basename / ENS name
   txCount: number;
 }
 
@@ -73,6 +261,21 @@ export interface BasescanTokenTransfer {
   tokenSymbol: string;
   tokenDecimal: string;
   contractAddress: string;
+  logIndex?: string; // distinguishes multiple transfers within one tx
+}
+
+/** ERC-721 transfer from Basescan (tokennfttx) */
+export interface BasescanNftTransfer {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  tokenID: string;
+  tokenName: string;
+  tokenSymbol: string;
+  contractAddress: string;
+  logIndex?: string;
 }
 
 /** Wallet data aggregated from all sources */
@@ -83,10 +286,519 @@ export interface WalletData {
   transactions: BasescanTransaction[];
   tokenTransfers: BasescanTokenTransfer[];
   internalTransactions: BasescanTransaction[];
+  nftTransfers?: BasescanNftTransfer[]; // ERC-721 transfers, when fetched
   accountAge: number | null; // seconds since first tx
   firstTxTimestamp: number | null;
   isContract: boolean;
   scamFlags: ScamFlag[];
+  historyCoverage?: HistoryCoverage; // how much history the fetch actually covered
+  fundingTrace?: FundingTrace; // where the wallet's first funds came from
+  graph?: WalletGraph; // counterparty graph around the wallet
+  contractAnalysis?: ContractAnalysis; // set when the address is a contract (not a smart account)
+  smartAccount?: SmartAccount; // code that is a user's wallet — scored with the wallet signals
+  tokenRisks?: TokenRisk[]; // honeypot/tax simulation for held or deployed tokens
+  holdings?: HoldingsSnapshot; // current ERC-20 / ERC-721 / ERC-1155 balances
+  approvals?: ApprovalSnapshot; // outstanding allowances reconstructed from event logs
+  poisoning?: PoisoningAnalysis; // set when lookalike / dust-spraying activity was found
+  drains?: DrainAnalysis; // set when drain sweeps out of or into the wallet were found
+  deployerHistory?: DeployerHistory; // contracts the address created and rug checks on them
+  primaryNames?: Record<string, string>; // lowercase address → primary name, for the target and top counterparties
+}
+
+/** A labeled entity an address resolves to (known contract, exchange, flagged wallet) */
+export interface EntityAttribution {
+  label: string;
+  category: string; // knownContracts category or scam-DB category (e.g., "exchange", "bridge", "mixer")
+  source: 'known' | 'scamDb';
+}
+
+/** One step backwards along a funding path: `from` funded `to` */
+export interface FundingHop {
+  from: string;
+  to: string;
+  asset: string; // "ETH" or token symbol
+  amount: string; // human-readable units
+  txHash: string;
+  timestamp: number;
+  attribution?: EntityAttribution; // set when `from` is a labeled entity
+}
+
+/** Why funding tracing stopped */
+export type FundingTraceStop = 'labeled' | 'depth' | 'noInbound' | 'cycle' | 'error';
+
+/** Funding path from the target back towards its origin */
+export interface FundingTrace {
+  hops: FundingHop[]; // hops[0] funded the target
+  origin: EntityAttribution | null; // attribution of the last hop's funder, if labeled
+  stoppedBy: FundingTraceStop;
+  maxDepth: number;
+}
+
+/** An address in the counterparty graph */
+export interface GraphNode {
+  address: string;
+  label?: string; // known contract / exchange label
+  hop: 0 | 1 | 2; // distance from the target (0 = the target itself)
+  txCount: number; // transfers seen touching this node
+  inbound: number; // transfers received
+  outbound: number; // transfers sent
+}
+
+/** Aggregated transfers from one address to another */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  txCount: number;
+  assets: string[]; // "ETH" and/or token symbols
+  valueEth: string; // total native ETH moved, human-readable
+  firstSeen: number; // unix timestamp
+  lastSeen: number;
+}
+
+/**
+ * Cluster patterns:
+ * - commonFunder: several wallets first funded by the same address
+ * - sweepDestination: several wallets sending funds to the same address
+ * - synchronized: several wallets active within the same short window
+ */
+export type ClusterKind = 'commonFunder' | 'sweepDestination' | 'synchronized';
+
+/** A group of related wallets found in the graph */
+export interface WalletCluster {
+  kind: ClusterKind;
+  anchor: string | null; // shared funder / destination (null for synchronized)
+  members: string[];
+  includesTarget: boolean;
+  description: string;
+}
+
+/** Counterparty graph around a target wallet */
+export interface WalletGraph {
+  center: string;
+  depth: 1 | 2;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  clusters: WalletCluster[];
+  expanded: string[]; // 1-hop neighbors whose own transfers were fetched
+}
+
+/** Proxy standard detected for a contract */
+export type ProxyKind = 'eip1967' | 'eip1967-beacon' | 'eip1822' | 'eip1167';
+
+/** Kinds of code that are a user's wallet rather than an app contract */
+export type SmartAccountKind = 'eip7702' | 'coinbaseSmartWallet' | 'safe';
+
+/** A smart-contract wallet, or an EOA delegating to code under EIP-7702 */
+export interface SmartAccount {
+  kind: SmartAccountKind;
+  implementation: string; // 7702 delegate, proxy implementation or Safe singleton
+}
+
+/** Where a proxy delegates to, and who can change it */
+export interface ProxyInfo {
+  kind: ProxyKind;
+  implementation: string | null;
+  admin: string | null; // EIP-1967 admin slot, if set
+  beacon: string | null; // beacon contract (beacon proxies only)
+}
+
+/** Privileged powers a contract exposes to its owner/admin */
+export type ContractCapability =
+  | 'mint'
+  | 'pause'
+  | 'blacklist'
+  | 'selfdestruct'
+  | 'upgrade'
+  | 'ownership';
+
+/** Contract-mode analysis: source verification, proxy, privileges, deployer */
+export interface ContractAnalysis {
+  verified: boolean;
+  contractName: string | null;
+  compilerVersion: string | null;
+  bytecodeSize: number; // bytes of runtime code at the address
+  proxy: ProxyInfo | null;
+  owner: string | null; // owner() result, if the contract exposes one
+  ownershipRenounced: boolean; // owner() returns the zero address
+  capabilities: ContractCapability[];
+  privilegedFunctions: string[]; // matching function signatures / ABI names
+  deployer: string | null;
+  creationTxHash: string | null;
+}
+
+/**
+ * Outcome of a token buy/transfer/sell simulation:
+ * - ok:          buy, transfer and sell all succeeded
+ * - sellBlocked: buy succeeded but selling reverts (honeypot)
+ * - buyFailed:   the pool quotes a price but buying reverts (trading disabled / blocked)
+ * - noLiquidity: no router pair; only the transfer path was simulated
+ * - unsupported: no pair (or, over plain eth_call, no allowance) and the
+ *                storage slots could not be located
+ * - error:       the simulation itself failed (RPC failure)
+ * Nodes without eth_simulateV1 are checked with standalone eth_calls:
+ * the status is still set but every tax is null (unmeasured).
+ */
+export type TokenSimulationStatus =
+  | 'ok'
+  | 'sellBlocked'
+  | 'buyFailed'
+  | 'noLiquidity'
+  | 'unsupported'
+  | 'error';
+
+/** Honeypot / tax findings for one ERC-20 */
+export interface TokenRisk {
+  token: string;
+  symbol: string | null;
+  relation: 'held' | 'deployed' | 'self'; // how the analyzed address relates to the token
+  simulation: TokenSimulationStatus;
+  buyTaxPct: number | null;
+  sellTaxPct: number | null;
+  transferTaxPct: number | null;
+  honeypot: boolean;
+  owner: string | null;
+  ownerFunctions: string[]; // owner-only controls found in bytecode (fees, trading, limits, mint, ...)
+}
+
+/** Token standards tracked in a holdings snapshot */
+export type TokenStandard = 'ERC-20' | 'ERC-721' | 'ERC-1155';
+
+/** One token (or NFT collection) currently held */
+export interface TokenHolding {
+  token: string;
+  standard: TokenStandard;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null; // null for NFTs
+  balance: string; // human-readable units (ERC-20) or item count (NFTs)
+  rawBalance: string; // integer balance as returned by the chain
+  tokenIds?: string[]; // held token IDs, when known (NFTs)
+  valueUsd: number | null; // null when the explorer has no price
+  unsolicited: boolean; // received without the wallet ever sending a tx that moved it
+  spam: boolean;
+  spamReasons: string[];
+}
+
+/** Current holdings of an address */
+export interface HoldingsSnapshot {
+  source: 'blockscout' | 'rpc'; // rpc = balanceOf multicall over transferred ERC-20s only
+  ethBalance: string; // human-readable ETH
+  tokens: TokenHolding[]; // ERC-20 balances, highest value first
+  nfts: TokenHolding[]; // ERC-721 / ERC-1155 holdings
+  spamCount: number;
+  totalValueUsd: number | null; // priced ERC-20s only
+  complete: boolean; // false when the explorer listing was cut short or NFTs are unavailable
+}
+
+/**
+ * How an allowance was granted:
+ * - erc20:    approve / increaseAllowance / EIP-2612 permit (Approval event)
+ * - erc721:   approve for a single NFT (Approval event with indexed tokenId)
+ * - operator: setApprovalForAll over a whole ERC-721 / ERC-1155 collection
+ * - permit2:  Uniswap Permit2 allowance (approve / permit)
+ */
+export type ApprovalKind = 'erc20' | 'erc721' | 'operator' | 'permit2';
+
+/** Risk of leaving an allowance in place */
+export type ApprovalRisk = 'high' | 'medium' | 'low';
+
+/** One outstanding allowance held by a spender */
+export interface TokenApproval {
+  kind: ApprovalKind;
+  token: string;
+  tokenSymbol: string | null;
+  spender: string;
+  spenderLabel: string | null; // knownContracts label
+  spenderFlag: string | null; // scam-DB category, if flagged
+  spenderVerified: boolean | null; // verified source; null when not checked
+  amount: string; // raw allowance (erc20 / permit2), token ID (erc721), "all" (operator)
+  displayAmount: string; // "unlimited", "250.5", "#42", "all NFTs"
+  unlimited: boolean; // max-uint allowance or operator approval
+  expiration: number | null; // unix timestamp (permit2 only)
+  txHash: string; // tx of the latest approval
+  timestamp: number;
+  risk: ApprovalRisk;
+  riskScore: number; // 0-100, used for ranking
+  reasons: string[];
+  revoke: RevokeCall; // transaction that removes this allowance
+}
+
+/** Unsigned transaction that revokes an allowance */
+export interface RevokeCall {
+  to: string;
+  data: string; // approve(spender, 0) / setApprovalForAll(spender, false) / Permit2 approve(token, spender, 0, 0)
+}
+
+/** Outstanding allowances of a wallet, reconstructed from event logs */
+export interface ApprovalSnapshot {
+  approvals: TokenApproval[]; // live allowances, riskiest first
+  eventsScanned: number;
+  revokedCount: number; // allowances granted and later revoked, spent or expired
+  verifiedOnchain: boolean; // allowances were re-read with eth_call
+  complete: boolean; // false when a log query failed or was cut short
+}
+
+/**
+ * How a lookalike address showed up in a wallet's history:
+ * - zeroValue:        0-amount transfer (often a spoofed transferFrom)
+ * - dust:             a tiny ETH or token amount
+ * - counterfeitToken: a token copying the symbol of one the wallet uses
+ */
+export type PoisoningKind = 'zeroValue' | 'dust' | 'counterfeitToken';
+
+/** A lookalike of a genuine counterparty (same leading and trailing characters) */
+export interface LookalikePair {
+  genuine: string; // counterparty the wallet really transacted with
+  lookalike: string; // address mimicking it
+  kind: PoisoningKind;
+  asset: string; // "ETH" or token symbol
+  txHash: string; // first poisoning transfer
+  timestamp: number;
+  fellFor: boolean; // the wallet later sent real value to the lookalike
+}
+
+/** Address-poisoning and dusting findings for a wallet */
+export interface PoisoningAnalysis {
+  pairs: LookalikePair[]; // the wallet as a victim
+  suspiciousTransfers: number; // zero-value / dust / counterfeit transfers touching the wallet
+  sprayCounterparties: number; // distinct addresses the wallet itself sent such transfers to
+  perpetrator: boolean; // zero-value / dust transfers it sent to many wallets dominate what it sends
+}
+
+/**
+ * Which side of a drain the wallet is on:
+ * - victim:  its assets were swept out in a rapid multi-asset burst
+ * - sweeper: it pulled or collected such sweeps from other wallets
+ */
+export type DrainRole = 'victim' | 'sweeper';
+
+/** Asset class moved in a sweep */
+export type DrainAssetKind = 'native' | 'erc20' | 'nft';
+
+/** A rapid multi-asset outflow from one wallet to one or two destinations */
+export interface DrainEvent {
+  source: string; // wallet the assets left
+  destinations: string[];
+  assets: string[]; // "ETH", token symbols, "SYMBOL #id" for NFTs
+  assetKinds: DrainAssetKind[];
+  transfers: number;
+  pulled: number; // transfers the source did not sign (allowance / permit spends)
+  startedAt: number;
+  endedAt: number;
+  grant: { spender: string; txHash: string; timestamp: number } | null; // approval or permit shortly before
+  txHashes: string[];
+}
+
+/** Drain-pattern findings for a wallet */
+export interface DrainAnalysis {
+  role: DrainRole;
+  events: DrainEvent[]; // victim: sweeps out of the wallet; sweeper: sweeps into / executed by it
+  sources: number; // distinct wallets swept (1 for a victim)
+}
+
+/**
+ * Rug-pull patterns on a deployed contract:
+ * - liquidityRemoved:  the deployer pulled liquidity it had added
+ * - renounceThenDrain: ownership renounced, then liquidity pulled or supply dumped
+ * - mintAndDump:       supply minted to the deployer and mostly sold for ETH
+ * - scamFlagged:       the contract is in the scam database
+ */
+export type RugPattern = 'liquidityRemoved' | 'renounceThenDrain' | 'mintAndDump' | 'scamFlagged';
+
+/** A contract the address created, with rug checks */
+export interface DeployedContract {
+  address: string;
+  txHash: string; // creation transaction
+  timestamp: number | null;
+  via: 'direct' | 'factory'; // CREATE from the wallet, or a factory called by it
+  symbol: string | null; // token symbol when the contract is a token the wallet moved
+  patterns: RugPattern[];
+  evidence: string[];
+  scamFlags: ScamFlag[];
+}
+
+/** Contracts deployed by an address */
+export interface DeployerHistory {
+  contracts: DeployedContract[]; // checked contracts, newest first
+  found: number; // creations found (may exceed the checked list)
+  tokenCount: number; // checked contracts that are tokens
+  rugCount: number; // checked contracts showing any rug pattern
+  complete: boolean; // every creation found was checked and the Blockscout scan finished
+}
+
+/** Unsigned transaction submitted for a pre-signing check */
+export interface PrecheckInput {
+  to: string;
+  data: string; // calldata ("0x" for a plain ETH transfer)
+  value: string; // wei, decimal string
+  from?: string; // signer, when known — used for the simulation
+}
+
+/** What a decoded call does */
+export type CallAction =
+  | 'approval' // approve / increaseAllowance / Permit2 approve
+  | 'operator' // setApprovalForAll(…, true)
+  | 'permit' // EIP-2612 permit submitted onchain
+  | 'revoke' // allowance set to zero / operator removed
+  | 'transfer' // ERC-20 / NFT transfer or transferFrom
+  | 'multicall' // batch of inner calls
+  | 'nativeTransfer' // ETH only, no calldata
+  | 'contractCall' // decoded from a verified ABI, no special meaning
+  | 'unknown'; // selector not recognized
+
+/** A call decoded against known selectors or the target's verified ABI */
+export interface DecodedCall {
+  target: string;
+  selector: string | null;
+  signature: string | null; // e.g. "approve(address,uint256)"
+  source: 'known' | 'abi' | null; // where the signature came from
+  action: CallAction;
+  args: string[]; // stringified arguments, in order
+  spender?: string; // approvals, permits, operators
+  recipient?: string; // transfers
+  amount?: string; // raw amount / token ID
+  unlimited?: boolean;
+  calls?: DecodedCall[]; // inner calls of a multicall
+}
+
+/** An address involved in a checked transaction */
+export interface PrecheckParty {
+  address: string;
+  role: 'target' | 'spender' | 'operator' | 'recipient';
+  label: string | null;
+  scamFlags: ScamFlag[];
+  isContract: boolean | null; // null when the lookup failed
+  contract: ContractAnalysis | null;
+}
+
+/** Net asset movement for the signer in a simulation */
+export interface BalanceChange {
+  asset: string; // token address, or "ETH"
+  symbol: string | null;
+  delta: string; // signed amount in whole units (ETH, decimals applied; NFTs in items)
+}
+
+/** eth_call / eth_simulateV1 result for the checked transaction */
+export interface PrecheckSimulation {
+  status: 'success' | 'reverted' | 'unavailable';
+  from: string; // account the call was simulated from
+  signerKnown: boolean; // false when simulated from a placeholder account
+  revertReason: string | null;
+  gasUsed: string | null;
+  balanceChanges: BalanceChange[];
+}
+
+/** Risk verdict for an unsigned transaction (WalletReport-style) */
+export interface PrecheckReport {
+  transaction: PrecheckInput;
+  chain: 'Base';
+  riskLevel: RiskLevel;
+  riskScore: number; // 0-100
+  modelVersion: string; // scoring model whose thresholds and boosts were applied
+  confidence: number; // 0-100
+  signals: RiskSignal[];
+  summary: string;
+  decoded: DecodedCall;
+  parties: PrecheckParty[];
+  simulation: PrecheckSimulation;
+  keyFindings: string[];
+  recommendations: string[];
+  disclaimer: string;
+  analyzedAt: string;
+  responseTimeMs: number;
+}
+
+/** Ground truth for an address in a calibration dataset */
+export type GroundTruth = 'scam' | 'benign';
+
+export interface LabeledAddress {
+  address: string;
+  label: GroundTruth;
+  source?: string; // dataset file / tag the label came from
+}
+
+/** Binary verdict quality when levels at or above `flagLevel` count as "scam" */
+export interface OperatingPoint {
+  flagLevel: Exclude<RiskLevel, 'LOW'>;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number | null; // null when nothing was flagged
+  recall: number | null; // null when there are no scams
+  accuracy: number;
+  falsePositiveRate: number | null;
+}
+
+/** Precision / recall of one level read as a prediction (LOW → benign, MEDIUM/HIGH → scam) */
+export interface LevelMetrics {
+  predicts: GroundTruth;
+  count: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+/** ROC point for "scam when raw score > threshold" */
+export interface RocPoint {
+  threshold: number;
+  truePositiveRate: number;
+  falsePositiveRate: number;
+}
+
+/** Mean weighted contribution (score × weight) of a signal per class */
+export interface SignalContribution {
+  name: string;
+  present: number; // samples where the signal ran
+  meanScam: number;
+  meanBenign: number;
+  separation: number; // meanScam - meanBenign
+}
+
+/** Offline scoring evaluation over labeled fixtures */
+export interface CalibrationReport {
+  modelVersion: string;
+  samples: number;
+  scams: number;
+  benign: number;
+  missingFixtures: string[]; // labeled addresses with no recorded WalletData
+  confusion: Record<GroundTruth, Record<RiskLevel, number>>;
+  levels: Record<RiskLevel, LevelMetrics>;
+  operatingPoints: OperatingPoint[];
+  roc: RocPoint[];
+  auc: number | null; // null unless both classes are present
+  signals: SignalContribution[];
+  suggestedThresholds: { low: number; medium: number } | null;
+}
+
+/** How deep to walk an address's history when paginating */
+export interface HistoryDepth {
+  maxRecords: number; // stop after this many records per list
+  maxAgeDays?: number; // stop at records older than this (time window)
+  startBlock?: number; // block range lower bound (inclusive)
+  endBlock?: number; // block range upper bound (inclusive)
+  pageSize?: number; // records per API call
+}
+
+/** Why a paginated fetch stopped */
+export type HistoryStopReason = 'end' | 'maxRecords' | 'timeWindow' | 'maxPages' | 'error';
+
+/** Coverage of a single paginated list (txs, internal txs, token transfers) */
+export interface ListCoverage {
+  fetched: number;
+  pages: number;
+  complete: boolean; // true when every record within the block range was fetched
+  stoppedBy: HistoryStopReason;
+  oldestTimestamp: number | null;
+  newestTimestamp: number | null;
+}
+
+/** How much of an address's history a fetch covered */
+export interface HistoryCoverage {
+  depth: HistoryDepth;
+  transactions: ListCoverage;
+  internalTransactions: ListCoverage;
+  tokenTransfers: ListCoverage;
+  nftTransfers?: ListCoverage;
 }
 
 /** Flag from scam database matching */
@@ -113,6 +825,7 @@ export interface NeynarCastEvent {
     };
     text: string;
     parent_hash?: string | null;
+    embeds?: CastEmbed[];
     mentioned_profiles: Array<{
       fid: number;
       username: string;
@@ -121,9 +834,62 @@ export interface NeynarCastEvent {
   created_at?: number;
 }
 
+/** A cast embed: a URL or a quoted cast */
+export interface CastEmbed {
+  url?: string;
+  cast?: { text?: string };
+}
+
+/** Verbs the bot answers to when mentioned */
+export type CommandVerb =
+  | 'analyze'
+  | 'details'
+  | 'compare'
+  | 'explain'
+  | 'report'
+  | 'approvals'
+  | 'precheck'
+  | 'help';
+
+/**
+ * A mention parsed into a command. `usage` means it wasn't understood:
+ * reply with `message` instead of running anything.
+ */
+export type BotCommand =
+  | { verb: 'analyze'; addresses: string[]; deep: boolean } // one report per address
+  | { verb: 'details'; address: string; deep: boolean }
+  | { verb: 'compare'; addresses: [string, string]; deep: boolean }
+  | { verb: 'explain'; signal: string } // signal module id
+  | { verb: 'report'; category: ReportCategory | 'approvals'; address: string; deep: boolean }
+  | { verb: 'approvals'; address: string }
+  | { verb: 'precheck'; input: PrecheckInput }
+  | { verb: 'help'; topic: CommandVerb | null }
+  | { verb: 'usage'; message: string };
+
 /** Config for RPC provider fallback */
 export interface RpcProviderConfig {
   name: string;
   url: string;
   priority: number; // lower = try first
 }
+
+/** LLM backend used for the summary stage */
+export type SummaryProviderName = 'openai' | 'openai-compatible' | 'template';
+
+/** Record/replay of upstream responses (off = live network only) */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/** One upstream call captured in a fixture bundle */
+export interface FixtureEntry {
+  source: string; // basescan, blockscout, rpc, chainabuse, openai, neynar
+  request: unknown; // what identifies the call (URL params, JSON-RPC method + params, ...)
+  response?: unknown;
+  error?: string; // the call failed — replayed as a thrown Error
+}
+
+/** Every upstream response seen during one analysis, in call order */
+export interface FixtureBundle {
+  name: string;
+  recordedAt: string; // ISO timestamp
+  entries: FixtureEntry[];
+}
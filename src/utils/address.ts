@@ -22,6 +22,47 @@ export function extractAddress(text: string): string | null {
   }
 }
 
+/**
+ * Extract every distinct valid address from a text string, in order of
+ * appearance, checksummed. Hex runs longer than an address (tx hashes,
+ * calldata) are skipped.
+ */
+export function extractAddresses(text: string): string[] {
+  const addresses: string[] = [];
+  for (const [raw] of text.matchAll(/\b0x[a-fA-F0-9]{40}\b/g)) {
+    if (!isAddress(raw, { strict: false })) continue;
+    const address = getAddress(raw);
+    if (!addresses.includes(address)) addresses.push(address);
+  }
+  return addresses;
+}
+
+// Basenames and ENS names ("alice.base.eth", "vitalik.eth"). "@name.eth"
+// is a Farcaster mention, not a wallet, so a leading "@" doesn't match.
+const NAME_PATTERN = /(?<![@\w.-])(?:[a-z0-9-]+\.)+eth\b/gi;
+
+/**
+ * Whether a string is a single Basename / ENS name.
+ */
+export function isName(text: string): boolean {
+  return /^(?:[a-z0-9-]+\.)+eth$/i.test(text);
+}
+
+/**
+ * Extract every distinct address or name from a text string, in order
+ * of appearance. Addresses come back checksummed, names lowercase —
+ * names still need resolving before use.
+ */
+export function extractTargets(text: string): string[] {
+  const pattern = new RegExp(`\\b0x[a-fA-F0-9]{40}\\b|${NAME_PATTERN.source}`, 'gi');
+  const targets: string[] = [];
+  for (const [raw] of text.matchAll(pattern)) {
+    const target = isName(raw) ? raw.toLowerCase() : extractAddress(raw);
+    if (target && !targets.includes(target)) targets.push(target);
+  }
+  return targets;
+}
+
 /**
  * Check if a string contains a valid Ethereum address.
  */
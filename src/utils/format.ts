@@ -0,0 +1,24 @@
+// ============================================================
+// Tell-Tale Bot — Value Parsing & Formatting Utilities
+// ============================================================
+
+/**
+ * Parse an API amount string, treating anything malformed as zero.
+ */
+export function safeBigInt(value: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * A gap between two events, rounded to the unit that reads best:
+ * "5 min", "3 h", "12 days".
+ */
+export function formatDelay(seconds: number): string {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 2 * 86400) return `${Math.round(seconds / 3600)} h`;
+  return `${Math.round(seconds / 86400)} days`;
+}
@@ -69,10 +69,10 @@ export class TtlCache<T> {
 
 /**
  * Per-user rate limiter for bot abuse prevention.
- * Tracks queries per FID within a time window.
+ * Tracks queries per FID (or per client IP for the API) within a time window.
  */
 export class UserRateLimiter {
-  private queries = new Map<number, number[]>();
+  private queries = new Map<number | string, number[]>();
 
   constructor(
     private maxQueries: number,
@@ -80,21 +80,31 @@ export class UserRateLimiter {
   ) {}
 
   /**
-   * Check if a user (by FID) is rate-limited.
-   * Returns true if allowed, false if rate-limited.
+   * Check if a user (by FID or client IP) is rate-limited.
+   * Returns true if allowed, false if rate-limited. `cost` queries are
+   * recorded at once (a mention analyzing several addresses).
    */
-  checkAndRecord(fid: number): boolean {
+  checkAndRecord(user: number | string, cost = 1): boolean {
     const now = Date.now();
-    const userTimestamps = (this.queries.get(fid) || []).filter(
-      (t) => now - t < this.windowMs,
-    );
+    const userTimestamps = this.recent(user, now);
 
-    if (userTimestamps.length >= this.maxQueries) {
+    if (userTimestamps.length + cost > this.maxQueries) {
       return false;
     }
 
-    userTimestamps.push(now);
-    this.queries.set(fid, userTimestamps);
+    for (let i = 0; i < cost; i++) userTimestamps.push(now);
+    this.queries.set(user, userTimestamps);
     return true;
   }
+
+  /**
+   * Queries the user can still make in the current window.
+   */
+  remaining(user: number | string): number {
+    return Math.max(0, this.maxQueries - this.recent(user, Date.now()).length);
+  }
+
+  private recent(user: number | string, now: number): number[] {
+    return (this.queries.get(user) || []).filter((t) => now - t < this.windowMs);
+  }
 }
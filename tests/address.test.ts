@@ -2,7 +2,14 @@
 // Tests — Address Parsing Utilities
 // ============================================================
 
-import { extractAddress, containsAddress, shortenAddress } from '../src/utils/address';
+import {
+  extractAddress,
+  extractAddresses,
+  extractTargets,
+  isName,
+  containsAddress,
+  shortenAddress,
+} from '../src/utils/address';
 
 describe('extractAddress', () => {
   it('extracts a valid checksummed address', () => {
@@ -44,6 +51,48 @@ describe('extractAddress', () => {
   });
 });
 
+describe('extractAddresses', () => {
+  it('returns every distinct address in order, checksummed', () => {
+    const text =
+      'compare 0x742d35cc6634c0532925a3b844bc9e7595f8b3a1 with 0x0000000000000000000000000000000000000001 ' +
+      'and 0x742D35Cc6634C0532925A3b844Bc9E7595F8B3A1 again';
+    expect(extractAddresses(text)).toEqual([
+      '0x742D35Cc6634C0532925A3b844Bc9E7595F8B3A1',
+      '0x0000000000000000000000000000000000000001',
+    ]);
+  });
+
+  it('skips hex runs longer than an address', () => {
+    expect(extractAddresses('0x' + 'ab'.repeat(32))).toEqual([]);
+    expect(extractAddresses('nothing here')).toEqual([]);
+  });
+});
+
+describe('isName', () => {
+  it('matches Basenames and ENS names only', () => {
+    expect(isName('alice.base.eth')).toBe(true);
+    expect(isName('Vitalik.eth')).toBe(true);
+    expect(isName('eth')).toBe(false);
+    expect(isName('alice.base.eth please')).toBe(false);
+    expect(isName('example.com')).toBe(false);
+  });
+});
+
+describe('extractTargets', () => {
+  it('returns addresses and lowercased names in order of appearance', () => {
+    const text = 'compare Alice.base.eth with 0x742d35cc6634c0532925a3b844bc9e7595f8b3a1, then vitalik.eth';
+    expect(extractTargets(text)).toEqual([
+      'alice.base.eth',
+      '0x742D35Cc6634C0532925A3b844Bc9E7595F8B3A1',
+      'vitalik.eth',
+    ]);
+  });
+
+  it('skips @-mentions of Farcaster usernames', () => {
+    expect(extractTargets('@TellTaleBot @dwr.eth bob.eth')).toEqual(['bob.eth']);
+  });
+});
+
 describe('containsAddress', () => {
   it('returns true for text containing an address', () => {
     expect(containsAddress('Send to 0x742d35Cc6634C0532925a3b844Bc9e7595f8b3a1')).toBe(true);
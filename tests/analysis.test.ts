@@ -0,0 +1,182 @@
+// ============================================================
+// Tests — Analysis Pipeline (offline)
+// ============================================================
+// Runs runAnalysis end-to-end with the data fetcher mocked and the
+// template summary provider, so no outbound calls are made.
+// ============================================================
+
+import { runAnalysis, runComparison } from '../src/services/analysis';
+import { fetchWalletData } from '../src/services/dataFetcher';
+import { SummaryProvider } from '../src/services/summaryProvider';
+import { WalletData } from '../src/types';
+
+jest.mock('../src/services/dataFetcher');
+
+const mockFetchWalletData = fetchWalletData as jest.MockedFunction<typeof fetchWalletData>;
+
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f8b3a1';
+
+function makeWalletData(): WalletData {
+  return {
+    address: ADDRESS,
+    balance: 1000000000000000000n,
+    transactionCount: 120,
+    transactions: [],
+    tokenTransfers: [],
+    internalTransactions: [],
+    accountAge: 400 * 86400,
+    firstTxTimestamp: Math.floor(Date.now() / 1000) - 400 * 86400,
+    isContract: false,
+    scamFlags: [],
+  };
+}
+
+describe('runAnalysis', () => {
+  beforeEach(() => {
+    mockFetchWalletData.mockResolvedValue(makeWalletData());
+  });
+
+  it('produces a full report with the offline template provider', async () => {
+    const report = await runAnalysis(ADDRESS);
+
+    expect(mockFetchWalletData).toHaveBeenCalledWith(ADDRESS, undefined);
+    expect(report.address).toBe(ADDRESS);
+    expect(report.signals).toHaveLength(7);
+    expect(report.analysis).toBeDefined();
+    expect(report.summary).toBe(report.analysis!.summary);
+    expect(report.summary).toContain(`(${report.riskScore}/100)`);
+    expect(report.disclaimer).toContain('DYOR');
+  });
+
+  it('falls back to the template summary when the provider returns malformed output', async () => {
+    const broken: SummaryProvider = {
+      name: 'openai',
+      generate: async () => 'definitely not json',
+    };
+
+    const report = await runAnalysis(ADDRESS, broken);
+    expect(report.analysis).toBeUndefined();
+    expect(report.summary).toContain(`(${report.riskScore}/100)`);
+  });
+
+  it('falls back when the provider throws', async () => {
+    const failing: SummaryProvider = {
+      name: 'openai-compatible',
+      generate: async () => {
+        throw new Error('connection refused');
+      },
+    };
+
+    const report = await runAnalysis(ADDRESS, failing);
+    expect(report.analysis).toBeUndefined();
+    expect(report.summary.length).toBeGreaterThan(0);
+  });
+
+  it('keeps structured output from a well-behaved provider', async () => {
+    const provider: SummaryProvider = {
+      name: 'openai',
+      generate: async () =>
+        JSON.stringify({
+          summary: 'Indicators suggest an established wallet.',
+          verdictWording: 'Patterns consistent with normal usage',
+          signalCommentary: [{ signal: 'Account Age', commentary: 'Over a year old.' }],
+          citedTxHashes: [],
+          citedAddresses: [ADDRESS],
+        }),
+    };
+
+    const report = await runAnalysis(ADDRESS, provider);
+    expect(report.summary).toBe('Indicators suggest an established wallet.');
+    expect(report.analysis?.signalCommentary[0]?.commentary).toBe('Over a year old.');
+  });
+
+  it('records validation violations on the report', async () => {
+    const provider: SummaryProvider = {
+      name: 'openai',
+      generate: async () =>
+        JSON.stringify({
+          summary: 'Indicators suggest a wallet with 9999 transactions.',
+          verdictWording: 'Patterns consistent with heavy usage',
+          signalCommentary: [],
+          citedTxHashes: [],
+          citedAddresses: [],
+        }),
+    };
+
+    const report = await runAnalysis(ADDRESS, provider);
+    expect(report.analysis).toBeUndefined();
+    expect(report.validation?.outcome).toBe('rejected');
+    expect(report.validation?.violations[0]?.kind).toBe('number');
+  });
+
+  it('records schema failures as rejected', async () => {
+    const report = await runAnalysis(ADDRESS, { name: 'openai', generate: async () => '{}' });
+    expect(report.validation?.outcome).toBe('rejected');
+    expect(report.validation?.violations.every((v) => v.kind === 'schema')).toBe(true);
+  });
+
+  it('carries the wallet graph onto the report and surfaces target clusters', async () => {
+    const member = (c: string) => '0x' + c.repeat(40);
+    mockFetchWalletData.mockResolvedValue({
+      ...makeWalletData(),
+      graph: {
+        center: ADDRESS.toLowerCase(),
+        depth: 2,
+        nodes: [],
+        edges: [],
+        clusters: [
+          {
+            kind: 'commonFunder',
+            anchor: ADDRESS.toLowerCase(),
+            members: [member('a'), member('b'), member('c')],
+            includesTarget: true,
+            description: '3 wallets first funded by the target within 24h',
+          },
+        ],
+        expanded: [],
+      },
+    });
+
+    const report = await runAnalysis(ADDRESS);
+    expect(report.graph?.clusters).toHaveLength(1);
+    expect(report.keyFindings).toContain('Wallet cluster: 3 wallets first funded by the target within 24h');
+  });
+});
+
+
+describe('runComparison', () => {
+  const OTHER = '0x' + 'c3'.repeat(20);
+
+  it('analyzes both addresses and judges the link from their history', async () => {
+    mockFetchWalletData.mockImplementation(async (address) => ({
+      ...makeWalletData(),
+      address,
+      transactions: [
+        {
+          blockNumber: '1',
+          timeStamp: '1700000000',
+          hash: '0x' + '1'.repeat(64),
+          from: ADDRESS.toLowerCase(),
+          to: OTHER,
+          value: '1000000000000000000',
+          gas: '21000',
+          gasUsed: '21000',
+          isError: '0',
+          functionName: '',
+          contractAddress: '',
+          input: '0x',
+        },
+      ],
+    }));
+
+    const depth = { maxRecords: 5000 };
+    const comparison = await runComparison(ADDRESS, OTHER, undefined, depth);
+
+    expect(mockFetchWalletData).toHaveBeenCalledWith(ADDRESS, depth);
+    expect(mockFetchWalletData).toHaveBeenCalledWith(OTHER, depth);
+    expect(comparison.a.address).toBe(ADDRESS);
+    expect(comparison.b.address).toBe(OTHER);
+    expect(comparison.relationship.directTransferCount).toBe(1);
+    expect(comparison.relationship.strength).toBe('moderate');
+  });
+});
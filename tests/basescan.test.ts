@@ -0,0 +1,293 @@
+// ============================================================
+// Tests — Basescan Paginated History Fetch
+// ============================================================
+
+import axios from 'axios';
+import {
+  getTransactionHistory,
+  getTokenTransferHistory,
+  getNftTransferHistory,
+  getCreatedContracts,
+  getEarliestTransfers,
+  defaultHistoryDepth,
+  deepHistoryDepth,
+} from '../src/services/basescan';
+import { BasescanTransaction } from '../src/types';
+
+jest.mock('axios');
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+const ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const NOW = Math.floor(Date.now() / 1000);
+
+/** Build `count` txs, newest first, starting `offset` records back */
+function makeTxs(count: number, offset = 0, secondsApart = 3600): BasescanTransaction[] {
+  return Array.from({ length: count }, (_, i) => {
+    const n = offset + i;
+    return {
+      blockNumber: String(2000000 - n),
+      timeStamp: String(NOW - n * secondsApart),
+      hash: '0x' + n.toString(16).padStart(64, '0'),
+      from: ADDRESS,
+      to: '0x' + 'b'.repeat(40),
+      value: '1',
+      gas: '21000',
+      gasUsed: '21000',
+      isError: '0',
+      functionName: '',
+      contractAddress: '',
+      input: '0x',
+    };
+  });
+}
+
+function respond(result: unknown[]) {
+  return {
+    data: {
+      status: result.length > 0 ? '1' : '0',
+      message: result.length > 0 ? 'OK' : 'No transactions found',
+      result,
+    },
+  };
+}
+
+function requestedParams(call: number): Record<string, string> {
+  return (mockGet.mock.calls[call]![1] as { params: Record<string, string> }).params;
+}
+
+beforeEach(() => {
+  mockGet.mockReset();
+});
+
+describe('defaultHistoryDepth', () => {
+  it('is built from config', () => {
+    const depth = defaultHistoryDepth();
+    expect(depth.maxRecords).toBe(1000);
+    expect(depth.maxAgeDays).toBeUndefined();
+    expect(depth.startBlock).toBe(0);
+    expect(depth.endBlock).toBe(99999999);
+    expect(depth.pageSize).toBe(500);
+  });
+});
+
+describe('deepHistoryDepth', () => {
+  it('reads more records with no time window', () => {
+    const depth = deepHistoryDepth();
+    expect(depth.maxRecords).toBe(5000);
+    expect(depth.maxAgeDays).toBeUndefined();
+    expect(depth.pageSize).toBe(500);
+  });
+});
+
+describe('getTransactionHistory', () => {
+  it('walks pages until a short page marks the start of history', async () => {
+    mockGet
+      .mockResolvedValueOnce(respond(makeTxs(10, 0)))
+      .mockResolvedValueOnce(respond(makeTxs(10, 10)))
+      .mockResolvedValueOnce(respond(makeTxs(4, 20)));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, { maxRecords: 100, pageSize: 10 });
+
+    expect(items).toHaveLength(24);
+    expect(mockGet).toHaveBeenCalledTimes(3);
+    expect(requestedParams(0)).toEqual(expect.objectContaining({ page: '1', offset: '10', sort: 'desc' }));
+    expect(requestedParams(2).page).toBe('3');
+    expect(coverage).toEqual({
+      fetched: 24,
+      pages: 3,
+      complete: true,
+      stoppedBy: 'end',
+      oldestTimestamp: NOW - 23 * 3600,
+      newestTimestamp: NOW,
+    });
+  });
+
+  it('stops at maxRecords', async () => {
+    mockGet
+      .mockResolvedValueOnce(respond(makeTxs(10, 0)))
+      .mockResolvedValueOnce(respond(makeTxs(10, 10)));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, { maxRecords: 15, pageSize: 10 });
+
+    expect(items).toHaveLength(15);
+    expect(coverage.complete).toBe(false);
+    expect(coverage.stoppedBy).toBe('maxRecords');
+  });
+
+  it('stops at the time window', async () => {
+    // One tx per day; a 5-day window keeps today plus the previous 5 days
+    mockGet.mockResolvedValueOnce(respond(makeTxs(10, 0, 86400)));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, {
+      maxRecords: 100,
+      maxAgeDays: 5,
+      pageSize: 10,
+    });
+
+    expect(items).toHaveLength(6);
+    expect(coverage.stoppedBy).toBe('timeWindow');
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes the block range through', async () => {
+    mockGet.mockResolvedValueOnce(respond(makeTxs(3)));
+
+    const { coverage } = await getTransactionHistory(ADDRESS, {
+      maxRecords: 100,
+      startBlock: 1500000,
+      endBlock: 1600000,
+      pageSize: 10,
+    });
+
+    expect(requestedParams(0)).toEqual(expect.objectContaining({ startblock: '1500000', endblock: '1600000' }));
+    expect(coverage.complete).toBe(true);
+  });
+
+  it('narrows the block range when the result window is exhausted', async () => {
+    const pageSize = 5000;
+    const page1 = makeTxs(pageSize, 0);
+    const page2 = makeTxs(pageSize, pageSize);
+    // After rolling over, the API repeats the boundary block's record first
+    const page3 = makeTxs(3, 2 * pageSize - 1);
+    mockGet
+      .mockResolvedValueOnce(respond(page1))
+      .mockResolvedValueOnce(respond(page2))
+      .mockResolvedValueOnce(respond(page3));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, { maxRecords: 20000, pageSize });
+
+    const boundaryBlock = page2[pageSize - 1]!.blockNumber;
+    expect(requestedParams(2)).toEqual(expect.objectContaining({ page: '1', endblock: boundaryBlock }));
+    expect(items).toHaveLength(2 * pageSize + 2); // boundary record de-duplicated
+    expect(coverage.complete).toBe(true);
+  });
+
+  it('keeps partial results and records the error', async () => {
+    mockGet
+      .mockResolvedValueOnce(respond(makeTxs(10)))
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, { maxRecords: 100, pageSize: 10 });
+
+    expect(items).toHaveLength(10);
+    expect(coverage.stoppedBy).toBe('error');
+    expect(coverage.complete).toBe(false);
+  });
+
+  it('handles an address with no history', async () => {
+    mockGet.mockResolvedValueOnce(respond([]));
+
+    const { items, coverage } = await getTransactionHistory(ADDRESS, { maxRecords: 100, pageSize: 10 });
+
+    expect(items).toEqual([]);
+    expect(coverage).toEqual(expect.objectContaining({ complete: true, oldestTimestamp: null }));
+  });
+});
+
+describe('getTokenTransferHistory', () => {
+  it('keeps separate transfers within one tx by log index', async () => {
+    const transfer = {
+      blockNumber: '2000000',
+      timeStamp: String(NOW),
+      hash: '0x' + 'a'.repeat(64),
+      from: ADDRESS,
+      to: '0x' + 'b'.repeat(40),
+      value: '100',
+      tokenName: 'USD Coin',
+      tokenSymbol: 'USDC',
+      tokenDecimal: '6',
+      contractAddress: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+    };
+    mockGet.mockResolvedValueOnce(
+      respond([
+        { ...transfer, logIndex: '1' },
+        { ...transfer, logIndex: '2' },
+      ]),
+    );
+
+    const { items } = await getTokenTransferHistory(ADDRESS, { maxRecords: 100, pageSize: 10 });
+
+    expect(items).toHaveLength(2);
+    expect(requestedParams(0).action).toBe('tokentx');
+  });
+});
+
+describe('getNftTransferHistory', () => {
+  it('keeps separate token IDs moved in one tx', async () => {
+    const transfer = {
+      blockNumber: '2000000',
+      timeStamp: String(NOW),
+      hash: '0x' + 'a'.repeat(64),
+      from: ADDRESS,
+      to: '0x' + 'b'.repeat(40),
+      tokenName: 'Base Punks',
+      tokenSymbol: 'BPUNK',
+      contractAddress: '0x' + 'c'.repeat(40),
+    };
+    mockGet.mockResolvedValueOnce(
+      respond([
+        { ...transfer, tokenID: '1' },
+        { ...transfer, tokenID: '2' },
+      ]),
+    );
+
+    const { items } = await getNftTransferHistory(ADDRESS, { maxRecords: 100, pageSize: 10 });
+
+    expect(items.map((t) => t.tokenID)).toEqual(['1', '2']);
+    expect(requestedParams(0).action).toBe('tokennfttx');
+  });
+});
+
+describe('getCreatedContracts', () => {
+  it('follows Blockscout pages and keeps creation transactions', async () => {
+    const created = '0x' + 'C'.repeat(40);
+    mockGet
+      .mockResolvedValueOnce({
+        data: {
+          items: [
+            { hash: '0x01', timestamp: '2024-01-01T00:00:00.000000Z', created_contract: { hash: created } },
+            { hash: '0x02', timestamp: '2024-01-01T00:01:00.000000Z', created_contract: null },
+          ],
+          next_page_params: { block_number: 100, index: 3, items_count: 50 },
+        },
+      })
+      .mockResolvedValueOnce({ data: { items: [], next_page_params: null } });
+
+    const result = await getCreatedContracts(ADDRESS);
+
+    expect(result).toEqual({
+      contracts: [{ address: created.toLowerCase(), txHash: '0x01', timestamp: 1704067200 }],
+      complete: true,
+    });
+    expect(requestedParams(0)).toEqual({ filter: 'from' });
+    expect(requestedParams(1)).toEqual({ filter: 'from', block_number: '100', index: '3', items_count: '50' });
+  });
+
+  it('returns null when the first page fails', async () => {
+    mockGet.mockRejectedValueOnce(new Error('503'));
+    expect(await getCreatedContracts(ADDRESS)).toBeNull();
+  });
+});
+
+describe('getEarliestTransfers', () => {
+  it('returns the oldest records of each kind', async () => {
+    const [tx] = makeTxs(1);
+    mockGet.mockImplementation(async (_url, options) => ({
+      data:
+        (options?.params as Record<string, string>).action === 'txlist'
+          ? { status: '1', message: 'OK', result: [tx] }
+          : { status: '0', message: 'No transactions found', result: [] },
+    }));
+
+    expect(await getEarliestTransfers(ADDRESS)).toEqual({
+      transactions: [tx],
+      internalTransactions: [],
+      tokenTransfers: [],
+    });
+  });
+
+  it('throws when a lookup fails instead of reporting no funding', async () => {
+    mockGet.mockRejectedValue(new Error('503'));
+    await expect(getEarliestTransfers(ADDRESS)).rejects.toThrow('503');
+  });
+});
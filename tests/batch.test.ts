@@ -0,0 +1,162 @@
+// ============================================================
+// Tests — Batch Analysis
+// ============================================================
+
+import { parseBatchRequest, runBatch, summarizeBatch } from '../src/services/batch';
+import { config } from '../src/config';
+import * as names from '../src/services/nameResolver';
+import { BatchResult, RiskLevel, WalletReport } from '../src/types';
+
+jest.mock('../src/services/nameResolver');
+
+const mockResolve = names.resolveAddressOrName as jest.MockedFunction<typeof names.resolveAddressOrName>;
+
+const address = (n: number) => '0x' + String(n).padStart(40, '0');
+
+function report(addr: string, riskLevel: RiskLevel, riskScore: number): WalletReport {
+  return {
+    address: addr,
+    chain: 'Base',
+    riskLevel,
+    riskScore,
+    modelVersion: '1.0.0',
+    confidence: 80,
+    signals: [],
+    summary: `${riskLevel} summary`,
+    keyFindings: [],
+    topInteractions: [],
+    recommendations: [],
+    disclaimer: '',
+    analyzedAt: new Date().toISOString(),
+    responseTimeMs: 0,
+  };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockResolve.mockImplementation(async (input) =>
+    input === 'alice.base.eth' ? address(99) : /^0x[0-9]{40}$/.test(input) ? input : null,
+  );
+});
+
+describe('parseBatchRequest', () => {
+  it('accepts addresses and names, dropping blanks and repeats', () => {
+    expect(parseBatchRequest({ addresses: [address(1), ' alice.base.eth ', '', address(1).toUpperCase()] })).toEqual({
+      addresses: [address(1), 'alice.base.eth'],
+      deep: false,
+    });
+    expect(parseBatchRequest({ addresses: [address(1)], deep: true })).toEqual({ addresses: [address(1)], deep: true });
+  });
+
+  it('rejects malformed bodies, empty lists and lists over the limit', () => {
+    expect(parseBatchRequest(undefined)).toBeNull();
+    expect(parseBatchRequest({ addresses: address(1) })).toBeNull();
+    expect(parseBatchRequest({ addresses: [address(1), 42] })).toBeNull();
+    expect(parseBatchRequest({ addresses: [address(1)], deep: 'yes' })).toBeNull();
+    expect(parseBatchRequest({ addresses: [] })).toBeNull();
+    const tooMany = Array.from({ length: config.batchMaxAddresses + 1 }, (_, i) => address(i));
+    expect(parseBatchRequest({ addresses: tooMany })).toBeNull();
+  });
+});
+
+describe('runBatch', () => {
+  it('reports every input as it completes and summarizes riskiest first', async () => {
+    const levels: Record<string, [RiskLevel, number]> = {
+      [address(1)]: ['LOW', 10],
+      [address(2)]: ['HIGH', 80],
+      [address(99)]: ['MEDIUM', 45],
+      [address(4)]: ['HIGH', 95],
+    };
+    const analyze = jest.fn(async (addr: string) => {
+      if (addr === address(5)) throw new Error('upstream down');
+      const [level, score] = levels[addr]!;
+      return report(addr, level, score);
+    });
+    const seen: BatchResult[] = [];
+
+    const summary = await runBatch(
+      [address(1), address(2), 'alice.base.eth', 'not an address', address(4), address(5)],
+      analyze,
+      (result) => seen.push(result),
+    );
+
+    expect(seen).toHaveLength(6);
+    expect(analyze).toHaveBeenCalledTimes(5);
+    expect(summary).toMatchObject({
+      total: 6,
+      analyzed: 4,
+      invalid: 1,
+      duplicates: 0,
+      failed: 1,
+      byRiskLevel: { HIGH: 2, MEDIUM: 1, LOW: 1 },
+    });
+    expect(summary.rows.map((r) => r.input)).toEqual([
+      address(4),
+      address(2),
+      'alice.base.eth',
+      address(1),
+      'not an address',
+      address(5),
+    ]);
+    expect(summary.rows[2]).toMatchObject({ index: 2, status: 'ok', address: address(99), riskScore: 45 });
+    expect(summary.rows[4]).toMatchObject({ status: 'invalid', error: 'Invalid wallet address or unresolvable name' });
+    expect(summary.rows[5]).toMatchObject({ status: 'failed', address: address(5), error: 'Analysis failed' });
+  });
+
+  it('analyzes a name and the address it resolves to only once', async () => {
+    const analyze = jest.fn(async (addr: string) => report(addr, 'LOW', 5));
+
+    const summary = await runBatch(['alice.base.eth', address(99)], analyze);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(summary).toMatchObject({ total: 2, analyzed: 1, duplicates: 1 });
+    expect(summary.rows[1]).toMatchObject({ index: 1, status: 'duplicate', address: address(99), error: 'Same address as #1' });
+  });
+
+  it('runs at most one analysis per Basescan call allowed per second', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const analyze = async (addr: string) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return report(addr, 'LOW', 5);
+    };
+
+    const inputs = Array.from({ length: config.basescanRateLimit * 3 }, (_, i) => address(i + 1));
+    const summary = await runBatch(inputs, analyze);
+
+    expect(summary.analyzed).toBe(inputs.length);
+    expect(peak).toBe(config.basescanRateLimit);
+  });
+
+  it('stops picking up new inputs once aborted', async () => {
+    const abort = new AbortController();
+    const analyze = jest.fn(async (addr: string) => {
+      abort.abort();
+      return report(addr, 'LOW', 5);
+    });
+
+    const inputs = Array.from({ length: config.basescanRateLimit * 3 }, (_, i) => address(i + 1));
+    const summary = await runBatch(inputs, analyze, undefined, abort.signal);
+
+    expect(analyze.mock.calls.length).toBeLessThanOrEqual(config.basescanRateLimit);
+    expect(summary.total).toBe(analyze.mock.calls.length);
+  });
+});
+
+describe('summarizeBatch', () => {
+  it('handles an empty batch', () => {
+    expect(summarizeBatch([], 0)).toEqual({
+      total: 0,
+      analyzed: 0,
+      invalid: 0,
+      duplicates: 0,
+      failed: 0,
+      byRiskLevel: { HIGH: 0, MEDIUM: 0, LOW: 0 },
+      rows: [],
+      durationMs: 0,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// ============================================================
+// Tests — Scoring Calibration & WalletData Fixtures
+// ============================================================
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseLabeledDataset,
+  evaluateScoring,
+  formatCalibrationReport,
+} from '../src/services/calibration';
+import {
+  serializeWalletData,
+  parseWalletData,
+  saveWalletFixture,
+  loadWalletFixture,
+} from '../src/services/walletFixtures';
+import { parseScoringModel } from '../src/services/scoringModel';
+import { registerSignal } from '../src/signals';
+import { LabeledAddress, WalletData } from '../src/types';
+
+// Scores each fixture with its transactionCount, so tests pick scores directly
+registerSignal({
+  id: 'fixedScore',
+  name: 'Fixed Score',
+  about: 'Test signal.',
+  defaults: {},
+  evaluate: (data) => ({ score: data.transactionCount, description: 'Test signal.' }),
+});
+
+const model = parseScoringModel(
+  { version: 'test', thresholds: { low: 30, medium: 60 }, scamBoost: [0], wallet: { fixedScore: { weight: 1 } }, contract: {} },
+  'test',
+);
+
+const addr = (n: number) => '0x' + n.toString(16).padStart(40, '0');
+
+function makeWalletData(address: string, score: number): WalletData {
+  return {
+    address,
+    balance: 1000000000000000000n,
+    transactionCount: score,
+    transactions: [],
+    tokenTransfers: [],
+    internalTransactions: [],
+    accountAge: 86400,
+    firstTxTimestamp: 1700000000,
+    isContract: false,
+    scamFlags: [],
+  };
+}
+
+/** Dataset + in-memory fixtures from [label, score] pairs */
+function scenario(samples: Array<['scam' | 'benign', number]>) {
+  const fixtures = new Map<string, WalletData>();
+  const dataset: LabeledAddress[] = samples.map(([label, score], i) => {
+    fixtures.set(addr(i + 1), makeWalletData(addr(i + 1), score));
+    return { address: addr(i + 1), label, source: 'test' };
+  });
+  return { dataset, load: (address: string) => fixtures.get(address) ?? null };
+}
+
+describe('parseLabeledDataset', () => {
+  it('reads a Forta-style CSV with a label column', () => {
+    const csv = [
+      'banned_address,label_type,notes',
+      `${addr(1)},phishing,"drainer, reported"`,
+      `${addr(2)},benign,`,
+      `${addr(3)},unknown,`,
+      'not-an-address,phishing,',
+    ].join('\n');
+
+    expect(parseLabeledDataset(csv, 'forta.csv')).toEqual([
+      { address: addr(1), label: 'scam', source: 'forta.csv' },
+      { address: addr(2), label: 'benign', source: 'forta.csv' },
+    ]);
+  });
+
+  it('reads a JSON array', () => {
+    const json = JSON.stringify([{ address: addr(1), is_scam: 1 }, { Address: addr(2), is_scam: 0 }]);
+    expect(parseLabeledDataset(json, 'labels.json').map((l) => l.label)).toEqual(['scam', 'benign']);
+  });
+
+  it('applies the default label to lists without a label column', () => {
+    const csv = `address\n${addr(1)}\n${addr(2)}`;
+    expect(parseLabeledDataset(csv, 'scams.csv', 'scam').every((l) => l.label === 'scam')).toBe(true);
+    expect(parseLabeledDataset(csv, 'scams.csv')).toEqual([]);
+  });
+});
+
+describe('evaluateScoring', () => {
+  it('builds the confusion matrix and operating points', () => {
+    const { dataset, load } = scenario([
+      ['scam', 90], ['scam', 70], ['scam', 50], ['scam', 10],
+      ['benign', 5], ['benign', 20], ['benign', 40], ['benign', 80],
+    ]);
+
+    const report = evaluateScoring(dataset, load, model);
+
+    expect(report.confusion).toEqual({
+      scam: { LOW: 1, MEDIUM: 1, HIGH: 2 },
+      benign: { LOW: 2, MEDIUM: 1, HIGH: 1 },
+    });
+    expect(report.levels.HIGH).toMatchObject({ count: 3, precision: 2 / 3, recall: 0.5 });
+    expect(report.levels.LOW).toMatchObject({ count: 3, precision: 2 / 3, recall: 0.5 });
+
+    const high = report.operatingPoints.find((p) => p.flagLevel === 'HIGH')!;
+    expect(high).toMatchObject({ truePositives: 2, falsePositives: 1, trueNegatives: 3, falseNegatives: 2 });
+    expect(high.accuracy).toBeCloseTo(5 / 8);
+    expect(report.modelVersion).toBe('test');
+  });
+
+  it('scores perfectly separated data with AUC 1 and thresholds between the classes', () => {
+    const { dataset, load } = scenario([
+      ['scam', 70], ['scam', 80], ['scam', 90],
+      ['benign', 10], ['benign', 20], ['benign', 30],
+    ]);
+
+    const report = evaluateScoring(dataset, load, model);
+
+    expect(report.auc).toBeCloseTo(1);
+    const { low, medium } = report.suggestedThresholds!;
+    expect(medium).toBeGreaterThanOrEqual(30);
+    expect(medium).toBeLessThan(70);
+    expect(low).toBeLessThan(medium);
+  });
+
+  it('reports signal separation and skips addresses without fixtures', () => {
+    const { dataset, load } = scenario([['scam', 80], ['benign', 20]]);
+    dataset.push({ address: addr(99), label: 'scam', source: 'test' }, { ...dataset[0]!, label: 'benign' });
+
+    const report = evaluateScoring(dataset, load, model);
+
+    expect(report.samples).toBe(2); // duplicate keeps its first label
+    expect(report.missingFixtures).toEqual([addr(99)]);
+    expect(report.signals).toEqual([{ name: 'Fixed Score', present: 2, meanScam: 80, meanBenign: 20, separation: 60 }]);
+    expect(formatCalibrationReport(report)).toContain('Skipped 1 labeled address(es) with no fixture');
+  });
+
+  it('has no AUC or suggestion with a single class', () => {
+    const { dataset, load } = scenario([['scam', 80]]);
+    const report = evaluateScoring(dataset, load, model);
+    expect(report.auc).toBeNull();
+    expect(report.suggestedThresholds).toBeNull();
+  });
+});
+
+describe('WalletData fixtures', () => {
+  it('round-trips through a fixture directory, bigint included', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wallet-fixtures-'));
+    const data = makeWalletData(addr(1), 42);
+
+    saveWalletFixture(dir, data);
+
+    expect(loadWalletFixture(dir, addr(1))).toEqual(data);
+    expect(loadWalletFixture(dir, addr(2))).toBeNull();
+  });
+
+  it('rejects JSON that is not a WalletData record', () => {
+    expect(() => parseWalletData(JSON.stringify({ address: addr(1) }))).toThrow('Not a WalletData fixture');
+    expect(parseWalletData(serializeWalletData(makeWalletData(addr(1), 1))).balance).toBe(1000000000000000000n);
+  });
+});
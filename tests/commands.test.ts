@@ -0,0 +1,321 @@
+// ============================================================
+// Tests — Mention Command Grammar
+// ============================================================
+
+import {
+  parseCommand,
+  resolveCommand,
+  commandFromMention,
+  formatHelp,
+  formatSignalExplanation,
+} from '../src/services/commands';
+import { config } from '../src/config';
+import { defaultScoringModel } from '../src/services/scoringModel';
+import * as names from '../src/services/nameResolver';
+import * as farcaster from '../src/services/farcaster';
+import { NeynarCastEvent } from '../src/types';
+
+jest.mock('../src/services/nameResolver');
+jest.mock('../src/services/farcaster', () => ({
+  ...jest.requireActual('../src/services/farcaster'),
+  fetchCastContent: jest.fn(),
+  fetchVerifiedAddresses: jest.fn(),
+}));
+
+const mockResolveName = names.resolveName as jest.MockedFunction<typeof names.resolveName>;
+const mockCastContent = farcaster.fetchCastContent as jest.MockedFunction<typeof farcaster.fetchCastContent>;
+const mockVerified = farcaster.fetchVerifiedAddresses as jest.MockedFunction<typeof farcaster.fetchVerifiedAddresses>;
+
+const A = '0x742D35Cc6634C0532925A3b844Bc9E7595F8B3A1';
+const B = '0x0000000000000000000000000000000000000001';
+
+describe('parseCommand', () => {
+  it('treats a bare address as an analysis', () => {
+    expect(parseCommand(`@TellTaleBot ${A.toLowerCase()}`)).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+    expect(parseCommand(`@TellTaleBot is this wallet safe? ${A}`)).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+  });
+
+  it('analyzes every address given, up to the per-mention limit', () => {
+    const list = Array.from({ length: config.mentionMaxAddresses + 2 }, (_, i) =>
+      '0x' + String(i + 2).padStart(40, '0'),
+    );
+    expect(parseCommand(`@TellTaleBot ${list.join(' ')}`)).toEqual({
+      verb: 'analyze',
+      addresses: list.slice(0, config.mentionMaxAddresses),
+      deep: false,
+    });
+  });
+
+  it('parses verbs, synonyms and --deep', () => {
+    expect(parseCommand(`@TellTaleBot analyze ${A} --deep`)).toEqual({ verb: 'analyze', addresses: [A], deep: true });
+    expect(parseCommand(`@TellTaleBot Breakdown ${A}`)).toEqual({ verb: 'details', address: A, deep: false });
+    expect(parseCommand(`@TellTaleBot approval ${A}`)).toEqual({ verb: 'approvals', address: A });
+  });
+
+  it('takes the verb from before the first address only', () => {
+    expect(parseCommand(`@TellTaleBot ${A} help`)).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+  });
+
+  it('only treats the first word as a verb, so sentences still get an analysis', () => {
+    const analyzeA = { verb: 'analyze', addresses: [A], deep: false };
+    expect(parseCommand(`@TellTaleBot can you help me check ${A}`)).toEqual(analyzeA);
+    expect(parseCommand(`@TellTaleBot please report on ${A}`)).toEqual(analyzeA);
+    expect(parseCommand(`@TellTaleBot is this safe? compare it ${A}`)).toEqual(analyzeA);
+  });
+
+  it('analyzes the address when a verb\'s arguments don\'t parse', () => {
+    const analyzeA = { verb: 'analyze', addresses: [A], deep: false };
+    expect(parseCommand(`@TellTaleBot explain the details of ${A}`)).toEqual(analyzeA);
+    expect(parseCommand(`@TellTaleBot help me check ${A}`)).toEqual(analyzeA);
+    expect(parseCommand(`@TellTaleBot report on ${A}`)).toEqual(analyzeA);
+    expect(parseCommand(`@TellTaleBot precheck ${A}`)).toEqual(analyzeA);
+  });
+
+  it('replies with usage for unknown options and mentions without an address', () => {
+    const unknown = parseCommand(`@TellTaleBot analyze ${A} --fast`);
+    expect(unknown.verb).toBe('usage');
+    expect(unknown.verb === 'usage' && unknown.message).toContain('--fast');
+
+    expect(parseCommand('@TellTaleBot what is this?').verb).toBe('usage');
+    expect(parseCommand('@TellTaleBot details').verb).toBe('usage');
+  });
+
+  it('does not mistake object properties for verbs', () => {
+    expect(parseCommand('@TellTaleBot constructor').verb).toBe('usage');
+  });
+
+  it('needs exactly two addresses to compare', () => {
+    expect(parseCommand(`@TellTaleBot compare ${A} ${B}`)).toEqual({
+      verb: 'compare',
+      addresses: [A, B],
+      deep: false,
+    });
+    expect(parseCommand('@TellTaleBot compare').verb).toBe('usage');
+    // one address (or the same one twice) falls back to analyzing it
+    expect(parseCommand(`@TellTaleBot compare ${A}`)).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+    expect(parseCommand(`@TellTaleBot compare ${A} ${A.toLowerCase()}`).verb).toBe('analyze');
+  });
+
+  it('matches signals by id or name for explain', () => {
+    expect(parseCommand('@TellTaleBot explain address poisoning')).toEqual({
+      verb: 'explain',
+      signal: 'addressPoisoning',
+    });
+    expect(parseCommand('@TellTaleBot explain accountAge')).toEqual({ verb: 'explain', signal: 'accountAge' });
+
+    const unknown = parseCommand('@TellTaleBot explain vibes');
+    expect(unknown.verb === 'usage' && unknown.message).toContain('Account Age');
+  });
+
+  it('validates report categories', () => {
+    expect(parseCommand(`@TellTaleBot report signals ${A}`)).toEqual({
+      verb: 'report',
+      category: 'signals',
+      address: A,
+      deep: false,
+    });
+    expect(parseCommand(`@TellTaleBot report approvals ${A}`)).toMatchObject({ category: 'approvals' });
+    expect(parseCommand('@TellTaleBot report gossip').verb).toBe('usage');
+    expect(parseCommand(`@TellTaleBot report gossip ${A}`).verb).toBe('analyze');
+    expect(parseCommand('@TellTaleBot report signals').verb).toBe('usage');
+  });
+
+  it('parses precheck through the pre-check grammar', () => {
+    const command = parseCommand(`@TellTaleBot precheck ${A} 0x095ea7b3`);
+    expect(command.verb).toBe('precheck');
+    expect(command.verb === 'precheck' && command.input.to).toBe(A.toLowerCase());
+  });
+
+  it('parses help with an optional topic', () => {
+    expect(parseCommand('@TellTaleBot help')).toEqual({ verb: 'help', topic: null });
+    expect(parseCommand('@TellTaleBot help analyse')).toEqual({ verb: 'help', topic: 'analyze' });
+  });
+});
+
+describe('parseCommand with names', () => {
+  it('accepts Basenames and ENS names wherever an address goes', () => {
+    expect(parseCommand('@TellTaleBot Alice.base.eth')).toEqual({ verb: 'analyze', addresses: ['alice.base.eth'], deep: false });
+    expect(parseCommand(`@TellTaleBot compare vitalik.eth ${A}`)).toEqual({
+      verb: 'compare',
+      addresses: ['vitalik.eth', A],
+      deep: false,
+    });
+    expect(parseCommand('@TellTaleBot report signals bob.eth')).toMatchObject({ category: 'signals', address: 'bob.eth' });
+  });
+
+  it('does not treat @-mentioned usernames as names', () => {
+    expect(parseCommand('@TellTaleBot @dwr.eth').verb).toBe('usage');
+  });
+});
+
+describe('resolveCommand', () => {
+  beforeEach(() => mockResolveName.mockReset());
+
+  it('replaces names with their addresses', async () => {
+    mockResolveName.mockResolvedValue(B);
+    expect(await resolveCommand({ verb: 'details', address: 'bob.eth', deep: false })).toEqual({
+      verb: 'details',
+      address: B,
+      deep: false,
+    });
+    expect(mockResolveName).toHaveBeenCalledWith('bob.eth');
+  });
+
+  it('leaves addresses alone', async () => {
+    const command = { verb: 'analyze', addresses: [A], deep: true } as const;
+    expect(await resolveCommand(command)).toEqual(command);
+    expect(mockResolveName).not.toHaveBeenCalled();
+  });
+
+  it('replies with usage when a name does not resolve', async () => {
+    mockResolveName.mockResolvedValue(null);
+    const command = await resolveCommand({ verb: 'analyze', addresses: [A, 'nobody.base.eth'], deep: false });
+    expect(command.verb).toBe('usage');
+    expect(command.verb === 'usage' && command.message).toContain('nobody.base.eth');
+  });
+
+  it('rejects comparing a name with its own address', async () => {
+    mockResolveName.mockResolvedValue(A);
+    const command = await resolveCommand({ verb: 'compare', addresses: ['alice.eth', A], deep: false });
+    expect(command.verb).toBe('usage');
+  });
+});
+
+describe('commandFromMention', () => {
+  const BOT_FID = 12345;
+  const BOT = { fid: BOT_FID, username: 'telltalebot' };
+
+  function mention(overrides: Partial<NeynarCastEvent['data']> = {}): NeynarCastEvent['data'] {
+    return {
+      hash: '0xmention',
+      author: { fid: 1, username: 'asker', display_name: 'Asker' },
+      text: '@telltalebot is this legit?',
+      mentioned_profiles: [BOT],
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    mockCastContent.mockReset();
+    mockVerified.mockReset();
+  });
+
+  it('uses the address in the mention without looking anywhere else', async () => {
+    const command = await commandFromMention(mention({ text: `@telltalebot ${A}`, parent_hash: '0xparent' }), BOT_FID);
+    expect(command).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+    expect(mockCastContent).not.toHaveBeenCalled();
+  });
+
+  it('finds addresses in the mention\'s embeds', async () => {
+    const command = await commandFromMention(
+      mention({ embeds: [{ url: `https://basescan.org/address/${A.toLowerCase()}` }] }),
+      BOT_FID,
+    );
+    expect(command).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+  });
+
+  it('borrows the address from the parent cast and its embeds', async () => {
+    mockCastContent.mockResolvedValue(`gm, new airdrop claim here\nhttps://basescan.org/address/${B}`);
+
+    const command = await commandFromMention(mention({ text: '@telltalebot approvals', parent_hash: '0xparent' }), BOT_FID);
+    expect(mockCastContent).toHaveBeenCalledWith('0xparent');
+    expect(command).toEqual({ verb: 'approvals', address: B });
+  });
+
+  it('says so when the parent cast has no address either', async () => {
+    mockCastContent.mockResolvedValue('just vibes');
+
+    const command = await commandFromMention(mention({ parent_hash: '0xparent' }), BOT_FID);
+    expect(command.verb === 'usage' && command.message).toContain('the cast you replied to');
+  });
+
+  it('analyzes a mentioned user\'s verified addresses', async () => {
+    mockVerified.mockResolvedValue([A.toLowerCase(), B]);
+
+    const command = await commandFromMention(
+      mention({ text: '@telltalebot @alice', mentioned_profiles: [BOT, { fid: 99, username: 'alice' }], parent_hash: '0xparent' }),
+      BOT_FID,
+    );
+    expect(mockVerified).toHaveBeenCalledWith(99);
+    expect(mockCastContent).not.toHaveBeenCalled();
+    expect(command).toEqual({ verb: 'analyze', addresses: [A, B], deep: false });
+  });
+
+  it('applies the verb to a mentioned user\'s primary address', async () => {
+    mockVerified.mockResolvedValue([B, A]);
+
+    const command = await commandFromMention(
+      mention({ text: '@telltalebot details @alice', mentioned_profiles: [BOT, { fid: 99, username: 'alice' }] }),
+      BOT_FID,
+    );
+    expect(command).toEqual({ verb: 'details', address: B, deep: false });
+  });
+
+  it('compares two mentioned users, each by their primary address', async () => {
+    mockVerified.mockImplementation(async (fid) => (fid === 99 ? [A, '0x' + '3'.repeat(40)] : [B]));
+
+    const command = await commandFromMention(
+      mention({
+        text: '@telltalebot compare @alice @bob',
+        mentioned_profiles: [BOT, { fid: 100, username: 'bob' }, { fid: 99, username: 'alice' }],
+      }),
+      BOT_FID,
+    );
+    expect(command).toEqual({ verb: 'compare', addresses: [A, B], deep: false });
+  });
+
+  it('compares a mentioned user with an address', async () => {
+    mockVerified.mockResolvedValue([B]);
+
+    const command = await commandFromMention(
+      mention({ text: `@telltalebot compare ${A} @bob`, mentioned_profiles: [BOT, { fid: 100, username: 'bob' }] }),
+      BOT_FID,
+    );
+    expect(command).toEqual({ verb: 'compare', addresses: [A, B], deep: false });
+  });
+
+  it('checks the parent cast when a user is only cc\'d', async () => {
+    mockCastContent.mockResolvedValue(`claim here: ${A}`);
+
+    const command = await commandFromMention(
+      mention({
+        text: '@telltalebot is this legit? cc @bob',
+        mentioned_profiles: [BOT, { fid: 100, username: 'bob' }],
+        parent_hash: '0xparent',
+      }),
+      BOT_FID,
+    );
+    expect(mockVerified).not.toHaveBeenCalled();
+    expect(command).toEqual({ verb: 'analyze', addresses: [A], deep: false });
+  });
+
+  it('explains when a mentioned user has no verified addresses', async () => {
+    mockVerified.mockResolvedValue([]);
+
+    const command = await commandFromMention(
+      mention({ text: '@telltalebot @alice', mentioned_profiles: [BOT, { fid: 99, username: 'alice' }] }),
+      BOT_FID,
+    );
+    expect(command.verb === 'usage' && command.message).toContain('@alice has no verified Ethereum addresses');
+  });
+});
+
+describe('formatHelp', () => {
+  it('lists every command within one cast', () => {
+    const help = formatHelp(null);
+    for (const verb of ['analyze', 'details', 'compare', 'explain', 'report', 'approvals', 'precheck', 'help']) {
+      expect(help).toContain(`• ${verb}`);
+    }
+    expect(new TextEncoder().encode(help).length).toBeLessThanOrEqual(1024);
+  });
+});
+
+describe('formatSignalExplanation', () => {
+  it('describes the signal and its model weights', () => {
+    const model = defaultScoringModel();
+    const text = formatSignalExplanation('scamDatabase', model);
+    expect(text).toContain('Scam Database');
+    expect(text).toContain(`${Math.round(model.wallet.scamDatabase!.weight * 100)}% for wallets`);
+    expect(text).toContain(`model ${model.version}`);
+  });
+});
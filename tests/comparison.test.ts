@@ -0,0 +1,156 @@
+// ============================================================
+// Tests — Wallet Comparison
+// ============================================================
+
+import { compareWalletData, comparisonKey } from '../src/services/comparison';
+import { BasescanTokenTransfer, BasescanTransaction, FundingHop, WalletData } from '../src/types';
+import { hash, makeTransfer, makeTx } from './helpers/history';
+
+const A = '0x' + 'a1'.repeat(20);
+const B = '0x' + 'b2'.repeat(20);
+const PRIVATE = '0x' + 'c3'.repeat(20);
+const FUNDER = '0x' + 'f4'.repeat(20);
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913'; // known contract
+const COINBASE = '0x71660c4005ba85c37ccec55d0c4493e66fe775d3'; // known exchange
+
+const tx = (overrides: Partial<BasescanTransaction>) => makeTx({ from: A, to: PRIVATE, ...overrides });
+const transfer = (overrides: Partial<BasescanTokenTransfer>) =>
+  makeTransfer({ from: A, to: B, value: '2500000', ...overrides });
+
+function hop(from: string, to: string, attribution?: FundingHop['attribution']): FundingHop {
+  return {
+    from,
+    to,
+    asset: 'ETH',
+    amount: '0.1',
+    txHash: hash(),
+    timestamp: 5000,
+    ...(attribution ? { attribution } : {}),
+  };
+}
+
+function wallet(address: string, overrides: Partial<WalletData> = {}): WalletData {
+  return {
+    address,
+    balance: 0n,
+    transactionCount: 0,
+    transactions: [],
+    tokenTransfers: [],
+    internalTransactions: [],
+    accountAge: null,
+    firstTxTimestamp: null,
+    isContract: false,
+    scamFlags: [],
+    ...overrides,
+  };
+}
+
+describe('compareWalletData', () => {
+  it('finds no link between unrelated wallets that only share known protocols', () => {
+    const relationship = compareWalletData(
+      wallet(A, { transactions: [tx({ to: USDC, timeStamp: '1000' })] }),
+      wallet(B, { transactions: [tx({ from: B, to: USDC, timeStamp: '900000' })] }),
+    );
+
+    expect(relationship.strength).toBe('none');
+    expect(relationship.score).toBe(0);
+    expect(relationship.sharedCounterparties).toEqual([
+      { address: USDC, label: expect.any(String), txCountA: 1, txCountB: 1 },
+    ]);
+    expect(relationship.reasons[0]).toContain('No direct transfers');
+  });
+
+  it('collects direct transfers from both histories without double counting', () => {
+    const ethTx = tx({ from: A, to: B, value: '500000000000000000', timeStamp: '2000' });
+    const tokenTx = transfer({ from: B, to: A, timeStamp: '3000' });
+
+    const relationship = compareWalletData(
+      wallet(A, { transactions: [ethTx], tokenTransfers: [tokenTx] }),
+      wallet(B, { transactions: [ethTx], tokenTransfers: [tokenTx] }),
+    );
+
+    expect(relationship.directTransferCount).toBe(2);
+    expect(relationship.directTransfers).toEqual([
+      { from: B, to: A, asset: 'USDC', amount: '2.5', txHash: tokenTx.hash, timestamp: 3000 },
+      { from: A, to: B, asset: 'ETH', amount: '0.5', txHash: ethTx.hash, timestamp: 2000 },
+    ]);
+    expect(relationship.strength).toBe('moderate');
+    expect(relationship.reasons[0]).toContain('2 direct transfer(s)');
+    // the two addresses are each other's counterparties, not shared ones
+    expect(relationship.sharedCounterparties).toEqual([]);
+  });
+
+  it('rates a private common funder far above a common exchange', () => {
+    const exchange = { label: 'Coinbase Hot Wallet 1', category: 'exchange', source: 'known' as const };
+
+    const viaExchange = compareWalletData(
+      wallet(A, { fundingTrace: { hops: [hop(COINBASE, A, exchange)], origin: exchange, stoppedBy: 'labeled', maxDepth: 3 } }),
+      wallet(B, { fundingTrace: { hops: [hop(COINBASE, B, exchange)], origin: exchange, stoppedBy: 'labeled', maxDepth: 3 } }),
+    );
+    expect(viaExchange.strength).toBe('weak');
+    expect(viaExchange.commonFunders).toEqual([{ address: COINBASE, attribution: exchange }]);
+    expect(viaExchange.reasons[0]).toContain('common for unrelated users');
+
+    const viaPrivate = compareWalletData(
+      wallet(A, { fundingTrace: { hops: [hop(FUNDER, A)], origin: null, stoppedBy: 'noInbound', maxDepth: 3 } }),
+      wallet(B, { fundingTrace: { hops: [hop(PRIVATE, B), hop(FUNDER, PRIVATE)], origin: null, stoppedBy: 'noInbound', maxDepth: 3 } }),
+    );
+    expect(viaPrivate.commonFunders).toEqual([{ address: FUNDER }]);
+    expect(viaPrivate.score).toBeGreaterThan(viaExchange.score);
+    expect(viaPrivate.strength).toBe('moderate');
+  });
+
+  it('counts private shared counterparties and correlated timing', () => {
+    const times = [10000, 20000, 30000, 40000];
+    const relationship = compareWalletData(
+      wallet(A, { transactions: times.map((t) => tx({ from: A, to: PRIVATE, timeStamp: String(t) })) }),
+      wallet(B, { transactions: times.map((t) => tx({ from: B, to: PRIVATE, timeStamp: String(t + 30) })) }),
+    );
+
+    expect(relationship.sharedCounterparties).toEqual([{ address: PRIVATE, txCountA: 4, txCountB: 4 }]);
+    expect(relationship.timing).toEqual({ windowSeconds: 120, matched: 4, total: 4, ratio: 1 });
+    expect(relationship.score).toBe(8 + 25);
+    expect(relationship.strength).toBe('moderate');
+    expect(relationship.reasons).toContain(
+      '100% of the less active address\'s transactions came within 2 minutes of the other\'s',
+    );
+  });
+
+  it('ignores a few coincidental matches', () => {
+    const relationship = compareWalletData(
+      wallet(A, { transactions: [tx({ from: A, to: USDC, timeStamp: '10000' })] }),
+      wallet(B, { transactions: [tx({ from: B, to: USDC, timeStamp: '10010' })] }),
+    );
+    expect(relationship.timing.matched).toBe(1);
+    expect(relationship.strength).toBe('none');
+  });
+
+  it('calls several independent links strong', () => {
+    const times = [10000, 20000, 30000];
+    const relationship = compareWalletData(
+      wallet(A, {
+        transactions: [
+          tx({ from: A, to: B, value: '1000000000000000000', timeStamp: '5000' }),
+          ...times.map((t) => tx({ from: A, to: PRIVATE, timeStamp: String(t) })),
+        ],
+        fundingTrace: { hops: [hop(FUNDER, A)], origin: null, stoppedBy: 'noInbound', maxDepth: 3 },
+      }),
+      wallet(B, {
+        transactions: times.map((t) => tx({ from: B, to: PRIVATE, timeStamp: String(t + 60) })),
+        fundingTrace: { hops: [hop(FUNDER, B)], origin: null, stoppedBy: 'noInbound', maxDepth: 3 },
+      }),
+    );
+
+    expect(relationship.strength).toBe('strong');
+    expect(relationship.score).toBe(100);
+    expect(relationship.reasons).toHaveLength(4);
+  });
+});
+
+describe('comparisonKey', () => {
+  it('is the same for either order', () => {
+    const checksummed = '0xB2' + 'b2'.repeat(19);
+    expect(comparisonKey(checksummed, A)).toEqual([A, B]);
+    expect(comparisonKey(A, checksummed)).toEqual([A, B]);
+  });
+});
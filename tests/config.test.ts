@@ -20,6 +20,13 @@ describe('config', () => {
     expect(config.maxTransactionsToFetch).toBe(100);
     expect(config.cacheTtlSeconds).toBe(300);
     expect(config.maxReportLength).toBe(1024);
+    expect(config.fixtureMode).toBe('off');
+  });
+
+  it('selects the summary provider from the environment', () => {
+    expect(config.summaryProvider).toBe('template');
+    expect(config.summaryModel).toBe('gpt-4o');
+    expect(config.summaryBaseUrl).toBe('');
   });
 
   it('has Basescan base URL', () => {
@@ -0,0 +1,181 @@
+// ============================================================
+// Tests — Contract Analyzer
+// ============================================================
+
+import { toFunctionSelector } from 'viem';
+import { analyzeContract, detectSmartAccount, scanBytecode } from '../src/services/contractAnalyzer';
+import * as basescan from '../src/services/basescan';
+import * as rpc from '../src/services/rpcFallback';
+
+jest.mock('../src/services/basescan');
+jest.mock('../src/services/rpcFallback');
+
+const mockSource = basescan.getContractSource as jest.MockedFunction<typeof basescan.getContractSource>;
+const mockCreation = basescan.getContractCreation as jest.MockedFunction<typeof basescan.getContractCreation>;
+const mockCode = rpc.getCodeViaRpc as jest.MockedFunction<typeof rpc.getCodeViaRpc>;
+const mockStorage = rpc.getStorageAtViaRpc as jest.MockedFunction<typeof rpc.getStorageAtViaRpc>;
+const mockCall = rpc.callViaRpc as jest.MockedFunction<typeof rpc.callViaRpc>;
+
+const CONTRACT = '0x' + 'c'.repeat(40);
+const IMPL = '0x' + 'd'.repeat(40);
+const OWNER = '0x' + 'e'.repeat(40);
+const DEPLOYER = '0x' + 'f'.repeat(40);
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+/** PUSH4 <selector> for each signature, then STOP */
+function dispatcher(signatures: string[], extra = ''): `0x${string}` {
+  return `0x${signatures.map((sig) => '63' + toFunctionSelector(sig).slice(2)).join('')}${extra}00`;
+}
+
+function word(address: string): `0x${string}` {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockSource.mockResolvedValue({ verified: false, contractName: null, compilerVersion: null, abi: null });
+  mockCreation.mockResolvedValue({ deployer: DEPLOYER, txHash: '0x' + '1'.repeat(64) });
+  mockCode.mockResolvedValue(dispatcher(['transfer(address,uint256)']));
+  mockStorage.mockResolvedValue(word('0x' + '0'.repeat(40)));
+  mockCall.mockResolvedValue(null);
+});
+
+describe('scanBytecode', () => {
+  it('collects PUSH4 selectors', () => {
+    const { selectors } = scanBytecode(dispatcher(['mint(address,uint256)', 'pause()']));
+    expect(selectors).toEqual(new Set([toFunctionSelector('mint(address,uint256)'), toFunctionSelector('pause()')]));
+  });
+
+  it('detects SELFDESTRUCT as an opcode but not inside PUSH data', () => {
+    expect(scanBytecode('0x6000ff').hasSelfdestruct).toBe(true);
+    expect(scanBytecode('0x61ffff00').hasSelfdestruct).toBe(false);
+  });
+
+  it('ignores bytes after the code ends until the next JUMPDEST', () => {
+    expect(scanBytecode('0x6000565bfe00ff00').hasSelfdestruct).toBe(false);
+    expect(scanBytecode('0x600056fe5b6000ff').hasSelfdestruct).toBe(true);
+  });
+
+  it('ignores the trailing CBOR metadata', () => {
+    // 0xa1 … 0xff inside metadata, length 0x0004
+    expect(scanBytecode('0x6000' + '00' + 'a165ffff' + '0004').hasSelfdestruct).toBe(false);
+  });
+});
+
+describe('analyzeContract', () => {
+  it('reports verification, owner and deployer', async () => {
+    mockSource.mockResolvedValue({ verified: true, contractName: 'MyToken', compilerVersion: 'v0.8.20', abi: [] });
+    mockCall.mockResolvedValue(word(OWNER));
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result).toMatchObject({
+      verified: true,
+      contractName: 'MyToken',
+      owner: OWNER,
+      ownershipRenounced: false,
+      proxy: null,
+      deployer: DEPLOYER,
+      capabilities: [],
+    });
+  });
+
+  it('finds privileged functions from bytecode selectors', async () => {
+    mockCode.mockResolvedValue(
+      dispatcher(['mint(address,uint256)', 'pause()', 'addBlackList(address)', 'renounceOwnership()'], '6000ff'),
+    );
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result.capabilities).toEqual(['mint', 'pause', 'blacklist', 'selfdestruct', 'ownership']);
+    expect(result.privilegedFunctions).toContain('addBlackList(address)');
+  });
+
+  it('finds privileged functions from a verified ABI', async () => {
+    mockSource.mockResolvedValue({
+      verified: true,
+      contractName: 'Token',
+      compilerVersion: null,
+      abi: [
+        { type: 'function', name: 'setBlocklisted', stateMutability: 'nonpayable', inputs: [{ type: 'address' }] },
+        { type: 'function', name: 'isBlocklisted', stateMutability: 'view', inputs: [{ type: 'address' }] },
+      ],
+    });
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result.capabilities).toEqual(['blacklist']);
+    expect(result.privilegedFunctions).toEqual(['setBlocklisted(address)']);
+  });
+
+  it('detects renounced ownership', async () => {
+    mockCall.mockResolvedValue(word('0x' + '0'.repeat(40)));
+    const result = await analyzeContract(CONTRACT);
+    expect(result.ownershipRenounced).toBe(true);
+  });
+
+  it('detects EIP-1967 proxies and scans the implementation', async () => {
+    mockStorage.mockImplementation(async (_address, slot) =>
+      slot === IMPLEMENTATION_SLOT ? word(IMPL) : word('0x' + '0'.repeat(40)),
+    );
+    mockCode.mockImplementation(async (address) =>
+      address === IMPL ? dispatcher(['mint(address,uint256)']) : dispatcher([]),
+    );
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result.proxy).toEqual({ kind: 'eip1967', implementation: IMPL, admin: null, beacon: null });
+    expect(result.capabilities).toEqual(['mint', 'upgrade']);
+  });
+
+  it('detects EIP-1167 minimal proxies from bytecode', async () => {
+    mockCode.mockImplementation(async (address) =>
+      address === CONTRACT
+        ? `0x363d3d373d3d3d363d73${IMPL.slice(2)}5af43d82803e903d91602b57fd5bf3`
+        : dispatcher([]),
+    );
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result.proxy).toMatchObject({ kind: 'eip1167', implementation: IMPL });
+    expect(result.capabilities).not.toContain('upgrade');
+  });
+
+  it('degrades to unknowns when lookups fail', async () => {
+    mockCode.mockRejectedValue(new Error('rpc down'));
+    mockSource.mockResolvedValue(null);
+    mockCreation.mockResolvedValue(null);
+
+    const result = await analyzeContract(CONTRACT);
+
+    expect(result).toMatchObject({ verified: false, bytecodeSize: 0, deployer: null, owner: null, proxy: null });
+  });
+});
+
+describe('detectSmartAccount', () => {
+  it('recognizes an EIP-7702 delegated EOA', async () => {
+    mockCode.mockResolvedValue(`0xef0100${IMPL.slice(2)}`);
+    expect(await detectSmartAccount(CONTRACT)).toEqual({ kind: 'eip7702', implementation: IMPL });
+    expect(mockStorage).not.toHaveBeenCalled();
+  });
+
+  it('recognizes Coinbase Smart Wallet and Safe proxies by implementation', async () => {
+    const coinbase = '0x000100abaad02f1cfc8bbf6bf9f6ba82f7cf1ad7';
+    mockStorage.mockImplementation(async (_address, slot) =>
+      word(slot === IMPLEMENTATION_SLOT ? coinbase : '0x' + '0'.repeat(40)),
+    );
+    expect(await detectSmartAccount(CONTRACT)).toEqual({ kind: 'coinbaseSmartWallet', implementation: coinbase });
+
+    const safe = '0x29fcb43b46531bca003ddc8fcb67ffe91900c762';
+    mockStorage.mockImplementation(async (_address, slot) =>
+      word(slot === IMPLEMENTATION_SLOT ? '0x' + '0'.repeat(40) : safe),
+    );
+    expect(await detectSmartAccount(CONTRACT)).toEqual({ kind: 'safe', implementation: safe });
+  });
+
+  it('leaves other contracts and unknown implementations alone', async () => {
+    expect(await detectSmartAccount(CONTRACT)).toBeNull();
+    mockStorage.mockImplementation(async (_address, slot) => word(slot === IMPLEMENTATION_SLOT ? IMPL : '0x' + '0'.repeat(40)));
+    expect(await detectSmartAccount(CONTRACT)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+// ============================================================
+// Tests — Deployer & Rug-Pull History
+// ============================================================
+
+import { fetchDeployerHistory, describeDeployedContract } from '../src/services/deployerHistory';
+import * as basescan from '../src/services/basescan';
+import * as scamDb from '../src/services/scamDb';
+import { BasescanTokenTransfer, BasescanTransaction } from '../src/types';
+import { hash, makeTransfer, makeTx } from './helpers/history';
+
+jest.mock('../src/services/basescan');
+jest.mock('../src/services/scamDb');
+
+const mockCreated = basescan.getCreatedContracts as jest.MockedFunction<typeof basescan.getCreatedContracts>;
+const mockCreation = basescan.getContractCreation as jest.MockedFunction<typeof basescan.getContractCreation>;
+const mockCheck = scamDb.checkAddress as jest.MockedFunction<typeof scamDb.checkAddress>;
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const TOKEN = '0x' + 'a7'.repeat(20);
+const PAIR = '0x' + 'e5'.repeat(20);
+const ROUTER = '0x' + 'b0'.repeat(20);
+const FACTORY = '0x' + 'fa'.repeat(20);
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const tx = (overrides: Partial<BasescanTransaction>) => makeTx({ from: WALLET, to: TOKEN, ...overrides });
+const transfer = (overrides: Partial<BasescanTokenTransfer>) =>
+  makeTransfer({
+    from: WALLET,
+    to: PAIR,
+    value: '1000',
+    tokenName: 'Moon Token',
+    tokenSymbol: 'MOON',
+    tokenDecimal: '18',
+    contractAddress: TOKEN,
+    ...overrides,
+  });
+
+/** ETH paid to the wallet by the router inside a transaction */
+function internal(overrides: Partial<BasescanTransaction>): BasescanTransaction {
+  return tx({ from: ROUTER, to: WALLET, value: '5000000000000000000', ...overrides });
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockCreated.mockResolvedValue({ contracts: [], complete: true });
+  mockCreation.mockResolvedValue(null);
+  mockCheck.mockResolvedValue([]);
+});
+
+describe('fetchDeployerHistory', () => {
+  it('returns null for a wallet that deployed nothing', async () => {
+    const history = await fetchDeployerHistory({
+      address: WALLET,
+      transactions: [tx({})],
+      internalTransactions: [],
+      tokenTransfers: [],
+    });
+    expect(history).toBeNull();
+  });
+
+  it('finds LP tokens returned to the pair they were minted from', async () => {
+    const deploy = tx({ to: '', contractAddress: TOKEN, timeStamp: '10000' });
+    const add = hash();
+    const remove = hash();
+    const history = (await fetchDeployerHistory({
+      address: WALLET,
+      transactions: [deploy],
+      internalTransactions: [],
+      tokenTransfers: [
+        transfer({ hash: deploy.hash, from: ZERO, to: WALLET }),
+        transfer({ hash: add, timeStamp: '10600', value: '800' }),
+        transfer({ hash: add, timeStamp: '10600', from: ZERO, to: WALLET, contractAddress: PAIR, tokenSymbol: 'UNI-V2' }),
+        transfer({ hash: remove, timeStamp: String(10000 + 3 * 3600), contractAddress: PAIR, tokenSymbol: 'UNI-V2' }),
+      ],
+    }))!;
+
+    expect(history).toMatchObject({ found: 1, tokenCount: 1, rugCount: 1, complete: true });
+    expect(history.contracts[0]).toMatchObject({ address: TOKEN, via: 'direct', symbol: 'MOON', patterns: ['liquidityRemoved'] });
+    expect(describeDeployedContract(history.contracts[0]!)).toBe(
+      `MOON (0xa7a7...a7a7): liquidity pulled 3 h after launch (tx ${remove.slice(0, 10)}...)`,
+    );
+  });
+
+  it('confirms factory launches and flags a renounce followed by a dump', async () => {
+    const launch = tx({ to: FACTORY, timeStamp: '10000' });
+    const renounce = tx({ timeStamp: '11000', input: '0x715018a6' });
+    const sell = tx({ to: ROUTER, timeStamp: '12000' });
+    mockCreation.mockResolvedValue({ deployer: FACTORY, txHash: launch.hash });
+
+    const history = (await fetchDeployerHistory({
+      address: WALLET,
+      transactions: [launch, renounce, sell],
+      internalTransactions: [internal({ hash: sell.hash, timeStamp: '12000' })],
+      tokenTransfers: [
+        transfer({ hash: launch.hash, from: ZERO, to: WALLET }),
+        transfer({ hash: sell.hash, timeStamp: '12000', value: '600' }),
+      ],
+    }))!;
+
+    expect(mockCreation).toHaveBeenCalledWith(TOKEN);
+    expect(history.contracts[0]).toMatchObject({ via: 'factory', patterns: ['mintAndDump', 'renounceThenDrain'] });
+    expect(history.contracts[0]!.evidence).toEqual([
+      'sold 60% of minted supply for ETH',
+      'ownership renounced, then drained 17 min later',
+    ]);
+  });
+
+  it('ignores tokens minted to the wallet that it did not create', async () => {
+    const claim = tx({ to: TOKEN, timeStamp: '10000' });
+    mockCreation.mockResolvedValue({ deployer: FACTORY, txHash: hash() });
+
+    const history = await fetchDeployerHistory({
+      address: WALLET,
+      transactions: [claim],
+      internalTransactions: [],
+      tokenTransfers: [transfer({ hash: claim.hash, from: ZERO, to: WALLET })],
+    });
+
+    expect(history).toBeNull();
+  });
+
+  it('adds contracts from the explorer and flags scam-database matches', async () => {
+    mockCreated.mockResolvedValue({
+      contracts: [{ address: TOKEN, txHash: hash(), timestamp: 5000 }],
+      complete: false,
+    });
+    mockCheck.mockResolvedValue([{ source: 'local', category: 'rugpull', description: 'Known rug' }]);
+
+    const history = (await fetchDeployerHistory({
+      address: WALLET,
+      transactions: [],
+      internalTransactions: [],
+      tokenTransfers: [],
+    }))!;
+
+    expect(history).toMatchObject({ found: 1, tokenCount: 0, rugCount: 1, complete: false });
+    expect(history.contracts[0]).toMatchObject({ symbol: null, patterns: ['scamFlagged'], evidence: ['[local] rugpull'] });
+  });
+});
@@ -0,0 +1,139 @@
+// ============================================================
+// Tests — Drain Sweep Detection
+// ============================================================
+
+import { detectDrains, describeDrainEvent } from '../src/services/drains';
+import { BasescanNftTransfer, BasescanTokenTransfer, BasescanTransaction } from '../src/types';
+import { hash, makeTransfer, makeTx } from './helpers/history';
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const DRAINER = '0x' + 'd4'.repeat(20);
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const DEGEN = '0x4ed4e862860bed51a9570b96d89af5e1b0efefed';
+const NFT = '0x' + 'c3'.repeat(20);
+const POOL = '0x' + 'e5'.repeat(20);
+
+const word = (address: string) => address.slice(2).padStart(64, '0');
+
+const tx = (overrides: Partial<BasescanTransaction>) => makeTx({ from: WALLET, to: DRAINER, ...overrides });
+const transfer = (overrides: Partial<BasescanTokenTransfer>) =>
+  makeTransfer({ from: WALLET, to: DRAINER, value: '500000000', ...overrides });
+
+function nft(overrides: Partial<BasescanNftTransfer>): BasescanNftTransfer {
+  return {
+    blockNumber: '1',
+    timeStamp: '10000',
+    hash: hash(),
+    from: WALLET,
+    to: DRAINER,
+    tokenID: '7',
+    tokenName: 'Base Punks',
+    tokenSymbol: 'BPUNK',
+    contractAddress: NFT,
+    ...overrides,
+  };
+}
+
+const history = (overrides: Partial<Parameters<typeof detectDrains>[0]> = {}) => ({
+  address: WALLET,
+  transactions: [],
+  internalTransactions: [],
+  tokenTransfers: [],
+  ...overrides,
+});
+
+describe('detectDrains', () => {
+  it('finds tokens and NFTs pulled out shortly after an approval', () => {
+    const approve = tx({ timeStamp: '9400', to: USDC, input: '0x095ea7b3' + word(DRAINER) + 'f'.repeat(64) });
+    const result = detectDrains(history({
+      transactions: [approve],
+      tokenTransfers: [
+        transfer({ timeStamp: '10000' }),
+        transfer({ timeStamp: '10060', contractAddress: DEGEN, tokenSymbol: 'DEGEN', value: '10'.repeat(10) }),
+      ],
+      nftTransfers: [nft({ timeStamp: '10120' })],
+    }))!;
+
+    expect(result.role).toBe('victim');
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]).toMatchObject({
+      destinations: [DRAINER],
+      assets: ['USDC', 'DEGEN', 'BPUNK #7'],
+      assetKinds: ['erc20', 'erc20', 'nft'],
+      pulled: 3,
+      grant: { spender: DRAINER, txHash: approve.hash, timestamp: 9400 },
+    });
+    expect(describeDrainEvent(result.events[0]!)).toBe(
+      '0x742d...b3a1: USDC, DEGEN, 1 NFT → 0xd4d4...d4d4 in 2 min (pulled 3, 10 min after approval)',
+    );
+  });
+
+  it('treats a multi-asset sweep signed by the wallet itself as a victim with a leaked key', () => {
+    const sends = [
+      tx({ timeStamp: '10000', value: '2000000000000000000' }),
+      tx({ timeStamp: '10010', to: USDC, input: '0xa9059cbb' }),
+      tx({ timeStamp: '10020', to: DEGEN, input: '0xa9059cbb' }),
+    ];
+    const result = detectDrains(history({
+      transactions: sends,
+      tokenTransfers: [
+        transfer({ timeStamp: '10010', hash: sends[1]!.hash }),
+        transfer({ timeStamp: '10020', hash: sends[2]!.hash, contractAddress: DEGEN, tokenSymbol: 'DEGEN' }),
+      ],
+    }))!;
+
+    expect(result.role).toBe('victim');
+    expect(result.events[0]).toMatchObject({ assets: ['ETH', 'USDC', 'DEGEN'], pulled: 0, grant: null });
+  });
+
+  it('ignores swaps, where the same transaction pays the wallet back', () => {
+    const swaps = [hash(), hash(), hash()];
+    const result = detectDrains(history({
+      transactions: swaps.map((h) => tx({ hash: h, to: POOL, input: '0x3593564c' })),
+      tokenTransfers: swaps.flatMap((h, i) => [
+        transfer({ hash: h, to: POOL, timeStamp: String(10000 + i) }),
+        transfer({ hash: h, from: POOL, to: WALLET, contractAddress: DEGEN, tokenSymbol: 'DEGEN', timeStamp: String(10000 + i) }),
+      ]),
+    }));
+
+    expect(result).toBeNull();
+  });
+
+  it('ignores a single asset moved to one destination', () => {
+    const result = detectDrains(history({ tokenTransfers: [transfer({}), transfer({ timeStamp: '10010' })] }));
+    expect(result).toBeNull();
+  });
+
+  it('flags a wallet that calls transferFrom on other wallets as a sweeper', () => {
+    const victims = ['0x' + 'a1'.repeat(20), '0x' + 'a2'.repeat(20)];
+    const pulls = victims.map((victim) =>
+      tx({ from: DRAINER, to: USDC, input: '0x23b872dd' + word(victim) + word(DRAINER) + '0'.repeat(64) }),
+    );
+    const result = detectDrains({
+      address: DRAINER,
+      transactions: pulls,
+      internalTransactions: [],
+      tokenTransfers: pulls.map((p, i) => transfer({ hash: p.hash, from: victims[i]!, to: DRAINER })),
+    })!;
+
+    expect(result.role).toBe('sweeper');
+    expect(result.sources).toBe(2);
+    expect(result.events.every((e) => e.pulled === e.transfers)).toBe(true);
+  });
+
+  it('flags a collector receiving multi-asset sweeps from several wallets', () => {
+    const victims = ['0x' + 'a1'.repeat(20), '0x' + 'a2'.repeat(20), '0x' + 'a3'.repeat(20)];
+    const result = detectDrains({
+      address: DRAINER,
+      transactions: [],
+      internalTransactions: [],
+      tokenTransfers: victims.flatMap((victim, i) => [
+        transfer({ from: victim, timeStamp: String(10000 + i * 86400) }),
+        transfer({ from: victim, contractAddress: DEGEN, tokenSymbol: 'DEGEN', timeStamp: String(10030 + i * 86400) }),
+      ]),
+    })!;
+
+    expect(result.role).toBe('sweeper');
+    expect(result.sources).toBe(3);
+  });
+});
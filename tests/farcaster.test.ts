@@ -3,7 +3,24 @@
 // ============================================================
 
 import crypto from 'crypto';
-import { verifyWebhookSignature } from '../src/services/farcaster';
+import {
+  verifyWebhookSignature,
+  postThread,
+  fetchCastContent,
+  fetchVerifiedAddresses,
+} from '../src/services/farcaster';
+
+const mockPublishCast = jest.fn();
+const mockLookupCast = jest.fn();
+const mockBulkUsers = jest.fn();
+jest.mock('@neynar/nodejs-sdk', () => ({
+  Configuration: jest.fn(),
+  NeynarAPIClient: jest.fn().mockImplementation(() => ({
+    publishCast: mockPublishCast,
+    lookupCastByHashOrUrl: mockLookupCast,
+    fetchBulkUsers: mockBulkUsers,
+  })),
+}));
 
 describe('verifyWebhookSignature', () => {
   it('verifies a valid HMAC-SHA512 signature', () => {
@@ -36,3 +53,81 @@ describe('verifyWebhookSignature', () => {
     expect(verifyWebhookSignature(tamperedBody, signature)).toBe(false);
   });
 });
+
+describe('postThread', () => {
+  beforeEach(() => {
+    mockPublishCast.mockReset();
+    let n = 0;
+    mockPublishCast.mockImplementation(async () => ({ success: true, cast: { hash: `0xreply${++n}` } }));
+  });
+
+  it('chains each cast as a reply to the previous one', async () => {
+    const hashes = await postThread(['one', 'two', 'three'], '0xmention');
+
+    expect(hashes).toEqual(['0xreply1', '0xreply2', '0xreply3']);
+    expect(mockPublishCast.mock.calls.map((c) => c[0].parent)).toEqual([
+      '0xmention',
+      '0xreply1',
+      '0xreply2',
+    ]);
+    expect(mockPublishCast.mock.calls.map((c) => c[0].text)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('stops the thread when a cast fails to publish', async () => {
+    mockPublishCast
+      .mockResolvedValueOnce({ success: true, cast: { hash: '0xreply1' } })
+      .mockRejectedValueOnce(new Error('rate limited'));
+
+    await expect(postThread(['one', 'two', 'three'], '0xmention')).rejects.toThrow('rate limited');
+    expect(mockPublishCast).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('fetchCastContent', () => {
+  beforeEach(() => mockLookupCast.mockReset());
+
+  it('returns the cast text followed by embed URLs and quoted casts', async () => {
+    mockLookupCast.mockResolvedValue({
+      cast: {
+        text: 'claim your airdrop',
+        embeds: [{ url: 'https://example.com/claim' }, { cast: { text: 'quoted 0xabc' } }],
+      },
+    });
+
+    expect(await fetchCastContent('0xparent')).toBe('claim your airdrop\nhttps://example.com/claim\nquoted 0xabc');
+    expect(mockLookupCast).toHaveBeenCalledWith({ identifier: '0xparent', type: 'hash' });
+  });
+
+  it('returns null when the lookup fails', async () => {
+    mockLookupCast.mockRejectedValue(new Error('not found'));
+    expect(await fetchCastContent('0xmissing')).toBeNull();
+  });
+});
+
+describe('fetchVerifiedAddresses', () => {
+  beforeEach(() => mockBulkUsers.mockReset());
+
+  it('puts the primary address first, without duplicates', async () => {
+    mockBulkUsers.mockResolvedValue({
+      users: [
+        {
+          verified_addresses: {
+            eth_addresses: ['0xAAA', '0xBBB'],
+            primary: { eth_address: '0xbbb' },
+          },
+        },
+      ],
+    });
+
+    expect(await fetchVerifiedAddresses(99)).toEqual(['0xbbb', '0xaaa']);
+    expect(mockBulkUsers).toHaveBeenCalledWith({ fids: [99] });
+  });
+
+  it('returns an empty list for unknown users and null on errors', async () => {
+    mockBulkUsers.mockResolvedValueOnce({ users: [] });
+    expect(await fetchVerifiedAddresses(1)).toEqual([]);
+
+    mockBulkUsers.mockRejectedValueOnce(new Error('429'));
+    expect(await fetchVerifiedAddresses(1)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+// ============================================================
+// Tests — Fixture Record / Replay
+// ============================================================
+
+import axios from 'axios';
+import { mkdtempSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  withFixtureBundle,
+  recorded,
+  recordedRpcFetch,
+  fixtureBundlePath,
+  loadFixtureBundle,
+} from '../src/services/fixtureRecorder';
+import { getBalance } from '../src/services/basescan';
+import { auditApprovals } from '../src/services/approvals';
+import { config } from '../src/config';
+
+jest.mock('axios');
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'fixture-bundles-'));
+  mockGet.mockReset();
+});
+
+const record = <T>(fn: () => Promise<T>) => withFixtureBundle('bundle', fn, { mode: 'record', dir });
+const replay = <T>(fn: () => Promise<T>) => withFixtureBundle('bundle', fn, { mode: 'replay', dir });
+
+describe('recorded', () => {
+  it('replays responses and failures without calling upstream', async () => {
+    await record(async () => {
+      await recorded('src', { q: 1 }, async () => ({ value: 'one' }));
+      await recorded('src', { q: 2 }, async () => {
+        throw new Error('upstream down');
+      }).catch(() => undefined);
+    });
+
+    const live = jest.fn();
+    await replay(async () => {
+      await expect(recorded('src', { q: 1 }, live)).resolves.toEqual({ value: 'one' });
+      await expect(recorded('src', { q: 2 }, live)).rejects.toThrow('upstream down');
+      await expect(recorded('src', { q: 3 }, live)).rejects.toThrow('No recorded src response');
+    });
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it('serves repeated requests in recorded order, then repeats the last', async () => {
+    let n = 0;
+    await record(async () => {
+      for (let i = 0; i < 2; i++) await recorded('src', { q: 1 }, async () => ++n);
+    });
+
+    const served = await replay(async () => {
+      const out: number[] = [];
+      for (let i = 0; i < 3; i++) out.push(await recorded('src', { q: 1 }, async () => -1));
+      return out;
+    });
+    expect(served).toEqual([1, 2, 2]);
+  });
+
+  it('matches requests regardless of key order', async () => {
+    await record(() => recorded('src', { a: 1, b: 2 }, async () => 'hit'));
+    await expect(replay(() => recorded('src', { b: 2, a: 1 }, async () => 'live'))).resolves.toBe('hit');
+  });
+
+  it('saves the bundle even when the analysis throws', async () => {
+    await expect(
+      record(async () => {
+        await recorded('src', { q: 1 }, async () => 'partial');
+        throw new Error('analysis failed');
+      }),
+    ).rejects.toThrow('analysis failed');
+
+    expect(loadFixtureBundle(fixtureBundlePath(dir, 'bundle')).entries).toHaveLength(1);
+  });
+
+  it('keeps the recorded bundle when a later run is answered from cache', async () => {
+    await record(async () => {
+      await recorded('basescan', { q: 1 }, async () => 'history');
+      await recorded('neynar', { text: 'report' }, async () => 'posted');
+    });
+    // Second mention: the report comes from cache, only the reply goes out
+    await record(() => recorded('neynar', { text: 'report' }, async () => 'posted'));
+
+    const { entries } = loadFixtureBundle(fixtureBundlePath(dir, 'bundle'));
+    expect(entries.map((e) => e.source)).toEqual(['basescan', 'neynar']);
+  });
+
+  it('joins the outer bundle when nested', async () => {
+    await record(() =>
+      withFixtureBundle('inner', () => recorded('src', { q: 1 }, async () => 'x'), { mode: 'record', dir }),
+    );
+
+    expect(existsSync(fixtureBundlePath(dir, 'inner'))).toBe(false);
+    expect(loadFixtureBundle(fixtureBundlePath(dir, 'bundle')).entries).toHaveLength(1);
+  });
+
+  it('fails replay when no bundle was recorded', async () => {
+    await expect(replay(async () => 'unreachable')).rejects.toThrow();
+  });
+});
+
+describe('recordedRpcFetch', () => {
+  const rpcBody = (id: number) => JSON.stringify({ jsonrpc: '2.0', id, method: 'eth_blockNumber', params: [] });
+
+  it('matches on method and params and answers with the current request id', async () => {
+    const upstream = jest.fn(async () => new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result: '0x10' })));
+    const fetchFn = recordedRpcFetch(upstream);
+
+    await record(() => fetchFn('https://rpc-a.example', { method: 'POST', body: rpcBody(1) }));
+    const response = await replay(() => fetchFn('https://rpc-b.example', { method: 'POST', body: rpcBody(7) }));
+
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 7, result: '0x10' });
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Basescan through a bundle', () => {
+  const ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+
+  it('records the call without the API key and replays it offline', async () => {
+    mockGet.mockResolvedValueOnce({ data: { status: '1', message: 'OK', result: '5000' } });
+
+    await expect(record(() => getBalance(ADDRESS))).resolves.toBe(5000n);
+    const [entry] = loadFixtureBundle(fixtureBundlePath(dir, 'bundle')).entries;
+    expect(entry).toMatchObject({ source: 'basescan', request: { action: 'balance', address: ADDRESS } });
+    expect(JSON.stringify(entry)).not.toContain('test-basescan-key');
+
+    await expect(replay(() => getBalance(ADDRESS))).resolves.toBe(5000n);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Approvals audit under FIXTURE_MODE', () => {
+  const ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+
+  it('records to and replays from its own bundle without an outer one', async () => {
+    jest.replaceProperty(config, 'fixtureDir', dir);
+    mockGet.mockResolvedValue({ data: { status: '0', message: 'No records found', result: [] } });
+
+    jest.replaceProperty(config, 'fixtureMode', 'record');
+    const recordedSnapshot = await auditApprovals(ADDRESS);
+    expect(recordedSnapshot).not.toBeNull();
+    expect(existsSync(fixtureBundlePath(dir, `approvals-${ADDRESS}`))).toBe(true);
+    const calls = mockGet.mock.calls.length;
+
+    jest.replaceProperty(config, 'fixtureMode', 'replay');
+    const replayed = await auditApprovals(ADDRESS);
+    expect(mockGet).toHaveBeenCalledTimes(calls);
+    expect(replayed).toEqual(recordedSnapshot);
+  });
+});
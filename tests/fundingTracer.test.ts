@@ -0,0 +1,180 @@
+// ============================================================
+// Tests — Funding Source Tracer
+// ============================================================
+
+import { traceFunding, firstFundingHop, describeFundingHop } from '../src/services/fundingTracer';
+import * as basescan from '../src/services/basescan';
+import { seedLocalDb } from '../src/services/scamDb';
+import { BasescanTransaction, BasescanTokenTransfer } from '../src/types';
+
+jest.mock('../src/services/basescan');
+const mockEarliest = basescan.getEarliestTransfers as jest.MockedFunction<
+  typeof basescan.getEarliestTransfers
+>;
+
+const TARGET = '0x' + '1'.repeat(40);
+const HOP1 = '0x' + '2'.repeat(40);
+const HOP2 = '0x' + '3'.repeat(40);
+const COINBASE = '0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43';
+const MIXER = '0xd90e2f925da726b50c4ed8d0fb90ad053324f31b';
+
+function makeTx(from: string, to: string, overrides: Partial<BasescanTransaction> = {}): BasescanTransaction {
+  return {
+    blockNumber: '1000000',
+    timeStamp: '1700000000',
+    hash: '0x' + from.slice(2, 10).padEnd(64, '0'),
+    from,
+    to,
+    value: '500000000000000000', // 0.5 ETH
+    gas: '21000',
+    gasUsed: '21000',
+    isError: '0',
+    functionName: '',
+    contractAddress: '',
+    input: '0x',
+    ...overrides,
+  };
+}
+
+function makeTokenTransfer(from: string, to: string): BasescanTokenTransfer {
+  return {
+    blockNumber: '1000000',
+    timeStamp: '1690000000',
+    hash: '0x' + 'e'.repeat(64),
+    from,
+    to,
+    value: '2500000',
+    tokenName: 'USD Coin',
+    tokenSymbol: 'USDC',
+    tokenDecimal: '6',
+    contractAddress: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+  };
+}
+
+/** Each address is funded by the next one in the chain */
+function fundingChain(chain: string[]) {
+  mockEarliest.mockImplementation(async (address) => {
+    const index = chain.indexOf(address.toLowerCase());
+    const funder = index >= 0 ? chain[index + 1] : undefined;
+    return {
+      transactions: funder ? [makeTx(funder, address)] : [],
+      internalTransactions: [],
+      tokenTransfers: [],
+    };
+  });
+}
+
+beforeAll(() => {
+  seedLocalDb([
+    { address: MIXER, category: 'mixer', description: 'Tornado Cash Router (Ethereum)' },
+  ]);
+});
+
+beforeEach(() => {
+  mockEarliest.mockReset();
+});
+
+describe('traceFunding', () => {
+  it('stops at a labeled exchange', async () => {
+    fundingChain([TARGET, HOP1, COINBASE]);
+
+    const trace = await traceFunding(TARGET, 3);
+
+    expect(trace.stoppedBy).toBe('labeled');
+    expect(trace.hops.map((h) => h.from)).toEqual([HOP1, COINBASE]);
+    expect(trace.origin).toEqual({ label: 'Coinbase Hot Wallet 10', category: 'exchange', source: 'known' });
+    expect(trace.hops[0]).toMatchObject({ to: TARGET, asset: 'ETH', amount: '0.5' });
+  });
+
+  it('attributes mixer origins from the scam database', async () => {
+    fundingChain([TARGET, MIXER]);
+
+    const trace = await traceFunding(TARGET, 3);
+
+    expect(trace.stoppedBy).toBe('labeled');
+    expect(trace.origin).toMatchObject({ category: 'mixer', source: 'scamDb' });
+  });
+
+  it('stops at the depth limit when the origin is unlabeled', async () => {
+    fundingChain([TARGET, HOP1, HOP2, COINBASE]);
+
+    const trace = await traceFunding(TARGET, 2);
+
+    expect(trace.stoppedBy).toBe('depth');
+    expect(trace.origin).toBeNull();
+    expect(trace.hops).toHaveLength(2);
+    expect(mockEarliest).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports noInbound when the path runs out', async () => {
+    fundingChain([TARGET, HOP1]);
+
+    const trace = await traceFunding(TARGET, 3);
+
+    expect(trace.stoppedBy).toBe('noInbound');
+    expect(trace.hops).toHaveLength(1);
+  });
+
+  it('detects cycles', async () => {
+    fundingChain([TARGET, HOP1, TARGET]);
+
+    const trace = await traceFunding(TARGET, 5);
+
+    expect(trace.stoppedBy).toBe('cycle');
+    expect(trace.hops).toHaveLength(2);
+  });
+
+  it('returns a partial trace when a lookup fails', async () => {
+    mockEarliest
+      .mockResolvedValueOnce({ transactions: [makeTx(HOP1, TARGET)], internalTransactions: [], tokenTransfers: [] })
+      .mockRejectedValueOnce(new Error('boom'));
+
+    const trace = await traceFunding(TARGET, 3);
+
+    expect(trace.stoppedBy).toBe('error');
+    expect(trace.hops).toHaveLength(1);
+  });
+});
+
+describe('firstFundingHop', () => {
+  it('picks the earliest inbound ETH transfer', () => {
+    const hop = firstFundingHop(
+      TARGET,
+      [
+        makeTx(HOP2, TARGET, { timeStamp: '1700000500' }),
+        makeTx(TARGET, HOP2, { timeStamp: '1600000000' }), // outgoing
+      ],
+      [makeTx(HOP1, TARGET, { timeStamp: '1700000100' })],
+      [],
+    );
+    expect(hop?.from).toBe(HOP1);
+  });
+
+  it('ignores failed, zero-value and mint transfers', () => {
+    const hop = firstFundingHop(
+      TARGET,
+      [
+        makeTx(HOP1, TARGET, { isError: '1' }),
+        makeTx(HOP1, TARGET, { value: '0' }),
+        makeTx('0x0000000000000000000000000000000000000000', TARGET),
+      ],
+      [],
+      [],
+    );
+    expect(hop).toBeNull();
+  });
+
+  it('falls back to token transfers when no ETH was received', () => {
+    const hop = firstFundingHop(TARGET, [], [], [makeTokenTransfer(HOP1, TARGET)]);
+    expect(hop).toMatchObject({ from: HOP1, asset: 'USDC', amount: '2.5' });
+  });
+});
+
+describe('describeFundingHop', () => {
+  it('shows the path, amount, label and tx', () => {
+    const hop = firstFundingHop(TARGET, [makeTx(COINBASE, TARGET)], [], [])!;
+    expect(describeFundingHop(hop, 0)).toBe(
+      'Hop 1: 0x1111...1111 ← 0.5 ETH from 0xa9d1...3e43 (Coinbase Hot Wallet 10) (tx: 0xa9d1e08c...)',
+    );
+  });
+});
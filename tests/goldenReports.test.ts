@@ -0,0 +1,62 @@
+// ============================================================
+// Tests — Golden Reports
+// ============================================================
+// Canonical wallets run end-to-end through scoring, report
+// generation (offline template provider) and cast formatting.
+// Each scenario in tests/golden/<name>/ holds the WalletData
+// fixture (wallet.json) and the expected report.json / cast.txt.
+// After an intended change, regenerate them and review the diff:
+//   UPDATE_GOLDEN=1 npx jest tests/goldenReports.test.ts
+// ============================================================
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { computeRiskScore } from '../src/services/riskScorer';
+import { generateReport, formatForCast } from '../src/services/reportGenerator';
+import { TemplateSummaryProvider } from '../src/services/summaryProvider';
+import { defaultScoringModel } from '../src/services/scoringModel';
+import { parseWalletData } from '../src/services/walletFixtures';
+
+const GOLDEN_DIR = join(__dirname, 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+const SCENARIOS = ['fresh-eoa', 'defi-user', 'drainer', 'victim', 'mixer-funded', 'contract', 'token-deployer'];
+
+async function render(scenario: string): Promise<{ report: string; cast: string }> {
+  const data = parseWalletData(readFileSync(join(GOLDEN_DIR, scenario, 'wallet.json'), 'utf8'));
+
+  const assessment = computeRiskScore(data, defaultScoringModel());
+  const generated = await generateReport(data, assessment, Date.now(), new TemplateSummaryProvider());
+  // Pin the run-dependent fields
+  const report = { ...generated, analyzedAt: '2026-01-01T00:00:00.000Z', responseTimeMs: 0 };
+
+  return { report: JSON.stringify(report, null, 2) + '\n', cast: formatForCast(report) + '\n' };
+}
+
+/** Compare with the stored output, or rewrite it with UPDATE_GOLDEN=1 */
+function expectGolden(scenario: string, file: string, actual: string): void {
+  const path = join(GOLDEN_DIR, scenario, file);
+  if (UPDATE) {
+    writeFileSync(path, actual);
+    return;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Missing ${path} — run with UPDATE_GOLDEN=1 to create it`);
+  }
+  // Compared line by line so a drift shows as a readable diff
+  expect(actual.split('\n')).toEqual(readFileSync(path, 'utf8').split('\n'));
+}
+
+describe('golden reports', () => {
+  it('covers every scenario directory', () => {
+    const dirs = readdirSync(GOLDEN_DIR, { withFileTypes: true }).filter((d) => d.isDirectory()).map((d) => d.name);
+    expect(dirs.sort()).toEqual([...SCENARIOS].sort());
+  });
+
+  it.each(SCENARIOS)('%s', async (scenario) => {
+    const { report, cast } = await render(scenario);
+
+    expectGolden(scenario, 'report.json', report);
+    expectGolden(scenario, 'cast.txt', cast);
+  });
+});
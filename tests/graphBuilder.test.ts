@@ -0,0 +1,217 @@
+// ============================================================
+// Tests — Connected-Wallet Graph & Cluster Detection
+// ============================================================
+
+import { buildWalletGraph } from '../src/services/graphBuilder';
+import * as basescan from '../src/services/basescan';
+import { BasescanTransaction, BasescanTokenTransfer } from '../src/types';
+
+jest.mock('../src/services/basescan');
+const mockGetTransactions = basescan.getTransactions as jest.MockedFunction<typeof basescan.getTransactions>;
+const mockGetTokenTransfers = basescan.getTokenTransfers as jest.MockedFunction<typeof basescan.getTokenTransfers>;
+const mockEarliest = basescan.getEarliestTransfers as jest.MockedFunction<typeof basescan.getEarliestTransfers>;
+
+const TARGET = '0x' + '1'.repeat(40);
+const A = '0x' + 'a'.repeat(40);
+const B = '0x' + 'b'.repeat(40);
+const C = '0x' + 'c'.repeat(40);
+const SINK = '0x' + 'd'.repeat(40);
+const FUNDER = '0x' + 'f'.repeat(40);
+const ELSEWHERE = '0x' + 'e'.repeat(40);
+const UNISWAP = '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad';
+const T0 = 1700000000;
+
+let nonce = 0;
+function makeTx(from: string, to: string, timestamp: number, value = '1000000000000000000'): BasescanTransaction {
+  return {
+    blockNumber: '1000000',
+    timeStamp: String(timestamp),
+    hash: '0x' + (nonce++).toString(16).padStart(64, '0'),
+    from,
+    to,
+    value,
+    gas: '21000',
+    gasUsed: '21000',
+    isError: '0',
+    functionName: '',
+    contractAddress: '',
+    input: '0x',
+  };
+}
+
+function makeTokenTransfer(from: string, to: string, timestamp: number): BasescanTokenTransfer {
+  return {
+    blockNumber: '1000000',
+    timeStamp: String(timestamp),
+    hash: '0x' + (nonce++).toString(16).padStart(64, 'e'),
+    from,
+    to,
+    value: '1000000',
+    tokenName: 'USD Coin',
+    tokenSymbol: 'USDC',
+    tokenDecimal: '6',
+    contractAddress: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+  };
+}
+
+function walletData(transactions: BasescanTransaction[], tokenTransfers: BasescanTokenTransfer[] = []) {
+  return { address: TARGET, transactions, internalTransactions: [], tokenTransfers };
+}
+
+beforeEach(() => {
+  mockGetTransactions.mockReset().mockResolvedValue([]);
+  mockGetTokenTransfers.mockReset().mockResolvedValue([]);
+  mockEarliest.mockReset().mockResolvedValue({ transactions: [], internalTransactions: [], tokenTransfers: [] });
+});
+
+describe('buildWalletGraph (1 hop)', () => {
+  it('aggregates transfers into nodes and edges', async () => {
+    const graph = await buildWalletGraph(
+      walletData(
+        [makeTx(TARGET, A, T0), makeTx(TARGET, A, T0 + 10), makeTx(TARGET, UNISWAP, T0 + 20)],
+        [makeTokenTransfer(TARGET, A, T0 + 30)],
+      ),
+      1,
+    );
+
+    expect(graph.center).toBe(TARGET);
+    expect(graph.depth).toBe(1);
+    expect(graph.nodes[0]).toMatchObject({ address: TARGET, hop: 0, outbound: 4 });
+
+    const edge = graph.edges.find((e) => e.from === TARGET && e.to === A)!;
+    expect(edge).toMatchObject({ txCount: 3, assets: ['ETH', 'USDC'], valueEth: '2', firstSeen: T0, lastSeen: T0 + 30 });
+
+    const router = graph.nodes.find((n) => n.address === UNISWAP)!;
+    expect(router).toMatchObject({ hop: 1, label: 'Uniswap UniversalRouter' });
+    expect(mockGetTransactions).not.toHaveBeenCalled();
+  });
+
+  it('does not turn the target\'s ordinary payments into a cluster', async () => {
+    const small = '20000000000000000'; // 0.02 ETH
+    const graph = await buildWalletGraph(
+      walletData([
+        makeTx(TARGET, A, T0, small),
+        makeTx(TARGET, B, T0 + 600, small),
+        makeTx(TARGET, C, T0 + 1200, small),
+      ]),
+      1,
+    );
+
+    expect(graph.clusters).toEqual([]);
+    expect(mockEarliest).not.toHaveBeenCalled();
+  });
+
+  it('does not make a sweep destination of the target\'s payers or airdrops', async () => {
+    const graph = await buildWalletGraph(
+      walletData(
+        [makeTx(A, TARGET, T0), makeTx(B, TARGET, T0 + 600), makeTx(C, TARGET, T0 + 1200)],
+        [makeTokenTransfer(SINK, TARGET, T0), makeTokenTransfer(FUNDER, TARGET, T0 + 1), makeTokenTransfer(ELSEWHERE, TARGET, T0 + 2)],
+      ),
+      1,
+    );
+
+    expect(graph.clusters).toEqual([]);
+  });
+
+  it('ignores funding spread over weeks', async () => {
+    const week = 7 * 86400;
+    const graph = await buildWalletGraph(
+      walletData([makeTx(TARGET, A, T0), makeTx(TARGET, B, T0 + week), makeTx(TARGET, C, T0 + 2 * week)]),
+      1,
+    );
+    expect(graph.clusters).toEqual([]);
+  });
+
+  it('never anchors clusters on labeled contracts', async () => {
+    const graph = await buildWalletGraph(
+      walletData([
+        makeTx(A, UNISWAP, T0),
+        makeTx(B, UNISWAP, T0 + 100),
+        makeTx(C, UNISWAP, T0 + 200),
+        makeTx(TARGET, UNISWAP, T0 + 300),
+      ]),
+      1,
+    );
+    expect(graph.clusters.filter((c) => c.kind === 'sweepDestination')).toEqual([]);
+  });
+
+  it('detects synchronized senders', async () => {
+    const graph = await buildWalletGraph(
+      walletData([makeTx(A, TARGET, T0, '0'), makeTx(B, TARGET, T0 + 20, '0'), makeTx(C, TARGET, T0 + 45, '0')]),
+      1,
+    );
+
+    const sync = graph.clusters.find((c) => c.kind === 'synchronized');
+    expect(sync).toMatchObject({ anchor: null, members: [A, B, C] });
+  });
+});
+
+describe('buildWalletGraph (2 hops)', () => {
+  it('expands unlabeled neighbors and finds sweep destinations', async () => {
+    mockGetTransactions.mockImplementation(async (address) =>
+      [A, B, C].includes(address) ? [makeTx(address, SINK, T0 + 3600)] : [],
+    );
+
+    const graph = await buildWalletGraph(
+      walletData([
+        makeTx(TARGET, A, T0, '0'),
+        makeTx(TARGET, A, T0 + 1, '0'),
+        makeTx(TARGET, B, T0 + 86400 * 30, '0'),
+        makeTx(TARGET, C, T0 + 86400 * 60, '0'),
+        makeTx(TARGET, UNISWAP, T0 + 86400 * 90, '0'),
+      ]),
+      2,
+    );
+
+    expect(graph.depth).toBe(2);
+    expect(graph.expanded).toEqual([A, B, C]); // busiest first, router skipped
+    expect(graph.nodes.find((n) => n.address === SINK)).toMatchObject({ hop: 2, inbound: 3 });
+
+    expect(graph.clusters).toContainEqual(
+      expect.objectContaining({
+        kind: 'sweepDestination',
+        anchor: SINK,
+        members: expect.arrayContaining([A, B, C]),
+        includesTarget: false,
+      }),
+    );
+  });
+
+  it('confirms a common funder against each wallet\'s real first funding', async () => {
+    const funding = makeTx(FUNDER, TARGET, T0);
+    mockGetTransactions.mockImplementation(async (address) =>
+      address === FUNDER
+        ? [funding, makeTx(FUNDER, A, T0 + 100), makeTx(FUNDER, B, T0 + 200), makeTx(FUNDER, C, T0 + 300)]
+        : [],
+    );
+    mockEarliest.mockImplementation(async (address) => ({
+      transactions: [
+        address === C ? makeTx(ELSEWHERE, C, T0 - 86400 * 90) : makeTx(FUNDER, address, T0 + 10),
+      ],
+      internalTransactions: [],
+      tokenTransfers: [],
+    }));
+
+    const graph = await buildWalletGraph(walletData([funding]), 2);
+
+    expect(graph.clusters).toEqual([
+      expect.objectContaining({
+        kind: 'commonFunder',
+        anchor: FUNDER,
+        members: expect.arrayContaining([TARGET, A, B]),
+        includesTarget: true,
+      }),
+    ]);
+    expect(graph.clusters[0]!.members).not.toContain(C);
+  });
+
+  it('counts a transfer seen from both sides once', async () => {
+    const shared = makeTx(TARGET, A, T0);
+    mockGetTransactions.mockImplementation(async (address) => (address === A ? [shared] : []));
+
+    const graph = await buildWalletGraph(walletData([shared]), 2);
+
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.edges[0]!.txCount).toBe(1);
+  });
+});
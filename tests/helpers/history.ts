@@ -0,0 +1,52 @@
+// ============================================================
+// Tests — Shared History Factories
+// ============================================================
+// Basescan rows for the pure history analyzers. Each test file wraps
+// these with its own parties (`tx({ from: WALLET, ... })`); every row
+// gets a fresh hash unless one is given.
+// ============================================================
+
+import { BasescanTokenTransfer, BasescanTransaction } from '../../src/types';
+
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+let n = 0;
+
+/** A transaction hash not used by any earlier row */
+export const hash = () => '0x' + (++n).toString(16).padStart(64, '0');
+
+/** A successful plain ETH transfer of nothing, at timestamp 10000 */
+export function makeTx(overrides: Partial<BasescanTransaction> = {}): BasescanTransaction {
+  return {
+    blockNumber: '1',
+    timeStamp: '10000',
+    hash: hash(),
+    from: '0x' + 'a'.repeat(40),
+    to: '0x' + 'b'.repeat(40),
+    value: '0',
+    gas: '21000',
+    gasUsed: '21000',
+    isError: '0',
+    functionName: '',
+    contractAddress: '',
+    input: '0x',
+    ...overrides,
+  };
+}
+
+/** A USDC transfer (6 decimals) of 1 USDC, at timestamp 10000 */
+export function makeTransfer(overrides: Partial<BasescanTokenTransfer> = {}): BasescanTokenTransfer {
+  return {
+    blockNumber: '1',
+    timeStamp: '10000',
+    hash: hash(),
+    from: '0x' + 'a'.repeat(40),
+    to: '0x' + 'b'.repeat(40),
+    value: '1000000',
+    tokenName: 'USD Coin',
+    tokenSymbol: 'USDC',
+    tokenDecimal: '6',
+    contractAddress: USDC,
+    ...overrides,
+  };
+}
@@ -0,0 +1,184 @@
+// ============================================================
+// Tests — Holdings Snapshot
+// ============================================================
+
+import { parseEther } from 'viem';
+import { fetchHoldings } from '../src/services/holdings';
+import * as basescan from '../src/services/basescan';
+import * as rpc from '../src/services/rpcFallback';
+import { BasescanTransaction, BasescanTokenTransfer } from '../src/types';
+
+jest.mock('../src/services/basescan');
+jest.mock('../src/services/rpcFallback');
+
+const mockBalances = basescan.getTokenBalances as jest.MockedFunction<typeof basescan.getTokenBalances>;
+const mockWithFallback = rpc.withFallback as jest.MockedFunction<typeof rpc.withFallback>;
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const AIRDROP = '0x' + 'a1'.repeat(20);
+const LURE = '0x' + 'b2'.repeat(20);
+const NFT = '0x' + 'c3'.repeat(20);
+const EDITIONS = '0x' + 'd4'.repeat(20);
+const DEX = '0x' + 'e5'.repeat(20);
+
+function tx(hash: string, from: string): BasescanTransaction {
+  return {
+    blockNumber: '1',
+    timeStamp: '1700000000',
+    hash,
+    from,
+    to: DEX,
+    value: '0',
+    gas: '21000',
+    gasUsed: '21000',
+    isError: '0',
+    functionName: '',
+    contractAddress: '',
+    input: '0x',
+  };
+}
+
+function transfer(token: string, hash: string, from: string, to: string, symbol = 'TKN'): BasescanTokenTransfer {
+  return {
+    blockNumber: '1',
+    timeStamp: '1700000000',
+    hash,
+    from,
+    to,
+    value: '1000000',
+    tokenName: symbol,
+    tokenSymbol: symbol,
+    tokenDecimal: '6',
+    contractAddress: token,
+  };
+}
+
+function balance(
+  address: string,
+  type: string,
+  value: string,
+  extra: Partial<basescan.BlockscoutTokenBalance['token']> = {},
+  tokenId: string | null = null,
+): basescan.BlockscoutTokenBalance {
+  return {
+    token: { address_hash: address, name: null, symbol: null, decimals: null, type, exchange_rate: null, ...extra },
+    token_id: tokenId,
+    value,
+  };
+}
+
+const SWAP_HASH = '0x' + '1'.repeat(64);
+const AIRDROP_HASH = '0x' + '2'.repeat(64);
+
+const wallet = {
+  address: WALLET,
+  balance: parseEther('0.5'),
+  transactions: [tx(SWAP_HASH, WALLET)],
+  tokenTransfers: [
+    transfer(USDC, SWAP_HASH, DEX, WALLET, 'USDC'),
+    transfer(AIRDROP, AIRDROP_HASH, DEX, WALLET, 'DROP'),
+  ],
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('fetchHoldings (Blockscout)', () => {
+  beforeEach(() => {
+    mockBalances.mockResolvedValue({
+      complete: true,
+      items: [
+        balance(AIRDROP, 'ERC-20', '5000000000000000000', { symbol: 'DROP', decimals: '18' }),
+        balance(USDC, 'ERC-20', '1250500000', { symbol: 'USDC', name: 'USD Coin', decimals: '6', exchange_rate: '1.0' }),
+        balance(LURE, 'ERC-20', '1', { symbol: 'Visit base-rewards.xyz', decimals: '0' }),
+        balance(NFT, 'ERC-721', '2', { name: 'Based Punks' }),
+        balance(EDITIONS, 'ERC-1155', '3', { name: 'Editions' }, '7'),
+        balance(EDITIONS, 'ERC-1155', '1', { name: 'Editions' }, '9'),
+        balance('0x' + 'f6'.repeat(20), 'ERC-20', '0', { symbol: 'EMPTY' }),
+      ],
+    });
+  });
+
+  it('normalizes ERC-20 balances and prices, most valuable first', async () => {
+    const holdings = (await fetchHoldings(wallet))!;
+
+    expect(holdings.source).toBe('blockscout');
+    expect(holdings.ethBalance).toBe('0.5');
+    expect(holdings.tokens[0]).toMatchObject({
+      token: USDC,
+      symbol: 'USDC',
+      balance: '1250.5',
+      valueUsd: 1250.5,
+      unsolicited: false,
+      spam: false,
+    });
+    expect(holdings.totalValueUsd).toBe(1250.5);
+    expect(holdings.tokens.map((t) => t.symbol)).not.toContain('EMPTY');
+  });
+
+  it('merges ERC-1155 token IDs and keeps ERC-721 collection counts', async () => {
+    const holdings = (await fetchHoldings(wallet))!;
+
+    expect(holdings.nfts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ token: NFT, standard: 'ERC-721', balance: '2' }),
+        expect.objectContaining({ token: EDITIONS, standard: 'ERC-1155', balance: '4', tokenIds: ['7', '9'] }),
+      ]),
+    );
+  });
+
+  it('marks unsolicited airdrops and lure names as spam', async () => {
+    const holdings = (await fetchHoldings(wallet))!;
+    const airdrop = holdings.tokens.find((t) => t.token === AIRDROP)!;
+    const lure = holdings.tokens.find((t) => t.token === LURE)!;
+
+    expect(airdrop.unsolicited).toBe(true);
+    expect(airdrop.spamReasons).toEqual(['unsolicited airdrop with no market price']);
+    expect(lure.spamReasons).toEqual(['name advertises a link or claim']);
+    expect(holdings.spamCount).toBe(2);
+    // Spam sorts after legitimate holdings
+    expect(holdings.tokens[0]!.spam).toBe(false);
+  });
+
+  it('trusts the explorer scam flag', async () => {
+    mockBalances.mockResolvedValue({
+      complete: false,
+      items: [balance(NFT, 'ERC-721', '1', { name: 'Free Mint', reputation: 'scam' })],
+    });
+
+    const holdings = (await fetchHoldings(wallet))!;
+    expect(holdings.nfts[0]!.spamReasons).toContain('flagged as scam by the explorer');
+    expect(holdings.complete).toBe(false);
+  });
+});
+
+describe('fetchHoldings (RPC fallback)', () => {
+  it('reads ERC-20 balances with balanceOf when Blockscout is down', async () => {
+    mockBalances.mockResolvedValue(null);
+    const multicall = jest.fn().mockResolvedValue([
+      { status: 'success', result: 2500000n },
+      { status: 'success', result: 0n },
+    ]);
+    mockWithFallback.mockImplementation((fn) => fn({ multicall } as never));
+
+    const holdings = (await fetchHoldings(wallet))!;
+
+    expect(multicall.mock.calls[0]![0].contracts.map((c: { address: string }) => c.address)).toEqual([USDC, AIRDROP]);
+    expect(holdings.source).toBe('rpc');
+    expect(holdings.complete).toBe(false);
+    expect(holdings.nfts).toEqual([]);
+    expect(holdings.tokens).toEqual([
+      expect.objectContaining({ token: USDC, symbol: 'USDC', balance: '2.5', valueUsd: null, spam: false }),
+    ]);
+  });
+
+  it('returns null when neither source is reachable', async () => {
+    mockBalances.mockResolvedValue(null);
+    mockWithFallback.mockRejectedValue(new Error('All RPC providers failed'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await fetchHoldings(wallet)).toBeNull();
+  });
+});
@@ -63,7 +63,7 @@ describe('Integration: Full Analysis Pipeline (offline)', () => {
     };
 
     // 3. Compute risk score
-    const { score, level, signals } = computeRiskScore(walletData);
+    const { score, level, signals, modelVersion } = computeRiskScore(walletData);
     expect(score).toBeGreaterThanOrEqual(0);
     expect(score).toBeLessThanOrEqual(100);
     expect(['LOW', 'MEDIUM', 'HIGH']).toContain(level);
@@ -75,6 +75,7 @@ describe('Integration: Full Analysis Pipeline (offline)', () => {
       chain: 'Base',
       riskLevel: level,
       riskScore: score,
+      modelVersion,
       confidence: 85,
       signals,
       summary: `This wallet appears ${level.toLowerCase()}-risk. Normal activity patterns observed.`,
@@ -142,6 +143,7 @@ describe('Integration: Full Analysis Pipeline (offline)', () => {
       chain: 'Base' as const,
       riskLevel: 'LOW' as const,
       riskScore: 10,
+      modelVersion: '1.0.0',
       confidence: 90,
       signals: [],
       summary: 'Test',
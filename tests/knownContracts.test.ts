@@ -8,6 +8,7 @@ import {
   contractLabels,
   isWhitelisted,
   getContractLabel,
+  getKnownContract,
 } from '../src/data/knownContracts';
 
 describe('knownContracts', () => {
@@ -82,6 +83,19 @@ describe('getContractLabel', () => {
   });
 });
 
+describe('getKnownContract', () => {
+  it('returns the full entry, case-insensitively', () => {
+    expect(getKnownContract('0x71660C4005BA85C37CCEC55D0C4493E66FE775D3')).toMatchObject({
+      label: 'Coinbase Hot Wallet 1',
+      category: 'exchange',
+    });
+  });
+
+  it('returns undefined for unknown addresses', () => {
+    expect(getKnownContract('0x' + '0'.repeat(40))).toBeUndefined();
+  });
+});
+
 describe('whitelistedAddresses set', () => {
   it('contains all known contract addresses', () => {
     expect(whitelistedAddresses.size).toBe(knownContracts.length);
@@ -0,0 +1,139 @@
+// ============================================================
+// Tests — Name Resolution (Basenames + ENS)
+// ============================================================
+
+import { decodeFunctionData, encodeAbiParameters, parseAbi, zeroAddress } from 'viem';
+import { namehash } from 'viem/ens';
+import {
+  resolveName,
+  lookupPrimaryName,
+  lookupPrimaryNames,
+  resolveAddressOrName,
+} from '../src/services/nameResolver';
+import * as rpc from '../src/services/rpcFallback';
+
+jest.mock('../src/services/rpcFallback');
+
+const mockCall = rpc.callViaRpc as jest.MockedFunction<typeof rpc.callViaRpc>;
+const mockMainnet = rpc.withMainnetFallback as jest.MockedFunction<typeof rpc.withMainnetFallback>;
+
+const L2_RESOLVER_ABI = parseAbi([
+  'function addr(bytes32 node) view returns (address)',
+  'function name(bytes32 node) view returns (string)',
+]);
+
+const ALICE = '0x742D35Cc6634C0532925A3b844Bc9E7595F8B3A1';
+const BOB = '0x00000000000000000000000000000000000000B0';
+
+/** Fake Basenames L2 resolver: forward and reverse records */
+function basenames(forward: Record<string, string>, reverse: Record<string, string> = {}) {
+  mockCall.mockImplementation(async (_to, data) => {
+    const { functionName, args } = decodeFunctionData({ abi: L2_RESOLVER_ABI, data });
+    const node = args[0];
+    if (functionName === 'addr') {
+      const name = Object.keys(forward).find((n) => namehash(n) === node);
+      return encodeAbiParameters([{ type: 'address' }], [(name ? forward[name]! : zeroAddress) as `0x${string}`]);
+    }
+    const address = Object.keys(reverse).find(
+      (a) => namehash(`${a.slice(2).toLowerCase()}.80002105.reverse`) === node,
+    );
+    return encodeAbiParameters([{ type: 'string' }], [address ? reverse[address]! : '']);
+  });
+}
+
+const ens = {
+  getEnsAddress: jest.fn(),
+  getEnsName: jest.fn(),
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockMainnet.mockImplementation(async (fn) => fn(ens as never));
+  ens.getEnsAddress.mockResolvedValue(null);
+  ens.getEnsName.mockResolvedValue(null);
+  basenames({});
+});
+
+describe('resolveName', () => {
+  it('resolves Basenames through the L2 resolver on Base and caches the result', async () => {
+    basenames({ 'alice.base.eth': ALICE.toLowerCase() });
+
+    expect(await resolveName('Alice.base.eth')).toBe(ALICE);
+    expect(await resolveName('alice.base.eth')).toBe(ALICE);
+    expect(mockCall).toHaveBeenCalledTimes(1);
+    expect(mockMainnet).not.toHaveBeenCalled();
+  });
+
+  it('resolves other .eth names through ENS on L1', async () => {
+    ens.getEnsAddress.mockResolvedValue(BOB.toLowerCase());
+
+    expect(await resolveName('bob.eth')).toBe(BOB);
+    expect(ens.getEnsAddress).toHaveBeenCalledWith({ name: 'bob.eth' });
+    expect(mockCall).not.toHaveBeenCalled();
+  });
+
+  it('returns null for unregistered names and caches the miss', async () => {
+    expect(await resolveName('nobody.base.eth')).toBeNull();
+    expect(await resolveName('nobody.base.eth')).toBeNull();
+    expect(mockCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for invalid names without calling out', async () => {
+    expect(await resolveName('bad..eth')).toBeNull();
+    expect(mockCall).not.toHaveBeenCalled();
+    expect(mockMainnet).not.toHaveBeenCalled();
+  });
+
+  it('does not cache failures', async () => {
+    mockMainnet.mockRejectedValueOnce(new Error('All RPC providers failed'));
+    ens.getEnsAddress.mockResolvedValue(BOB);
+
+    expect(await resolveName('flaky.eth')).toBeNull();
+    expect(await resolveName('flaky.eth')).toBe(BOB);
+  });
+});
+
+describe('lookupPrimaryName', () => {
+  it('prefers a Basename that resolves back to the address', async () => {
+    const address = '0x0000000000000000000000000000000000000a11';
+    basenames({ 'carol.base.eth': address }, { [address]: 'carol.base.eth' });
+    ens.getEnsName.mockResolvedValue('carol.eth');
+
+    expect(await lookupPrimaryName(address)).toBe('carol.base.eth');
+    expect(ens.getEnsName).not.toHaveBeenCalled();
+  });
+
+  it('ignores a Basename reverse record that points elsewhere and falls back to ENS', async () => {
+    const address = '0x0000000000000000000000000000000000000a12';
+    basenames({ 'famous.base.eth': ALICE }, { [address]: 'famous.base.eth' });
+    ens.getEnsName.mockResolvedValue('dave.eth');
+
+    expect(await lookupPrimaryName(address)).toBe('dave.eth');
+  });
+
+  it('returns null when neither is set', async () => {
+    expect(await lookupPrimaryName('0x0000000000000000000000000000000000000a13')).toBeNull();
+  });
+});
+
+describe('lookupPrimaryNames', () => {
+  it('keys names by lowercase address and leaves out addresses without one', async () => {
+    const named = '0x0000000000000000000000000000000000000a14';
+    ens.getEnsName.mockImplementation(async ({ address }: { address: string }) =>
+      address.toLowerCase() === named.toLowerCase() ? 'erin.eth' : null,
+    );
+
+    const names = await lookupPrimaryNames([named, '0x0000000000000000000000000000000000000a15', named.toLowerCase()]);
+    expect(names).toEqual({ [named.toLowerCase()]: 'erin.eth' });
+  });
+});
+
+describe('resolveAddressOrName', () => {
+  it('accepts addresses as-is and resolves names', async () => {
+    ens.getEnsAddress.mockResolvedValue(ALICE);
+
+    expect(await resolveAddressOrName(ALICE.toLowerCase())).toBe(ALICE);
+    expect(await resolveAddressOrName('frank.eth')).toBe(ALICE);
+    expect(await resolveAddressOrName('not a target')).toBeNull();
+  });
+});
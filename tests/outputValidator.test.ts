@@ -0,0 +1,249 @@
+// ============================================================
+// Tests — LLM Output Validator (Hallucination Guard)
+// ============================================================
+
+import { validateAiSummary } from '../src/services/outputValidator';
+import { AiSummary, BasescanTransaction, RiskSignal, WalletData } from '../src/types';
+
+const ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const COUNTERPARTY = '0x' + 'b'.repeat(40);
+const UNISWAP = '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad';
+const TX_HASH = '0x' + 'a'.repeat(64);
+const TOKEN_TX_HASH = '0x' + 'e'.repeat(64);
+const INTERNAL_TX_HASH = '0x' + 'd'.repeat(64);
+
+function makeTx(overrides: Partial<BasescanTransaction> = {}): BasescanTransaction {
+  return {
+    blockNumber: '1000000',
+    timeStamp: '1700000000',
+    hash: TX_HASH,
+    from: ADDRESS,
+    to: COUNTERPARTY,
+    value: '2500000000000000000', // 2.5 ETH
+    gas: '21000',
+    gasUsed: '21000',
+    isError: '0',
+    functionName: '',
+    contractAddress: '',
+    input: '0x',
+    ...overrides,
+  };
+}
+
+function makeData(overrides: Partial<WalletData> = {}): WalletData {
+  return {
+    address: ADDRESS,
+    balance: 1000000000000000000n, // 1 ETH
+    transactionCount: 42,
+    transactions: [makeTx(), makeTx({ hash: '0x' + 'f'.repeat(64), to: UNISWAP, value: '0' })],
+    tokenTransfers: [
+      {
+        blockNumber: '1000000',
+        timeStamp: '1700000000',
+        hash: TOKEN_TX_HASH,
+        from: '0x' + 'c'.repeat(40),
+        to: ADDRESS,
+        value: '1000000',
+        tokenName: 'USD Coin',
+        tokenSymbol: 'USDC',
+        tokenDecimal: '6',
+        contractAddress: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+      },
+    ],
+    internalTransactions: [makeTx({ hash: INTERNAL_TX_HASH, from: '0x' + '9'.repeat(40), to: ADDRESS })],
+    accountAge: 120 * 86400,
+    firstTxTimestamp: 1700000000,
+    isContract: false,
+    scamFlags: [],
+    ...overrides,
+  };
+}
+
+const SIGNALS: RiskSignal[] = [
+  { name: 'Account Age', weight: 0.1, score: 30, description: 'Account is 120 days old.' },
+  { name: 'Large Transfers', weight: 0.15, score: 20, description: '1 large outgoing transfer(s) — within normal range.' },
+];
+
+function makeOutput(overrides: Partial<AiSummary> = {}): AiSummary {
+  return {
+    summary: 'Indicators suggest a 120 days old wallet with 42 transactions and a score of 18/100.',
+    verdictWording: 'Patterns consistent with normal usage',
+    signalCommentary: [{ signal: 'Account Age', commentary: 'Roughly 4 months old.' }],
+    citedTxHashes: [TX_HASH],
+    citedAddresses: [COUNTERPARTY],
+    ...overrides,
+  };
+}
+
+describe('validateAiSummary', () => {
+  it('accepts output fully grounded in the data', () => {
+    const { output, validation } = validateAiSummary(makeOutput(), makeData(), SIGNALS, 18);
+    expect(validation.outcome).toBe('accepted');
+    expect(validation.violations).toEqual([]);
+    expect(output).not.toBeNull();
+  });
+
+  it('treats token transfer and internal tx data as grounded', () => {
+    const { validation } = validateAiSummary(
+      makeOutput({
+        citedTxHashes: [TOKEN_TX_HASH, INTERNAL_TX_HASH],
+        citedAddresses: ['0x' + 'c'.repeat(40), '0x' + '9'.repeat(40)],
+        summary: 'Received USDC from a single sender.',
+      }),
+      makeData(),
+      SIGNALS,
+      18,
+    );
+    expect(validation.outcome).toBe('accepted');
+  });
+
+  describe('addresses and hashes (repaired)', () => {
+    it('scrubs every unknown address, not just the first', () => {
+      const fakeA = '0x' + '1'.repeat(40);
+      const fakeB = '0x' + '2'.repeat(40);
+      const { output, validation } = validateAiSummary(
+        makeOutput({ summary: `Sent funds to ${fakeA} and ${fakeB}.` }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(validation.outcome).toBe('repaired');
+      expect(validation.violations.filter((v) => v.kind === 'address')).toHaveLength(2);
+      expect(output!.summary).toBe('Sent funds to [address removed] and [address removed].');
+    });
+
+    it('scrubs unknown tx hashes without mistaking them for addresses', () => {
+      const fakeHash = '0x' + '3'.repeat(64);
+      const { output, validation } = validateAiSummary(
+        makeOutput({ summary: `See transaction ${fakeHash}.` }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(output!.summary).toBe('See transaction [tx removed].');
+      expect(validation.violations).toEqual([
+        expect.objectContaining({ kind: 'txHash', field: 'summary', value: fakeHash }),
+      ]);
+    });
+
+    it('drops ungrounded citations', () => {
+      const fakeHash = '0x' + '4'.repeat(64);
+      const fakeAddr = '0x' + '5'.repeat(40);
+      const { output, validation } = validateAiSummary(
+        makeOutput({ citedTxHashes: [TX_HASH, fakeHash], citedAddresses: [fakeAddr] }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(validation.outcome).toBe('repaired');
+      expect(output!.citedTxHashes).toEqual([TX_HASH]);
+      expect(output!.citedAddresses).toEqual([]);
+    });
+
+    it('checks signal commentary too', () => {
+      const fakeAddr = '0x' + '6'.repeat(40);
+      const { output, validation } = validateAiSummary(
+        makeOutput({ signalCommentary: [{ signal: 'Account Age', commentary: `Funded by ${fakeAddr}.` }] }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(validation.violations[0]!.field).toBe('signalCommentary[Account Age]');
+      expect(output!.signalCommentary[0]!.commentary).toBe('Funded by [address removed].');
+    });
+  });
+
+  describe('numeric claims (rejected)', () => {
+    it('rejects a wrong transaction count', () => {
+      const { output, validation } = validateAiSummary(
+        makeOutput({ summary: 'The wallet has made 9001 transactions.' }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(output).toBeNull();
+      expect(validation.outcome).toBe('rejected');
+      expect(validation.violations[0]).toEqual(expect.objectContaining({ kind: 'number', value: '9001 transactions' }));
+    });
+
+    it('rejects a wrong account age but tolerates rounding', () => {
+      expect(validateAiSummary(makeOutput({ summary: 'About 121 days old.' }), makeData(), SIGNALS, 18).output).not.toBeNull();
+      expect(validateAiSummary(makeOutput({ summary: 'Only 3 days old.' }), makeData(), SIGNALS, 18).output).toBeNull();
+    });
+
+    it('only checks durations stated as the account\'s age', () => {
+      const check = (summary: string) => validateAiSummary(makeOutput({ summary }), makeData(), SIGNALS, 18).output;
+      expect(check('Funds moved within 2 days of arrival.')).not.toBeNull();
+      expect(check('Approvals were left open for 3 months.')).not.toBeNull();
+      expect(check('A 3-day-old wallet.')).toBeNull();
+      expect(check('Account age of 2 months.')).toBeNull();
+      expect(check('First seen 2 days ago.')).toBeNull();
+    });
+
+    it('rejects a stated age when the age is unknown', () => {
+      const { output } = validateAiSummary(
+        makeOutput({ summary: 'A 10 day old wallet.', signalCommentary: [] }),
+        makeData({ accountAge: null }),
+        [],
+        18,
+      );
+      expect(output).toBeNull();
+    });
+
+    it('checks ETH amounts against balances and transfers', () => {
+      expect(validateAiSummary(makeOutput({ summary: 'Sent 2.5 ETH once.' }), makeData(), SIGNALS, 18).output).not.toBeNull();
+      expect(validateAiSummary(makeOutput({ summary: 'Holds 1 ETH.' }), makeData(), SIGNALS, 18).output).not.toBeNull();
+      expect(validateAiSummary(makeOutput({ summary: 'Moved 250 ETH.' }), makeData(), SIGNALS, 18).output).toBeNull();
+    });
+
+    it('checks scores against the computed risk and signal scores', () => {
+      expect(validateAiSummary(makeOutput({ summary: 'Scored 30/100 on age.' }), makeData(), SIGNALS, 18).output).not.toBeNull();
+      expect(validateAiSummary(makeOutput({ summary: 'Risk score of 77.' }), makeData(), SIGNALS, 18).output).toBeNull();
+    });
+
+    it('accepts numbers quoted from signal descriptions', () => {
+      const { output } = validateAiSummary(
+        makeOutput({ summary: 'Made 1 large transfer within normal range.' }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(output).not.toBeNull();
+    });
+  });
+
+  describe('entity names (rejected)', () => {
+    it('accepts protocols that appear among labeled counterparties', () => {
+      const { validation } = validateAiSummary(
+        makeOutput({ summary: 'Mostly swaps through Uniswap.' }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(validation.outcome).toBe('accepted');
+    });
+
+    it('rejects protocols the wallet never touched', () => {
+      const { output, validation } = validateAiSummary(
+        makeOutput({ summary: 'Funds appear to originate from Tornado Cash via Aave.' }),
+        makeData(),
+        SIGNALS,
+        18,
+      );
+      expect(output).toBeNull();
+      expect(validation.violations.map((v) => v.value).sort()).toEqual(['Aave', 'Tornado Cash']);
+    });
+
+    it('accepts entities named in scam flags', () => {
+      const { validation } = validateAiSummary(
+        makeOutput({ summary: 'Linked to Tornado Cash.' }),
+        makeData({
+          scamFlags: [{ source: 'local', category: 'mixer', description: 'Tornado Cash Router (Ethereum)' }],
+        }),
+        SIGNALS,
+        18,
+      );
+      expect(validation.outcome).toBe('accepted');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+// ============================================================
+// Tests — Address-Poisoning Detection
+// ============================================================
+
+import { detectAddressPoisoning, isLookalike } from '../src/services/poisoning';
+import { BasescanTransaction, BasescanTokenTransfer } from '../src/types';
+import { makeTransfer, makeTx } from './helpers/history';
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const FAKE_USDC = '0x' + 'f0'.repeat(20);
+const FRIEND = '0x1234ab' + '0'.repeat(28) + '99cdef';
+const lookalike = (fill: string) => '0x1234ab' + fill.repeat(28) + '99cdef';
+const STRANGER = '0x' + '5a'.repeat(20);
+
+const tx = (overrides: Partial<BasescanTransaction>) =>
+  makeTx({ timeStamp: '1000', from: WALLET, to: FRIEND, ...overrides });
+const transfer = (overrides: Partial<BasescanTokenTransfer>) =>
+  makeTransfer({ timeStamp: '1000', from: WALLET, to: FRIEND, value: '100000000', ...overrides }); // 100 USDC
+
+/** The wallet pays FRIEND 100 USDC in a transaction it signed */
+function payFriend(timeStamp: string, to = FRIEND) {
+  const own = tx({ timeStamp, to: USDC, input: '0xa9059cbb' });
+  return { tx: own, transfer: transfer({ timeStamp, to, hash: own.hash }) };
+}
+
+describe('isLookalike', () => {
+  it('matches shared leading and trailing characters', () => {
+    expect(isLookalike(FRIEND, lookalike('f'))).toBe(true);
+    expect(isLookalike('0x123' + '0'.repeat(33) + 'abcd', '0x123' + 'f'.repeat(33) + 'abcd')).toBe(true);
+  });
+
+  it('rejects one-sided or short matches and identical addresses', () => {
+    expect(isLookalike('0x12' + '0'.repeat(32) + 'abcdef', '0x12' + 'f'.repeat(32) + 'abcdef')).toBe(false);
+    expect(isLookalike('0x123' + '0'.repeat(34) + 'abc', '0x123' + 'f'.repeat(34) + 'abc')).toBe(false);
+    expect(isLookalike(FRIEND, FRIEND.toUpperCase().replace('0X', '0x'))).toBe(false);
+  });
+});
+
+describe('detectAddressPoisoning', () => {
+  it('pairs zero-value spoofs, dust and counterfeit tokens with the real counterparty', () => {
+    const paid = payFriend('1000');
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [paid.tx, tx({ timeStamp: '2200', from: lookalike('d'), to: WALLET, value: '1' })],
+      tokenTransfers: [
+        paid.transfer,
+        // spoofed transferFrom(wallet, lookalike, 0) — not signed by the wallet
+        transfer({ timeStamp: '2000', to: lookalike('f'), value: '0' }),
+        transfer({ timeStamp: '2100', from: lookalike('e'), to: WALLET, contractAddress: FAKE_USDC }),
+      ],
+    });
+
+    expect(result.pairs.map((p) => [p.lookalike, p.genuine, p.kind, p.fellFor])).toEqual([
+      [lookalike('f'), FRIEND, 'zeroValue', false],
+      [lookalike('e'), FRIEND, 'counterfeitToken', false],
+      [lookalike('d'), FRIEND, 'dust', false],
+    ]);
+    expect(result.suspiciousTransfers).toBe(3);
+    expect(result.perpetrator).toBe(false);
+  });
+
+  it('notices when the wallet later pays the lookalike', () => {
+    const first = payFriend('1000');
+    const mistake = payFriend('3000', lookalike('f'));
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [first.tx, mistake.tx],
+      tokenTransfers: [first.transfer, transfer({ timeStamp: '2000', to: lookalike('f'), value: '0' }), mistake.transfer],
+    });
+
+    expect(result.pairs).toHaveLength(1);
+    expect(result.pairs[0]).toMatchObject({ lookalike: lookalike('f'), fellFor: true });
+  });
+
+  it('ignores zero-value transfers from addresses that resemble nobody', () => {
+    const paid = payFriend('1000');
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [paid.tx],
+      tokenTransfers: [paid.transfer, transfer({ timeStamp: '2000', from: STRANGER, to: WALLET, value: '0' })],
+    });
+
+    expect(result.pairs).toEqual([]);
+    expect(result.suspiciousTransfers).toBe(1);
+  });
+
+  it('ignores lookalikes that appeared before the real counterparty', () => {
+    const paid = payFriend('3000');
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [paid.tx],
+      tokenTransfers: [transfer({ timeStamp: '1000', from: lookalike('f'), to: WALLET, value: '0' }), paid.transfer],
+    });
+
+    expect(result.pairs).toEqual([]);
+  });
+
+  it('flags a wallet spraying zero-value transfers across many victims', () => {
+    const victims = Array.from({ length: 12 }, (_, i) => '0x' + (i + 1).toString(16).padStart(2, '0').repeat(20));
+    const result = detectAddressPoisoning({
+      address: STRANGER,
+      transactions: victims.map((victim) => tx({ from: STRANGER, to: victim, value: '0' })),
+      tokenTransfers: victims.map((victim) => transfer({ from: STRANGER, to: victim, value: '0' })),
+    });
+
+    expect(result.perpetrator).toBe(true);
+    expect(result.sprayCounterparties).toBe(12);
+  });
+
+  it('does not mistake an inbound-only spam victim for a sprayer', () => {
+    const senders = Array.from({ length: 11 }, (_, i) => '0x' + (i + 1).toString(16).padStart(2, '0').repeat(20));
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [
+        tx({ timeStamp: '1000', from: STRANGER, to: WALLET, value: '500000000000000000' }),
+        tx({ timeStamp: '1100', to: STRANGER, value: '100000000000000000' }),
+      ],
+      tokenTransfers: senders.map((sender) =>
+        transfer({ timeStamp: '2000', from: sender, to: WALLET, value: '1', tokenSymbol: 'SPAM', contractAddress: sender }),
+      ),
+    });
+
+    expect(result.pairs).toEqual([]);
+    expect(result.suspiciousTransfers).toBe(11);
+    expect(result.sprayCounterparties).toBe(0);
+    expect(result.perpetrator).toBe(false);
+  });
+
+  it('does not mistake a heavily poisoned victim for a sprayer', () => {
+    const paid = payFriend('1000');
+    const fills = ['a', 'b', 'c', 'd', 'e', 'f', '1', '2', '3', '4', '5', '6'];
+    const result = detectAddressPoisoning({
+      address: WALLET,
+      transactions: [paid.tx],
+      tokenTransfers: [
+        paid.transfer,
+        ...fills.map((fill) => transfer({ timeStamp: '2000', from: lookalike(fill), to: WALLET, value: '0' })),
+      ],
+    });
+
+    expect(result.pairs).toHaveLength(12);
+    expect(result.perpetrator).toBe(false);
+  });
+});
@@ -0,0 +1,260 @@
+// ============================================================
+// Tests — Transaction Pre-Check
+// ============================================================
+
+import { encodeFunctionData, maxUint256, pad, parseAbi, toHex } from 'viem';
+import {
+  decodeCall,
+  flattenCalls,
+  parsePrecheckCommand,
+  parsePrecheckRequest,
+  precheckTransaction,
+  simulateTransaction,
+  type PrecheckClient,
+} from '../src/services/precheck';
+import * as basescan from '../src/services/basescan';
+import * as rpc from '../src/services/rpcFallback';
+import * as contractAnalyzer from '../src/services/contractAnalyzer';
+import { seedLocalDb } from '../src/services/scamDb';
+import { ContractAnalysis } from '../src/types';
+
+jest.mock('../src/services/basescan');
+jest.mock('../src/services/rpcFallback');
+jest.mock('../src/services/contractAnalyzer');
+
+const mockSource = basescan.getContractSource as jest.MockedFunction<typeof basescan.getContractSource>;
+const mockWithFallback = rpc.withFallback as jest.MockedFunction<typeof rpc.withFallback>;
+const mockIsContract = rpc.isContractViaRpc as jest.MockedFunction<typeof rpc.isContractViaRpc>;
+const mockAnalyze = contractAnalyzer.analyzeContract as jest.MockedFunction<typeof contractAnalyzer.analyzeContract>;
+
+type Hex = `0x${string}`;
+
+const SIGNER = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const UNIVERSAL_ROUTER = '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad';
+const UNKNOWN = '0x' + 'c3'.repeat(20);
+const DRAINER = '0x' + 'd4'.repeat(20);
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const abi = parseAbi([
+  'function approve(address spender, uint256 amount)',
+  'function transfer(address to, uint256 amount)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function multicall(bytes[] data)',
+  'function deposit(uint256 amount)',
+]);
+
+const approveCall = (spender: string, amount: bigint) =>
+  encodeFunctionData({ abi, functionName: 'approve', args: [spender as Hex, amount] });
+
+const analysis = (verified: boolean): ContractAnalysis => ({
+  verified,
+  contractName: null,
+  compilerVersion: null,
+  bytecodeSize: 100,
+  proxy: null,
+  owner: null,
+  ownershipRenounced: false,
+  capabilities: [],
+  privilegedFunctions: [],
+  deployer: null,
+  creationTxHash: null,
+});
+
+/** A Transfer log as eth_simulateV1 traces it */
+const transferLog = (token: string, from: string, to: string, amount: bigint) => ({
+  address: token,
+  topics: [TRANSFER_TOPIC, pad(from as Hex, { size: 32 }), pad(to as Hex, { size: 32 })],
+  data: toHex(amount, { size: 32 }),
+});
+
+function simulationClient(result: object): PrecheckClient {
+  return {
+    simulateBlocks: jest.fn().mockResolvedValue([{ calls: [result] }]),
+    call: jest.fn(),
+    multicall: jest.fn().mockResolvedValue([
+      { status: 'success', result: 'USDC' },
+      { status: 'success', result: 6 },
+    ]),
+  } as unknown as PrecheckClient;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockSource.mockResolvedValue({ verified: true, contractName: 'Token', compilerVersion: null, abi: null });
+  mockIsContract.mockResolvedValue(true);
+  mockAnalyze.mockResolvedValue(analysis(true));
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('decodeCall', () => {
+  it('recognizes an unlimited approval', () => {
+    const call = decodeCall(USDC, approveCall(UNKNOWN, maxUint256), 0n, null);
+    expect(call).toMatchObject({
+      signature: 'approve(address,uint256)',
+      source: 'known',
+      action: 'approval',
+      spender: UNKNOWN,
+      unlimited: true,
+    });
+  });
+
+  it('treats a zero approval and a cleared operator as revokes', () => {
+    expect(decodeCall(USDC, approveCall(UNKNOWN, 0n), 0n, null).action).toBe('revoke');
+    const clear = encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [UNKNOWN as Hex, false] });
+    expect(decodeCall(USDC, clear, 0n, null).action).toBe('revoke');
+  });
+
+  it('decodes the calls inside a multicall', () => {
+    const data = encodeFunctionData({
+      abi,
+      functionName: 'multicall',
+      args: [[approveCall(DRAINER, maxUint256), encodeFunctionData({ abi, functionName: 'deposit', args: [1n] })]],
+    });
+    const call = decodeCall(UNIVERSAL_ROUTER, data, 0n, null);
+
+    expect(call.action).toBe('multicall');
+    expect(flattenCalls(call).map((c) => c.action)).toEqual(['multicall', 'approval', 'unknown']);
+  });
+
+  it('falls back to the verified ABI', () => {
+    const data = encodeFunctionData({ abi, functionName: 'deposit', args: [5n] });
+    const call = decodeCall(UNKNOWN, data, 0n, abi as unknown as unknown[]);
+    expect(call).toMatchObject({ signature: 'deposit(uint256)', source: 'abi', action: 'contractCall', args: ['5'] });
+  });
+
+  it('describes empty calldata with value as an ETH transfer', () => {
+    expect(decodeCall(UNKNOWN, '0x', 10n, null)).toMatchObject({ action: 'nativeTransfer', recipient: UNKNOWN, amount: '10' });
+  });
+});
+
+describe('parsePrecheckCommand', () => {
+  it('reads target, calldata, ETH value and signer', () => {
+    const data = approveCall(UNKNOWN, 1n);
+    expect(parsePrecheckCommand(`@TellTaleBot precheck ${USDC} ${data} 0.5 ETH from=${SIGNER}`)).toEqual({
+      to: USDC,
+      data,
+      value: '500000000000000000',
+      from: SIGNER,
+    });
+  });
+
+  it('rejects a missing or odd-length calldata', () => {
+    expect(parsePrecheckCommand(`precheck ${USDC}`)).toBeNull();
+    expect(parsePrecheckCommand(`precheck ${USDC} 0x123`)).toBeNull();
+  });
+});
+
+describe('parsePrecheckRequest', () => {
+  it('defaults data and value', () => {
+    expect(parsePrecheckRequest({ to: USDC })).toEqual({ to: USDC, data: '0x', value: '0' });
+  });
+
+  it('rejects malformed fields', () => {
+    expect(parsePrecheckRequest({ to: 'nope' })).toBeNull();
+    expect(parsePrecheckRequest({ to: USDC, value: '1.5' })).toBeNull();
+    expect(parsePrecheckRequest({ to: USDC, from: 42 })).toBeNull();
+  });
+});
+
+describe('simulateTransaction', () => {
+  it('nets traced transfers in and out of the signer', async () => {
+    const client = simulationClient({
+      status: 'success',
+      gasUsed: 50000n,
+      logs: [
+        transferLog(USDC, SIGNER, UNKNOWN, 7_000_000n),
+        transferLog(USDC, UNKNOWN, SIGNER, 2_000_000n),
+        transferLog('0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', UNKNOWN, SIGNER, 1_500_000_000_000_000_000n),
+      ],
+    });
+
+    const sim = await simulateTransaction(client, { to: USDC, data: '0x', value: '0', from: SIGNER });
+
+    expect(sim).toMatchObject({ status: 'success', signerKnown: true, gasUsed: '50000' });
+    expect(sim.balanceChanges).toEqual([
+      { asset: USDC, symbol: 'USDC', delta: '-5' },
+      { asset: 'ETH', symbol: 'ETH', delta: '1.5' },
+    ]);
+  });
+
+  it('keeps base units for a token whose decimals can\'t be read', async () => {
+    const client = simulationClient({ status: 'success', gasUsed: 50000n, logs: [transferLog(UNKNOWN, SIGNER, DRAINER, 42n)] });
+    (client.multicall as jest.Mock).mockResolvedValue([
+      { status: 'failure', error: new Error('reverted') },
+      { status: 'failure', error: new Error('reverted') },
+    ]);
+
+    const sim = await simulateTransaction(client, { to: UNKNOWN, data: '0x', value: '0', from: SIGNER });
+
+    expect(sim.balanceChanges).toEqual([{ asset: UNKNOWN, symbol: null, delta: '-42' }]);
+    expect(client.multicall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contracts: [expect.objectContaining({ functionName: 'symbol' }), expect.objectContaining({ functionName: 'decimals' })],
+      }),
+    );
+  });
+
+  it('falls back to eth_call when eth_simulateV1 is unsupported', async () => {
+    const client = {
+      simulateBlocks: jest.fn().mockRejectedValue(new Error('method not found')),
+      call: jest.fn().mockRejectedValue(Object.assign(new Error('x'), { shortMessage: 'execution reverted: paused' })),
+      multicall: jest.fn(),
+    } as unknown as PrecheckClient;
+
+    const sim = await simulateTransaction(client, { to: USDC, data: '0x', value: '0' });
+
+    expect(sim).toMatchObject({ status: 'reverted', signerKnown: false, revertReason: 'execution reverted: paused' });
+  });
+});
+
+describe('precheckTransaction', () => {
+  it('rates an unlimited approval to a flagged spender HIGH', async () => {
+    seedLocalDb([{ address: DRAINER, category: 'drainer', description: 'Inferno Drainer' }]);
+    mockWithFallback.mockImplementation((fn) =>
+      fn(simulationClient({ status: 'success', gasUsed: 40000n, logs: [] }) as never),
+    );
+
+    const report = await precheckTransaction({ to: USDC, data: approveCall(DRAINER, maxUint256), value: '0', from: SIGNER });
+
+    expect(report.riskLevel).toBe('HIGH');
+    expect(report.parties.map((p) => [p.role, p.address])).toEqual([
+      ['target', USDC],
+      ['spender', DRAINER],
+    ]);
+    expect(report.signals.find((s) => s.name === 'Permissions Granted')!.score).toBe(100);
+    expect(report.keyFindings.some((f) => f.includes('drainer'))).toBe(true);
+  });
+
+  it('rates a plain transfer on a known contract LOW', async () => {
+    mockWithFallback.mockImplementation((fn) =>
+      fn(simulationClient({
+        status: 'success',
+        gasUsed: 40000n,
+        logs: [transferLog(USDC, SIGNER, UNKNOWN, 1_000_000_000n)],
+      }) as never),
+    );
+    const data = encodeFunctionData({ abi, functionName: 'transfer', args: [UNKNOWN as Hex, 1_000_000_000n] });
+
+    const report = await precheckTransaction({ to: USDC, data, value: '0', from: SIGNER });
+
+    expect(report.riskLevel).toBe('LOW');
+    expect(report.decoded.action).toBe('transfer');
+    expect(report.simulation.balanceChanges).toEqual([{ asset: USDC, symbol: 'USDC', delta: '-1000' }]);
+    expect(report.signals.find((s) => s.name === 'Simulation')!.evidence).toEqual(['-1000 USDC']);
+    expect(mockAnalyze).toHaveBeenCalledTimes(1); // the recipient is not analyzed
+  });
+
+  it('still reports when simulation and lookups fail', async () => {
+    mockWithFallback.mockRejectedValue(new Error('All RPC providers failed'));
+    mockSource.mockResolvedValue(null);
+    mockIsContract.mockRejectedValue(new Error('rpc down'));
+
+    const report = await precheckTransaction({ to: UNKNOWN, data: '0xdeadbeef', value: '0' });
+
+    expect(report.simulation.status).toBe('unavailable');
+    expect(report.decoded.action).toBe('unknown');
+    expect(report.confidence).toBeLessThan(50);
+  });
+});
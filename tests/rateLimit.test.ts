@@ -102,6 +102,23 @@ describe('UserRateLimiter', () => {
     expect(limiter.checkAndRecord(400)).toBe(true);  // user 400 still ok
   });
 
+  it('tracks client IPs as well as FIDs', () => {
+    const limiter = new UserRateLimiter(1, 60000);
+    expect(limiter.checkAndRecord('203.0.113.7')).toBe(true);
+    expect(limiter.checkAndRecord('203.0.113.7')).toBe(false);
+    expect(limiter.checkAndRecord('203.0.113.8')).toBe(true);
+  });
+
+  it('charges several queries at once and reports what is left', () => {
+    const limiter = new UserRateLimiter(10, 60000);
+    expect(limiter.checkAndRecord(600, 7)).toBe(true);
+    expect(limiter.remaining(600)).toBe(3);
+    expect(limiter.checkAndRecord(600, 4)).toBe(false); // over the limit, nothing recorded
+    expect(limiter.remaining(600)).toBe(3);
+    expect(limiter.checkAndRecord(600, 3)).toBe(true);
+    expect(limiter.remaining(600)).toBe(0);
+  });
+
   it('allows queries again after window expires', async () => {
     const limiter = new UserRateLimiter(1, 50); // 50ms window
     expect(limiter.checkAndRecord(500)).toBe(true);
@@ -2,8 +2,18 @@
 // Tests — Report Generator
 // ============================================================
 
-import { formatForCast } from '../src/services/reportGenerator';
-import { WalletReport, RiskLevel } from '../src/types';
+import {
+  formatForCast,
+  formatThreadForCast,
+  formatApprovalsThread,
+  formatPrecheckThread,
+  formatReportSection,
+  formatScoreBreakdown,
+  formatComparisonThread,
+  formatBatchThread,
+  formatBatchTable,
+} from '../src/services/reportGenerator';
+import { WalletReport, RiskLevel, TokenApproval, PrecheckReport, WalletRelationship, BatchSummary } from '../src/types';
 
 function makeReport(overrides: Partial<WalletReport> = {}): WalletReport {
   return {
@@ -11,6 +21,7 @@ function makeReport(overrides: Partial<WalletReport> = {}): WalletReport {
     chain: 'Base',
     riskLevel: 'LOW' as RiskLevel,
     riskScore: 15,
+    modelVersion: '1.0.0',
     confidence: 85,
     signals: [
       { name: 'Account Age', weight: 0.1, score: 10, description: 'Well-established account.' },
@@ -128,3 +139,476 @@ describe('formatForCast', () => {
     }
   });
 });
+
+describe('formatThreadForCast', () => {
+  const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+  it('keeps every cast within the 1024 byte limit', () => {
+    const thread = formatThreadForCast(makeReport());
+    expect(thread.length).toBeGreaterThan(1);
+    for (const cast of thread) {
+      expect(byteLength(cast)).toBeLessThanOrEqual(1024);
+    }
+  });
+
+  it('orders sections verdict → findings → interactions → signals → recommendations → disclaimer', () => {
+    const thread = formatThreadForCast(makeReport());
+    expect(thread[0]).toContain('Wallet Report');
+    expect(thread[0]).toContain('LOW RISK');
+    expect(thread[0]).toContain('0x742d...b3a1');
+
+    const joined = thread.join('\n');
+    const order = ['Key Findings', 'Top Interactions', 'Risk Signals', 'Recommendations', 'DYOR'];
+    const positions = order.map((marker) => joined.indexOf(marker));
+    expect(positions.every((p) => p >= 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(thread[thread.length - 1]).toContain('Not financial advice');
+  });
+
+  it('includes signal evidence and recommendations that formatForCast drops', () => {
+    const report = makeReport({
+      signals: [
+        {
+          name: 'Large Transfers',
+          weight: 0.15,
+          score: 80,
+          description: 'Cluster of large outgoing transfers.',
+          evidence: ['5 ETH → 0xbbbbbbbb... (tx: 0xaaaaaaaa...)'],
+        },
+      ],
+      recommendations: ['Rec one.', 'Rec two.', 'Rec three.'],
+    });
+    const joined = formatThreadForCast(report).join('\n');
+    expect(joined).toContain('Large Transfers (80/100)');
+    expect(joined).toContain('↳ 5 ETH → 0xbbbbbbbb...');
+    expect(joined).toContain('• Rec three.');
+  });
+
+  it('numbers each cast in the thread', () => {
+    const thread = formatThreadForCast(makeReport());
+    thread.forEach((cast, i) => {
+      expect(cast).toContain(`(${i + 1}/${thread.length})`);
+    });
+  });
+
+  it('splits long sections across continuation casts', () => {
+    const report = makeReport({
+      keyFindings: Array.from({ length: 40 }, (_, i) => `Finding number ${i} with some extra detail to pad it out`),
+    });
+    const thread = formatThreadForCast(report);
+    const findingCasts = thread.filter((c) => c.includes('Key Findings'));
+    expect(findingCasts.length).toBeGreaterThan(1);
+    expect(findingCasts[1]).toContain('(cont.)');
+    const joined = thread.join('\n');
+    expect(joined).toContain('Finding number 0 ');
+    expect(joined).toContain('Finding number 39 ');
+    for (const cast of thread) {
+      expect(byteLength(cast)).toBeLessThanOrEqual(1024);
+    }
+  });
+
+  it('truncates a single line longer than a whole cast', () => {
+    const thread = formatThreadForCast(makeReport({ summary: '🔥'.repeat(600) }));
+    for (const cast of thread) {
+      expect(byteLength(cast)).toBeLessThanOrEqual(1024);
+    }
+    expect(thread[0]).toContain('...');
+  });
+
+  it('fills verdict wording and signal commentary from structured analysis', () => {
+    const report = makeReport({
+      analysis: {
+        summary: 'Indicators suggest normal activity.',
+        verdictWording: 'Patterns consistent with normal DeFi usage',
+        signalCommentary: [{ signal: 'Account Age', commentary: 'Long-lived account.' }],
+        citedTxHashes: [],
+        citedAddresses: [],
+      },
+    });
+    const thread = formatThreadForCast(report);
+    expect(thread[0]).toContain('Patterns consistent with normal DeFi usage');
+    const joined = thread.join('\n');
+    expect(joined).toMatch(/Account Age \(10\/100\): Well-established account\.\n  💬 Long-lived account\./);
+  });
+
+  it('skips empty sections', () => {
+    const thread = formatThreadForCast(makeReport({
+      keyFindings: [],
+      topInteractions: [],
+      recommendations: [],
+    }));
+    const joined = thread.join('\n');
+    expect(joined).not.toContain('Key Findings');
+    expect(joined).not.toContain('Top Interactions');
+    expect(joined).not.toContain('Recommendations');
+  });
+
+  it('uses the contract template for contract reports', () => {
+    const thread = formatThreadForCast(makeReport({
+      contract: {
+        verified: false,
+        contractName: null,
+        compilerVersion: null,
+        bytecodeSize: 2048,
+        proxy: { kind: 'eip1967', implementation: '0x' + 'd'.repeat(40), admin: null, beacon: null },
+        owner: '0x' + 'e'.repeat(40),
+        ownershipRenounced: false,
+        capabilities: ['mint', 'upgrade'],
+        privilegedFunctions: ['mint(address,uint256)', 'eip1967 proxy'],
+        deployer: '0x' + 'f'.repeat(40),
+        creationTxHash: null,
+      },
+    }));
+
+    expect(thread[0]).toContain('Contract Report');
+    expect(thread[1]).toContain('🧾 Contract Profile');
+    expect(thread[1]).toContain('• Verified: no');
+    expect(thread[1]).toContain('• Proxy: EIP1967 → 0xdddd...dddd');
+    expect(thread[1]).toContain('• Privileges: mint, upgrade');
+    expect(formatForCast(makeReport())).toContain('Wallet Report');
+  });
+
+  it('adds a holdings section and one-line summary', () => {
+    const holding = {
+      name: null,
+      decimals: 6,
+      rawBalance: '1',
+      unsolicited: false,
+      spam: false,
+      spamReasons: [],
+    };
+    const report = makeReport({
+      holdings: {
+        source: 'blockscout',
+        ethBalance: '0.523456789',
+        tokens: [
+          { ...holding, token: '0x' + '1'.repeat(40), standard: 'ERC-20', symbol: 'USDC', balance: '1250.5', valueUsd: 1250.5 },
+          {
+            ...holding,
+            token: '0x' + '2'.repeat(40),
+            standard: 'ERC-20',
+            symbol: 'claim-rewards.xyz',
+            balance: '1',
+            valueUsd: null,
+            spam: true,
+            spamReasons: ['name advertises a link or claim'],
+          },
+        ],
+        nfts: [{ ...holding, token: '0x' + '3'.repeat(40), standard: 'ERC-721', symbol: 'PUNK', decimals: null, balance: '2', valueUsd: null }],
+        spamCount: 1,
+        totalValueUsd: 1250.5,
+        complete: true,
+      },
+    });
+
+    expect(formatForCast(report)).toContain('💰 0.5235 ETH · 1 token ($1,250.50) · 1 NFT collection · 1 spam');
+
+    const section = formatThreadForCast(report).find((c) => c.includes('💰 Holdings'))!;
+    expect(section).toContain('↳ 1,250.5 USDC ($1,250.50)');
+    expect(section).toContain('↳ PUNK ×2 (ERC-721)');
+    expect(section).toContain('↳ 0x2222...2222 — name advertises a link or claim');
+    expect(section).not.toContain('claim-rewards.xyz');
+  });
+
+  it('shows primary names for the target and its counterparties', () => {
+    const report = makeReport({
+      name: 'alice.base.eth',
+      topInteractions: [
+        { address: '0x' + 'a'.repeat(40), label: 'Uniswap V3', name: 'uniswap.eth', txCount: 89 },
+        { address: '0x' + 'b'.repeat(40), name: 'bob.eth', txCount: 34 },
+      ],
+    });
+    const text = formatThreadForCast(report).join('\n');
+    expect(text).toContain('📍 alice.base.eth (0x742d...b3a1) | Base');
+    expect(text).toContain('• Uniswap V3 (89 txs)');
+    expect(text).toContain('• bob.eth (34 txs)');
+    expect(formatForCast(report)).toContain('alice.base.eth');
+  });
+
+  it('states the drain role up front', () => {
+    const sweeper = makeReport({ drains: { role: 'sweeper', events: [], sources: 4 } });
+    expect(formatForCast(sweeper)).toContain('🚨 Role: drainer sweeper / collector (4 wallet(s) swept)');
+    expect(formatThreadForCast(sweeper)[0]).toContain('🚨 Role: drainer sweeper / collector');
+
+    const victim = makeReport({ drains: { role: 'victim', events: [], sources: 1 } });
+    expect(formatThreadForCast(victim)[0]).toContain('⚠️ Role: drain victim — assets were swept out');
+  });
+});
+
+describe('formatReportSection', () => {
+  it('shows the header, the one section and the disclaimer', () => {
+    const thread = formatReportSection(makeReport(), 'recommendations');
+    const text = thread.join('\n');
+    expect(text).toContain('LOW RISK');
+    expect(text).toContain('✅ Recommendations');
+    expect(text).not.toContain('📋 Key Findings');
+    expect(text).toContain('Not financial advice');
+  });
+
+  it('says so when the report has no such section', () => {
+    const text = formatReportSection(makeReport(), 'contract').join('\n');
+    expect(text).toContain('🧾 Contract Profile');
+    expect(text).toContain('Nothing to report for this address.');
+  });
+});
+
+describe('formatScoreBreakdown', () => {
+  it('lists contributions biggest first and the boost needed to reach the score', () => {
+    const report = makeReport({
+      riskScore: 40,
+      signals: [
+        { name: 'Account Age', weight: 0.2, score: 10, description: '' },
+        { name: 'Scam Database', weight: 0.5, score: 40, description: '' },
+      ],
+    });
+    const text = formatScoreBreakdown(report).join('\n');
+    expect(text.indexOf('Scam Database: 40/100 × 50% = 20.0')).toBeLessThan(
+      text.indexOf('Account Age: 10/100 × 20% = 2.0'),
+    );
+    expect(text).toContain('Weighted total: 22.0');
+    expect(text).toContain('Scam-flag boost / floor: +18');
+    expect(text).toContain('Score: 40/100 (model 1.0.0)');
+  });
+});
+
+describe('formatComparisonThread', () => {
+  const none: WalletRelationship = {
+    strength: 'none',
+    score: 0,
+    reasons: ['No links'],
+    sharedCounterparties: [],
+    directTransfers: [],
+    directTransferCount: 0,
+    commonFunders: [],
+    timing: { windowSeconds: 120, matched: 0, total: 0, ratio: 0 },
+  };
+
+  it('puts both verdicts and every signal side by side', () => {
+    const a = makeReport();
+    const b = makeReport({
+      address: '0x' + 'c'.repeat(40),
+      riskLevel: 'HIGH',
+      riskScore: 88,
+      signals: [{ name: 'Scam Database', weight: 0.25, score: 95, description: '' }],
+    });
+    const text = formatComparisonThread({ a, b, relationship: none, comparedAt: '' }).join('\n');
+    expect(text).toContain('LOW RISK (15/100)');
+    expect(text).toContain('HIGH RISK (88/100)');
+    expect(text).toContain('• Scam Database: 0 vs 95');
+    expect(text).toContain('• Account Age: 10 vs –');
+    expect(text).toContain('No links found in the fetched history (0/100)');
+    expect(text).not.toContain('Direct Transfers');
+  });
+
+  it('lists the links it found, naming each side', () => {
+    const a = makeReport({ address: '0x' + '1'.repeat(40) });
+    const b = makeReport({ address: '0x' + '2'.repeat(40) });
+    const text = formatComparisonThread({
+      a,
+      b,
+      relationship: {
+        ...none,
+        strength: 'strong',
+        score: 75,
+        reasons: ['3 direct transfer(s) between the two addresses', 'Common funder: 0x3333...3333'],
+        directTransfers: [
+          { from: b.address, to: a.address, asset: 'ETH', amount: '0.5', txHash: '0x' + 'f'.repeat(64), timestamp: 2 },
+        ],
+        directTransferCount: 3,
+        commonFunders: [{ address: '0x' + '3'.repeat(40) }],
+        sharedCounterparties: [{ address: '0x' + '4'.repeat(40), name: 'shared.base.eth', txCountA: 4, txCountB: 2 }],
+      },
+      comparedAt: '',
+    }).join('\n');
+
+    expect(text).toContain('Strong links — patterns consistent with common control (75/100)');
+    expect(text).toContain('• 3 direct transfer(s) between the two addresses');
+    expect(text).toContain('• B → A: 0.5 ETH (0xffffffff…)');
+    expect(text).toContain('…and 2 more');
+    expect(text).toContain('• 0x3333...3333');
+    expect(text).toContain('• shared.base.eth (A: 4, B: 2 txs)');
+  });
+});
+
+describe('formatBatchThread / formatBatchTable', () => {
+  const summary: BatchSummary = {
+    total: 4,
+    analyzed: 2,
+    invalid: 1,
+    duplicates: 1,
+    failed: 0,
+    byRiskLevel: { HIGH: 1, MEDIUM: 0, LOW: 1 },
+    rows: [
+      {
+        index: 1,
+        input: 'rug.base.eth',
+        status: 'ok',
+        address: '0x' + '1'.repeat(40),
+        name: 'rug.base.eth',
+        riskLevel: 'HIGH',
+        riskScore: 91,
+        confidence: 80,
+        isContract: true,
+      },
+      { index: 0, input: '0x' + '2'.repeat(40), status: 'ok', address: '0x' + '2'.repeat(40), riskLevel: 'LOW', riskScore: 8, confidence: 90 },
+      { index: 2, input: 'nobody.eth', status: 'invalid', error: 'Invalid wallet address or unresolvable name' },
+      { index: 3, input: 'two.base.eth', status: 'duplicate', address: '0x' + '2'.repeat(40), error: 'Same address as #1' },
+    ],
+    durationMs: 1200,
+  };
+
+  it('replies with totals and one line per address, riskiest first', () => {
+    const casts = formatBatchThread(summary);
+    const text = casts.join('\n');
+    expect(text).toContain('4 address(es): 🔴 1 HIGH · 🟡 0 MEDIUM · 🟢 1 LOW');
+    expect(text).toContain('❌ 1 not analyzed');
+    expect(text).toContain('🔁 1 repeat(s) of an address already listed');
+    expect(text).toContain('🔁 0x2222...2222 — Same address as #1');
+    expect(text.indexOf('🔴 rug.base.eth (0x1111...1111) — HIGH 91/100 (contract)')).toBeLessThan(
+      text.indexOf('🟢 0x2222...2222 — LOW 8/100'),
+    );
+    expect(text).toContain('❌ nobody.eth — Invalid wallet address or unresolvable name');
+    for (const cast of casts) expect(Buffer.byteLength(cast)).toBeLessThanOrEqual(1024);
+  });
+
+  it('renders an aligned table with full addresses', () => {
+    const lines = formatBatchTable(summary).split('\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toMatch(/^#\s+Risk\s+Score\s+Address\s+Name \/ Note$/);
+    expect(lines[1]).toContain('0x' + '1'.repeat(40));
+    expect(lines[1]).toContain('rug.base.eth (contract)');
+    expect(lines[3]).toMatch(/^3\s+–\s+–\s+nobody\.eth\s+Invalid wallet address/);
+    expect(lines[4]).toMatch(/^4\s+–\s+–\s+0x2{40}\s+Same address as #1$/);
+    expect(lines[1]!.indexOf('0x')).toBe(lines[0]!.indexOf('Address'));
+  });
+});
+
+describe('formatApprovalsThread', () => {
+  const ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+  const approval = (overrides: Partial<TokenApproval> = {}): TokenApproval => ({
+    kind: 'erc20',
+    token: '0x' + 'a'.repeat(40),
+    tokenSymbol: 'USDC',
+    spender: '0x' + 'c'.repeat(40),
+    spenderLabel: null,
+    spenderFlag: null,
+    spenderVerified: false,
+    amount: '1',
+    displayAmount: 'unlimited',
+    unlimited: true,
+    expiration: null,
+    txHash: '0x' + '1'.repeat(64),
+    timestamp: 1700000000,
+    risk: 'high',
+    riskScore: 80,
+    reasons: ['unlimited allowance to an unverified spender'],
+    revoke: { to: '0x' + 'a'.repeat(40), data: '0x095ea7b3' + 'c'.repeat(64).padStart(64, '0') + '0'.repeat(64) },
+    ...overrides,
+  });
+  const snapshot = (approvals: TokenApproval[]) => ({
+    approvals,
+    eventsScanned: approvals.length,
+    revokedCount: 0,
+    verifiedOnchain: true,
+    complete: true,
+  });
+
+  it('lists risky approvals first with full revoke calldata', () => {
+    const risky = approval();
+    const thread = formatApprovalsThread(ADDRESS, snapshot([
+      risky,
+      approval({ spenderLabel: 'Uniswap Permit2', risk: 'low', riskScore: 5, reasons: ['unlimited allowance to Uniswap Permit2'] }),
+    ]));
+    const joined = thread.join('\n');
+
+    expect(thread[0]).toContain('Approvals Audit');
+    expect(thread[0]).toContain('2 live approval(s) · 1 high risk · 0 medium risk');
+    expect(joined.indexOf('🚨 Revoke First')).toBeLessThan(joined.indexOf('✅ Known Spenders'));
+    expect(joined).toContain('1. 🔴 USDC → 0xcccc...cccc: unlimited [high]');
+    expect(joined).toContain(`Revoke: send to ${risky.revoke.to}`);
+    expect(joined).toContain(`data: ${risky.revoke.data}`);
+    expect(joined).toContain('2. 🟢 USDC → 0xcccc...cccc (Uniswap Permit2)');
+    for (const cast of thread) {
+      expect(new TextEncoder().encode(cast).length).toBeLessThanOrEqual(1024);
+    }
+  });
+
+  it('reports a clean wallet', () => {
+    const thread = formatApprovalsThread(ADDRESS, snapshot([]));
+    expect(thread[0]).toContain('No live approvals found.');
+    expect(thread.join('\n')).not.toContain('Revoke First');
+  });
+});
+
+
+describe('formatPrecheckThread', () => {
+  const TARGET = '0x' + 'a'.repeat(40);
+  const SPENDER = '0x' + 'd'.repeat(40);
+  const report: PrecheckReport = {
+    transaction: { to: TARGET, data: '0xac9650d8', value: '0' },
+    chain: 'Base',
+    riskLevel: 'HIGH',
+    riskScore: 75,
+    modelVersion: '1.0.0',
+    confidence: 90,
+    signals: [
+      { name: 'Permissions Granted', weight: 0.35, score: 100, description: 'Grants 1 token permission(s).' },
+    ],
+    summary: 'This transaction calls multicall(bytes[]) on 0xaaaa...aaaa (HIGH risk, 75/100).',
+    decoded: {
+      target: TARGET,
+      selector: '0xac9650d8',
+      signature: 'multicall(bytes[])',
+      source: 'known',
+      action: 'multicall',
+      args: [],
+      calls: [{
+        target: TARGET,
+        selector: '0x095ea7b3',
+        signature: 'approve(address,uint256)',
+        source: 'known',
+        action: 'approval',
+        args: [],
+        spender: SPENDER,
+        amount: '1',
+        unlimited: true,
+      }],
+    },
+    parties: [
+      { address: TARGET, role: 'target', label: null, scamFlags: [], isContract: true, contract: null },
+      {
+        address: SPENDER,
+        role: 'spender',
+        label: null,
+        scamFlags: [{ source: 'local', category: 'drainer', description: 'Inferno Drainer' }],
+        isContract: false,
+        contract: null,
+      },
+    ],
+    simulation: { status: 'reverted', from: TARGET, signerKnown: false, revertReason: 'paused', gasUsed: null, balanceChanges: [] },
+    keyFindings: [],
+    recommendations: ['Do NOT sign this transaction without thorough verification.'],
+    disclaimer: '⚠️ Not financial advice.',
+    analyzedAt: new Date().toISOString(),
+    responseTimeMs: 10,
+  };
+
+  it('shows the verdict, nested calls, flagged parties and simulation', () => {
+    const thread = formatPrecheckThread(report);
+    const joined = thread.join('\n');
+
+    expect(thread[0]).toContain('Transaction Pre-Check');
+    expect(thread[0]).toContain('🔴 HIGH RISK (75/100)');
+    expect(joined).toContain('• multicall(bytes[])');
+    expect(joined).toContain('  • approve(address,uint256)');
+    expect(joined).toContain('spender: 0xdddd...dddd');
+    expect(joined).toContain('amount: unlimited');
+    expect(joined).toContain('• spender: 0xdddd...dddd (EOA)');
+    expect(joined).toContain('⚠️ [local] drainer');
+    expect(joined).toContain('• Reverts: paused');
+    expect(joined).toContain('placeholder wallet');
+    for (const cast of thread) {
+      expect(new TextEncoder().encode(cast).length).toBeLessThanOrEqual(1024);
+    }
+  });
+});
@@ -3,7 +3,18 @@
 // ============================================================
 
 import { computeRiskScore } from '../src/services/riskScorer';
-import { WalletData, BasescanTransaction, BasescanTokenTransfer } from '../src/types';
+import {
+  WalletData,
+  BasescanTransaction,
+  BasescanTokenTransfer,
+  ContractAnalysis,
+  TokenRisk,
+  TokenApproval,
+  LookalikePair,
+  DrainEvent,
+  DeployedContract,
+  DeployerHistory,
+} from '../src/types';
 
 // Helper to create minimal WalletData for testing
 function makeWalletData(overrides: Partial<WalletData> = {}): WalletData {
@@ -208,4 +219,381 @@ describe('computeRiskScore', () => {
     // Should have elevated risk due to lack of data
     expect(result.score).toBeGreaterThan(20);
   });
+
+  describe('funding source', () => {
+    const funding = (data: WalletData) =>
+      computeRiskScore(data).signals.find((s) => s.name === 'Funding Source')!;
+    const hop = {
+      from: '0x' + 'f'.repeat(40),
+      to: '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1',
+      asset: 'ETH',
+      amount: '0.5',
+      txHash: '0x' + '1'.repeat(64),
+      timestamp: 1700000000,
+    };
+
+    it('scores exchange-funded wallets lowest', () => {
+      const origin = { label: 'Coinbase Hot Wallet 10', category: 'exchange', source: 'known' as const };
+      const signal = funding(makeWalletData({
+        fundingTrace: { hops: [{ ...hop, attribution: origin }], origin, stoppedBy: 'labeled', maxDepth: 3 },
+      }));
+      expect(signal.score).toBe(5);
+      expect(signal.description).toContain('Coinbase Hot Wallet 10');
+      expect(signal.evidence?.[0]).toMatch(/^Hop 1: /);
+    });
+
+    it('flags funding that traces back to a mixer', () => {
+      const origin = { label: 'Tornado Cash Router', category: 'mixer', source: 'scamDb' as const };
+      const signal = funding(makeWalletData({
+        fundingTrace: {
+          hops: [hop, { ...hop, to: hop.from, from: '0x' + 'd'.repeat(40), attribution: origin }],
+          origin,
+          stoppedBy: 'labeled',
+          maxDepth: 3,
+        },
+      }));
+      expect(signal.score).toBe(90);
+      expect(signal.description).toContain('mixer');
+      expect(signal.evidence).toHaveLength(2);
+    });
+
+    it('scores unattributed origins as mildly elevated', () => {
+      const signal = funding(makeWalletData({
+        fundingTrace: { hops: [hop, hop, hop], origin: null, stoppedBy: 'depth', maxDepth: 3 },
+      }));
+      expect(signal.score).toBe(20);
+      expect(signal.description).toContain('3 hop(s)');
+    });
+
+    it('skips the signal when the trace failed before finding anything', () => {
+      const result = computeRiskScore(makeWalletData({
+        fundingTrace: { hops: [], origin: null, stoppedBy: 'error', maxDepth: 3 },
+      }));
+      expect(result.signals.map((s) => s.name)).not.toContain('Funding Source');
+    });
+
+    it('keeps the hops found before a failed lookup', () => {
+      const signal = funding(makeWalletData({
+        fundingTrace: { hops: [hop], origin: null, stoppedBy: 'error', maxDepth: 3 },
+      }));
+      expect(signal.score).toBe(20);
+      expect(signal.description).toContain('failed lookup');
+    });
+
+    it('attributes the first inbound transfer when no trace was fetched', () => {
+      const signal = funding(makeWalletData({
+        transactions: [makeTx({
+          from: '0x28c6c06298d514db089934071355e5743bf21d60',
+          to: '0x742d35Cc6634C0532925a3b844Bc9e7595f8b3a1',
+        })],
+      }));
+      expect(signal.score).toBe(5);
+      expect(signal.description).toContain('Binance');
+    });
+  });
+});
+
+describe('computeRiskScore (contract mode)', () => {
+  const contract = (overrides: Partial<ContractAnalysis> = {}): ContractAnalysis => ({
+    verified: true,
+    contractName: 'Token',
+    compilerVersion: 'v0.8.20',
+    bytecodeSize: 4096,
+    proxy: null,
+    owner: null,
+    ownershipRenounced: false,
+    capabilities: [],
+    privilegedFunctions: [],
+    deployer: '0x' + 'f'.repeat(40),
+    creationTxHash: '0x' + '1'.repeat(64),
+    ...overrides,
+  });
+
+  it('scores contracts on contract signals instead of wallet heuristics', () => {
+    const result = computeRiskScore(makeWalletData({ isContract: true, contractAnalysis: contract() }));
+    expect(result.signals.map((s) => s.name)).toEqual([
+      'Source Verification',
+      'Upgradeability',
+      'Owner Privileges',
+      'Self-Destruct',
+      'Deployer',
+      'Scam Database',
+    ]);
+    expect(result.signals.reduce((sum, s) => sum + s.weight, 0)).toBeCloseTo(1.0, 10);
+    expect(result.level).toBe('LOW');
+  });
+
+  it('scores a smart account or 7702-delegated EOA on the wallet signals', () => {
+    const result = computeRiskScore(makeWalletData({
+      isContract: true,
+      smartAccount: { kind: 'eip7702', implementation: '0x' + 'd'.repeat(40) },
+    }));
+    const names = result.signals.map((s) => s.name);
+    expect(names).toContain('Account Age');
+    expect(names).not.toContain('Upgradeability');
+  });
+
+  it('rates an unverified, upgradeable, mintable contract higher', () => {
+    const risky = computeRiskScore(makeWalletData({
+      isContract: true,
+      contractAnalysis: contract({
+        verified: false,
+        proxy: { kind: 'eip1967', implementation: '0x' + 'd'.repeat(40), admin: null, beacon: null },
+        owner: '0x' + 'e'.repeat(40),
+        capabilities: ['mint', 'pause', 'blacklist', 'selfdestruct', 'upgrade'],
+      }),
+    }));
+    expect(risky.level).toBe('HIGH');
+    expect(risky.signals.find((s) => s.name === 'Owner Privileges')!.score).toBe(100);
+  });
+
+  it('discounts owner privileges once ownership is renounced', () => {
+    const result = computeRiskScore(makeWalletData({
+      isContract: true,
+      contractAnalysis: contract({
+        owner: '0x0000000000000000000000000000000000000000',
+        ownershipRenounced: true,
+        capabilities: ['mint', 'ownership'],
+      }),
+    }));
+    const privileges = result.signals.find((s) => s.name === 'Owner Privileges')!;
+    expect(privileges.score).toBe(15);
+    expect(privileges.description).toContain('renounced');
+  });
+});
+
+describe('computeRiskScore (token risk)', () => {
+  const token = (overrides: Partial<TokenRisk> = {}): TokenRisk => ({
+    token: '0x' + 'ab'.repeat(20),
+    symbol: 'SCAM',
+    relation: 'deployed',
+    simulation: 'ok',
+    buyTaxPct: 0,
+    sellTaxPct: 0,
+    transferTaxPct: 0,
+    honeypot: false,
+    owner: null,
+    ownerFunctions: [],
+    ...overrides,
+  });
+  const tokenSignal = (tokens: TokenRisk[]) =>
+    computeRiskScore(makeWalletData({ tokenRisks: tokens })).signals.find((s) => s.name === 'Token Risk');
+
+  it('is only added when tokens were simulated', () => {
+    expect(tokenSignal([])).toBeUndefined();
+    expect(tokenSignal([token()])!.score).toBe(5);
+  });
+
+  it('scores a deployed honeypot at the maximum', () => {
+    const signal = tokenSignal([token({ simulation: 'sellBlocked', sellTaxPct: null, honeypot: true })])!;
+    expect(signal.score).toBe(100);
+    expect(signal.description).toContain('Deployed honeypot token SCAM');
+    expect(signal.evidence![0]).toContain('HONEYPOT');
+  });
+
+  it('weighs held honeypots less than deployed ones', () => {
+    const signal = tokenSignal([token({ relation: 'held', simulation: 'sellBlocked', honeypot: true })])!;
+    expect(signal.score).toBe(60);
+    expect(signal.description).toContain('Holds 1 honeypot token(s)');
+  });
+
+  it('adds owner controls to taxed tokens', () => {
+    const signal = tokenSignal([
+      token({ sellTaxPct: 12, owner: '0x' + 'e'.repeat(40), ownerFunctions: ['setFee(uint256)'] }),
+    ])!;
+    expect(signal.score).toBe(65);
+    expect(signal.evidence![0]).toContain('owner controls: setFee(uint256)');
+  });
+});
+
+describe('computeRiskScore (approval logs)', () => {
+  const approval = (overrides: Partial<TokenApproval> = {}): TokenApproval => ({
+    kind: 'erc20',
+    token: '0x' + 'a'.repeat(40),
+    tokenSymbol: 'USDC',
+    spender: '0x' + 'c'.repeat(40),
+    spenderLabel: null,
+    spenderFlag: null,
+    spenderVerified: false,
+    amount: '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+    displayAmount: 'unlimited',
+    unlimited: true,
+    expiration: null,
+    txHash: '0x' + '1'.repeat(64),
+    timestamp: 1700000000,
+    risk: 'high',
+    riskScore: 80,
+    reasons: ['unlimited allowance to an unverified spender'],
+    revoke: { to: '0x' + 'a'.repeat(40), data: '0x095ea7b3' },
+    ...overrides,
+  });
+  const approvalSignal = (approvals: TokenApproval[], revokedCount = 0) =>
+    computeRiskScore(makeWalletData({
+      approvals: { approvals, eventsScanned: approvals.length + revokedCount, revokedCount, verifiedOnchain: true, complete: true },
+      // The tx-input heuristic would score these highly — logs take precedence
+      transactions: Array.from({ length: 12 }, (_, i) => makeTx({
+        hash: '0x' + i.toString(16).padStart(64, '0'),
+        functionName: 'approve',
+        input: '0x095ea7b3' + '0'.repeat(128),
+      })),
+    })).signals.find((s) => s.name === 'Contract Approvals')!;
+
+  it('scores revoked-only history as clean', () => {
+    const signal = approvalSignal([], 4);
+    expect(signal.score).toBe(5);
+    expect(signal.description).toContain('4 revoked, spent or expired');
+  });
+
+  it('flags live unlimited approvals to unverified spenders with per-spender evidence', () => {
+    const signal = approvalSignal([approval()]);
+    expect(signal.score).toBe(70);
+    expect(signal.evidence).toEqual(['USDC → 0xcccc...cccc: unlimited [high]']);
+  });
+
+  it('maxes out on approvals to flagged spenders', () => {
+    const signal = approvalSignal([approval({ spenderFlag: 'drainer', riskScore: 100 })]);
+    expect(signal.score).toBe(100);
+  });
+
+  it('stays low when every spender is a known protocol', () => {
+    const signal = approvalSignal([approval({ spenderLabel: 'Uniswap Permit2', risk: 'low', riskScore: 5 })]);
+    expect(signal.score).toBe(10);
+  });
+});
+
+
+describe('computeRiskScore (address poisoning)', () => {
+  const pair = (overrides: Partial<LookalikePair> = {}): LookalikePair => ({
+    genuine: '0x1234ab' + '0'.repeat(28) + '99cdef',
+    lookalike: '0x1234ab' + 'f'.repeat(28) + '99cdef',
+    kind: 'zeroValue',
+    asset: 'USDC',
+    txHash: '0x' + '1'.repeat(64),
+    timestamp: 1700000000,
+    fellFor: false,
+    ...overrides,
+  });
+  const poisoningSignal = (poisoning: WalletData['poisoning']) =>
+    computeRiskScore(makeWalletData(poisoning ? { poisoning } : {})).signals.find((s) => s.name === 'Address Poisoning');
+
+  it('is only added when poisoning was found', () => {
+    expect(poisoningSignal(undefined)).toBeUndefined();
+  });
+
+  it('marks a targeted wallet with the lookalike pairs as evidence', () => {
+    const signal = poisoningSignal({ pairs: [pair()], suspiciousTransfers: 1, sprayCounterparties: 1, perpetrator: false })!;
+    expect(signal.score).toBe(35);
+    expect(signal.evidence).toEqual(['0x1234ab...99cdef mimics 0x1234ab...99cdef (zero-value USDC)']);
+  });
+
+  it('scores a wallet that paid a lookalike higher', () => {
+    const signal = poisoningSignal({
+      pairs: [pair(), pair({ lookalike: '0x1234ab' + 'e'.repeat(28) + '99cdef', kind: 'dust', fellFor: true })],
+      suspiciousTransfers: 2,
+      sprayCounterparties: 2,
+      perpetrator: false,
+    })!;
+    expect(signal.score).toBe(60);
+    expect(signal.evidence![0]).toContain('(USDC dust, funds sent)');
+  });
+
+  it('scores poisoning at scale near the maximum', () => {
+    const signal = poisoningSignal({ pairs: [], suspiciousTransfers: 40, sprayCounterparties: 25, perpetrator: true })!;
+    expect(signal.score).toBe(95);
+    expect(signal.description).toContain('25 wallets');
+  });
+});
+
+describe('computeRiskScore (drain pattern)', () => {
+  const event = (overrides: Partial<DrainEvent> = {}): DrainEvent => ({
+    source: '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1',
+    destinations: ['0x' + 'd4'.repeat(20)],
+    assets: ['USDC', 'DEGEN'],
+    assetKinds: ['erc20', 'erc20'],
+    transfers: 2,
+    pulled: 2,
+    startedAt: 10000,
+    endedAt: 10060,
+    grant: { spender: '0x' + 'd4'.repeat(20), txHash: '0x' + '1'.repeat(64), timestamp: 9400 },
+    txHashes: [],
+    ...overrides,
+  });
+  const drainSignal = (drains: WalletData['drains']) =>
+    computeRiskScore(makeWalletData(drains ? { drains } : {})).signals.find((s) => s.name === 'Drain Pattern');
+
+  it('is only added when sweeps were found', () => {
+    expect(drainSignal(undefined)).toBeUndefined();
+  });
+
+  it('names the victim role and shows the sweep', () => {
+    const signal = drainSignal({ role: 'victim', events: [event()], sources: 1 })!;
+    expect(signal.score).toBe(55);
+    expect(signal.description).toContain('drain VICTIM');
+    expect(signal.description).toContain('shortly after an approval or permit');
+    expect(signal.evidence).toEqual(['0x742d...b3a1: USDC, DEGEN → 0xd4d4...d4d4 in 1 min (pulled 2, 10 min after approval)']);
+  });
+
+  it('scores a sweep signed by the victim key higher', () => {
+    const signal = drainSignal({ role: 'victim', events: [event({ pulled: 0, grant: null })], sources: 1 })!;
+    expect(signal.score).toBe(70);
+    expect(signal.description).toContain('key may be compromised');
+  });
+
+  it('names the sweeper role near the maximum', () => {
+    const signal = drainSignal({ role: 'sweeper', events: [event(), event({ source: '0x' + 'a1'.repeat(20) })], sources: 2 })!;
+    expect(signal.score).toBe(95);
+    expect(signal.description).toContain('SWEEPER / collector');
+    expect(signal.description).toContain('2 wallet(s)');
+  });
+});
+
+describe('computeRiskScore (deployer history)', () => {
+  const contract = (overrides: Partial<DeployedContract> = {}): DeployedContract => ({
+    address: '0x' + 'a7'.repeat(20),
+    txHash: '0x' + '1'.repeat(64),
+    timestamp: 10000,
+    via: 'direct',
+    symbol: 'MOON',
+    patterns: [],
+    evidence: [],
+    scamFlags: [],
+    ...overrides,
+  });
+  const history = (contracts: DeployedContract[]): DeployerHistory => ({
+    contracts,
+    found: contracts.length,
+    tokenCount: contracts.filter((c) => c.symbol !== null).length,
+    rugCount: contracts.filter((c) => c.patterns.length > 0).length,
+    complete: true,
+  });
+  const rugged = contract({ patterns: ['liquidityRemoved'], evidence: ['liquidity pulled 3 h after launch'] });
+
+  it('is only added when the wallet deployed contracts', () => {
+    const result = computeRiskScore(makeWalletData());
+    expect(result.signals.find((s) => s.name === 'Deployer History')).toBeUndefined();
+  });
+
+  it('scores clean deployments low', () => {
+    const result = computeRiskScore(makeWalletData({ deployerHistory: history([contract()]) }));
+    const signal = result.signals.find((s) => s.name === 'Deployer History')!;
+    expect(signal.score).toBe(10);
+    expect(signal.description).toContain('no rug patterns found');
+  });
+
+  it('lists rugged deployments as evidence', () => {
+    const result = computeRiskScore(makeWalletData({ deployerHistory: history([rugged, contract()]) }));
+    const signal = result.signals.find((s) => s.name === 'Deployer History')!;
+    expect(signal.score).toBe(70);
+    expect(signal.evidence).toEqual(['MOON (0xa7a7...a7a7): liquidity pulled 3 h after launch']);
+  });
+
+  it('rates a serial rug-puller HIGH even when its own wallet looks clean', () => {
+    const clean = computeRiskScore(makeWalletData());
+    const result = computeRiskScore(makeWalletData({ deployerHistory: history([rugged, rugged]) }));
+
+    expect(clean.level).not.toBe('HIGH');
+    expect(result.signals.find((s) => s.name === 'Deployer History')!.score).toBe(90);
+    expect(result.level).toBe('HIGH');
+    expect(result.score).toBeGreaterThanOrEqual(75);
+  });
 });
@@ -0,0 +1,177 @@
+// ============================================================
+// Tests — Scoring Model & Signal Registry
+// ============================================================
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  defaultScoringModel,
+  parseScoringModel,
+  loadScoringModel,
+  selectScoringModel,
+  riskLevelFor,
+  scamBoostFor,
+} from '../src/services/scoringModel';
+import { computeRiskScore } from '../src/services/riskScorer';
+import { registerSignal, getSignal, listSignals } from '../src/signals';
+import { ScoringModel, WalletData } from '../src/types';
+
+function makeWalletData(overrides: Partial<WalletData> = {}): WalletData {
+  return {
+    address: '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1',
+    balance: 1000000000000000000n,
+    transactionCount: 50,
+    transactions: [],
+    tokenTransfers: [],
+    internalTransactions: [],
+    accountAge: 3 * 86400, // 3 days
+    firstTxTimestamp: Math.floor(Date.now() / 1000) - 3 * 86400,
+    isContract: false,
+    scamFlags: [],
+    ...overrides,
+  };
+}
+
+/** The bundled model with `change` applied to a deep copy */
+function variant(change: (model: ScoringModel) => void): ScoringModel {
+  const model = JSON.parse(JSON.stringify(defaultScoringModel())) as ScoringModel;
+  change(model);
+  return parseScoringModel(model, 'test variant');
+}
+
+describe('bundled scoring model', () => {
+  it('only names registered signals and parameters', () => {
+    const model = defaultScoringModel();
+    for (const [id, settings] of [...Object.entries(model.wallet), ...Object.entries(model.contract)]) {
+      const module = getSignal(id)!;
+      expect(module).toBeDefined();
+      for (const key of Object.keys(settings.params ?? {})) expect(module.defaults).toHaveProperty(key);
+    }
+  });
+
+  it('lists every module default, so tuning never means reading code', () => {
+    const model = defaultScoringModel();
+    for (const [id, settings] of Object.entries(model.wallet)) {
+      expect(settings.params).toEqual(getSignal(id)!.defaults);
+    }
+  });
+
+  it('stamps its version on the assessment', () => {
+    const result = computeRiskScore(makeWalletData());
+    expect(result.modelVersion).toBe(defaultScoringModel().version);
+  });
+});
+
+describe('parseScoringModel', () => {
+  const base = (): ScoringModel => JSON.parse(JSON.stringify(defaultScoringModel()));
+
+  it.each<[string, (m: ScoringModel) => void, string]>([
+    ['unknown signal', (m) => (m.wallet.moonPhase = { weight: 0.1 }), 'unknown signal "moonPhase"'],
+    ['unknown parameter', (m) => (m.wallet.accountAge!.params!.typo = 1), 'unknown parameter "wallet.accountAge.params.typo"'],
+    ['weight above 1', (m) => (m.wallet.accountAge!.weight = 10), '"wallet.accountAge.weight"'],
+    ['unordered thresholds', (m) => (m.thresholds = { low: 60, medium: 30 }), '0 <= low < medium <= 100'],
+    ['missing version', (m) => delete (m as Partial<ScoringModel>).version, '"version"'],
+    ['empty boost table', (m) => (m.scamBoost = []), '"scamBoost"'],
+  ])('rejects %s', (_, change, message) => {
+    const raw = base();
+    change(raw);
+    expect(() => parseScoringModel(raw, 'test')).toThrow(message);
+  });
+});
+
+describe('computeRiskScore with a model', () => {
+  it('moves the level with the thresholds', () => {
+    const data = makeWalletData();
+    const strict = variant((m) => (m.thresholds = { low: 5, medium: 10 }));
+
+    expect(computeRiskScore(data, defaultScoringModel()).level).not.toBe('HIGH');
+    expect(computeRiskScore(data, strict).level).toBe('HIGH');
+  });
+
+  it('applies weights, parameters and enabled flags from the model', () => {
+    const model = variant((m) => {
+      m.wallet.accountAge!.weight = 0.5;
+      m.wallet.accountAge!.params!.veryNewScore = 40;
+      m.wallet.tokenDiversity!.enabled = false;
+    });
+
+    const { signals } = computeRiskScore(makeWalletData(), model);
+
+    expect(signals.find((s) => s.name === 'Account Age')).toMatchObject({ weight: 0.5, score: 40 });
+    expect(signals.find((s) => s.name === 'Token Diversity')).toBeUndefined();
+  });
+
+  it('applies the scam boost table', () => {
+    const flagged = makeWalletData({ scamFlags: [{ source: 'local', category: 'drainer', description: 'x' }] });
+    const boosted = variant((m) => (m.scamBoost = [0, 50]));
+
+    // bundled table adds 10 for one flag
+    expect(computeRiskScore(flagged, boosted).score - computeRiskScore(flagged).score).toBe(40);
+  });
+});
+
+describe('scoring helpers', () => {
+  it('maps scores to levels inclusively at the thresholds', () => {
+    const model = defaultScoringModel();
+    expect([30, 31, 60, 61].map((s) => riskLevelFor(s, model))).toEqual(['LOW', 'MEDIUM', 'MEDIUM', 'HIGH']);
+  });
+
+  it('uses the last boost entry for higher flag counts', () => {
+    expect(scamBoostFor(9, defaultScoringModel())).toBe(20);
+  });
+});
+
+describe('A/B selection', () => {
+  const primary = defaultScoringModel();
+  const challenger = variant((m) => (m.version = '1.1.0-challenger'));
+
+  it('buckets addresses stably by their trailing digits', () => {
+    const inBucket = '0x' + '1'.repeat(32) + '00000000'; // bucket 0
+    const outOfBucket = '0x' + '1'.repeat(32) + 'ffffffff'; // bucket 95
+
+    expect(selectScoringModel(inBucket, primary, challenger, 10).version).toBe('1.1.0-challenger');
+    expect(selectScoringModel(outOfBucket, primary, challenger, 10).version).toBe(primary.version);
+    expect(selectScoringModel(inBucket, primary, challenger, 0).version).toBe(primary.version);
+    expect(selectScoringModel(inBucket, primary, null, 100).version).toBe(primary.version);
+  });
+});
+
+describe('loadScoringModel', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'scoring-model-'));
+
+  it('reads a model file', () => {
+    const path = join(dir, 'model.json');
+    writeFileSync(path, JSON.stringify({ ...defaultScoringModel(), version: '2.0.0' }));
+    expect(loadScoringModel(path)?.version).toBe('2.0.0');
+  });
+
+  it('returns null for a missing or invalid file', () => {
+    const path = join(dir, 'broken.json');
+    writeFileSync(path, JSON.stringify({ version: '2.0.0' }));
+    expect(loadScoringModel(path)).toBeNull();
+    expect(loadScoringModel(join(dir, 'missing.json'))).toBeNull();
+  });
+});
+
+describe('signal registry', () => {
+  it('runs a registered plug-in signal named by the model', () => {
+    registerSignal({
+      id: 'alwaysFifty',
+      name: 'Always Fifty',
+      about: 'Test plug-in.',
+      defaults: { score: 50 },
+      evaluate: (_, p) => ({ score: p.score, description: 'Plug-in signal.' }),
+    });
+    const model = variant((m) => (m.wallet.alwaysFifty = { weight: 0.1, params: { score: 80 } }));
+
+    const signal = computeRiskScore(makeWalletData(), model).signals.find((s) => s.name === 'Always Fifty');
+
+    expect(signal).toMatchObject({ weight: 0.1, score: 80 });
+    expect(listSignals().map((s) => s.id)).toContain('alwaysFifty');
+  });
+
+  it('refuses to replace a registered signal', () => {
+    expect(() => registerSignal({ ...getSignal('accountAge')! })).toThrow('already registered');
+  });
+});
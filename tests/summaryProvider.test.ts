@@ -0,0 +1,112 @@
+// ============================================================
+// Tests — Summary Providers
+// ============================================================
+
+import {
+  TemplateSummaryProvider,
+  OpenAiSummaryProvider,
+  createSummaryProvider,
+  getSummaryProvider,
+  generateFallbackSummary,
+  SummaryContext,
+} from '../src/services/summaryProvider';
+import { parseAiSummary } from '../src/services/summarySchema';
+import { WalletData, RiskSignal } from '../src/types';
+
+function makeContext(overrides: Partial<SummaryContext> = {}): SummaryContext {
+  const data: WalletData = {
+    address: '0x742d35Cc6634C0532925a3b844Bc9e7595f8b3a1',
+    balance: 0n,
+    transactionCount: 42,
+    transactions: [],
+    tokenTransfers: [],
+    internalTransactions: [],
+    accountAge: 90 * 86400,
+    firstTxTimestamp: Math.floor(Date.now() / 1000) - 90 * 86400,
+    isContract: false,
+    scamFlags: [],
+  };
+  const signals: RiskSignal[] = [
+    { name: 'Account Age', weight: 0.1, score: 30, description: 'Account is 90 days old.' },
+    { name: 'Large Transfers', weight: 0.15, score: 80, description: 'Cluster of large outgoing transfers.' },
+  ];
+  return {
+    data,
+    riskScore: 45,
+    riskLevel: 'MEDIUM',
+    signals,
+    keyFindings: [],
+    topInteractions: [],
+    ...overrides,
+  };
+}
+
+describe('TemplateSummaryProvider', () => {
+  const provider = new TemplateSummaryProvider();
+
+  it('returns JSON that passes schema validation', async () => {
+    const context = makeContext();
+    const raw = await provider.generate('ignored prompt', context);
+    const parsed = parseAiSummary(raw, context.signals.map((s) => s.name));
+    expect(parsed.ok).toBe(true);
+  });
+
+  it('is deterministic for the same inputs', async () => {
+    const context = makeContext();
+    const a = await provider.generate('prompt a', context);
+    const b = await provider.generate('prompt b', context);
+    expect(a).toBe(b);
+  });
+
+  it('comments only on notable signals and cites nothing', async () => {
+    const raw = await provider.generate('', makeContext());
+    const output = JSON.parse(raw);
+    expect(output.signalCommentary).toEqual([
+      { signal: 'Large Transfers', commentary: 'Cluster of large outgoing transfers.' },
+    ]);
+    expect(output.citedTxHashes).toEqual([]);
+    expect(output.citedAddresses).toEqual([]);
+  });
+
+  it('uses the fallback summary wording for the level', async () => {
+    const output = JSON.parse(await provider.generate('', makeContext({ riskLevel: 'HIGH', riskScore: 80 })));
+    expect(output.summary).toContain('multiple red flags (80/100)');
+    expect(output.verdictWording).toContain('malicious');
+  });
+});
+
+describe('generateFallbackSummary', () => {
+  it('mentions age, tx count and score', () => {
+    const { data } = makeContext();
+    const text = generateFallbackSummary('LOW', 12, data);
+    expect(text).toContain('low-risk (12/100)');
+    expect(text).toContain('90 days old');
+    expect(text).toContain('42 transactions');
+  });
+
+  it('handles unknown age', () => {
+    const { data } = makeContext();
+    expect(generateFallbackSummary('MEDIUM', 40, { ...data, accountAge: null })).toContain('unknown age');
+  });
+});
+
+describe('createSummaryProvider', () => {
+  it('builds the template provider', () => {
+    expect(createSummaryProvider('template')).toBeInstanceOf(TemplateSummaryProvider);
+  });
+
+  it('builds the OpenAI provider', () => {
+    const provider = createSummaryProvider('openai');
+    expect(provider).toBeInstanceOf(OpenAiSummaryProvider);
+    expect(provider.name).toBe('openai');
+  });
+
+  it('requires a base URL for the OpenAI-compatible provider', () => {
+    expect(() => createSummaryProvider('openai-compatible')).toThrow('SUMMARY_BASE_URL');
+  });
+
+  it('getSummaryProvider uses the configured provider', () => {
+    expect(getSummaryProvider().name).toBe('template');
+    expect(getSummaryProvider()).toBe(getSummaryProvider());
+  });
+});
@@ -0,0 +1,89 @@
+// ============================================================
+// Tests — Structured LLM Output Schema
+// ============================================================
+
+import { parseAiSummary, AI_SUMMARY_LIMITS } from '../src/services/summarySchema';
+
+const SIGNALS = ['Account Age', 'Scam Database', 'Large Transfers'];
+
+function makeResponse(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    summary: 'Indicators suggest an established wallet with normal DeFi activity.',
+    verdictWording: 'Patterns consistent with normal usage',
+    signalCommentary: [
+      { signal: 'Account Age', commentary: 'The account appears well-established.' },
+    ],
+    citedTxHashes: ['0x' + 'a'.repeat(64)],
+    citedAddresses: ['0x' + 'b'.repeat(40)],
+    ...overrides,
+  });
+}
+
+describe('parseAiSummary', () => {
+  it('accepts a well-formed response', () => {
+    const result = parseAiSummary(makeResponse(), SIGNALS);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.summary).toContain('established wallet');
+      expect(result.value.verdictWording).toBe('Patterns consistent with normal usage');
+      expect(result.value.signalCommentary).toHaveLength(1);
+      expect(result.value.citedTxHashes).toHaveLength(1);
+      expect(result.value.citedAddresses).toHaveLength(1);
+    }
+  });
+
+  it('accepts empty citation and commentary lists', () => {
+    const result = parseAiSummary(
+      makeResponse({ signalCommentary: [], citedTxHashes: [], citedAddresses: [] }),
+      SIGNALS,
+    );
+    expect(result.ok).toBe(true);
+  });
+
+  it('rejects non-JSON text', () => {
+    const result = parseAiSummary('This wallet looks fine.', SIGNALS);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toContain('not valid JSON');
+  });
+
+  it('rejects JSON that is not an object', () => {
+    expect(parseAiSummary('["summary"]', SIGNALS).ok).toBe(false);
+    expect(parseAiSummary('null', SIGNALS).ok).toBe(false);
+  });
+
+  it('rejects missing or empty required fields', () => {
+    expect(parseAiSummary(makeResponse({ summary: '' }), SIGNALS).ok).toBe(false);
+    expect(parseAiSummary(makeResponse({ verdictWording: undefined }), SIGNALS).ok).toBe(false);
+    expect(parseAiSummary(makeResponse({ citedTxHashes: 'none' }), SIGNALS).ok).toBe(false);
+  });
+
+  it('rejects over-long fields', () => {
+    const long = 'x'.repeat(AI_SUMMARY_LIMITS.summaryMaxChars + 1);
+    const result = parseAiSummary(makeResponse({ summary: long }), SIGNALS);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toContain('exceeds');
+  });
+
+  it('rejects malformed tx hashes and addresses', () => {
+    expect(parseAiSummary(makeResponse({ citedTxHashes: ['0x1234'] }), SIGNALS).ok).toBe(false);
+    expect(parseAiSummary(makeResponse({ citedAddresses: ['0xnotanaddress'] }), SIGNALS).ok).toBe(false);
+  });
+
+  it('rejects commentary for signals that were not provided', () => {
+    const result = parseAiSummary(
+      makeResponse({ signalCommentary: [{ signal: 'Moon Phase', commentary: 'Waxing.' }] }),
+      SIGNALS,
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toContain('Moon Phase');
+  });
+
+  it('collects every schema error in one pass', () => {
+    const result = parseAiSummary(
+      JSON.stringify({ summary: 42, verdictWording: '', signalCommentary: {}, citedTxHashes: [], citedAddresses: [] }),
+      SIGNALS,
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.length).toBe(3);
+  });
+});
@@ -0,0 +1,271 @@
+// ============================================================
+// Tests — Token Honeypot & Tax Analyzer
+// ============================================================
+// simulateToken runs against a scripted fake client. Set
+// ANVIL_RPC_URL to a Base fork (e.g. `anvil --fork-url <base rpc>`)
+// to also run it against a real node.
+// ============================================================
+
+import {
+  createPublicClient,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionResult,
+  http,
+  keccak256,
+  parseAbi,
+  type Hex,
+} from 'viem';
+import { simulateToken, tokenCandidates, SimulationClient } from '../src/services/tokenAnalyzer';
+import { config } from '../src/config';
+import { WalletData } from '../src/types';
+
+const TOKEN = ('0x' + 'ab'.repeat(20)) as Hex;
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f8b3a1';
+const WETH = config.tokenSimWeth.toLowerCase();
+
+const ABI = parseAbi([
+  'function balanceOf(address) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[])',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+]);
+
+interface TokenModel {
+  pair?: boolean; // router has a pair for the token
+  buyTax?: number; // fractions, e.g. 0.05
+  transferTax?: number;
+  sellTax?: number;
+  sellBlocked?: boolean;
+  buyBlocked?: boolean;
+  balanceSlot?: bigint; // Solidity mapping slot for the transfer-only path
+}
+
+const TOKENS_PER_ETH = 1000n;
+
+/** A fake client that executes each simulated block against a tiny token model */
+function fakeClient(model: TokenModel): SimulationClient {
+  const pair = model.pair ?? true;
+  const taxed = (amount: bigint, tax = 0) => amount - (amount * BigInt(Math.round(tax * 1000))) / 1000n;
+
+  const simulateBlocks = jest.fn(async ({ blocks }: { blocks: Array<{ calls: Array<{ account?: Hex; to: Hex; data: Hex; value?: bigint }>; stateOverrides?: Array<{ address: Hex; stateDiff?: unknown[] }> }> }) => {
+    const balances = new Map<string, bigint>();
+    let weth = 0n;
+    const overridden = blocks[0]!.stateOverrides?.some((o) => o.address === TOKEN && o.stateDiff);
+    if (overridden) balances.set('buyer', 10n ** 18n);
+
+    const calls = blocks[0]!.calls.map((call) => {
+      const { functionName, args } = decodeFunctionData({ abi: ABI, data: call.data });
+      const ok = (data: Hex = '0x') => ({ status: 'success' as const, data });
+      const fail = { status: 'failure' as const, data: '0x' as Hex };
+      const holder = (address: string) => (address.toLowerCase().endsWith('7e1170') ? 'buyer' : 'recipient');
+
+      switch (functionName) {
+        case 'getAmountsOut': {
+          if (!pair) return fail;
+          const [amountIn, path] = args;
+          const out = path[0]!.toLowerCase() === WETH ? amountIn * TOKENS_PER_ETH : amountIn / TOKENS_PER_ETH;
+          return ok(encodeFunctionResult({ abi: ABI, functionName, result: [amountIn, out] }));
+        }
+        case 'swapExactETHForTokensSupportingFeeOnTransferTokens':
+          if (!pair || model.buyBlocked) return fail;
+          balances.set('buyer', taxed(call.value! * TOKENS_PER_ETH, model.buyTax));
+          return ok();
+        case 'swapExactTokensForTokensSupportingFeeOnTransferTokens': {
+          if (model.sellBlocked) return fail;
+          const [amountIn] = args;
+          weth += taxed(amountIn, model.sellTax) / TOKENS_PER_ETH;
+          return ok();
+        }
+        case 'transfer': {
+          const [, amount] = args;
+          balances.set('buyer', (balances.get('buyer') ?? 0n) - amount);
+          balances.set('recipient', taxed(amount, model.transferTax));
+          return ok(encodeFunctionResult({ abi: ABI, functionName, result: true }));
+        }
+        case 'approve':
+          return ok(encodeFunctionResult({ abi: ABI, functionName, result: true }));
+        case 'balanceOf': {
+          const [account] = args;
+          const value = call.to.toLowerCase() === WETH ? weth : balances.get(holder(account)) ?? 0n;
+          return ok(encodeFunctionResult({ abi: ABI, functionName, result: value }));
+        }
+      }
+    });
+
+    return [{ calls }];
+  });
+
+  const call = jest.fn(async ({ stateOverride }: { stateOverride?: Array<{ stateDiff?: Array<{ slot: Hex; value: Hex }> }> }) => {
+    const diff = stateOverride?.[0]?.stateDiff?.[0];
+    const buyer = '0x00000000000000000000000000000000007e1170';
+    const expected =
+      model.balanceSlot !== undefined
+        ? keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [buyer, model.balanceSlot]))
+        : null;
+    return { data: diff && diff.slot === expected ? diff.value : (('0x' + '0'.repeat(64)) as Hex) };
+  });
+
+  return { simulateBlocks, call, readContract: jest.fn() } as unknown as SimulationClient;
+}
+
+/**
+ * A fake node without eth_simulateV1: every check is a standalone
+ * eth_call. The token honours any storage override for balanceOf and
+ * allowance, and the sell only goes through with both in place.
+ */
+function callOnlyClient(model: TokenModel): SimulationClient {
+  const pair = model.pair ?? true;
+  const simulateBlocks = jest.fn(async () => {
+    throw Object.assign(new Error('RPC Request failed.'), {
+      cause: { code: -32601, message: 'the method eth_simulateV1 does not exist/is not available' },
+    });
+  });
+
+  const call = jest.fn(async ({ data, stateOverride }: { data: Hex; stateOverride?: Array<{ stateDiff?: Array<{ slot: Hex; value: Hex }> }> }) => {
+    const diffs = stateOverride?.flatMap((o) => o.stateDiff ?? []) ?? [];
+    const { functionName, args } = decodeFunctionData({ abi: ABI, data });
+    const revert = () => Promise.reject(Object.assign(new Error('execution reverted'), { name: 'ExecutionRevertedError' }));
+    switch (functionName) {
+      case 'getAmountsOut':
+        if (!pair) return revert();
+        return { data: encodeFunctionResult({ abi: ABI, functionName, result: [args[0], args[0] * TOKENS_PER_ETH] }) };
+      case 'swapExactETHForTokensSupportingFeeOnTransferTokens':
+        return model.buyBlocked ? revert() : { data: '0x' };
+      case 'swapExactTokensForTokensSupportingFeeOnTransferTokens':
+        return model.sellBlocked || diffs.length < 2 ? revert() : { data: '0x' };
+      case 'balanceOf':
+      case 'allowance':
+        return { data: diffs[0]?.value ?? (('0x' + '0'.repeat(64)) as Hex) };
+      default:
+        return { data: encodeFunctionResult({ abi: ABI, functionName: 'transfer', result: true }) };
+    }
+  });
+
+  return { simulateBlocks, call, readContract: jest.fn() } as unknown as SimulationClient;
+}
+
+describe('simulateToken', () => {
+  it('passes a clean token with zero taxes', async () => {
+    const result = await simulateToken(fakeClient({}), TOKEN);
+    expect(result).toEqual({ status: 'ok', buyTaxPct: 0, sellTaxPct: 0, transferTaxPct: 0 });
+  });
+
+  it('measures buy, transfer and sell taxes', async () => {
+    const result = await simulateToken(fakeClient({ buyTax: 0.05, transferTax: 0.02, sellTax: 0.1 }), TOKEN);
+    expect(result).toEqual({ status: 'ok', buyTaxPct: 5, sellTaxPct: 10, transferTaxPct: 2 });
+  });
+
+  it('flags sells that revert', async () => {
+    const result = await simulateToken(fakeClient({ sellBlocked: true }), TOKEN);
+    expect(result.status).toBe('sellBlocked');
+    expect(result.buyTaxPct).toBe(0);
+  });
+
+  it('reports buys that revert despite a quote', async () => {
+    const result = await simulateToken(fakeClient({ buyBlocked: true }), TOKEN);
+    expect(result.status).toBe('buyFailed');
+  });
+
+  it('falls back to a transfer-only check when there is no pair', async () => {
+    const result = await simulateToken(fakeClient({ pair: false, balanceSlot: 3n, transferTax: 0.25 }), TOKEN);
+    expect(result).toEqual({ status: 'noLiquidity', buyTaxPct: null, sellTaxPct: null, transferTaxPct: 25 });
+  });
+
+  it('gives up when neither a pair nor the balance slot is found', async () => {
+    const result = await simulateToken(fakeClient({ pair: false }), TOKEN);
+    expect(result.status).toBe('unsupported');
+  });
+
+  describe('without eth_simulateV1', () => {
+    it('checks the buy and sell with eth_call instead of failing', async () => {
+      const result = await simulateToken(callOnlyClient({}), TOKEN);
+      expect(result).toEqual({ status: 'ok', buyTaxPct: null, sellTaxPct: null, transferTaxPct: null });
+    });
+
+    it('still flags sells that revert', async () => {
+      const result = await simulateToken(callOnlyClient({ sellBlocked: true }), TOKEN);
+      expect(result.status).toBe('sellBlocked');
+    });
+
+    it('still reports buys that revert', async () => {
+      const result = await simulateToken(callOnlyClient({ buyBlocked: true }), TOKEN);
+      expect(result.status).toBe('buyFailed');
+    });
+
+    it('reports a token without a pair as lacking liquidity', async () => {
+      const result = await simulateToken(callOnlyClient({ pair: false }), TOKEN);
+      expect(result.status).toBe('noLiquidity');
+    });
+
+    it('rethrows provider failures other than a missing method', async () => {
+      const client = fakeClient({});
+      (client.simulateBlocks as jest.Mock).mockRejectedValueOnce(new Error('fetch failed'));
+      await expect(simulateToken(client, TOKEN)).rejects.toThrow('fetch failed');
+    });
+  });
+});
+
+describe('tokenCandidates', () => {
+  const transfer = (from: string, to: string, token: string, value: string) => ({
+    blockNumber: '1',
+    timeStamp: '1700000000',
+    hash: '0x' + '1'.repeat(64),
+    from,
+    to,
+    value,
+    tokenName: 'T',
+    tokenSymbol: 'T',
+    tokenDecimal: '18',
+    contractAddress: token,
+  });
+
+  it('selects deployed and still-held tokens, skipping well-known ones', () => {
+    const held = '0x' + 'c'.repeat(40);
+    const sold = '0x' + 'd'.repeat(40);
+    const deployed = '0x' + 'e'.repeat(40);
+    const usdc = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+    const data: Pick<WalletData, 'address' | 'isContract' | 'transactions' | 'tokenTransfers'> = {
+      address: WALLET,
+      isContract: false,
+      transactions: [
+        {
+          blockNumber: '1', timeStamp: '1700000000', hash: '0x' + '2'.repeat(64), from: WALLET, to: '',
+          value: '0', gas: '1', gasUsed: '1', isError: '0', functionName: '', contractAddress: deployed, input: '0x',
+        },
+      ],
+      tokenTransfers: [
+        transfer('0x' + 'f'.repeat(40), WALLET, held, '100'),
+        transfer('0x' + 'f'.repeat(40), WALLET, sold, '100'),
+        transfer(WALLET, '0x' + 'f'.repeat(40), sold, '100'),
+        transfer('0x' + 'f'.repeat(40), WALLET, usdc, '100'),
+      ],
+    };
+
+    expect(tokenCandidates(data)).toEqual([
+      { token: deployed, relation: 'deployed' },
+      { token: held, relation: 'held' },
+    ]);
+  });
+
+  it('puts the address itself first when it is a contract', () => {
+    const token = '0x' + 'c'.repeat(40);
+    expect(tokenCandidates({ address: token, isContract: true, transactions: [], tokenTransfers: [] })).toEqual([
+      { token, relation: 'self' },
+    ]);
+  });
+});
+
+const describeAnvil = process.env.ANVIL_RPC_URL ? describe : describe.skip;
+
+describeAnvil('simulateToken (local fork)', () => {
+  it('finds no honeypot on USDC', async () => {
+    const client = createPublicClient({ transport: http(process.env.ANVIL_RPC_URL) });
+    const result = await simulateToken(client, '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+    expect(result.status).toBe('ok');
+    expect(result.sellTaxPct ?? 0).toBeLessThan(2);
+  });
+});